@@ -2,6 +2,7 @@ import type { VercelRequest } from '@vercel/node';
 import { db } from '../../src/db/index.js';
 import { sessions, users, userTenantAccess, tenants } from '../../src/db/schema.js';
 import { eq, and } from 'drizzle-orm';
+import { toTenantRole, type TenantRole } from '../../src/utils/permissions.js';
 
 export interface AuthResult {
   user: {
@@ -11,7 +12,10 @@ export interface AuthResult {
     isAccountant: boolean;
   };
   tenantId: string;
+  tenantSubdomain: string; // also the tenant's blob path prefix
   sessionId: string;
+  role: TenantRole; // role within the resolved tenant (see src/utils/permissions.ts)
+  canEdit: boolean; // accountant edit override from user_tenant_access
 }
 
 export interface SuperAdminAuthResult {
@@ -72,7 +76,7 @@ export async function authenticateRequest(
   if (tenant.deletedAt) return null;
 
   // 5. Verify user has access to this tenant
-  const [hasAccess] = await db
+  const [access] = await db
     .select()
     .from(userTenantAccess)
     .where(and(
@@ -81,12 +85,18 @@ export async function authenticateRequest(
     ))
     .limit(1);
 
-  if (!hasAccess && !user.isSuperAdmin) return null;
+  if (!access && !user.isSuperAdmin) return null;
+
+  // Super admins without an access row act as tenant admins
+  const role = access ? toTenantRole(access.role) : 'admin';
 
   return {
     user,
     tenantId: tenant.id,
+    tenantSubdomain,
     sessionId: session.id,
+    role,
+    canEdit: access?.canEdit ?? false,
   };
 }
 
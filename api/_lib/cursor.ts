@@ -0,0 +1,57 @@
+import { sql, desc, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// Keyset pagination for lists ordered newest-first by (date, createdAt, id).
+// Cursors are opaque to the client — pass back `nextCursor` as `?cursor=` to get the next page.
+
+export interface ListCursor {
+  date: Date;
+  createdAt: Date;
+  id: string;
+}
+
+interface KeysetColumns {
+  date: AnyPgColumn;
+  createdAt: AnyPgColumn;
+  id: AnyPgColumn;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// createdAt has microsecond precision in Postgres but JS Dates stop at milliseconds
+const createdAtMs = (column: AnyPgColumn) => sql`date_trunc('milliseconds', ${column})`;
+
+export function encodeCursor(row: { date: Date; createdAt: Date; id: string }): string {
+  return Buffer.from(JSON.stringify({
+    d: row.date.toISOString(),
+    c: row.createdAt.toISOString(),
+    id: row.id,
+  })).toString('base64url');
+}
+
+/** Returns null for a missing or malformed cursor — callers treat that as "first page" or a 400. */
+export function decodeCursor(cursor: unknown): ListCursor | null {
+  if (typeof cursor !== 'string' || cursor.length === 0) return null;
+  try {
+    const { d, c, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const date = new Date(d);
+    const createdAt = new Date(c);
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+    if (isNaN(date.getTime()) || isNaN(createdAt.getTime())) return null;
+    return { date, createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/** ORDER BY for a keyset-paginated list */
+export function keysetOrder(columns: KeysetColumns): SQL[] {
+  return [desc(columns.date), desc(createdAtMs(columns.createdAt)), desc(columns.id)];
+}
+
+/** WHERE clause for rows after the cursor in keysetOrder */
+export function keysetAfter(columns: KeysetColumns, cursor: ListCursor): SQL {
+  // Timestamps are stored without a zone, as UTC wall-clock (same as drizzle's own writes)
+  const toTimestamp = (date: Date) => date.toISOString().replace('T', ' ').replace('Z', '');
+  return sql`(${columns.date}, ${createdAtMs(columns.createdAt)}, ${columns.id}) < (${toTimestamp(cursor.date)}::timestamp, ${toTimestamp(cursor.createdAt)}::timestamp, ${cursor.id}::uuid)`;
+}
@@ -0,0 +1,132 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from 'pdf-lib';
+
+// Turns an e-receipt's HTML body into plain text and a printable PDF, so
+// an emailed receipt with no attachment can be kept like any other
+// receipt file. Layout is deliberately plain: the text is what matters.
+
+const PAGE_WIDTH = 612;   // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 14;
+
+const GRAY = rgb(0.4, 0.4, 0.4);
+const BLACK = rgb(0.1, 0.1, 0.1);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', yen: '¥', cent: '¢', times: '×', middot: '·', bull: '•',
+};
+
+function decodeEntity(entity: string): string {
+  if (entity[0] === '#') {
+    const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+  }
+  return NAMED_ENTITIES[entity.toLowerCase()] ?? `&${entity};`;
+}
+
+/**
+ * Plain text of an HTML email, one visual line per line: block elements
+ * and table rows break lines, table cells are spaced apart so a row like
+ * "Order Total | $45.99" stays on one line for the receipt heuristics.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head|title)\b[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6]|table|section|header|footer|blockquote)\s*>/gi, '\n')
+    .replace(/<\/t[dh]\s*>/gi, '  ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (_, entity: string) => decodeEntity(entity));
+
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Standard PDF fonts only cover WinAnsi — normalize what we can and drop the rest (emoji etc.) */
+function pdfLine(value: string): string {
+  return value
+    .replace(/\t/g, ' ')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '');
+}
+
+/** Word-wrap one line; words too long for a line (URLs) are broken mid-word */
+function wrapLine(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (let word of text.split(' ')) {
+    while (font.widthOfTextAtSize(word, size) > maxWidth) {
+      let end = word.length - 1;
+      while (end > 1 && font.widthOfTextAtSize(word.slice(0, end), size) > maxWidth) end--;
+      if (line) lines.push(line);
+      lines.push(word.slice(0, end));
+      line = '';
+      word = word.slice(end);
+    }
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+export interface EmailRenderInput {
+  subject: string | null;
+  from: string;
+  date: Date | null;
+  text: string;
+}
+
+/** A paginated PDF of the email: subject, sender and date, then the body text */
+export async function renderEmailPdf({ subject, from, date, text }: EmailRenderInput): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  doc.setTitle(pdfLine(subject || 'Emailed receipt'));
+
+  let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of wrapLine(pdfLine(subject || 'Emailed receipt'), bold, 14, CONTENT_WIDTH)) {
+    page.drawText(line, { x: MARGIN, y, size: 14, font: bold, color: BLACK });
+    y -= 20;
+  }
+  const meta = [`From: ${from}`, date ? `Date: ${date.toUTCString()}` : null].filter((m): m is string => m !== null);
+  for (const line of meta) {
+    page.drawText(pdfLine(line), { x: MARGIN, y, size: 9, font: regular, color: GRAY });
+    y -= 13;
+  }
+  y -= 6;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.5, color: GRAY });
+  y -= 20;
+
+  for (const paragraph of text.split('\n')) {
+    for (const line of wrapLine(pdfLine(paragraph), regular, BODY_SIZE, CONTENT_WIDTH)) {
+      if (y < MARGIN) {
+        page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      if (line) page.drawText(line, { x: MARGIN, y, size: BODY_SIZE, font: regular, color: BLACK });
+      y -= LINE_HEIGHT;
+    }
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,125 @@
+import { db } from '../../src/db/index.js';
+import { exchangeRates } from '../../src/db/schema.js';
+import { asc } from 'drizzle-orm';
+import { DEFAULT_EXCHANGE_RATES } from '../../src/db/default-exchange-rates.js';
+import { isCurrencyCode, convertMinorUnits } from '../../src/utils/currency.js';
+
+export interface ExchangeRate {
+  currency: string;
+  effectiveDate: Date;
+  unitsPerUsd: number;
+}
+
+const dayKey = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * All quotes, oldest first. Seeds the bundled reference rates if the table
+ * is empty so a fresh (or offline) database can still convert.
+ */
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  const select = () => db
+    .select({
+      currency: exchangeRates.currency,
+      effectiveDate: exchangeRates.effectiveDate,
+      unitsPerUsd: exchangeRates.unitsPerUsd,
+    })
+    .from(exchangeRates)
+    .orderBy(asc(exchangeRates.effectiveDate));
+
+  const rates = await select();
+  if (rates.length > 0) return rates;
+
+  await db
+    .insert(exchangeRates)
+    .values(DEFAULT_EXCHANGE_RATES.map(r => ({
+      currency: r.currency,
+      effectiveDate: new Date(r.effectiveDate + 'T12:00:00.000Z'),
+      unitsPerUsd: r.unitsPerUsd,
+    })))
+    .onConflictDoNothing();
+
+  return select();
+}
+
+/**
+ * Units of `currency` per US dollar on a date — the latest quote on or
+ * before it, or the earliest quote for older dates. Null if never quoted.
+ */
+function unitsPerUsdOn(rates: ExchangeRate[], currency: string, date: Date | string): number | null {
+  if (currency === 'USD') return 1;
+  const day = dayKey(date);
+  let rate: number | null = null;
+  for (const r of rates) {
+    if (r.currency !== currency) continue;
+    if (rate !== null && dayKey(r.effectiveDate) > day) break;
+    rate = r.unitsPerUsd;
+  }
+  return rate;
+}
+
+/** Units of `to` per one unit of `from` on a date (8 decimal places), or null when either isn't quoted */
+export function exchangeRateFor(rates: ExchangeRate[], from: string, to: string, date: Date | string): number | null {
+  if (from === to) return 1;
+  const fromPerUsd = unitsPerUsdOn(rates, from, date);
+  const toPerUsd = unitsPerUsdOn(rates, to, date);
+  if (!fromPerUsd || !toPerUsd) return null;
+  return Math.round((toPerUsd / fromPerUsd) * 1e8) / 1e8;
+}
+
+export interface CurrencyInput {
+  amount: number;         // minor units of `currency`
+  currency?: unknown;     // Optional: ISO 4217 code (defaults to the base currency)
+  exchangeRate?: unknown; // Optional: override the table rate (base units per 1 `currency`)
+  date: Date;
+}
+
+export interface CurrencyValues {
+  amount: number; // base currency
+  currency: string;
+  originalAmount: number | null;
+  exchangeRate: number | null;
+}
+
+/**
+ * Convert an entered amount to the tenant's base currency. A base-currency
+ * expense passes straight through with no original or rate stored.
+ */
+export function convertToBase(
+  input: CurrencyInput,
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): { errors: string[]; values: CurrencyValues | null } {
+  const currency = input.currency === undefined || input.currency === null || input.currency === ''
+    ? baseCurrency
+    : input.currency;
+
+  if (!isCurrencyCode(currency)) {
+    return { errors: ['Unsupported currency'], values: null };
+  }
+  if (currency === baseCurrency) {
+    return { errors: [], values: { amount: input.amount, currency, originalAmount: null, exchangeRate: null } };
+  }
+
+  let rate: number | null;
+  if (input.exchangeRate !== undefined && input.exchangeRate !== null) {
+    if (typeof input.exchangeRate !== 'number' || !isFinite(input.exchangeRate) || input.exchangeRate <= 0) {
+      return { errors: ['Exchange rate must be a positive number'], values: null };
+    }
+    rate = Math.round(input.exchangeRate * 1e8) / 1e8;
+  } else {
+    rate = exchangeRateFor(rates, currency, baseCurrency, input.date);
+    if (rate === null) {
+      return { errors: [`No exchange rate on file for ${currency} — enter the rate manually`], values: null };
+    }
+  }
+
+  const amount = convertMinorUnits(input.amount, currency, baseCurrency, rate);
+  if (amount <= 0) {
+    return { errors: ['Amount is too small to convert'], values: null };
+  }
+
+  return {
+    errors: [],
+    values: { amount, currency, originalAmount: input.amount, exchangeRate: rate },
+  };
+}
@@ -0,0 +1,91 @@
+import { db } from '../../src/db/index.js';
+import { expenseHistory, expenses } from '../../src/db/schema.js';
+
+export type ExpenseHistoryAction = 'create' | 'update' | 'delete' | 'reassign';
+
+type ExpenseRow = typeof expenses.$inferSelect;
+
+/**
+ * Fields captured in history snapshots. Audit-only columns (createdAt,
+ * updatedBy, ...) are left out so an "update" row only ever reflects
+ * changes a person would recognize.
+ */
+export const AUDITED_EXPENSE_FIELDS = [
+  'amount',
+  'currency',
+  'exchangeRate',
+  'taxAmount',
+  'taxRate',
+  'date',
+  'vendor',
+  'description',
+  'categoryId',
+  'expenseType',
+  'isHomeOffice',
+  'homeOfficePercent',
+  'paymentAccountId',
+  'isReimbursable',
+  'approvalStatus',
+  'approvalComment',
+] as const satisfies readonly (keyof ExpenseRow)[];
+
+export type AuditedField = typeof AUDITED_EXPENSE_FIELDS[number];
+export type ExpenseSnapshot = Partial<Record<AuditedField, string | number | boolean | null>>;
+
+/**
+ * Pick the audited fields off an expense row, serializing dates to ISO strings
+ * so snapshots compare and round-trip through JSON cleanly.
+ */
+export function snapshotExpense(expense: Partial<ExpenseRow>): ExpenseSnapshot {
+  const snapshot: ExpenseSnapshot = {};
+  for (const field of AUDITED_EXPENSE_FIELDS) {
+    const value = expense[field];
+    if (value === undefined) continue;
+    snapshot[field] = value instanceof Date ? value.toISOString() : value;
+  }
+  return snapshot;
+}
+
+/**
+ * Fields whose value differs between two snapshots.
+ */
+export function changedFields(previous: ExpenseSnapshot | null, next: ExpenseSnapshot | null): AuditedField[] {
+  return AUDITED_EXPENSE_FIELDS.filter(field => (previous?.[field] ?? null) !== (next?.[field] ?? null));
+}
+
+export interface ExpenseHistoryEntry {
+  expenseId: string;
+  tenantId: string;
+  action: ExpenseHistoryAction;
+  previous: Partial<ExpenseRow> | null;
+  next: Partial<ExpenseRow> | null;
+  changedBy: string | null;
+}
+
+/**
+ * Write one or more history rows. Updates that don't touch an audited
+ * field are dropped so saving an unchanged form doesn't clutter the trail.
+ */
+export async function recordExpenseHistory(entries: ExpenseHistoryEntry | ExpenseHistoryEntry[]): Promise<void> {
+  const rows = (Array.isArray(entries) ? entries : [entries])
+    .map(entry => {
+      const previousValues = entry.previous ? snapshotExpense(entry.previous) : null;
+      const newValues = entry.next ? snapshotExpense(entry.next) : null;
+      return { entry, previousValues, newValues };
+    })
+    .filter(({ entry, previousValues, newValues }) =>
+      entry.action === 'create' || entry.action === 'delete' || changedFields(previousValues, newValues).length > 0
+    )
+    .map(({ entry, previousValues, newValues }) => ({
+      expenseId: entry.expenseId,
+      tenantId: entry.tenantId,
+      action: entry.action,
+      previousValues: previousValues ? JSON.stringify(previousValues) : null,
+      newValues: newValues ? JSON.stringify(newValues) : null,
+      changedBy: entry.changedBy,
+    }));
+
+  if (rows.length === 0) return;
+
+  await db.insert(expenseHistory).values(rows);
+}
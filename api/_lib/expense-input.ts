@@ -0,0 +1,178 @@
+import { db } from '../../src/db/index.js';
+import { categories, expenses, paymentAccounts, tenants } from '../../src/db/schema.js';
+import { eq, and } from 'drizzle-orm';
+import { getExpensePolicy, evaluateExpensePolicy, type ExpensePolicyRules } from './expense-policy.js';
+import { getExchangeRates, convertToBase, type ExchangeRate } from './exchange-rates.js';
+import { validateSalesTax } from './sales-tax.js';
+import { hasPermission, type TenantRole } from '../../src/utils/permissions.js';
+
+// Validation for new expenses, shared by POST /api/expenses and the
+// statement import so a batch row is held to exactly the same rules.
+
+export const VALID_EXPENSE_TYPES = ['cogs', 'operating'];
+
+export interface ExpenseInput {
+  amount?: unknown;        // Required: number in minor units of `currency` (cents for USD)
+  currency?: unknown;      // Optional: ISO 4217 code (defaults to the tenant's base currency)
+  exchangeRate?: unknown;  // Optional: base units per 1 `currency`, overriding the rate table
+  taxAmount?: unknown;     // Optional: sales tax / VAT included in `amount`, same units
+  taxRate?: unknown;       // Optional: tax rate percent (either tax field fills in the other)
+  date?: unknown;          // Required: ISO date string
+  categoryId?: unknown;    // Required: UUID
+  vendor?: unknown;        // Optional: string
+  description?: unknown;   // Optional: string
+  expenseType?: unknown;   // Optional: 'cogs' | 'operating' (defaults to 'operating')
+  isHomeOffice?: unknown;  // Optional: boolean — true if user checked "Home Office Expense"
+  paymentAccountId?: unknown; // Optional: UUID of an active payment account
+  isReimbursable?: unknown;   // Optional: boolean — paid out of pocket, owed back to the submitter
+  extractedText?: unknown; // Optional: string — raw text from AI receipt scan
+}
+
+/** Everything validation needs from the database, loaded once per request */
+export interface ExpenseInputContext {
+  tenantId: string;
+  userId: string;
+  categoryIds: Set<string>;
+  paymentAccountIds: Set<string>; // active accounts only — archived ones can't take new expenses
+  policy: ExpensePolicyRules | null;
+  needsApproval: boolean; // tenant requires approval and the submitter can't approve their own
+  homeOfficePercent: number | null; // tenant's current deduction %, snapshotted onto home office expenses
+  baseCurrency: string;
+  exchangeRates: ExchangeRate[];
+}
+
+export async function loadExpenseInputContext(tenantId: string, userId: string, role: TenantRole): Promise<ExpenseInputContext> {
+  const [tenantCategories, tenantAccounts, [tenant], policy, rates] = await Promise.all([
+    db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.tenantId, tenantId)),
+    db
+      .select({ id: paymentAccounts.id })
+      .from(paymentAccounts)
+      .where(and(eq(paymentAccounts.tenantId, tenantId), eq(paymentAccounts.isActive, true))),
+    db
+      .select({
+        homeTotalSqft: tenants.homeTotalSqft,
+        homeOfficeSqft: tenants.homeOfficeSqft,
+        baseCurrency: tenants.baseCurrency,
+        requireApproval: tenants.requireApproval,
+      })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1),
+    getExpensePolicy(tenantId, userId),
+    getExchangeRates(),
+  ]);
+
+  let homeOfficePercent: number | null = null;
+  if (tenant?.homeTotalSqft && tenant?.homeOfficeSqft && tenant.homeTotalSqft > 0) {
+    homeOfficePercent = Math.round((tenant.homeOfficeSqft / tenant.homeTotalSqft) * 100);
+  }
+
+  return {
+    tenantId,
+    userId,
+    categoryIds: new Set(tenantCategories.map(c => c.id)),
+    paymentAccountIds: new Set(tenantAccounts.map(a => a.id)),
+    policy,
+    needsApproval: Boolean(tenant?.requireApproval) && !hasPermission(role, 'expenses:approve'),
+    homeOfficePercent,
+    baseCurrency: tenant?.baseCurrency ?? 'USD',
+    exchangeRates: rates,
+  };
+}
+
+export type ExpenseInsert = typeof expenses.$inferInsert;
+
+/**
+ * Validate one expense and build its insert values. Returns every error
+ * at once; `values` is null whenever there are errors.
+ */
+export function validateExpenseInput(
+  input: ExpenseInput,
+  context: ExpenseInputContext
+): { errors: string[]; values: ExpenseInsert | null } {
+  const { amount, currency, exchangeRate, taxAmount, taxRate, date, categoryId, vendor, description, expenseType, isHomeOffice, paymentAccountId, isReimbursable, extractedText } = input;
+  const errors: string[] = [];
+
+  // Amount: required, must be positive integer
+  if (amount === undefined || amount === null) {
+    errors.push('Amount is required');
+  } else if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+    errors.push('Amount must be a positive integer (in cents)');
+  }
+
+  // Date: required, must be valid
+  if (!date) {
+    errors.push('Date is required');
+  } else if (typeof date !== 'string' || isNaN(new Date(date).getTime())) {
+    errors.push('Date must be a valid ISO date string');
+  }
+
+  // Category: required, must exist and belong to tenant
+  if (!categoryId) {
+    errors.push('Category is required');
+  } else if (typeof categoryId !== 'string' || !context.categoryIds.has(categoryId)) {
+    errors.push('Invalid category');
+  }
+
+  // Expense type: optional, but must be valid if provided
+  if (expenseType && (typeof expenseType !== 'string' || !VALID_EXPENSE_TYPES.includes(expenseType))) {
+    errors.push(`Expense type must be one of: ${VALID_EXPENSE_TYPES.join(', ')}`);
+  }
+
+  // Payment account: optional, must be one of the tenant's active accounts
+  const hasPaymentAccount = paymentAccountId !== undefined && paymentAccountId !== null && paymentAccountId !== '';
+  if (hasPaymentAccount && (typeof paymentAccountId !== 'string' || !context.paymentAccountIds.has(paymentAccountId))) {
+    errors.push('Invalid payment account');
+  }
+
+  const trimmedVendor = typeof vendor === 'string' ? vendor.trim() || null : null;
+  const trimmedDescription = typeof description === 'string' ? description.trim() || null : null;
+
+  if (errors.length > 0) return { errors, values: null };
+
+  // Foreign currency: convert at the rate for the expense date
+  const converted = convertToBase(
+    { amount: amount as number, currency, exchangeRate, date: new Date(date as string) },
+    context.baseCurrency,
+    context.exchangeRates
+  );
+  if (!converted.values) return { errors: converted.errors, values: null };
+
+  // Sales tax is checked against the total as entered, before conversion
+  const tax = validateSalesTax({ taxAmount, taxRate }, amount as number);
+  if (!tax.values) return { errors: tax.errors, values: null };
+
+  // Submitter's expense policy: only checked once the basics are valid
+  const policyCheck = evaluateExpensePolicy(context.policy, {
+    amount: converted.values.amount,
+    categoryId: categoryId as string,
+    description: trimmedDescription,
+  }, { currency: context.baseCurrency });
+  if (policyCheck.errors.length > 0) return { errors: policyCheck.errors, values: null };
+
+  return {
+    errors: [],
+    values: {
+      tenantId: context.tenantId,
+      ...converted.values,
+      ...tax.values,
+      date: new Date(date as string),
+      categoryId: categoryId as string,
+      vendor: trimmedVendor,
+      description: trimmedDescription,
+      expenseType: (expenseType as string) || 'operating',
+      isHomeOffice: Boolean(isHomeOffice),
+      homeOfficePercent: isHomeOffice ? context.homeOfficePercent : null,
+      paymentAccountId: hasPaymentAccount ? paymentAccountId as string : null,
+      isReimbursable: isReimbursable === true,
+      extractedText: typeof extractedText === 'string' && extractedText ? extractedText : null,
+      policyFlag: policyCheck.flag,
+      approvalStatus: context.needsApproval ? 'pending' : 'approved',
+      createdBy: context.userId,
+      updatedBy: context.userId,
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { db } from '../../src/db/index.js';
+import { expensePolicies } from '../../src/db/schema.js';
+import { eq, and } from 'drizzle-orm';
+import { formatMoney } from '../../src/utils/currency.js';
+
+export type PolicyFlag = 'over_limit';
+
+export interface ExpensePolicyRules {
+  maxExpenseAmount: number | null; // cents — flag (not reject) anything above
+  requireNotesAbove: number | null; // cents — description required above this
+  allowedCategories: string[] | null; // null = every category allowed
+}
+
+export interface PolicyCheck {
+  errors: string[];
+  flag: PolicyFlag | null;
+}
+
+/**
+ * expense_policies.allowed_categories is a JSON array stored as text.
+ * Anything unreadable is treated as "no restriction" rather than
+ * locking the user out of every category.
+ */
+export function parseAllowedCategories(json: string | null): string[] | null {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The policy that applies to a user's submissions in a tenant, or null.
+ */
+export async function getExpensePolicy(tenantId: string, userId: string): Promise<ExpensePolicyRules | null> {
+  const [policy] = await db
+    .select()
+    .from(expensePolicies)
+    .where(and(
+      eq(expensePolicies.tenantId, tenantId),
+      eq(expensePolicies.userId, userId),
+    ))
+    .limit(1);
+
+  if (!policy) return null;
+
+  return {
+    maxExpenseAmount: policy.maxExpenseAmount,
+    requireNotesAbove: policy.requireNotesAbove,
+    allowedCategories: parseAllowedCategories(policy.allowedCategories),
+  };
+}
+
+/**
+ * Check an expense (as it will be saved) against a policy. Disallowed
+ * categories and missing notes are errors; going over the max amount is
+ * allowed but flagged for owner review. Policy amounts, like the
+ * expense amount, are in the tenant's base currency.
+ *
+ * Pass checkCategory: false on updates that don't change the category, so
+ * editing an older expense isn't blocked by a policy added since.
+ */
+export function evaluateExpensePolicy(
+  policy: ExpensePolicyRules | null,
+  expense: { amount: number; categoryId: string | null; description: string | null },
+  { currency, checkCategory = true }: { currency: string; checkCategory?: boolean },
+): PolicyCheck {
+  const result: PolicyCheck = { errors: [], flag: null };
+  if (!policy) return result;
+
+  if (checkCategory && policy.allowedCategories && expense.categoryId
+    && !policy.allowedCategories.includes(expense.categoryId)) {
+    result.errors.push('Your expense policy does not allow this category');
+  }
+
+  if (policy.requireNotesAbove !== null && expense.amount > policy.requireNotesAbove && !expense.description?.trim()) {
+    result.errors.push(`A description is required for expenses over ${formatMoney(policy.requireNotesAbove, currency)}`);
+  }
+
+  if (policy.maxExpenseAmount !== null && expense.amount > policy.maxExpenseAmount) {
+    result.flag = 'over_limit';
+  }
+
+  return result;
+}
@@ -0,0 +1,181 @@
+import { db } from '../../src/db/index.js';
+import { expenseSplits, categories } from '../../src/db/schema.js';
+import { eq, asc } from 'drizzle-orm';
+import { VALID_EXPENSE_TYPES } from './expense-input.js';
+import type { ExpensePolicyRules } from './expense-policy.js';
+import { formatMoney } from '../../src/utils/currency.js';
+
+// Expense splits: one receipt spread over several categories (a Costco run
+// that is half office supplies, half inventory). Reports read the lines
+// instead of the expense; the expense's own category and type follow the
+// largest line so lists and filters still show something sensible.
+
+export const MAX_EXPENSE_SPLITS = 20;
+
+export interface ExpenseSplitInput {
+  amount?: unknown;       // Required: cents
+  categoryId?: unknown;   // Required: UUID
+  expenseType?: unknown;  // Optional: 'cogs' | 'operating' (defaults to 'operating')
+  isHomeOffice?: unknown; // Optional: boolean
+  description?: unknown;  // Optional: string, e.g. the receipt line item
+}
+
+export interface ExpenseSplitValues {
+  amount: number;                // base currency once converted
+  originalAmount: number | null; // as entered, when the expense is in a foreign currency
+  categoryId: string;
+  expenseType: string;
+  isHomeOffice: boolean;
+  description: string | null;
+}
+
+export interface SplitValidationContext {
+  categoryIds: Set<string>;             // the tenant's categories
+  currency: string;                     // the currency the lines are entered in
+  policy: ExpensePolicyRules | null;    // the submitter's policy — every line must use an allowed category
+}
+
+/**
+ * Validate a split list against the expense total. An empty list means
+ * "not split"; otherwise it needs at least two lines that add up exactly.
+ */
+export function validateExpenseSplits(
+  input: unknown,
+  total: number,
+  { categoryIds, currency, policy }: SplitValidationContext
+): { errors: string[]; splits: ExpenseSplitValues[] | null } {
+  if (!Array.isArray(input)) {
+    return { errors: ['Splits must be an array'], splits: null };
+  }
+  if (input.length === 0) return { errors: [], splits: [] };
+  if (input.length === 1) {
+    return { errors: ['A split needs at least two lines'], splits: null };
+  }
+  if (input.length > MAX_EXPENSE_SPLITS) {
+    return { errors: [`An expense can be split at most ${MAX_EXPENSE_SPLITS} ways`], splits: null };
+  }
+
+  const errors: string[] = [];
+  const splits: ExpenseSplitValues[] = [];
+
+  input.forEach((raw: unknown, index: number) => {
+    const split: ExpenseSplitInput = raw && typeof raw === 'object' ? raw as ExpenseSplitInput : {};
+    const { amount, categoryId, expenseType, isHomeOffice, description } = split;
+    const label = `Split ${index + 1}`;
+    const lineErrors = errors.length;
+
+    if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+      errors.push(`${label}: amount must be a positive integer (in cents)`);
+    }
+    if (!categoryId) {
+      errors.push(`${label}: category is required`);
+    } else if (typeof categoryId !== 'string' || !categoryIds.has(categoryId)) {
+      errors.push(`${label}: invalid category`);
+    } else if (policy?.allowedCategories && !policy.allowedCategories.includes(categoryId)) {
+      errors.push(`${label}: your expense policy does not allow this category`);
+    }
+    if (expenseType && (typeof expenseType !== 'string' || !VALID_EXPENSE_TYPES.includes(expenseType))) {
+      errors.push(`${label}: expense type must be one of: ${VALID_EXPENSE_TYPES.join(', ')}`);
+    }
+    if (errors.length > lineErrors) return;
+
+    splits.push({
+      amount: amount as number,
+      originalAmount: null,
+      categoryId: categoryId as string,
+      expenseType: (expenseType as string) || 'operating',
+      isHomeOffice: Boolean(isHomeOffice),
+      description: typeof description === 'string' ? description.trim().slice(0, 255) || null : null,
+    });
+  });
+
+  if (errors.length > 0) return { errors, splits: null };
+
+  const sum = splits.reduce((s, line) => s + line.amount, 0);
+  if (sum !== total) {
+    const diff = formatMoney(Math.abs(total - sum), currency);
+    return {
+      errors: [`Splits must add up to the expense amount (${sum > total ? 'over' : 'short'} by ${diff})`],
+      splits: null,
+    };
+  }
+
+  return { errors: [], splits };
+}
+
+/**
+ * Lines are entered in the expense's own currency. For a foreign-currency
+ * expense, convert them in proportion to the converted total so they still
+ * add up exactly (any rounding cent goes to the largest line).
+ */
+export function convertSplits(
+  splits: ExpenseSplitValues[],
+  expense: { amount: number; originalAmount: number | null }
+): ExpenseSplitValues[] {
+  if (expense.originalAmount === null || splits.length === 0) return splits;
+
+  const { amount: total, originalAmount: originalTotal } = expense;
+  const converted = splits.map((line): ExpenseSplitValues => ({
+    ...line,
+    originalAmount: line.amount,
+    amount: Math.round(line.amount * total / originalTotal),
+  }));
+  const remainder = total - converted.reduce((sum, line) => sum + line.amount, 0);
+  if (remainder !== 0) {
+    const largest = converted.indexOf(primarySplit(converted));
+    converted[largest].amount += remainder;
+  }
+  return converted;
+}
+
+/** The line that decides the parent expense's category and type (largest, first wins ties) */
+export function primarySplit(splits: ExpenseSplitValues[]): ExpenseSplitValues {
+  return splits.reduce((best, line) => (line.amount > best.amount ? line : best), splits[0]);
+}
+
+export async function getExpenseSplits(expenseId: string) {
+  return db
+    .select({
+      id: expenseSplits.id,
+      amount: expenseSplits.amount,
+      originalAmount: expenseSplits.originalAmount,
+      description: expenseSplits.description,
+      categoryId: expenseSplits.categoryId,
+      categoryName: categories.name,
+      categoryEmoji: categories.emoji,
+      expenseType: expenseSplits.expenseType,
+      isHomeOffice: expenseSplits.isHomeOffice,
+      homeOfficePercent: expenseSplits.homeOfficePercent,
+    })
+    .from(expenseSplits)
+    .leftJoin(categories, eq(expenseSplits.categoryId, categories.id))
+    .where(eq(expenseSplits.expenseId, expenseId))
+    .orderBy(asc(expenseSplits.sortOrder));
+}
+
+/**
+ * Replace an expense's lines. Home office lines snapshot the tenant's
+ * current percentage, the same way a home office expense does.
+ */
+export async function replaceExpenseSplits(
+  tenantId: string,
+  expenseId: string,
+  splits: ExpenseSplitValues[],
+  homeOfficePercent: number | null
+): Promise<void> {
+  await db.delete(expenseSplits).where(eq(expenseSplits.expenseId, expenseId));
+  if (splits.length === 0) return;
+
+  await db.insert(expenseSplits).values(splits.map((line, index) => ({
+    tenantId,
+    expenseId,
+    amount: line.amount,
+    originalAmount: line.originalAmount,
+    description: line.description,
+    categoryId: line.categoryId,
+    expenseType: line.expenseType,
+    isHomeOffice: line.isHomeOffice,
+    homeOfficePercent: line.isHomeOffice ? homeOfficePercent : null,
+    sortOrder: index,
+  })));
+}
@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import { db } from '../../src/db/index.js';
+import { userTenantAccess } from '../../src/db/schema.js';
+import { eq, and, asc } from 'drizzle-orm';
+
+// Receipts emailed to a tenant's inbound address. The email provider
+// parses the MIME message and posts it to /api/inbound-email as JSON in
+// the shape below; the address's local part carries the tenant's token
+// (<token>@domain, or receipts+<token>@domain behind a catch-all).
+
+export interface InboundAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  inline: boolean; // has a Content-ID — a logo or signature image in the body, not a receipt
+}
+
+export interface InboundEmail {
+  to: string[];
+  from: string;
+  subject: string | null;
+  date: Date | null;
+  html: string | null;
+  text: string | null;
+  attachments: InboundAttachment[];
+}
+
+const TOKEN_PATTERN = /^[a-f0-9]{24}$/;
+
+/** Whether an Authorization header carries INBOUND_EMAIL_SECRET, compared in constant time */
+export function isInboundSecret(authorization: string | undefined, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(authorization ?? '');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+export function generateInboundToken(): string {
+  return crypto.randomBytes(12).toString('hex');
+}
+
+/** The address receipts are mailed to, or null when inbound email isn't set up for this deployment */
+export function inboundAddress(token: string | null): string | null {
+  const domain = process.env.INBOUND_EMAIL_DOMAIN;
+  return token && domain ? `${token}@${domain}` : null;
+}
+
+/** "Amazon.com <auto-confirm@amazon.com>" → "auto-confirm@amazon.com" */
+export function emailAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+/** The tenant token in the first recipient addressed to our inbound domain */
+export function inboundTokenFrom(recipients: string[]): string | null {
+  const domain = process.env.INBOUND_EMAIL_DOMAIN?.toLowerCase();
+  for (const recipient of recipients) {
+    const [local, host] = emailAddress(recipient).split('@');
+    if (!local || (domain && host !== domain)) continue;
+    const token = local.includes('+') ? local.slice(local.indexOf('+') + 1) : local;
+    if (TOKEN_PATTERN.test(token)) return token;
+  }
+  return null;
+}
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === 'string') return value.split(',').map(v => v.trim()).filter(Boolean);
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string' && v.trim() !== '');
+  return [];
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+/**
+ * Read the webhook body:
+ *   { to, from, subject?, date?, html?, text?,
+ *     attachments?: [{ filename, contentType, content (base64), contentId? }] }
+ * `to` may be a string or a list. Returns null when it isn't an email.
+ */
+export function parseInboundEmail(body: unknown): InboundEmail | null {
+  if (!body || typeof body !== 'object') return null;
+  const raw = body as Record<string, unknown>;
+
+  const to = toStringList(raw.to);
+  const from = optionalString(raw.from);
+  if (to.length === 0 || !from) return null;
+
+  const date = typeof raw.date === 'string' ? new Date(raw.date) : null;
+  const attachments: InboundAttachment[] = [];
+  for (const attachment of Array.isArray(raw.attachments) ? raw.attachments : []) {
+    if (!attachment || typeof attachment !== 'object') continue;
+    const { filename, contentType, content, contentId } = attachment as Record<string, unknown>;
+    if (typeof content !== 'string' || typeof contentType !== 'string') continue;
+    attachments.push({
+      filename: optionalString(filename) ?? 'attachment',
+      contentType: contentType.split(';')[0].trim().toLowerCase(),
+      content: Buffer.from(content, 'base64'),
+      inline: Boolean(optionalString(contentId)),
+    });
+  }
+
+  return {
+    to,
+    from: from.trim().slice(0, 255),
+    subject: optionalString(raw.subject)?.trim().slice(0, 255) ?? null,
+    date: date && !isNaN(date.getTime()) ? date : null,
+    html: optionalString(raw.html),
+    text: optionalString(raw.text),
+    attachments,
+  };
+}
+
+/**
+ * Whose receipt inbox an email lands in: always the tenant owner's. The
+ * From header is whatever the sender wrote, so it's kept on the item for
+ * the owner to read but never decides who the receipt belongs to. Null
+ * when the tenant has no owner.
+ */
+export async function resolveInboundRecipient(tenantId: string): Promise<string | null> {
+  const [owner] = await db
+    .select({ userId: userTenantAccess.userId })
+    .from(userTenantAccess)
+    .where(and(eq(userTenantAccess.tenantId, tenantId), eq(userTenantAccess.role, 'owner')))
+    .orderBy(asc(userTenantAccess.createdAt))
+    .limit(1);
+  return owner?.userId ?? null;
+}
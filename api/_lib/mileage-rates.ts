@@ -0,0 +1,83 @@
+import { db } from '../../src/db/index.js';
+import { mileageRates } from '../../src/db/schema.js';
+import { asc } from 'drizzle-orm';
+import { DEFAULT_MILEAGE_RATES } from '../../src/db/default-mileage-rates.js';
+
+export interface MileageRate {
+  id: string;
+  effectiveDate: Date;
+  rateMills: number;
+  note: string | null;
+}
+
+const dayKey = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * All rates, oldest first. Seeds the IRS defaults if the table is empty
+ * so a fresh database still produces correct deductions.
+ */
+export async function getMileageRates(): Promise<MileageRate[]> {
+  const select = () => db
+    .select({
+      id: mileageRates.id,
+      effectiveDate: mileageRates.effectiveDate,
+      rateMills: mileageRates.rateMills,
+      note: mileageRates.note,
+    })
+    .from(mileageRates)
+    .orderBy(asc(mileageRates.effectiveDate));
+
+  const rates = await select();
+  if (rates.length > 0) return rates;
+
+  await db
+    .insert(mileageRates)
+    .values(DEFAULT_MILEAGE_RATES.map(r => ({
+      effectiveDate: new Date(r.effectiveDate + 'T12:00:00.000Z'),
+      rateMills: r.rateMills,
+      note: r.note ?? null,
+    })))
+    .onConflictDoNothing();
+
+  return select();
+}
+
+/**
+ * Rate in effect on a trip date (tenths of a cent per mile). Dates before
+ * the first entry use the earliest rate rather than nothing.
+ */
+export function rateForDate(rates: MileageRate[], date: Date | string): number {
+  if (rates.length === 0) return 0;
+  const day = dayKey(date);
+  let rate = rates[0].rateMills;
+  for (const r of rates) {
+    if (dayKey(r.effectiveDate) > day) break;
+    rate = r.rateMills;
+  }
+  return rate;
+}
+
+/**
+ * Rates that apply at some point during a year — usually one, two for
+ * years with a mid-year change like 2022.
+ */
+export function ratesForYear(rates: MileageRate[], year: number): { effectiveDate: string; mileageRate: number }[] {
+  const yearStart = `${year}-01-01`;
+  const inYear = rates.filter(r => dayKey(r.effectiveDate).startsWith(`${year}-`));
+
+  const result = inYear.map(r => ({ effectiveDate: dayKey(r.effectiveDate), mileageRate: millsToCents(r.rateMills) }));
+  if (result.length === 0 || result[0].effectiveDate !== yearStart) {
+    result.unshift({ effectiveDate: yearStart, mileageRate: millsToCents(rateForDate(rates, yearStart)) });
+  }
+  return result;
+}
+
+/** Cents per mile for display, e.g. 655 → 65.5 */
+export function millsToCents(rateMills: number): number {
+  return rateMills / 10;
+}
+
+/** Deduction in cents for a distance stored as miles * 100 */
+export function mileageDeduction(miles: number, rateMills: number): number {
+  return Math.round((miles * rateMills) / 1000);
+}
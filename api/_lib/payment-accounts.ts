@@ -0,0 +1,71 @@
+import { db } from '../../src/db/index.js';
+import { paymentAccounts } from '../../src/db/schema.js';
+import { eq, asc } from 'drizzle-orm';
+import { isPaymentAccountKind, PAYMENT_ACCOUNT_KINDS } from '../../src/utils/payment-accounts.js';
+
+export interface PaymentAccountInput {
+  name?: unknown;  // Required on create: string
+  kind?: unknown;  // Optional: 'card' | 'bank' | 'cash' (defaults to 'card')
+  last4?: unknown; // Optional: four digits, or null to clear
+}
+
+/** All of a tenant's accounts, archived ones included, in display order */
+export async function getPaymentAccounts(tenantId: string) {
+  return db
+    .select({
+      id: paymentAccounts.id,
+      name: paymentAccounts.name,
+      kind: paymentAccounts.kind,
+      last4: paymentAccounts.last4,
+      sortOrder: paymentAccounts.sortOrder,
+      isActive: paymentAccounts.isActive,
+    })
+    .from(paymentAccounts)
+    .where(eq(paymentAccounts.tenantId, tenantId))
+    .orderBy(asc(paymentAccounts.sortOrder), asc(paymentAccounts.name));
+}
+
+/**
+ * Validate account fields. On update (`partial`) only the fields sent are
+ * checked and returned, so a rename doesn't need the kind and digits too.
+ */
+export function validatePaymentAccountInput(
+  input: PaymentAccountInput,
+  { partial = false }: { partial?: boolean } = {}
+): { errors: string[]; values: { name?: string; kind?: string; last4?: string | null } } {
+  const { name, kind, last4 } = input;
+  const errors: string[] = [];
+  const values: { name?: string; kind?: string; last4?: string | null } = {};
+
+  if (name !== undefined || !partial) {
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      errors.push('Name is required');
+    } else if (name.trim().length > 100) {
+      errors.push('Name must be 100 characters or less');
+    } else {
+      values.name = name.trim();
+    }
+  }
+
+  if (kind !== undefined || !partial) {
+    if (kind === undefined || kind === null || kind === '') {
+      values.kind = 'card';
+    } else if (!isPaymentAccountKind(kind)) {
+      errors.push(`Kind must be one of: ${PAYMENT_ACCOUNT_KINDS.join(', ')}`);
+    } else {
+      values.kind = kind;
+    }
+  }
+
+  if (last4 !== undefined || !partial) {
+    if (last4 === undefined || last4 === null || last4 === '') {
+      values.last4 = null;
+    } else if (typeof last4 !== 'string' || !/^\d{4}$/.test(last4)) {
+      errors.push('Last four digits must be exactly 4 digits');
+    } else {
+      values.last4 = last4;
+    }
+  }
+
+  return { errors, values };
+}
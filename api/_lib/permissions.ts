@@ -0,0 +1,21 @@
+import type { AuthResult } from './auth.js';
+import {
+  hasPermission,
+  permissionDeniedReason,
+  type Permission,
+} from '../../src/utils/permissions.js';
+
+export type { Permission } from '../../src/utils/permissions.js';
+
+/**
+ * Check the authenticated user's tenant role against the permission matrix.
+ * Returns null when allowed, or a reason string the caller should send
+ * back with a 403:
+ *
+ *   const denied = checkPermission(auth, 'expenses:delete')
+ *   if (denied) return res.status(403).json({ error: denied })
+ */
+export function checkPermission(auth: AuthResult, permission: Permission): string | null {
+  if (hasPermission(auth.role, permission, auth.canEdit)) return null;
+  return permissionDeniedReason(auth.role, permission);
+}
@@ -33,6 +33,28 @@ export const RECEIPT_SCAN_LIMITS: RateLimitConfig = {
   alertOn: ['daily', 'monthly'],
 };
 
+// Offline OCR costs nothing per scan but ties up a function for several
+// seconds, so it gets its own (looser) budget rather than sharing the AI one.
+export const LOCAL_SCAN_LIMITS: RateLimitConfig = {
+  actionType: 'receipt_scan_local',
+  limits: {
+    perMinute: 10,
+    perHour: 120,
+    perDay: 300,
+  },
+};
+
+// Emails to a tenant's inbound address. The address is all it takes to
+// send one, so a leaked address can only fill the inbox this fast.
+export const INBOUND_EMAIL_LIMITS: RateLimitConfig = {
+  actionType: 'inbound_email',
+  limits: {
+    perMinute: 10,
+    perHour: 100,
+    perDay: 300,
+  },
+};
+
 /**
  * Check whether a tenant has exceeded any rate limit window for the given action.
  * Windows are checked smallest-to-largest for fast failure.
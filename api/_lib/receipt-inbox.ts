@@ -0,0 +1,155 @@
+import { copy, del } from '@vercel/blob';
+import { db } from '../../src/db/index.js';
+import { categories, expenseAttachments, receiptInboxItems } from '../../src/db/schema.js';
+import { eq, and, ne, inArray } from 'drizzle-orm';
+import type { ReceiptScanResult } from './receipt-schema.js';
+import { recordReceiptScan } from './receipt-scans.js';
+import { suggestCategoryForVendor } from './vendor-mappings.js';
+import { currencyDecimals } from '../../src/utils/currency.js';
+
+// The receipt inbox: files uploaded in bulk sit under the tenant's
+// pending/ blob prefix as draft expenses until they're scanned, checked
+// and committed. Committing moves each file next to its expense.
+
+export const MAX_INBOX_BATCH = 50; // files recorded or committed per request
+
+// Below this the draft is flagged for the user to check before committing
+const REVIEW_CONFIDENCE = 0.7;
+
+/** What the inbox endpoints return for each item */
+export const inboxItemColumns = {
+  id: receiptInboxItems.id,
+  blobUrl: receiptInboxItems.blobUrl,
+  fileName: receiptInboxItems.fileName,
+  fileType: receiptInboxItems.fileType,
+  fileSize: receiptInboxItems.fileSize,
+  source: receiptInboxItems.source,
+  emailFrom: receiptInboxItems.emailFrom,
+  status: receiptInboxItems.status,
+  scanError: receiptInboxItems.scanError,
+  vendor: receiptInboxItems.vendor,
+  date: receiptInboxItems.date,
+  amount: receiptInboxItems.amount,
+  currency: receiptInboxItems.currency,
+  categoryId: receiptInboxItems.categoryId,
+  categoryName: categories.name,
+  categoryEmoji: categories.emoji,
+  description: receiptInboxItems.description,
+  reviewNeeded: receiptInboxItems.reviewNeeded,
+  createdAt: receiptInboxItems.createdAt,
+};
+
+export function selectInboxItems() {
+  return db
+    .select(inboxItemColumns)
+    .from(receiptInboxItems)
+    .leftJoin(categories, eq(receiptInboxItems.categoryId, categories.id));
+}
+
+/**
+ * Hostname of this deployment's blob store. Read-write tokens look like
+ * vercel_blob_rw_<storeId>_<secret>, and the store serves public files
+ * from <storeId>.public.blob.vercel-storage.com.
+ */
+function blobStoreHost(): string | null {
+  const match = process.env.BLOB_READ_WRITE_TOKEN?.match(/^vercel_blob_rw_([a-z0-9]+)_/i);
+  return match ? `${match[1].toLowerCase()}.public.blob.vercel-storage.com` : null;
+}
+
+/**
+ * Whether a URL is an inbox upload of this tenant: in this deployment's
+ * store, under <subdomain>/pending/. Inbox files get deleted and moved,
+ * so anything else — another tenant's files, receipts already attached
+ * to expenses — is refused.
+ */
+export function isInboxBlobUrl(url: unknown, subdomain: string): url is string {
+  if (typeof url !== 'string') return false;
+  const host = blobStoreHost();
+  try {
+    const parsed = new URL(url);
+    return host !== null
+      && parsed.protocol === 'https:'
+      && parsed.hostname === host
+      && decodeURIComponent(parsed.pathname).startsWith(`/${subdomain}/pending/`)
+      && !decodeURIComponent(parsed.pathname).includes('/../');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The URLs among `blobUrls` that something else already points at: an
+ * expense attachment (new-expense uploads stay under pending/ too) or
+ * another inbox item. Those files must not be deleted or moved.
+ */
+export async function findClaimedBlobUrls(blobUrls: string[], exceptItemId?: string): Promise<Set<string>> {
+  if (blobUrls.length === 0) return new Set();
+  const [attached, queued] = await Promise.all([
+    db
+      .select({ blobUrl: expenseAttachments.blobUrl })
+      .from(expenseAttachments)
+      .where(inArray(expenseAttachments.blobUrl, blobUrls)),
+    db
+      .select({ blobUrl: receiptInboxItems.blobUrl })
+      .from(receiptInboxItems)
+      .where(and(
+        inArray(receiptInboxItems.blobUrl, blobUrls),
+        exceptItemId ? ne(receiptInboxItems.id, exceptItemId) : undefined
+      )),
+  ]);
+  return new Set([...attached, ...queued].map(row => row.blobUrl));
+}
+
+/**
+ * Draft expense fields from a scan, with the total in minor units of
+ * `currency`. A category is suggested from the vendor unless the draft
+ * already has one, and `reviewNeeded` is set when the scan wasn't sure
+ * of vendor, date or total. The scan is kept for reconciliation too.
+ */
+export async function draftFromScan(
+  tenantId: string,
+  blobUrl: string,
+  scan: ReceiptScanResult,
+  options: { currency: string; categoryId: string | null }
+) {
+  const date = scan.date.value ? new Date(`${scan.date.value}T12:00:00.000Z`) : null;
+  const total = scan.total.value !== null && scan.total.value > 0
+    ? Math.round(scan.total.value * 10 ** currencyDecimals(options.currency))
+    : null;
+  const suggestion = options.categoryId ? null : await suggestCategoryForVendor(tenantId, scan.vendor.value);
+
+  // Keyed by the inbox file, so reconciliation follows it when it's committed
+  await recordReceiptScan(tenantId, blobUrl, scan);
+
+  return {
+    vendor: scan.vendor.value,
+    date,
+    amount: total,
+    categoryId: options.categoryId ?? suggestion?.categoryId ?? null,
+    extractedText: scan.rawText || null,
+    reviewNeeded: [scan.vendor, scan.date, scan.total].some(f => f.value === null || f.confidence < REVIEW_CONFIDENCE),
+    status: 'scanned',
+    scanError: null,
+  };
+}
+
+/**
+ * Move an inbox file from `<subdomain>/pending/…` to `<subdomain>/<expenseId>/…`,
+ * where the expense's other attachments live. Returns the new URL; throws
+ * for anything that isn't one of the tenant's inbox uploads.
+ */
+export async function moveReceiptBlob(blobUrl: string, subdomain: string, expenseId: string): Promise<string> {
+  if (!isInboxBlobUrl(blobUrl, subdomain)) {
+    throw new Error('Not an inbox upload of this tenant');
+  }
+  const rest = decodeURIComponent(new URL(blobUrl).pathname).slice(`/${subdomain}/pending/`.length);
+
+  const token = process.env.BLOB_READ_WRITE_TOKEN;
+  const moved = await copy(blobUrl, `${subdomain}/${expenseId}/${rest}`, {
+    access: 'public',
+    addRandomSuffix: false,
+    token,
+  });
+  await del(blobUrl, { token });
+  return moved.url;
+}
@@ -0,0 +1,47 @@
+import { db } from '../../src/db/index.js';
+import { receiptScans } from '../../src/db/schema.js';
+
+interface ScanField<T> {
+  value?: T | null;
+  confidence?: number;
+}
+
+/** The parts of a /api/receipts/scan result reconciliation cares about */
+export interface ScanResultFields {
+  vendor?: ScanField<string>;
+  date?: ScanField<string>;
+  total?: ScanField<number | string>;
+}
+
+/**
+ * Keep what a scan read off a receipt, keyed by its blob URL, so the
+ * reconciliation report can compare receipts against bank transactions
+ * after the fact. Rescans of the same image overwrite the earlier result.
+ */
+export async function recordReceiptScan(tenantId: string, blobUrl: string, result: ScanResultFields): Promise<void> {
+  const vendor = typeof result.vendor?.value === 'string' ? result.vendor.value.trim().slice(0, 255) || null : null;
+
+  const dateValue = result.date?.value;
+  const date = typeof dateValue === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(dateValue)
+    ? new Date(`${dateValue}T12:00:00.000Z`)
+    : null;
+
+  const totalValue = Number(result.total?.value);
+  const total = result.total?.value != null && Number.isFinite(totalValue) && totalValue > 0
+    ? Math.round(totalValue * 100)
+    : null;
+
+  const values = {
+    vendor,
+    date: date && !isNaN(date.getTime()) ? date : null,
+    total,
+  };
+
+  await db
+    .insert(receiptScans)
+    .values({ tenantId, blobUrl, ...values })
+    .onConflictDoUpdate({
+      target: [receiptScans.tenantId, receiptScans.blobUrl],
+      set: { ...values, scannedAt: new Date() },
+    });
+}
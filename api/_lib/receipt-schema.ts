@@ -0,0 +1,165 @@
+// The confidence-scored JSON every receipt scan returns, and the checks
+// that hold a model's answer to it. Models drift from the requested
+// format (code fences, trailing commas, "$45.99" for a number, output cut
+// off at the token limit), so answers are repaired where that's safe
+// and any field that still doesn't fit is dropped to null.
+
+export interface ScanField<T> {
+  value: T | null;
+  confidence: number;
+}
+
+export interface ReceiptLineItem {
+  description: string;
+  amount: number;
+  quantity: number;
+}
+
+/** The JSON shape /api/receipts/scan returns — what useScanReceipt consumes */
+export interface ReceiptScanResult {
+  vendor: ScanField<string>;
+  date: ScanField<string>;
+  total: ScanField<number>;
+  subtotal: ScanField<number>;
+  tax: ScanField<number>;
+  paymentMethod: ScanField<string>;
+  lineItems: ReceiptLineItem[];
+  rawText: string;
+}
+
+const PAYMENT_METHODS = ['VISA', 'MASTERCARD', 'AMEX', 'CASH', 'DEBIT', 'CHECK'];
+const MAX_LINE_ITEMS = 100;
+
+const EMPTY_FIELD = { value: null, confidence: 0 };
+
+/**
+ * Parse a model's text answer as JSON, repairing the usual damage:
+ * surrounding prose or code fences, smart quotes, trailing commas, and
+ * objects left unclosed when the answer was truncated. Returns
+ * undefined when nothing parseable is left.
+ */
+export function repairJson(text: string): unknown {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+  const end = text.lastIndexOf('}');
+
+  const attempts: string[] = [];
+  const body = end > start ? text.slice(start, end + 1) : text.slice(start);
+  attempts.push(body);
+
+  const cleaned = body
+    .replace(/[“”]/g, '"')
+    .replace(/,\s*([}\]])/g, '$1');
+  attempts.push(cleaned);
+  attempts.push(closeTruncated(text.slice(start).replace(/[“”]/g, '"')).replace(/,\s*([}\]])/g, '$1'));
+
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // try the next repair
+    }
+  }
+  return undefined;
+}
+
+/** Close any strings, arrays and objects a truncated answer left open */
+function closeTruncated(text: string): string {
+  const open: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') open.push('}');
+    else if (char === '[') open.push(']');
+    else if (char === '}' || char === ']') open.pop();
+  }
+
+  let repaired = text + (inString ? '"' : '');
+  // Drop a dangling key, colon or comma so the closers land on a complete value
+  repaired = repaired.replace(/,\s*"[^"]*"\s*:?\s*$/, '').replace(/[,:]\s*$/, '');
+  return repaired + open.reverse().join('');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const parsed = Number(value.replace(/[^0-9.-]/g, ''));
+  return value.trim() !== '' && Number.isFinite(parsed) ? parsed : null;
+}
+
+function toConfidence(value: unknown): number {
+  const confidence = toNumber(value);
+  return confidence === null ? 0 : Math.min(1, Math.max(0, confidence));
+}
+
+function field<T>(raw: unknown, read: (value: unknown) => T | null): ScanField<T> {
+  if (!isRecord(raw)) return { ...EMPTY_FIELD };
+  const value = raw.value === undefined || raw.value === null ? null : read(raw.value);
+  return value === null ? { ...EMPTY_FIELD } : { value, confidence: toConfidence(raw.confidence) };
+}
+
+function readText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, 255) : null;
+}
+
+function readDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return null;
+  const date = new Date(`${value.trim()}T12:00:00.000Z`);
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value.trim() ? null : value.trim();
+}
+
+function readAmount(value: unknown): number | null {
+  const amount = toNumber(value);
+  return amount === null || amount < 0 ? null : Math.round(amount * 100) / 100;
+}
+
+function readPaymentMethod(value: unknown): string | null {
+  const method = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  return PAYMENT_METHODS.includes(method) ? method : null;
+}
+
+function readLineItems(value: unknown): ReceiptLineItem[] {
+  if (!Array.isArray(value)) return [];
+  const items: ReceiptLineItem[] = [];
+  for (const raw of value.slice(0, MAX_LINE_ITEMS)) {
+    if (!isRecord(raw)) continue;
+    const description = readText(raw.description);
+    const amount = toNumber(raw.amount);
+    const quantity = toNumber(raw.quantity);
+    if (!description || amount === null) continue;
+    items.push({ description, amount, quantity: quantity !== null && quantity > 0 ? quantity : 1 });
+  }
+  return items;
+}
+
+/**
+ * Hold a parsed answer to the receipt schema. Returns null when it isn't
+ * a receipt at all (not an object, or none of vendor/date/total present);
+ * otherwise every field comes back well-typed, with anything that
+ * didn't fit set to null and zero confidence.
+ */
+export function validateReceiptScan(raw: unknown): ReceiptScanResult | null {
+  if (!isRecord(raw) || !['vendor', 'date', 'total'].some(key => isRecord(raw[key]))) return null;
+
+  return {
+    vendor: field(raw.vendor, readText),
+    date: field(raw.date, readDate),
+    total: field(raw.total, readAmount),
+    subtotal: field(raw.subtotal, readAmount),
+    tax: field(raw.tax, readAmount),
+    paymentMethod: field(raw.paymentMethod, readPaymentMethod),
+    lineItems: readLineItems(raw.lineItems),
+    rawText: typeof raw.rawText === 'string' ? raw.rawText : '',
+  };
+}
@@ -0,0 +1,176 @@
+import type { ReceiptScanResult, ScanField } from './receipt-schema.js';
+
+// Pulls vendor, date, totals and line items out of raw OCR text using
+// plain pattern matching. It's a best effort for when the AI scanner
+// isn't available: confidences stay low so the expense form flags every
+// field for the user to check.
+
+// Heuristics alone never claim more than this, however clean the OCR was
+const MAX_CONFIDENCE = 0.8;
+const MAX_LINE_ITEMS = 50;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// 1,234.56 / 1234.56 / 12,50 — the last two digits are always the cents
+const AMOUNT_PATTERN = /-?\d{1,3}(?:[,.]\d{3})*[.,]\d{2}(?!\d)|-?\d+[.,]\d{2}(?!\d)/g;
+
+const TOTAL_LABEL = /\b(grand\s*total|total\s*(due|amount)?|amount\s*(due|paid)|balance\s*due|to\s*pay)\b/i;
+const SUBTOTAL_LABEL = /\bsub\s*-?\s*total\b/i;
+// "Total" lines that aren't the amount charged
+const NOT_THE_TOTAL = /\bsub\s*-?\s*total\b|\bsavings\b|\bdiscount\b|\btax\b|\bitems\b/i;
+const TAX_LABEL = /\b(tax|vat|gst|hst|pst)\b/i;
+// Lines that carry an amount but aren't something that was bought
+const NOT_AN_ITEM = /\b(total|subtotal|tax|vat|gst|hst|pst|change|cash|tender|visa|mastercard|amex|debit|credit|card|balance|tip|gratuity|discount|savings|due|paid|auth|approval)\b/i;
+
+const PAYMENT_METHODS: Array<[RegExp, string]> = [
+  [/\bvisa\b/i, 'VISA'],
+  [/\bmaster\s*card\b|\bmc\b/i, 'MASTERCARD'],
+  [/\bamex\b|\bamerican\s*express\b/i, 'AMEX'],
+  [/\bdebit\b/i, 'DEBIT'],
+  [/\bcheque\b|\bcheck\s*(no|#)/i, 'CHECK'],
+  [/\bcash\b/i, 'CASH'],
+];
+
+// Header lines that are never the business name
+const NOT_A_VENDOR = /\b(receipt|invoice|welcome|thank|tel|phone|fax|www\.|https?:|\.com|store\s*#|order\s*#|date|time)\b/i;
+
+function parseAmount(raw: string): number | null {
+  const compact = raw.replace(/\s/g, '');
+  const decimalMark = compact.charAt(compact.length - 3);
+  const digits = compact.slice(0, -3).replace(/[.,]/g, '');
+  const value = Number(`${digits}.${compact.slice(-2)}`);
+  return (decimalMark === '.' || decimalMark === ',') && Number.isFinite(value) ? value : null;
+}
+
+function amountsIn(line: string): number[] {
+  return [...line.matchAll(AMOUNT_PATTERN)]
+    .map(match => parseAmount(match[0]))
+    .filter((value): value is number => value !== null);
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function findDate(lines: string[]): ScanField<string> {
+  for (const line of lines) {
+    // 2025-03-14
+    let match = line.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+    if (match) {
+      const value = isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+      if (value) return { value, confidence: 0.8 };
+    }
+
+    // Mar 14, 2025 / 14 March 2025
+    match = line.match(/\b([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/i)
+      ?? line.match(/\b(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})\b/i);
+    if (match) {
+      const [monthName, day] = /^\d/.test(match[1]) ? [match[2], match[1]] : [match[1], match[2]];
+      const month = MONTHS.indexOf(monthName.toLowerCase()) + 1;
+      const value = month > 0 ? isoDate(Number(match[3]), month, Number(day)) : null;
+      if (value) return { value, confidence: 0.8 };
+    }
+
+    // 03/14/2025 or 14.03.25 — read as US month/day first, like the AI scanner
+    match = line.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+    if (match) {
+      const [a, b, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+      const value = isoDate(year, a, b) ?? isoDate(year, b, a);
+      if (value) return { value, confidence: a > 12 || b > 12 ? 0.7 : 0.5 };
+    }
+  }
+  return { value: null, confidence: 0 };
+}
+
+function findVendor(lines: string[]): ScanField<string> {
+  for (const line of lines.slice(0, 6)) {
+    const letters = line.replace(/[^a-z]/gi, '');
+    if (letters.length < 3 || letters.length < line.replace(/\s/g, '').length / 2) continue;
+    if (NOT_A_VENDOR.test(line) || amountsIn(line).length > 0) continue;
+    return { value: line.replace(/\s{2,}/g, ' ').slice(0, 255), confidence: 0.6 };
+  }
+  return { value: null, confidence: 0 };
+}
+
+/** The last amount on the last line that matches `label` and isn't excluded */
+function findLabelledAmount(lines: string[], label: RegExp, exclude?: RegExp): number | null {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i];
+    if (!label.test(line) || exclude?.test(line)) continue;
+    const amounts = amountsIn(line);
+    // Labels sometimes sit on their own line with the amount underneath
+    const found = amounts.length > 0 ? amounts : amountsIn(lines[i + 1] ?? '');
+    if (found.length > 0) return found[found.length - 1];
+  }
+  return null;
+}
+
+function findLineItems(lines: string[]): ReceiptScanResult['lineItems'] {
+  const items: ReceiptScanResult['lineItems'] = [];
+  for (const line of lines) {
+    if (NOT_AN_ITEM.test(line)) continue;
+    const amounts = amountsIn(line);
+    if (amounts.length === 0) continue;
+
+    const amount = amounts[amounts.length - 1];
+    const firstAmount = line.search(AMOUNT_PATTERN);
+    let description = line.slice(0, firstAmount).trim();
+    let quantity = 1;
+    const qty = description.match(/^(\d+)\s*[x@]\s*/i) ?? description.match(/\s+(\d+)\s*[x@]$/i);
+    if (qty) {
+      quantity = Number(qty[1]);
+      description = description.replace(qty[0], ' ').trim();
+    }
+    description = description.replace(/[^\w)]+$/, '').trim();
+    if (description.replace(/[^a-z]/gi, '').length < 2 || amount <= 0) continue;
+
+    items.push({ description: description.slice(0, 255), amount, quantity });
+    if (items.length >= MAX_LINE_ITEMS) break;
+  }
+  return items;
+}
+
+/**
+ * Read receipt fields out of OCR text. `ocrConfidence` is the engine's
+ * own 0–100 score for the page and scales every field's confidence.
+ */
+export function extractReceiptFields(text: string, ocrConfidence: number): ReceiptScanResult {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const quality = Math.min(1, Math.max(0, ocrConfidence / 100));
+  const scale = <T>(field: ScanField<T>): ScanField<T> => ({
+    value: field.value,
+    confidence: field.value === null ? 0 : Math.round(Math.min(MAX_CONFIDENCE, field.confidence * quality) * 100) / 100,
+  });
+
+  const subtotal = findLabelledAmount(lines, SUBTOTAL_LABEL);
+  const tax = findLabelledAmount(lines, TAX_LABEL, /\btotal\b|\bincl/i);
+
+  let total: ScanField<number> = { value: findLabelledAmount(lines, TOTAL_LABEL, NOT_THE_TOTAL), confidence: 0.7 };
+  if (total.value === null) {
+    // No "total" label read cleanly: the largest amount on the receipt is the best guess
+    const amounts = lines.flatMap(amountsIn).filter(value => value > 0);
+    total = amounts.length > 0 ? { value: Math.max(...amounts), confidence: 0.3 } : { value: null, confidence: 0 };
+  } else if (subtotal !== null && total.value < subtotal) {
+    total.confidence = 0.4;
+  }
+
+  const paymentMethod = PAYMENT_METHODS.find(([pattern]) => lines.some(line => pattern.test(line)));
+
+  return {
+    vendor: scale(findVendor(lines)),
+    date: scale(findDate(lines)),
+    total: scale(total),
+    subtotal: scale({ value: subtotal, confidence: 0.6 }),
+    tax: scale({ value: tax, confidence: 0.6 }),
+    paymentMethod: scale({ value: paymentMethod?.[1] ?? null, confidence: 0.6 }),
+    lineItems: findLineItems(lines),
+    rawText: lines.join('\n'),
+  };
+}
@@ -0,0 +1,254 @@
+import { db } from '../../src/db/index.js';
+import { expenses, expenseAttachments, categories, receiptScans } from '../../src/db/schema.js';
+import { eq, and, asc, gte, lt, or, isNotNull, sql } from 'drizzle-orm';
+import { yearRange, reportableExpenses, type ReportOptions } from './reports.js';
+import { vendorsSimilar } from './vendor-mappings.js';
+
+// Receipt ↔ bank transaction reconciliation. "Transactions" are expenses that
+// came in through a statement import; "receipts" are the other expenses that
+// have a receipt saved on them. A receipt saved directly on a transaction is
+// matched as-is; the rest are paired up by amount, date and vendor.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Card transactions usually post 1–3 days after the purchase; allow some slack */
+const MATCH_WINDOW_DAYS = 5;
+
+/** A restaurant charge can exceed the receipt total by the tip */
+const MAX_TIP_RATIO = 1.3;
+
+export interface ReconciliationTransaction {
+  expenseId: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  vendor: string | null;
+  categoryName: string | null;
+  categoryEmoji: string | null;
+  importReference: string | null;
+}
+
+export interface ReconciliationReceipt {
+  expenseId: string; // expense the receipt is saved on
+  date: string; // YYYY-MM-DD — from the scan when we have one, else the expense
+  amount: number;
+  vendor: string | null;
+  fromScan: boolean;
+  receiptCount: number;
+}
+
+export interface ReconciliationMatch {
+  transaction: ReconciliationTransaction;
+  receipt: ReconciliationReceipt;
+  how: 'attached' | 'matched'; // attached = receipt is saved on the transaction itself
+  amountDifference: number; // transaction − receipt, e.g. a tip
+  dayDifference: number;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round(Math.abs(new Date(`${a}T12:00:00.000Z`).getTime() - new Date(`${b}T12:00:00.000Z`).getTime()) / DAY_MS);
+}
+
+/**
+ * How well a receipt fits a transaction, or null if it can't be the same purchase.
+ * Exact amount needs a similar vendor or a date within two days; a larger
+ * charge (tip) needs a similar vendor.
+ */
+function matchScore(transaction: ReconciliationTransaction, receipt: ReconciliationReceipt): number | null {
+  const days = daysBetween(transaction.date, receipt.date);
+  if (days > MATCH_WINDOW_DAYS) return null;
+
+  const similar = vendorsSimilar(transaction.vendor, receipt.vendor);
+  let score: number;
+
+  if (transaction.amount === receipt.amount) {
+    if (!similar && days > 2) return null;
+    score = 3;
+  } else if (similar && transaction.amount > receipt.amount && transaction.amount <= receipt.amount * MAX_TIP_RATIO) {
+    score = 1;
+  } else {
+    return null;
+  }
+
+  return score + (similar ? 2 : 0) - days * 0.2;
+}
+
+export async function getReconciliation(tenantId: string, year: number, options: ReportOptions = {}) {
+  const { startDate, endDate } = yearRange(year);
+
+  // Look a few days past the year on both sides so a Dec 31 receipt can
+  // still find its Jan 2 transaction; only in-year items are reported.
+  const windowStart = new Date(startDate.getTime() - MATCH_WINDOW_DAYS * DAY_MS);
+  const windowEnd = new Date(endDate.getTime() + MATCH_WINDOW_DAYS * DAY_MS);
+  const inWindow = and(
+    eq(expenses.tenantId, tenantId),
+    gte(expenses.date, windowStart),
+    lt(expenses.date, windowEnd),
+    reportableExpenses(options)
+  );
+
+  const attachmentCount = sql<number>`(SELECT COUNT(*) FROM expense_attachments WHERE expense_attachments.expense_id = ${expenses.id})`;
+
+  const [rows, attachmentScans, legacyScans] = await Promise.all([
+    db
+      .select({
+        id: expenses.id,
+        date: expenses.date,
+        amount: expenses.amount,
+        vendor: expenses.vendor,
+        source: expenses.source,
+        importReference: expenses.importReference,
+        receiptUrl: expenses.receiptUrl,
+        categoryName: categories.name,
+        categoryEmoji: categories.emoji,
+        attachmentCount: attachmentCount.as('attachment_count'),
+      })
+      .from(expenses)
+      .leftJoin(categories, eq(expenses.categoryId, categories.id))
+      .where(and(
+        inWindow,
+        or(
+          eq(expenses.source, 'import'),
+          isNotNull(expenses.receiptUrl),
+          sql`EXISTS (SELECT 1 FROM expense_attachments WHERE expense_attachments.expense_id = ${expenses.id})`
+        )
+      ))
+      .orderBy(asc(expenses.date)),
+
+    db
+      .select({
+        expenseId: expenseAttachments.expenseId,
+        vendor: receiptScans.vendor,
+        date: receiptScans.date,
+        total: receiptScans.total,
+      })
+      .from(receiptScans)
+      .innerJoin(expenseAttachments, and(
+        eq(expenseAttachments.tenantId, receiptScans.tenantId),
+        eq(expenseAttachments.blobUrl, receiptScans.blobUrl)
+      ))
+      .innerJoin(expenses, eq(expenseAttachments.expenseId, expenses.id))
+      .where(inWindow)
+      .orderBy(asc(expenseAttachments.sortOrder)),
+
+    db
+      .select({
+        expenseId: expenses.id,
+        vendor: receiptScans.vendor,
+        date: receiptScans.date,
+        total: receiptScans.total,
+      })
+      .from(receiptScans)
+      .innerJoin(expenses, and(
+        eq(expenses.tenantId, receiptScans.tenantId),
+        eq(expenses.receiptUrl, receiptScans.blobUrl)
+      ))
+      .where(inWindow),
+  ]);
+
+  // First scan per expense (attachments in display order, then the legacy receipt)
+  const scanByExpense = new Map<string, { vendor: string | null; date: Date | null; total: number | null }>();
+  for (const scan of [...attachmentScans, ...legacyScans]) {
+    if (!scanByExpense.has(scan.expenseId)) scanByExpense.set(scan.expenseId, scan);
+  }
+
+  const transactions: ReconciliationTransaction[] = [];
+  const receipts: ReconciliationReceipt[] = [];
+  const matches: ReconciliationMatch[] = [];
+
+  for (const row of rows) {
+    const receiptCount = Number(row.attachmentCount) || (row.receiptUrl ? 1 : 0);
+    const scan = scanByExpense.get(row.id);
+
+    // The scan is what the paper says; the expense may have been edited
+    // (or, for imports, is what the bank says)
+    const receipt: ReconciliationReceipt | null = receiptCount > 0
+      ? {
+          expenseId: row.id,
+          date: scan?.date ? isoDate(scan.date) : isoDate(row.date),
+          amount: scan?.total ?? row.amount,
+          vendor: scan?.vendor ?? row.vendor,
+          fromScan: Boolean(scan && (scan.total != null || scan.date)),
+          receiptCount,
+        }
+      : null;
+
+    if (row.source !== 'import') {
+      if (receipt) receipts.push(receipt);
+      continue;
+    }
+
+    const transaction: ReconciliationTransaction = {
+      expenseId: row.id,
+      date: isoDate(row.date),
+      amount: row.amount,
+      vendor: row.vendor,
+      categoryName: row.categoryName,
+      categoryEmoji: row.categoryEmoji,
+      importReference: row.importReference,
+    };
+
+    if (receipt) {
+      matches.push({
+        transaction,
+        receipt,
+        how: 'attached',
+        amountDifference: transaction.amount - receipt.amount,
+        dayDifference: daysBetween(transaction.date, receipt.date),
+      });
+    } else {
+      transactions.push(transaction);
+    }
+  }
+
+  // Best-scoring pairs first, each receipt and transaction used once
+  const candidates: { transaction: ReconciliationTransaction; receipt: ReconciliationReceipt; score: number }[] = [];
+  for (const transaction of transactions) {
+    for (const receipt of receipts) {
+      const score = matchScore(transaction, receipt);
+      if (score !== null) candidates.push({ transaction, receipt, score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const pairedTransactions = new Set<string>();
+  const pairedReceipts = new Set<string>();
+  for (const { transaction, receipt } of candidates) {
+    if (pairedTransactions.has(transaction.expenseId) || pairedReceipts.has(receipt.expenseId)) continue;
+    pairedTransactions.add(transaction.expenseId);
+    pairedReceipts.add(receipt.expenseId);
+    matches.push({
+      transaction,
+      receipt,
+      how: 'matched',
+      amountDifference: transaction.amount - receipt.amount,
+      dayDifference: daysBetween(transaction.date, receipt.date),
+    });
+  }
+
+  const startIso = isoDate(startDate);
+  const endIso = isoDate(endDate);
+  const inYear = (date: string) => date >= startIso && date < endIso;
+
+  const reportedMatches = matches
+    .filter(m => inYear(m.transaction.date))
+    .sort((a, b) => a.transaction.date.localeCompare(b.transaction.date));
+  const unmatchedReceipts = receipts.filter(r => !pairedReceipts.has(r.expenseId) && inYear(r.date));
+  const unmatchedTransactions = transactions.filter(t => !pairedTransactions.has(t.expenseId) && inYear(t.date));
+
+  return {
+    year,
+    matches: reportedMatches,
+    unmatchedReceipts,
+    unmatchedTransactions,
+    summary: {
+      matched: reportedMatches.length,
+      unmatchedReceipts: unmatchedReceipts.length,
+      unmatchedTransactions: unmatchedTransactions.length,
+      unmatchedTransactionTotal: unmatchedTransactions.reduce((sum, t) => sum + t.amount, 0),
+    },
+  };
+}
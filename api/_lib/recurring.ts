@@ -0,0 +1,56 @@
+export const RECURRING_FREQUENCIES = ['monthly', 'quarterly', 'yearly'] as const;
+
+export type RecurringFrequency = typeof RECURRING_FREQUENCIES[number];
+
+const MONTHS_PER_PERIOD: Record<RecurringFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export function isRecurringFrequency(value: unknown): value is RecurringFrequency {
+  return typeof value === 'string' && (RECURRING_FREQUENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Build a scheduled occurrence for the given month, clamping the day to the
+ * month length (day 31 becomes Feb 28/29, Apr 30, etc.).
+ * Stored at noon UTC to match how the client saves expense dates.
+ */
+export function scheduledDate(year: number, monthIndex: number, dayOfMonth: number): Date {
+  const daysInMonth = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, monthIndex, Math.min(dayOfMonth, daysInMonth), 12));
+}
+
+/**
+ * Parse a YYYY-MM-DD string into a scheduled occurrence (noon UTC).
+ * Returns null for anything that isn't a real calendar date.
+ */
+export function parseScheduleDate(dateStr: unknown): Date | null {
+  if (typeof dateStr !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(dateStr)) return null;
+  const [year, month, day] = dateStr.substring(0, 10).split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, 12));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+/**
+ * The first occurrence on the template's day that isn't before `start`:
+ * in start's month if that day hasn't passed yet, otherwise the next month.
+ */
+export function firstOccurrenceOnOrAfter(start: Date, dayOfMonth: number): Date {
+  const sameMonth = scheduledDate(start.getUTCFullYear(), start.getUTCMonth(), dayOfMonth);
+  return sameMonth >= start
+    ? sameMonth
+    : scheduledDate(start.getUTCFullYear(), start.getUTCMonth() + 1, dayOfMonth);
+}
+
+/**
+ * Advance an occurrence by one period of the template's frequency.
+ * Uses the template's dayOfMonth (not the previous date's day) so a
+ * clamped Feb 28 goes back to the 31st in March.
+ */
+export function advanceOccurrence(from: Date, frequency: RecurringFrequency, dayOfMonth: number): Date {
+  const months = MONTHS_PER_PERIOD[frequency];
+  return scheduledDate(from.getUTCFullYear(), from.getUTCMonth() + months, dayOfMonth);
+}
@@ -0,0 +1,118 @@
+import { db } from '../../src/db/index.js';
+import { categories, expenses, reimbursements, userTenantAccess, users } from '../../src/db/schema.js';
+import { eq, and, or, ne, isNull, asc } from 'drizzle-orm';
+
+// Reimbursable expenses are owed back to whoever entered them (createdBy).
+// They're outstanding until batched, pending while the batch is a draft or
+// approved, and settled once it's paid. Nothing is owed until the expense
+// itself is approved.
+
+export interface ReimbursementBalance {
+  userId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: string | null; // null once they've been removed from the tenant
+  outstandingAmount: number; // not in any batch yet
+  outstandingCount: number;
+  pendingAmount: number; // in a draft or approved batch
+  pendingCount: number;
+  balance: number; // outstanding + pending, in the tenant's base currency
+}
+
+/** What each person is still owed, largest balance first. Pass `userId` for one person's balance. */
+export async function getReimbursementBalances(tenantId: string, userId?: string): Promise<ReimbursementBalance[]> {
+  const rows = await db
+    .select({
+      userId: users.id,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      role: userTenantAccess.role,
+      amount: expenses.amount,
+      reimbursementId: expenses.reimbursementId,
+    })
+    .from(expenses)
+    .innerJoin(users, eq(expenses.createdBy, users.id))
+    .leftJoin(userTenantAccess, and(
+      eq(userTenantAccess.userId, users.id),
+      eq(userTenantAccess.tenantId, expenses.tenantId)
+    ))
+    .leftJoin(reimbursements, eq(expenses.reimbursementId, reimbursements.id))
+    .where(and(
+      eq(expenses.tenantId, tenantId),
+      eq(expenses.isReimbursable, true),
+      eq(expenses.approvalStatus, 'approved'),
+      or(isNull(expenses.reimbursementId), ne(reimbursements.status, 'paid')),
+      userId ? eq(expenses.createdBy, userId) : undefined
+    ));
+
+  const balances = new Map<string, ReimbursementBalance>();
+  for (const row of rows) {
+    let balance = balances.get(row.userId);
+    if (!balance) {
+      balance = {
+        userId: row.userId,
+        email: row.email,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        role: row.role,
+        outstandingAmount: 0,
+        outstandingCount: 0,
+        pendingAmount: 0,
+        pendingCount: 0,
+        balance: 0,
+      };
+      balances.set(row.userId, balance);
+    }
+    if (row.reimbursementId) {
+      balance.pendingAmount += row.amount;
+      balance.pendingCount += 1;
+    } else {
+      balance.outstandingAmount += row.amount;
+      balance.outstandingCount += 1;
+    }
+    balance.balance += row.amount;
+  }
+
+  return [...balances.values()].sort((a, b) => b.balance - a.balance);
+}
+
+const reimbursementExpenseColumns = {
+  id: expenses.id,
+  date: expenses.date,
+  vendor: expenses.vendor,
+  description: expenses.description,
+  amount: expenses.amount,
+  currency: expenses.currency,
+  originalAmount: expenses.originalAmount,
+  categoryName: categories.name,
+  categoryEmoji: categories.emoji,
+  receiptUrl: expenses.receiptUrl,
+};
+
+/** A person's reimbursable expenses that aren't in a batch yet, oldest first */
+export async function getOutstandingExpenses(tenantId: string, userId: string) {
+  return db
+    .select(reimbursementExpenseColumns)
+    .from(expenses)
+    .leftJoin(categories, eq(expenses.categoryId, categories.id))
+    .where(and(
+      eq(expenses.tenantId, tenantId),
+      eq(expenses.createdBy, userId),
+      eq(expenses.isReimbursable, true),
+      eq(expenses.approvalStatus, 'approved'),
+      isNull(expenses.reimbursementId)
+    ))
+    .orderBy(asc(expenses.date));
+}
+
+/** The expenses in a batch, oldest first */
+export async function getReimbursementExpenses(reimbursementId: string) {
+  return db
+    .select(reimbursementExpenseColumns)
+    .from(expenses)
+    .leftJoin(categories, eq(expenses.categoryId, categories.id))
+    .where(eq(expenses.reimbursementId, reimbursementId))
+    .orderBy(asc(expenses.date));
+}
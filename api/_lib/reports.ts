@@ -0,0 +1,664 @@
+import { db } from '../../src/db/index.js';
+import { tenants, expenses, expenseSplits, categories, mileageTrips } from '../../src/db/schema.js';
+import { eq, and, asc, gte, lt, inArray } from 'drizzle-orm';
+import { getMileageRates, rateForDate, ratesForYear, millsToCents, mileageDeduction } from './mileage-rates.js';
+import { DEFAULT_CATEGORIES } from '../../src/db/default-categories.js';
+import { taxInBaseCurrency } from './sales-tax.js';
+import {
+  SCHEDULE_C_LINES,
+  HOME_OFFICE_LINE,
+  COGS_LINE,
+  MILEAGE_LINE,
+  getScheduleCLine,
+} from '../../src/utils/schedule-c.js';
+
+// Report builders shared by the JSON report endpoints and the file exports,
+// so a downloaded workbook always matches what the report pages show.
+
+// ============================================
+// Shared helpers
+// ============================================
+
+/** Jan 1 of the year to Jan 1 of the next (same range every report uses) */
+export function yearRange(year: number): { startDate: Date; endDate: Date } {
+  return { startDate: new Date(year, 0, 1), endDate: new Date(year + 1, 0, 1) };
+}
+
+/** Deductible amount — home office expenses only count their business-use share */
+export function getDeductibleAmount(expense: {
+  amount: number;
+  isHomeOffice?: boolean | null;
+  homeOfficePercent?: number | null;
+}): number {
+  if (expense.isHomeOffice && expense.homeOfficePercent != null) {
+    return Math.round(expense.amount * expense.homeOfficePercent / 100);
+  }
+  return expense.amount;
+}
+
+export interface ReportOptions {
+  includePending?: boolean; // also count expenses awaiting approval (rejected ones never count)
+}
+
+/** ?includePending=true on a report or export request */
+export function parseReportOptions(query: Partial<Record<string, string | string[]>>): ReportOptions {
+  return { includePending: query.includePending === 'true' };
+}
+
+/** The expenses a report counts: approved ones, plus pending ones when asked */
+export function reportableExpenses({ includePending = false }: ReportOptions = {}) {
+  return inArray(expenses.approvalStatus, includePending ? ['approved', 'pending'] : ['approved']);
+}
+
+/** The currency every stored amount (and so every report total) is in */
+export async function getBaseCurrency(tenantId: string): Promise<string> {
+  const [tenant] = await db
+    .select({ baseCurrency: tenants.baseCurrency })
+    .from(tenants)
+    .where(eq(tenants.id, tenantId))
+    .limit(1);
+  return tenant?.baseCurrency ?? 'USD';
+}
+
+// ============================================
+// Expense lines (splits expanded)
+// ============================================
+export interface ExpenseLine {
+  id: string; // expense id — shared by every line of a split expense
+  date: Date;
+  amount: number;                // base currency
+  currency: string;              // as entered
+  originalAmount: number | null; // as entered, when foreign
+  vendor: string | null;
+  description: string | null;
+  categoryId: string | null;
+  categoryName: string | null;
+  categoryEmoji: string | null;
+  expenseType: string;
+  isHomeOffice: boolean;
+  homeOfficePercent: number | null;
+  paymentAccountId: string | null;
+  isSplit: boolean;
+}
+
+/**
+ * The year's expenses as reportable lines, oldest first. An expense split
+ * across categories becomes one line per split (carrying the expense's
+ * date and vendor); everything else is a single line. Every report rolls
+ * up lines, so a split receipt lands in each of its categories.
+ */
+export async function getExpenseLines(tenantId: string, year: number, options: ReportOptions = {}): Promise<ExpenseLine[]> {
+  const { startDate, endDate } = yearRange(year);
+  const inYear = and(
+    eq(expenses.tenantId, tenantId),
+    gte(expenses.date, startDate),
+    lt(expenses.date, endDate),
+    reportableExpenses(options)
+  );
+
+  const [yearExpenses, yearSplits] = await Promise.all([
+    db
+      .select({
+        id: expenses.id,
+        date: expenses.date,
+        amount: expenses.amount,
+        currency: expenses.currency,
+        originalAmount: expenses.originalAmount,
+        vendor: expenses.vendor,
+        description: expenses.description,
+        categoryId: expenses.categoryId,
+        categoryName: categories.name,
+        categoryEmoji: categories.emoji,
+        expenseType: expenses.expenseType,
+        isHomeOffice: expenses.isHomeOffice,
+        homeOfficePercent: expenses.homeOfficePercent,
+        paymentAccountId: expenses.paymentAccountId,
+      })
+      .from(expenses)
+      .leftJoin(categories, eq(expenses.categoryId, categories.id))
+      .where(inYear)
+      .orderBy(asc(expenses.date), asc(expenses.createdAt)),
+    db
+      .select({
+        expenseId: expenseSplits.expenseId,
+        amount: expenseSplits.amount,
+        originalAmount: expenseSplits.originalAmount,
+        description: expenseSplits.description,
+        categoryId: expenseSplits.categoryId,
+        categoryName: categories.name,
+        categoryEmoji: categories.emoji,
+        expenseType: expenseSplits.expenseType,
+        isHomeOffice: expenseSplits.isHomeOffice,
+        homeOfficePercent: expenseSplits.homeOfficePercent,
+      })
+      .from(expenseSplits)
+      .innerJoin(expenses, eq(expenseSplits.expenseId, expenses.id))
+      .leftJoin(categories, eq(expenseSplits.categoryId, categories.id))
+      .where(inYear)
+      .orderBy(asc(expenseSplits.sortOrder)),
+  ]);
+
+  const splitsByExpense = new Map<string, typeof yearSplits>();
+  for (const split of yearSplits) {
+    if (!splitsByExpense.has(split.expenseId)) splitsByExpense.set(split.expenseId, []);
+    splitsByExpense.get(split.expenseId)!.push(split);
+  }
+
+  return yearExpenses.flatMap((expense): ExpenseLine[] => {
+    const splits = splitsByExpense.get(expense.id);
+    if (!splits) return [{ ...expense, isSplit: false }];
+
+    return splits.map((split) => ({
+      id: expense.id,
+      date: expense.date,
+      amount: split.amount,
+      currency: expense.currency,
+      originalAmount: split.originalAmount,
+      vendor: expense.vendor,
+      description: split.description ?? expense.description,
+      categoryId: split.categoryId,
+      categoryName: split.categoryName,
+      categoryEmoji: split.categoryEmoji,
+      expenseType: split.expenseType,
+      isHomeOffice: split.isHomeOffice,
+      homeOfficePercent: split.homeOfficePercent,
+      paymentAccountId: expense.paymentAccountId,
+      isSplit: true,
+    }));
+  });
+}
+
+/** Number of distinct expenses behind a set of lines */
+export function countExpenses(lines: { id: string }[]): number {
+  return new Set(lines.map((l) => l.id)).size;
+}
+
+export interface ForeignCurrencyTotal {
+  currency: string;
+  originalAmount: number; // sum as entered
+  amount: number;         // sum after conversion to the base currency
+  count: number;          // distinct expenses
+}
+
+/**
+ * Lines entered in another currency, totalled per currency — reports add
+ * up the converted amounts, this shows what they were converted from.
+ */
+export function summarizeForeignCurrency(lines: ExpenseLine[]): ForeignCurrencyTotal[] {
+  const byCurrency = new Map<string, { originalAmount: number; amount: number; ids: Set<string> }>();
+  for (const line of lines) {
+    if (line.originalAmount === null) continue;
+    const existing = byCurrency.get(line.currency) || { originalAmount: 0, amount: 0, ids: new Set<string>() };
+    existing.originalAmount += line.originalAmount;
+    existing.amount += line.amount;
+    existing.ids.add(line.id);
+    byCurrency.set(line.currency, existing);
+  }
+
+  return Array.from(byCurrency.entries())
+    .map(([currency, t]) => ({ currency, originalAmount: t.originalAmount, amount: t.amount, count: t.ids.size }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+// ============================================
+// Expense ledger
+// ============================================
+/** One row per expense line — a split expense appears once per category */
+export async function getExpenseLedger(tenantId: string, year: number, options: ReportOptions = {}) {
+  return getExpenseLines(tenantId, year, options);
+}
+
+// ============================================
+// Tax summary (type → category rollup)
+// ============================================
+export const TAX_TYPE_CONFIG: Record<string, { label: string; description: string; order: number }> = {
+  cogs: {
+    label: 'Cost of Goods Sold (COGS)',
+    description: 'Direct costs of producing goods or services sold',
+    order: 1,
+  },
+  operating: {
+    label: 'Operating Expenses',
+    description: 'Day-to-day business expenses not directly tied to production',
+    order: 2,
+  },
+  home_office: {
+    label: 'Home Office Expenses',
+    description: 'Expenses with home office deduction applied (partial deductibility based on sq ft percentage)',
+    order: 3,
+  },
+};
+
+export async function getTaxSummary(tenantId: string, year: number, options: ReportOptions = {}) {
+  // This year's expense lines (splits expanded), categories and currency
+  const [yearExpenses, tenantCategories, currency] = await Promise.all([
+    getExpenseLines(tenantId, year, options),
+    db
+      .select()
+      .from(categories)
+      .where(eq(categories.tenantId, tenantId)),
+    getBaseCurrency(tenantId),
+  ]);
+
+  const categoryMap = new Map(tenantCategories.map((c) => [c.id, c]));
+
+  // ---- Group by section ----
+  const typeGroups = new Map<string, typeof yearExpenses>();
+
+  for (const exp of yearExpenses) {
+    let section: string;
+    if (exp.isHomeOffice) {
+      section = 'home_office';
+    } else {
+      section = exp.expenseType || 'operating';
+      if (section === 'home_office') {
+        section = 'operating';
+      }
+    }
+
+    if (!typeGroups.has(section)) {
+      typeGroups.set(section, []);
+    }
+    typeGroups.get(section)!.push(exp);
+  }
+
+  // ---- Build type sections ----
+  const totalSpent = yearExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const totalDeductible = yearExpenses.reduce((sum, e) => sum + getDeductibleAmount(e), 0);
+
+  const sections = Object.entries(TAX_TYPE_CONFIG)
+    .map(([typeKey, config]) => {
+      const typeExpenses = typeGroups.get(typeKey) || [];
+      const typeTotal = typeExpenses.reduce((sum, e) => sum + e.amount, 0);
+      const typeDeductible = typeExpenses.reduce((sum, e) => sum + getDeductibleAmount(e), 0);
+
+      // Category breakdown within this type
+      const catTotals = new Map<string, { amount: number; deductible: number; count: number }>();
+      for (const exp of typeExpenses) {
+        const catId = exp.categoryId || 'uncategorized';
+        const existing = catTotals.get(catId) || { amount: 0, deductible: 0, count: 0 };
+        existing.amount += exp.amount;
+        existing.deductible += getDeductibleAmount(exp);
+        existing.count += 1;
+        catTotals.set(catId, existing);
+      }
+
+      const categoryBreakdown = Array.from(catTotals.entries())
+        .map(([catId, data]) => {
+          const cat = categoryMap.get(catId);
+          return {
+            categoryId: catId,
+            name: cat?.name || 'Uncategorized',
+            emoji: cat?.emoji || '❓',
+            amount: data.amount,
+            deductible: data.deductible,
+            count: data.count,
+            percentOfType: typeTotal > 0 ? Math.round((data.amount / typeTotal) * 1000) / 10 : 0,
+          };
+        })
+        .sort((a, b) => b.amount - a.amount);
+
+      return {
+        type: typeKey,
+        label: config.label,
+        description: config.description,
+        order: config.order,
+        total: typeTotal,
+        deductible: typeDeductible,
+        count: typeExpenses.length,
+        percentOfTotal: totalSpent > 0 ? Math.round((typeTotal / totalSpent) * 1000) / 10 : 0,
+        categories: categoryBreakdown,
+      };
+    })
+    .sort((a, b) => a.order - b.order);
+
+  return {
+    year,
+    currency,
+    totalSpent,
+    totalDeductible,
+    expenseCount: countExpenses(yearExpenses),
+    foreignCurrency: summarizeForeignCurrency(yearExpenses),
+    sections,
+  };
+}
+
+// ============================================
+// Schedule C (IRS line rollup)
+// ============================================
+const DEFAULT_LINE_BY_NAME = new Map(DEFAULT_CATEGORIES.map((c) => [c.name.toLowerCase(), c.scheduleCLine]));
+
+/**
+ * Schedule C line for an expense. Home office and COGS expenses go to
+ * their own lines whatever the category says; categories created before
+ * line mapping fall back to the seeded default with the same name.
+ */
+export function resolveScheduleCLine(
+  expense: { isHomeOffice: boolean | null; expenseType: string | null },
+  category: { name: string; scheduleCLine: string | null } | undefined
+): string | null {
+  if (expense.isHomeOffice) return HOME_OFFICE_LINE;
+  if (expense.expenseType === 'cogs') return COGS_LINE;
+  if (!category) return null;
+  return category.scheduleCLine ?? DEFAULT_LINE_BY_NAME.get(category.name.toLowerCase()) ?? null;
+}
+
+interface ScheduleCCategoryTotal {
+  categoryId: string;
+  name: string;
+  emoji: string;
+  amount: number;
+  deductible: number;
+  count: number;
+}
+
+/**
+ * Deductible totals by Schedule C line, applying each line's statutory
+ * limit (e.g. 50% meals) on top of the home office percentage. The year's
+ * standard mileage deduction is included on line 9, so totalDeductible here
+ * is higher than the by-type summary when trips were logged.
+ */
+export async function getScheduleCSummary(tenantId: string, year: number, options: ReportOptions = {}) {
+  const [yearExpenses, tenantCategories, mileage, currency] = await Promise.all([
+    getExpenseLines(tenantId, year, options),
+    db
+      .select()
+      .from(categories)
+      .where(eq(categories.tenantId, tenantId)),
+    getMileageLog(tenantId, year),
+    getBaseCurrency(tenantId),
+  ]);
+
+  const categoryMap = new Map(tenantCategories.map((c) => [c.id, c]));
+
+  // ---- Group by line, then category ----
+  const lineTotals = new Map<string | null, Map<string, ScheduleCCategoryTotal>>();
+
+  for (const exp of yearExpenses) {
+    const category = exp.categoryId ? categoryMap.get(exp.categoryId) : undefined;
+    const lineCode = resolveScheduleCLine(exp, category);
+    const limit = getScheduleCLine(lineCode)?.deductiblePercent ?? 100;
+
+    if (!lineTotals.has(lineCode)) lineTotals.set(lineCode, new Map());
+    const byCategory = lineTotals.get(lineCode)!;
+
+    const catId = exp.categoryId || 'uncategorized';
+    const existing = byCategory.get(catId) || {
+      categoryId: catId,
+      name: category?.name || 'Uncategorized',
+      emoji: category?.emoji || '❓',
+      amount: 0,
+      deductible: 0,
+      count: 0,
+    };
+    existing.amount += exp.amount;
+    existing.deductible += Math.round(getDeductibleAmount(exp) * limit / 100);
+    existing.count += 1;
+    byCategory.set(catId, existing);
+  }
+
+  // Standard mileage deduction is reported on line 9 (car and truck expenses)
+  if (mileage.summary.tripCount > 0) {
+    if (!lineTotals.has(MILEAGE_LINE)) lineTotals.set(MILEAGE_LINE, new Map());
+    lineTotals.get(MILEAGE_LINE)!.set('mileage', {
+      categoryId: 'mileage',
+      name: 'Standard mileage rate',
+      emoji: '🚗',
+      amount: mileage.summary.estimatedDeduction,
+      deductible: mileage.summary.estimatedDeduction,
+      count: mileage.summary.tripCount,
+    });
+  }
+
+  // ---- Build lines in form order, unmapped last ----
+  const lineOrder = (code: string | null) => code === null
+    ? SCHEDULE_C_LINES.length
+    : SCHEDULE_C_LINES.findIndex((l) => l.line === code);
+
+  const lines = Array.from(lineTotals.entries())
+    .sort(([a], [b]) => lineOrder(a) - lineOrder(b))
+    .map(([code, byCategory]) => {
+      const line = getScheduleCLine(code);
+      const cats = Array.from(byCategory.values()).sort((a, b) => b.amount - a.amount);
+      return {
+        line: code,
+        label: line?.label ?? 'Not mapped to a Schedule C line',
+        deductiblePercent: line?.deductiblePercent ?? 100,
+        amount: cats.reduce((sum, c) => sum + c.amount, 0),
+        deductible: cats.reduce((sum, c) => sum + c.deductible, 0),
+        count: cats.reduce((sum, c) => sum + c.count, 0),
+        categories: cats,
+      };
+    });
+
+  return {
+    year,
+    currency,
+    totalSpent: yearExpenses.reduce((sum, e) => sum + e.amount, 0),
+    totalDeductible: lines.reduce((sum, l) => sum + l.deductible, 0),
+    expenseCount: countExpenses(yearExpenses),
+    foreignCurrency: summarizeForeignCurrency(yearExpenses),
+    mileageDeduction: mileage.summary.estimatedDeduction,
+    lines,
+  };
+}
+
+// ============================================
+// Quarterly (category × quarter matrix)
+// ============================================
+export interface QuarterlyRow {
+  categoryId: string;
+  name: string;
+  emoji: string | null;
+  q1: number;
+  q2: number;
+  q3: number;
+  q4: number;
+  total: number;
+}
+
+function getQuarter(date: Date): number {
+  return Math.floor(date.getMonth() / 3) + 1;
+}
+
+export async function getQuarterlyReport(tenantId: string, year: number, options: ReportOptions = {}) {
+  // This year's expense lines (splits expanded)
+  const [filtered, currency] = await Promise.all([
+    getExpenseLines(tenantId, year, options),
+    getBaseCurrency(tenantId),
+  ]);
+
+  // Build category × quarter matrix
+  const matrix = new Map<string, QuarterlyRow>();
+
+  for (const expense of filtered) {
+    const key = expense.categoryId || 'uncategorized';
+    const quarter = getQuarter(new Date(expense.date));
+
+    if (!matrix.has(key)) {
+      matrix.set(key, {
+        categoryId: key,
+        name: expense.categoryName || 'Uncategorized',
+        emoji: expense.categoryEmoji,
+        q1: 0,
+        q2: 0,
+        q3: 0,
+        q4: 0,
+        total: 0,
+      });
+    }
+
+    const row = matrix.get(key)!;
+    const qKey = `q${quarter}` as 'q1' | 'q2' | 'q3' | 'q4';
+    row[qKey] += getDeductibleAmount(expense);
+    row.total += getDeductibleAmount(expense);
+  }
+
+  // Sort by total descending
+  const rows = Array.from(matrix.values()).sort((a, b) => b.total - a.total);
+
+  // Calculate column totals
+  const totals = {
+    q1: rows.reduce((sum, r) => sum + r.q1, 0),
+    q2: rows.reduce((sum, r) => sum + r.q2, 0),
+    q3: rows.reduce((sum, r) => sum + r.q3, 0),
+    q4: rows.reduce((sum, r) => sum + r.q4, 0),
+    total: rows.reduce((sum, r) => sum + r.total, 0),
+  };
+
+  return { year, currency, rows, totals, foreignCurrency: summarizeForeignCurrency(filtered) };
+}
+
+// ============================================
+// Sales tax / VAT (input tax by quarter)
+// ============================================
+export interface SalesTaxTotals {
+  grossAmount: number; // tax-inclusive spend on expenses with tax recorded
+  netAmount: number;   // the same spend before tax
+  taxAmount: number;
+  count: number;
+}
+
+const emptyTaxTotals = (): SalesTaxTotals => ({ grossAmount: 0, netAmount: 0, taxAmount: 0, count: 0 });
+
+/**
+ * Input tax paid on the year's expenses, by quarter and by rate, for
+ * tenants that file sales-tax or VAT returns. Only expenses with tax
+ * recorded count; foreign-currency tax is converted at the expense's rate.
+ */
+export async function getSalesTaxReport(tenantId: string, year: number, options: ReportOptions = {}) {
+  const { startDate, endDate } = yearRange(year);
+
+  const [yearExpenses, currency] = await Promise.all([
+    db
+      .select({
+        id: expenses.id,
+        date: expenses.date,
+        vendor: expenses.vendor,
+        amount: expenses.amount,
+        currency: expenses.currency,
+        originalAmount: expenses.originalAmount,
+        taxAmount: expenses.taxAmount,
+        taxRate: expenses.taxRate,
+      })
+      .from(expenses)
+      .where(and(
+        eq(expenses.tenantId, tenantId),
+        gte(expenses.date, startDate),
+        lt(expenses.date, endDate),
+        reportableExpenses(options)
+      ))
+      .orderBy(asc(expenses.date), asc(expenses.createdAt)),
+    getBaseCurrency(tenantId),
+  ]);
+
+  const quarters = [1, 2, 3, 4].map((quarter) => ({ quarter, label: `Q${quarter}`, ...emptyTaxTotals() }));
+  const byRate = new Map<number, SalesTaxTotals>();
+  const totals = emptyTaxTotals();
+  const taxed = [];
+
+  for (const expense of yearExpenses) {
+    if (expense.taxAmount === null) continue;
+    const tax = taxInBaseCurrency(expense);
+    const rate = expense.taxRate ?? 0;
+
+    if (!byRate.has(rate)) byRate.set(rate, emptyTaxTotals());
+    for (const bucket of [quarters[getQuarter(new Date(expense.date)) - 1], byRate.get(rate)!, totals]) {
+      bucket.grossAmount += expense.amount;
+      bucket.netAmount += expense.amount - tax;
+      bucket.taxAmount += tax;
+      bucket.count += 1;
+    }
+
+    taxed.push({
+      id: expense.id,
+      date: expense.date,
+      vendor: expense.vendor,
+      amount: expense.amount,
+      taxAmount: tax,
+      taxRate: expense.taxRate,
+      currency: expense.currency,
+      originalTaxAmount: expense.originalAmount !== null ? expense.taxAmount : null,
+    });
+  }
+
+  return {
+    year,
+    currency,
+    quarters,
+    rates: Array.from(byRate.entries())
+      .map(([rate, t]) => ({ rate, ...t }))
+      .sort((a, b) => b.rate - a.rate),
+    totals,
+    untaxedCount: yearExpenses.length - totals.count,
+    expenses: taxed,
+  };
+}
+
+// ============================================
+// Mileage log
+// ============================================
+export async function getMileageLog(tenantId: string, year: number) {
+  const { startDate, endDate } = yearRange(year);
+
+  // Fetch mileage trips for this year only, sorted chronologically (oldest first for IRS report)
+  const yearTrips = await db
+    .select()
+    .from(mileageTrips)
+    .where(and(
+      eq(mileageTrips.tenantId, tenantId),
+      gte(mileageTrips.date, startDate),
+      lt(mileageTrips.date, endDate)
+    ))
+    .orderBy(asc(mileageTrips.date));
+
+  // Build report rows — each trip is deducted at the IRS rate in effect on its date
+  const rates = await getMileageRates();
+  const trips = yearTrips.map((trip) => {
+    const displayMiles = trip.isRoundTrip ? trip.distanceMiles * 2 : trip.distanceMiles;
+    const rateMills = rateForDate(rates, trip.date);
+    return {
+      id: trip.id,
+      date: trip.date,
+      startLocation: trip.startLocation,
+      endLocation: trip.endLocation,
+      description: trip.description,
+      distanceMiles: trip.distanceMiles,
+      displayMiles,
+      isRoundTrip: trip.isRoundTrip,
+      mileageRate: millsToCents(rateMills), // cents per mile
+      deduction: mileageDeduction(displayMiles, rateMills), // cents
+    };
+  });
+
+  // Calculate summary
+  const totalMiles = trips.reduce((sum, t) => sum + t.displayMiles, 0);
+  const tripCount = trips.length;
+  const estimatedDeduction = trips.reduce((sum, t) => sum + t.deduction, 0);
+
+  // Monthly breakdown
+  const monthlyMiles = new Array(12).fill(0);
+  for (const trip of trips) {
+    const month = new Date(trip.date).getMonth();
+    monthlyMiles[month] += trip.displayMiles;
+  }
+
+  const monthlyBreakdown = monthlyMiles.map((miles, i) => ({
+    month: i + 1,
+    label: new Date(year, i).toLocaleString('en-US', { month: 'long' }),
+    totalMiles: miles,
+    tripCount: trips.filter((t) => new Date(t.date).getMonth() === i).length,
+  })).filter((m) => m.totalMiles > 0 || m.tripCount > 0);
+
+  return {
+    year,
+    trips,
+    summary: {
+      totalMiles,
+      tripCount,
+      estimatedDeduction,
+      mileageRates: ratesForYear(rates, year),
+    },
+    monthlyBreakdown,
+  };
+}
@@ -0,0 +1,76 @@
+// Sales tax / VAT paid on an expense. Receipt totals include the tax, so
+// either field can be worked out from the other: a rate alone backs the
+// tax out of the total, a tax amount alone gives the effective rate.
+//
+// The tax amount is kept in the expense's own currency (like the receipt
+// shows it); reports convert it with the expense's stored rate.
+
+export interface SalesTaxInput {
+  taxAmount?: unknown; // Optional: minor units of the expense's currency
+  taxRate?: unknown;   // Optional: percent, e.g. 8.25
+}
+
+export interface SalesTaxValues {
+  taxAmount: number | null;
+  taxRate: number | null;
+}
+
+const MAX_TAX_RATE = 100;
+
+const roundRate = (rate: number) => Math.round(rate * 1000) / 1000;
+
+/**
+ * Validate tax against the expense total (in the same currency) and fill
+ * in whichever of amount/rate was left out. Both null means "not recorded".
+ */
+export function validateSalesTax(
+  input: SalesTaxInput,
+  total: number
+): { errors: string[]; values: SalesTaxValues | null } {
+  const { taxAmount, taxRate } = input;
+  const errors: string[] = [];
+  const hasAmount = taxAmount !== undefined && taxAmount !== null;
+  const hasRate = taxRate !== undefined && taxRate !== null;
+
+  if (hasAmount) {
+    if (typeof taxAmount !== 'number' || !Number.isInteger(taxAmount) || taxAmount < 0) {
+      errors.push('Tax amount must be a non-negative integer (in cents)');
+    } else if (taxAmount >= total) {
+      errors.push('Tax amount must be less than the total');
+    }
+  }
+  if (hasRate) {
+    if (typeof taxRate !== 'number' || !isFinite(taxRate) || taxRate < 0 || taxRate > MAX_TAX_RATE) {
+      errors.push(`Tax rate must be a percentage between 0 and ${MAX_TAX_RATE}`);
+    }
+  }
+  if (errors.length > 0) return { errors, values: null };
+
+  if (!hasAmount && !hasRate) {
+    return { errors: [], values: { taxAmount: null, taxRate: null } };
+  }
+
+  const rate = hasRate ? roundRate(taxRate as number) : null;
+  const amount = hasAmount
+    ? taxAmount as number
+    : Math.round(total * rate! / (100 + rate!));
+
+  return {
+    errors: [],
+    values: {
+      taxAmount: amount,
+      taxRate: rate ?? roundRate(amount / (total - amount) * 100),
+    },
+  };
+}
+
+/** An expense's tax in the base currency, converted like its amount */
+export function taxInBaseCurrency(expense: {
+  amount: number;
+  originalAmount: number | null;
+  taxAmount: number | null;
+}): number {
+  if (!expense.taxAmount) return 0;
+  if (expense.originalAmount === null || expense.originalAmount === 0) return expense.taxAmount;
+  return Math.round(expense.taxAmount * expense.amount / expense.originalAmount);
+}
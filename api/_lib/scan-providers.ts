@@ -0,0 +1,303 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { createWorker } from 'tesseract.js';
+import { db } from '../../src/db/index.js';
+import { tenants } from '../../src/db/schema.js';
+import { eq } from 'drizzle-orm';
+import { LOCAL_SCAN_LIMITS, RECEIPT_SCAN_LIMITS, checkRateLimit, recordUsage, type RateLimitConfig } from './rate-limit.js';
+import { extractReceiptFields } from './receipt-text.js';
+import type { ReceiptScanResult } from './receipt-schema.js';
+import { getVisionAdapter, runVisionScan } from './vision-adapters.js';
+import { isScanProviderSetting, type ScanProviderSetting } from '../../src/utils/scan-providers.js';
+import { DEFAULT_VISION_MODEL, isVisionModel } from '../../src/utils/vision-models.js';
+
+// The engines that can read a receipt image. scanReceiptImages() tries
+// them in order for the tenant's setting and returns the first result,
+// so every provider answers in the same confidence-scored shape.
+
+/** A page image, or a whole PDF for providers whose canRead() takes one */
+export interface ScanImage {
+  base64: string;
+  mediaType: string;
+}
+
+export interface ScanOptions {
+  visionModel: string; // the tenant's pick from src/utils/vision-models.ts
+}
+
+export interface ScanProvider {
+  id: 'vision' | 'local';
+  limits: RateLimitConfig; // checked before, and recorded after, each successful scan
+  isConfigured(): boolean;
+  canRead(mediaType: string): boolean;
+  /** Throws with a user-facing message when the scan can't be completed */
+  scan(images: ScanImage[], options: ScanOptions): Promise<ReceiptScanResult>;
+}
+
+// ===========================================
+// Receipt scan prompts for the vision model
+// ===========================================
+const RECEIPT_SCAN_PROMPT = `You are a receipt data extraction assistant. Analyze this receipt image and extract the following information. Return your response as a JSON object with EXACTLY this structure — no markdown, no backticks, no explanation, ONLY the JSON:
+
+{
+  "vendor": {
+    "value": "Store/business name as it appears on the receipt",
+    "confidence": 0.0 to 1.0
+  },
+  "date": {
+    "value": "YYYY-MM-DD format",
+    "confidence": 0.0 to 1.0
+  },
+  "total": {
+    "value": "Total amount as a number (e.g., 45.99, not $45.99)",
+    "confidence": 0.0 to 1.0
+  },
+  "subtotal": {
+    "value": "Subtotal before tax as a number, or null if not visible",
+    "confidence": 0.0 to 1.0
+  },
+  "tax": {
+    "value": "Tax amount as a number, or null if not visible",
+    "confidence": 0.0 to 1.0
+  },
+  "paymentMethod": {
+    "value": "VISA, MASTERCARD, AMEX, CASH, DEBIT, CHECK, or null if not visible",
+    "confidence": 0.0 to 1.0
+  },
+  "lineItems": [
+    {
+      "description": "Item description",
+      "amount": 0.00,
+      "quantity": 1
+    }
+  ],
+  "rawText": "Complete text content of the receipt, preserving line breaks"
+}
+
+Confidence scoring guide:
+- 1.0: Clearly printed, unambiguous
+- 0.8-0.9: Mostly clear, minor ambiguity
+- 0.5-0.7: Partially obscured, faded, or ambiguous
+- Below 0.5: Guessing based on context
+
+If a field is completely unreadable or not present, set value to null and confidence to 0.
+
+For the date: If the year is not visible, assume the current year. If the date format is ambiguous (e.g., 03/04/2025 could be March 4 or April 3), prefer MM/DD/YYYY format (US standard) and set confidence to 0.7.
+
+For the total: Use the FINAL total including tax, not the subtotal. If multiple total-like numbers appear, use the largest one and note the ambiguity in confidence.`;
+
+const MULTI_PAGE_PROMPT = `You are a receipt data extraction assistant. The following images are sequential pages from the same PDF receipt/invoice. Look across ALL pages to find the vendor, date, and total. Return your response as a JSON object with EXACTLY this structure — no markdown, no backticks, no explanation, ONLY the JSON:
+
+{
+  "vendor": {
+    "value": "Store/business name as it appears on the receipt",
+    "confidence": 0.0 to 1.0
+  },
+  "date": {
+    "value": "YYYY-MM-DD format",
+    "confidence": 0.0 to 1.0
+  },
+  "total": {
+    "value": "Total amount as a number (e.g., 45.99, not $45.99)",
+    "confidence": 0.0 to 1.0
+  },
+  "subtotal": {
+    "value": "Subtotal before tax as a number, or null if not visible",
+    "confidence": 0.0 to 1.0
+  },
+  "tax": {
+    "value": "Tax amount as a number, or null if not visible",
+    "confidence": 0.0 to 1.0
+  },
+  "paymentMethod": {
+    "value": "VISA, MASTERCARD, AMEX, CASH, DEBIT, CHECK, or null if not visible",
+    "confidence": 0.0 to 1.0
+  },
+  "lineItems": [
+    {
+      "description": "Item description",
+      "amount": 0.00,
+      "quantity": 1
+    }
+  ],
+  "rawText": "Complete text content of the receipt from all pages, preserving line breaks"
+}
+
+Confidence scoring guide:
+- 1.0: Clearly printed, unambiguous
+- 0.8-0.9: Mostly clear, minor ambiguity
+- 0.5-0.7: Partially obscured, faded, or ambiguous
+- Below 0.5: Guessing based on context
+
+If a field is completely unreadable or not present, set value to null and confidence to 0.
+
+For the date: If the year is not visible, assume the current year. If the date format is ambiguous (e.g., 03/04/2025 could be March 4 or April 3), prefer MM/DD/YYYY format (US standard) and set confidence to 0.7.
+
+For the total: Use the FINAL total including tax, not the subtotal. The total may appear on a different page than the line items.`;
+
+// ===========================================
+// AI vision model (see vision-adapters.ts)
+// ===========================================
+export const visionScanProvider: ScanProvider = {
+  id: 'vision',
+  limits: RECEIPT_SCAN_LIMITS,
+
+  isConfigured() {
+    return getVisionAdapter().isConfigured();
+  },
+
+  canRead(mediaType) {
+    return ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'].includes(mediaType);
+  },
+
+  scan(images, { visionModel }) {
+    return runVisionScan(getVisionAdapter(), {
+      images,
+      prompt: images.length > 1 ? MULTI_PAGE_PROMPT : RECEIPT_SCAN_PROMPT,
+      model: visionModel,
+    });
+  },
+};
+
+// ===========================================
+// Offline OCR (Tesseract) + text heuristics
+// ===========================================
+// Runs entirely offline: language data is read from TESSERACT_LANG_PATH
+// (<lang>.traineddata or <lang>.traineddata.gz for each of TESSERACT_LANGS)
+// and never downloaded. Without it the provider is off.
+
+/** The local language data for each language, and whether it's gzipped; throws if any is missing */
+function localLanguageData(langPath: string, langs: string): { gzip: boolean } {
+  let gzip: boolean | null = null;
+  for (const lang of langs.split('+')) {
+    const file = path.join(langPath, `${lang}.traineddata`);
+    const found = existsSync(file) ? false : existsSync(`${file}.gz`) ? true : null;
+    if (found === null) {
+      throw new Error(`Offline OCR language data missing: put ${lang}.traineddata in TESSERACT_LANG_PATH`);
+    }
+    if (gzip !== null && gzip !== found) {
+      throw new Error('Offline OCR language files in TESSERACT_LANG_PATH must be all gzipped or all plain');
+    }
+    gzip = found;
+  }
+  return { gzip: gzip ?? false };
+}
+
+export const localScanProvider: ScanProvider = {
+  id: 'local',
+  limits: LOCAL_SCAN_LIMITS,
+
+  isConfigured() {
+    return Boolean(process.env.TESSERACT_LANG_PATH);
+  },
+
+  canRead(mediaType) {
+    return ['image/jpeg', 'image/png', 'image/webp'].includes(mediaType);
+  },
+
+  async scan(images) {
+    const langPath = process.env.TESSERACT_LANG_PATH;
+    if (!langPath) {
+      throw new Error('Offline OCR is not set up: TESSERACT_LANG_PATH is not set');
+    }
+    const langs = process.env.TESSERACT_LANGS || 'eng';
+    const { gzip } = localLanguageData(langPath, langs);
+
+    const worker = await createWorker(langs, undefined, {
+      langPath,
+      gzip,
+      cacheMethod: 'none',
+    });
+
+    try {
+      const pages = [];
+      for (const image of images) {
+        const { data } = await worker.recognize(Buffer.from(image.base64, 'base64'));
+        pages.push(data);
+      }
+
+      const text = pages.map(page => page.text).join('\n');
+      if (!text.trim()) {
+        throw new Error('No text could be read from this receipt');
+      }
+      const confidence = pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length;
+      return extractReceiptFields(text, confidence);
+    } finally {
+      await worker.terminate();
+    }
+  },
+};
+
+/** Providers to try, in order, for a tenant's scan setting */
+export function scanProvidersFor(setting: ScanProviderSetting): ScanProvider[] {
+  switch (setting) {
+    case 'vision':
+      return [visionScanProvider];
+    case 'local':
+      return [localScanProvider];
+    default:
+      return [visionScanProvider, localScanProvider];
+  }
+}
+
+export type ScanAttempt =
+  | { ok: true; result: ReceiptScanResult; provider: ScanProvider['id'] }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+/**
+ * Scan receipt images with each provider the tenant's setting allows
+ * ("auto": the AI vision model, then offline OCR). Returns the first
+ * result, or the HTTP status and body for the last provider's failure.
+ * Rate limits are checked per provider and usage recorded on success.
+ */
+export async function scanReceiptImages(tenantId: string, images: ScanImage[]): Promise<ScanAttempt> {
+  const [tenant] = await db
+    .select({ scanProvider: tenants.scanProvider, visionModel: tenants.visionModel })
+    .from(tenants)
+    .where(eq(tenants.id, tenantId))
+    .limit(1);
+  const setting = isScanProviderSetting(tenant?.scanProvider) ? tenant.scanProvider : 'auto';
+  const visionModel = isVisionModel(tenant?.visionModel) ? tenant.visionModel : DEFAULT_VISION_MODEL;
+
+  const notConfigured: ScanAttempt = { ok: false, status: 503, body: { error: 'Receipt scanning not configured' } };
+  let failure: ScanAttempt = notConfigured;
+
+  for (const provider of scanProvidersFor(setting)) {
+    if (!provider.isConfigured()) {
+      console.error(`Receipt scan provider "${provider.id}" not configured`);
+      if (failure === notConfigured && provider.id === 'local') {
+        failure = { ok: false, status: 503, body: { error: 'Offline OCR is not set up: TESSERACT_LANG_PATH is not set' } };
+      }
+      continue;
+    }
+    if (!images.every(image => provider.canRead(image.mediaType))) {
+      failure = { ok: false, status: 400, body: { error: 'This image format can\'t be scanned. Try a JPEG or PNG.' } };
+      continue;
+    }
+
+    const rateCheck = await checkRateLimit(tenantId, provider.limits);
+    if (!rateCheck.allowed) {
+      failure = {
+        ok: false,
+        status: 429,
+        body: {
+          error: 'Rate limit exceeded',
+          limitHit: rateCheck.limitHit,
+          retryAfterSeconds: rateCheck.retryAfterSeconds,
+        },
+      };
+      continue;
+    }
+
+    try {
+      const result = await provider.scan(images, { visionModel });
+      await recordUsage(tenantId, provider.limits.actionType);
+      return { ok: true, result, provider: provider.id };
+    } catch (err) {
+      console.error(`Receipt scan provider "${provider.id}" failed:`, err);
+      failure = { ok: false, status: 500, body: { error: err instanceof Error ? err.message : 'Failed to scan receipt' } };
+    }
+  }
+
+  return failure;
+}
@@ -0,0 +1,315 @@
+import { STATEMENT_PRESETS, type ColumnMapping } from '../../src/utils/statement-presets.js';
+
+// Parsing for bank and credit card statement exports (CSV and OFX/QFX).
+// Only outflows become expense candidates — payments, refunds and deposits
+// are counted and skipped. Amounts come back as positive cents, dates as
+// YYYY-MM-DD so the client can send them back in the usual noon-UTC form.
+
+export const MAX_STATEMENT_ROWS = 1000;
+
+export interface StatementRow {
+  line: number;             // 1-based row in the file (CSV) or transaction index (OFX)
+  date: string;             // YYYY-MM-DD
+  amount: number;           // positive cents
+  description: string;
+  reference: string | null; // bank's transaction id (OFX FITID), when the format has one
+}
+
+export interface ParsedStatement {
+  format: 'csv' | 'ofx';
+  headers: string[];
+  preset: string | null;    // preset used, if one matched or was requested
+  mapping: ColumnMapping | null;
+  rows: StatementRow[];
+  skippedCredits: number;
+  skippedInvalid: number;
+}
+
+export interface ParseOptions {
+  preset?: string | null;
+  mapping?: ColumnMapping | null;
+}
+
+/**
+ * Parse an uploaded statement. Returns every problem at once; `statement`
+ * is null whenever there are errors.
+ */
+export function parseStatement(
+  fileName: string,
+  content: string,
+  options: ParseOptions = {}
+): { errors: string[]; statement: ParsedStatement | null } {
+  const text = content.replace(/^\uFEFF/, '');
+  const isOfx = /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text.slice(0, 4096));
+
+  const statement = isOfx ? parseOfx(text) : null;
+  if (statement) return checkRowCount(statement);
+
+  if (isOfx) {
+    return { errors: ['No transactions found in OFX file'], statement: null };
+  }
+  return parseCsvStatement(text, options);
+}
+
+function checkRowCount(statement: ParsedStatement): { errors: string[]; statement: ParsedStatement | null } {
+  if (statement.rows.length > MAX_STATEMENT_ROWS) {
+    return { errors: [`Statements are limited to ${MAX_STATEMENT_ROWS} expenses — split the file by date range`], statement: null };
+  }
+  return { errors: [], statement };
+}
+
+// ===========================================
+// CSV
+// ===========================================
+
+/** RFC 4180-ish: quoted fields, doubled quotes, CRLF or LF line endings */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter(r => r.some(f => f.trim() !== ''));
+}
+
+function findColumn(headers: string[], name: string | undefined): number {
+  if (!name) return -1;
+  const wanted = name.trim().toLowerCase();
+  return headers.findIndex(h => h.trim().toLowerCase() === wanted);
+}
+
+function mappingMatches(headers: string[], mapping: ColumnMapping): boolean {
+  if (findColumn(headers, mapping.date) < 0 || findColumn(headers, mapping.description) < 0) return false;
+  if (mapping.amount) return findColumn(headers, mapping.amount) >= 0;
+  return findColumn(headers, mapping.debit) >= 0 || findColumn(headers, mapping.credit) >= 0;
+}
+
+function parseCsvStatement(text: string, options: ParseOptions): { errors: string[]; statement: ParsedStatement | null } {
+  const records = parseCsv(text);
+  if (records.length < 2) {
+    return { errors: ['CSV file has no transactions'], statement: null };
+  }
+
+  const headers = records[0].map(h => h.trim());
+  const errors: string[] = [];
+
+  // Explicit mapping wins, then a requested preset, then whichever preset fits the headers
+  let presetId: string | null = null;
+  let mapping: ColumnMapping | null = null;
+  if (options.mapping) {
+    mapping = options.mapping;
+  } else if (options.preset) {
+    const preset = STATEMENT_PRESETS.find(p => p.id === options.preset);
+    if (!preset) {
+      errors.push(`Unknown preset: ${options.preset}`);
+    } else {
+      presetId = preset.id;
+      mapping = preset.mapping;
+    }
+  } else {
+    const preset = STATEMENT_PRESETS.find(p => mappingMatches(headers, p.mapping));
+    if (preset) {
+      presetId = preset.id;
+      mapping = preset.mapping;
+    }
+  }
+
+  if (errors.length > 0) return { errors, statement: null };
+
+  // No mapping yet: hand the headers back so the user can map columns themselves
+  if (!mapping) {
+    return {
+      errors: [],
+      statement: { format: 'csv', headers, preset: null, mapping: null, rows: [], skippedCredits: 0, skippedInvalid: 0 },
+    };
+  }
+
+  const dateCol = findColumn(headers, mapping.date);
+  const descriptionCol = findColumn(headers, mapping.description);
+  const amountCol = findColumn(headers, mapping.amount);
+  const debitCol = findColumn(headers, mapping.debit);
+  const creditCol = findColumn(headers, mapping.credit);
+
+  if (dateCol < 0) errors.push(`Date column "${mapping.date}" not found`);
+  if (descriptionCol < 0) errors.push(`Description column "${mapping.description}" not found`);
+  if (mapping.amount && amountCol < 0) errors.push(`Amount column "${mapping.amount}" not found`);
+  if (!mapping.amount && debitCol < 0 && creditCol < 0) errors.push('Map an amount column or debit/credit columns');
+  if (errors.length > 0) return { errors, statement: null };
+
+  const rows: StatementRow[] = [];
+  let skippedCredits = 0;
+  let skippedInvalid = 0;
+
+  records.slice(1).forEach((record, index) => {
+    const date = parseStatementDate(record[dateCol] ?? '');
+    const description = (record[descriptionCol] ?? '').trim();
+
+    // Normalize to "positive = money out"
+    let outflow: number | null;
+    if (amountCol >= 0) {
+      const amount = parseStatementAmount(record[amountCol] ?? '');
+      outflow = amount === null ? null : mapping.negativeIsExpense ? -amount : amount;
+    } else {
+      const debit = debitCol >= 0 ? parseStatementAmount(record[debitCol] ?? '') : null;
+      const credit = creditCol >= 0 ? parseStatementAmount(record[creditCol] ?? '') : null;
+      outflow = debit !== null && debit !== 0 ? Math.abs(debit) : credit !== null ? -Math.abs(credit) : null;
+    }
+
+    if (!date || outflow === null || !description) {
+      skippedInvalid++;
+    } else if (outflow <= 0) {
+      skippedCredits++;
+    } else {
+      rows.push({ line: index + 2, date, amount: outflow, description: description.slice(0, 255), reference: null });
+    }
+  });
+
+  return checkRowCount({ format: 'csv', headers, preset: presetId, mapping, rows, skippedCredits, skippedInvalid });
+}
+
+// ===========================================
+// OFX / QFX
+// ===========================================
+
+// OFX 1.x is SGML (closing tags optional), 2.x is XML — read each
+// <STMTTRN> block's fields up to the next tag either way.
+function ofxField(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeOfxEntities(match[1].trim()) : null;
+}
+
+function decodeOfxEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function parseOfx(text: string): ParsedStatement | null {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  if (blocks.length === 0) return null;
+
+  const rows: StatementRow[] = [];
+  let skippedCredits = 0;
+  let skippedInvalid = 0;
+
+  blocks.forEach((rawBlock, index) => {
+    const block = rawBlock.split(/<\/STMTTRN>/i)[0];
+    const posted = ofxField(block, 'DTPOSTED');
+    const date = posted && /^\d{8}/.test(posted)
+      ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`
+      : null;
+    const amount = parseStatementAmount(ofxField(block, 'TRNAMT') ?? '');
+    const name = ofxField(block, 'NAME');
+    const memo = ofxField(block, 'MEMO');
+    const description = (name || memo || '').trim();
+
+    // OFX amounts are from the account holder's side: negative = money out
+    if (!date || !isValidDate(date) || amount === null || !description) {
+      skippedInvalid++;
+    } else if (amount >= 0) {
+      skippedCredits++;
+    } else {
+      rows.push({
+        line: index + 1,
+        date,
+        amount: -amount,
+        description: description.slice(0, 255),
+        reference: ofxField(block, 'FITID'),
+      });
+    }
+  });
+
+  return { format: 'ofx', headers: [], preset: null, mapping: null, rows, skippedCredits, skippedInvalid };
+}
+
+// ===========================================
+// Field parsing
+// ===========================================
+
+function isValidDate(iso: string): boolean {
+  const date = new Date(`${iso}T12:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === iso;
+}
+
+/**
+ * Statement dates to YYYY-MM-DD. Accepts ISO (2025-03-14), US
+ * (03/14/2025, 3/14/25) and compact (20250314) forms.
+ */
+export function parseStatementDate(value: string): string | null {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/))) {
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (year < 100) year += 2000;
+  } else if ((match = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  const iso = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return isValidDate(iso) ? iso : null;
+}
+
+/**
+ * Signed amount in cents. Strips currency symbols and thousands separators;
+ * "(12.50)" and "12.50-" are negative. Returns null for blanks.
+ */
+export function parseStatementAmount(value: string): number | null {
+  let trimmed = value.trim();
+  if (!trimmed) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(trimmed)) {
+    negative = true;
+    trimmed = trimmed.slice(1, -1);
+  }
+  if (trimmed.endsWith('-')) {
+    negative = true;
+    trimmed = trimmed.slice(0, -1);
+  }
+
+  const cleaned = trimmed.replace(/[$£€,\s]/g, '');
+  if (!/^[-+]?\d*\.?\d+$/.test(cleaned)) return null;
+
+  const cents = Math.round(parseFloat(cleaned) * 100);
+  return negative ? -Math.abs(cents) : cents;
+}
@@ -0,0 +1,641 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type PDFImage, type PDFEmbeddedPage, type RGB } from 'pdf-lib';
+import { db } from '../../src/db/index.js';
+import { tenants, expenses, expenseAttachments } from '../../src/db/schema.js';
+import { eq, and, gte, lt, asc, isNotNull, sql } from 'drizzle-orm';
+import { formatDateShort } from '../../src/utils/date-utils.js';
+import { currencyDecimals } from '../../src/utils/currency.js';
+import { yearRange, getTaxSummary, getMileageLog, getExpenseLedger, getDeductibleAmount, reportableExpenses, type ReportOptions } from './reports.js';
+
+// Year-end tax packet: cover, tax summary, mileage log, home office
+// calculation and a receipt appendix in one paginated PDF.
+
+const PAGE_WIDTH = 612;   // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_HEIGHT = 36;
+
+const MAX_RECEIPTS = 150;
+const RECEIPT_BYTES_BUDGET = 60 * 1024 * 1024; // stop embedding (placeholders only) past this
+const DEFAULT_PRIMARY_COLOR = '#2A9D8F';
+
+const GRAY = rgb(0.4, 0.4, 0.4);
+const LIGHT_GRAY = rgb(0.85, 0.85, 0.85);
+const BLACK = rgb(0.1, 0.1, 0.1);
+
+// ============================================
+// Text helpers
+// ============================================
+
+/** Standard PDF fonts only cover WinAnsi — normalize what we can and drop the rest (emoji etc.) */
+function pdfText(value: string | null | undefined): string {
+  return (value ?? '')
+    .replace(/\s+/g, ' ')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '')
+    .trim();
+}
+
+/** Truncate with an ellipsis so text fits in a column */
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && font.widthOfTextAtSize(text.slice(0, end) + '...', size) > maxWidth) end--;
+  return text.slice(0, end) + '...';
+}
+
+/** Word-wrap text into lines no wider than maxWidth */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function formatDollars(cents: number): string {
+  return (cents / 100).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+/** Expense amounts, in the tenant's base currency (ISO code rather than a symbol the PDF fonts may lack) */
+function formatAmount(minor: number, currency: string): string {
+  if (currency === 'USD') return formatDollars(minor);
+  const decimals = currencyDecimals(currency);
+  const value = (minor / 10 ** decimals).toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  return `${currency} ${value}`;
+}
+
+function formatMiles(miles: number): string {
+  return (miles / 100).toLocaleString('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+}
+
+const formatDate = (date: Date | string) => formatDateShort(new Date(date).toISOString());
+
+function hexToRgb(hex: string | null): RGB {
+  const match = /^#([0-9a-f]{6})$/i.exec(hex ?? '') ?? /^#([0-9a-f]{6})$/i.exec(DEFAULT_PRIMARY_COLOR)!;
+  const value = parseInt(match[1], 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+}
+
+// ============================================
+// Page layout
+// ============================================
+interface Layout {
+  doc: PDFDocument;
+  regular: PDFFont;
+  bold: PDFFont;
+  brand: RGB;
+  title: string;
+  page: PDFPage;
+  y: number;
+}
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+interface TableRow {
+  cells: string[];
+  total?: boolean;
+}
+
+function addPage(layout: Layout): void {
+  layout.page = layout.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  drawPageHeader(layout);
+}
+
+/** Brand band with the packet title, then reset the cursor below it */
+function drawPageHeader(layout: Layout): void {
+  layout.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - HEADER_HEIGHT, width: PAGE_WIDTH, height: HEADER_HEIGHT, color: layout.brand });
+  layout.page.drawText(layout.title, {
+    x: MARGIN,
+    y: PAGE_HEIGHT - HEADER_HEIGHT + 13,
+    size: 10,
+    font: layout.bold,
+    color: rgb(1, 1, 1),
+  });
+  layout.y = PAGE_HEIGHT - HEADER_HEIGHT - 30;
+}
+
+/** Start a new page if the next block won't fit above the footer */
+function ensureSpace(layout: Layout, height: number): void {
+  if (layout.y - height < MARGIN + 20) addPage(layout);
+}
+
+function drawHeading(layout: Layout, text: string): void {
+  ensureSpace(layout, 40);
+  layout.page.drawText(pdfText(text), { x: MARGIN, y: layout.y, size: 16, font: layout.bold, color: layout.brand });
+  layout.y -= 24;
+}
+
+function drawParagraph(layout: Layout, text: string, size = 9): void {
+  for (const line of wrapText(pdfText(text), layout.regular, size, CONTENT_WIDTH)) {
+    ensureSpace(layout, size + 4);
+    layout.page.drawText(line, { x: MARGIN, y: layout.y, size, font: layout.regular, color: GRAY });
+    layout.y -= size + 4;
+  }
+  layout.y -= 6;
+}
+
+/** Label/value pairs, e.g. for the cover totals and home office inputs */
+function drawFacts(layout: Layout, facts: [string, string][]): void {
+  for (const [label, value] of facts) {
+    ensureSpace(layout, 16);
+    layout.page.drawText(pdfText(label), { x: MARGIN, y: layout.y, size: 10, font: layout.regular, color: GRAY });
+    layout.page.drawText(pdfText(value), { x: MARGIN + 220, y: layout.y, size: 10, font: layout.bold, color: BLACK });
+    layout.y -= 16;
+  }
+  layout.y -= 8;
+}
+
+/** Table that repeats its header row when it breaks across pages */
+function drawTable(layout: Layout, columns: Column[], rows: TableRow[], size = 8): void {
+  const rowHeight = size + 7;
+
+  const drawHeader = () => {
+    let x = MARGIN;
+    layout.page.drawRectangle({ x: MARGIN, y: layout.y - 4, width: CONTENT_WIDTH, height: rowHeight, color: LIGHT_GRAY });
+    for (const column of columns) {
+      drawCell(layout, column.header, column, x, layout.bold, size);
+      x += column.width;
+    }
+    layout.y -= rowHeight;
+  };
+
+  ensureSpace(layout, rowHeight * 2);
+  drawHeader();
+
+  for (const row of rows) {
+    if (layout.y - rowHeight < MARGIN + 20) {
+      addPage(layout);
+      drawHeader();
+    }
+
+    if (row.total) {
+      layout.page.drawLine({
+        start: { x: MARGIN, y: layout.y + size + 1 },
+        end: { x: MARGIN + CONTENT_WIDTH, y: layout.y + size + 1 },
+        thickness: 0.75,
+        color: BLACK,
+      });
+    }
+
+    let x = MARGIN;
+    columns.forEach((column, i) => {
+      drawCell(layout, row.cells[i] ?? '', column, x, row.total ? layout.bold : layout.regular, size);
+      x += column.width;
+    });
+    layout.y -= rowHeight;
+  }
+
+  layout.y -= 12;
+}
+
+function drawCell(layout: Layout, value: string, column: Column, x: number, font: PDFFont, size: number): void {
+  const text = fitText(pdfText(value), font, size, column.width - 6);
+  const textX = column.align === 'right'
+    ? x + column.width - 3 - font.widthOfTextAtSize(text, size)
+    : x + 3;
+  layout.page.drawText(text, { x: textX, y: layout.y, size, font, color: BLACK });
+}
+
+function drawFooters(layout: Layout, generatedOn: string): void {
+  const pages = layout.doc.getPages();
+  pages.forEach((page, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`;
+    page.drawText(`Generated ${generatedOn}`, { x: MARGIN, y: MARGIN - 20, size: 8, font: layout.regular, color: GRAY });
+    page.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - layout.regular.widthOfTextAtSize(label, 8),
+      y: MARGIN - 20,
+      size: 8,
+      font: layout.regular,
+      color: GRAY,
+    });
+  });
+}
+
+// ============================================
+// Remote files (logo, receipts)
+// ============================================
+type Embedded =
+  | { kind: 'image'; image: PDFImage }
+  | { kind: 'page'; page: PDFEmbeddedPage };
+
+async function fetchBytes(url: string): Promise<{ bytes: Uint8Array; contentType: string } | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    return {
+      bytes: new Uint8Array(await response.arrayBuffer()),
+      contentType: (response.headers.get('content-type') || '').split(';')[0].trim(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Embed a JPEG, PNG or the first page of a PDF — anything else (HEIC, encrypted PDFs) returns null */
+async function embedFile(doc: PDFDocument, bytes: Uint8Array, mimeType: string): Promise<Embedded | null> {
+  try {
+    if (mimeType === 'image/jpeg') return { kind: 'image', image: await doc.embedJpg(bytes) };
+    if (mimeType === 'image/png') return { kind: 'image', image: await doc.embedPng(bytes) };
+    if (mimeType === 'application/pdf') {
+      const [page] = await doc.embedPdf(bytes, [0]);
+      return { kind: 'page', page };
+    }
+  } catch (err) {
+    console.error('Tax packet: could not embed file:', err);
+  }
+  return null;
+}
+
+function mimeTypeFromUrl(url: string): string {
+  const path = url.split('?')[0].toLowerCase();
+  if (path.endsWith('.pdf')) return 'application/pdf';
+  if (path.endsWith('.png')) return 'image/png';
+  if (path.endsWith('.heic')) return 'image/heic';
+  return 'image/jpeg';
+}
+
+// ============================================
+// Data
+// ============================================
+interface ReceiptRef {
+  date: Date;
+  vendor: string | null;
+  amount: number;
+  fileName: string;
+  url: string;
+  mimeType: string;
+}
+
+async function getReceipts(tenantId: string, year: number, options: ReportOptions): Promise<ReceiptRef[]> {
+  const { startDate, endDate } = yearRange(year);
+  const inYear = and(
+    eq(expenses.tenantId, tenantId),
+    gte(expenses.date, startDate),
+    lt(expenses.date, endDate),
+    reportableExpenses(options)
+  );
+
+  const [attachments, legacy] = await Promise.all([
+    db
+      .select({
+        date: expenses.date,
+        vendor: expenses.vendor,
+        amount: expenses.amount,
+        fileName: expenseAttachments.fileName,
+        url: expenseAttachments.blobUrl,
+        mimeType: expenseAttachments.mimeType,
+      })
+      .from(expenseAttachments)
+      .innerJoin(expenses, eq(expenseAttachments.expenseId, expenses.id))
+      .where(inYear)
+      .orderBy(asc(expenses.date), asc(expenseAttachments.sortOrder)),
+
+    // Older expenses stored a single receipt on the row itself
+    db
+      .select({
+        date: expenses.date,
+        vendor: expenses.vendor,
+        amount: expenses.amount,
+        url: expenses.receiptUrl,
+      })
+      .from(expenses)
+      .where(and(
+        inYear,
+        isNotNull(expenses.receiptUrl),
+        sql`NOT EXISTS (SELECT 1 FROM expense_attachments WHERE expense_attachments.expense_id = ${expenses.id})`
+      )),
+  ]);
+
+  const receipts: ReceiptRef[] = [
+    ...attachments,
+    ...legacy.map(r => ({
+      ...r,
+      url: r.url!,
+      fileName: r.url!.split('/').pop()?.split('?')[0] || 'receipt',
+      mimeType: mimeTypeFromUrl(r.url!),
+    })),
+  ];
+
+  return receipts.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+// ============================================
+// Sections
+// ============================================
+type TaxSummary = Awaited<ReturnType<typeof getTaxSummary>>;
+type MileageLog = Awaited<ReturnType<typeof getMileageLog>>;
+type Ledger = Awaited<ReturnType<typeof getExpenseLedger>>;
+type TenantInfo = {
+  name: string;
+  homeTotalSqft: number | null;
+  homeOfficeSqft: number | null;
+};
+
+function drawTaxSummary(layout: Layout, summary: TaxSummary): void {
+  addPage(layout);
+  drawHeading(layout, 'Tax Summary');
+  drawParagraph(layout, 'Expenses grouped by tax treatment and category. Home office expenses are deductible at the business-use percentage recorded when each expense was entered.');
+  if (summary.foreignCurrency.length > 0) {
+    const converted = summary.foreignCurrency
+      .map(f => `${formatAmount(f.originalAmount, f.currency)} (${f.count} expenses) = ${formatAmount(f.amount, summary.currency)}`)
+      .join('; ');
+    drawParagraph(layout, `Amounts are in ${summary.currency}. Foreign-currency expenses were converted at the exchange rate recorded when each was entered: ${converted}.`);
+  }
+
+  const rows: TableRow[] = [];
+  for (const section of summary.sections) {
+    if (section.count === 0) continue;
+    for (const category of section.categories) {
+      rows.push({
+        cells: [section.label, category.name, String(category.count), formatAmount(category.amount, summary.currency), formatAmount(category.deductible, summary.currency)],
+      });
+    }
+    rows.push({
+      cells: [`${section.label} total`, '', String(section.count), formatAmount(section.total, summary.currency), formatAmount(section.deductible, summary.currency)],
+      total: true,
+    });
+  }
+  rows.push({
+    cells: ['All expenses', '', String(summary.expenseCount), formatAmount(summary.totalSpent, summary.currency), formatAmount(summary.totalDeductible, summary.currency)],
+    total: true,
+  });
+
+  drawTable(layout, [
+    { header: 'Section', width: 150 },
+    { header: 'Category', width: 142 },
+    { header: 'Count', width: 50, align: 'right' },
+    { header: 'Total Spend', width: 80, align: 'right' },
+    { header: 'Deductible', width: 90, align: 'right' },
+  ], rows);
+}
+
+function drawMileageLog(layout: Layout, log: MileageLog): void {
+  addPage(layout);
+  drawHeading(layout, 'Mileage Log');
+
+  const rates = log.summary.mileageRates
+    .map(r => `${r.mileageRate} cents per mile from ${formatDate(r.effectiveDate + 'T12:00:00.000Z')}`)
+    .join('; ');
+  drawParagraph(layout, `Contemporaneous record of business trips for ${log.year}: date, start and end locations, business purpose and distance for each trip. Deductions use the IRS standard mileage rate in effect on the trip date (${rates}).`);
+
+  drawFacts(layout, [
+    ['Business trips', String(log.summary.tripCount)],
+    ['Business miles', formatMiles(log.summary.totalMiles)],
+    ['Mileage deduction', formatDollars(log.summary.estimatedDeduction)],
+  ]);
+
+  const rows: TableRow[] = log.trips.map(trip => ({
+    cells: [
+      formatDate(trip.date),
+      trip.startLocation,
+      trip.endLocation,
+      trip.description || '',
+      formatMiles(trip.displayMiles) + (trip.isRoundTrip ? ' RT' : ''),
+      `${trip.mileageRate}¢`,
+      formatDollars(trip.deduction),
+    ],
+  }));
+  rows.push({
+    cells: ['Total', '', '', `${log.summary.tripCount} trips`, formatMiles(log.summary.totalMiles), '', formatDollars(log.summary.estimatedDeduction)],
+    total: true,
+  });
+
+  drawTable(layout, [
+    { header: 'Date', width: 62 },
+    { header: 'From', width: 110 },
+    { header: 'To', width: 110 },
+    { header: 'Business Purpose', width: 100 },
+    { header: 'Miles', width: 48, align: 'right' },
+    { header: 'Rate', width: 36, align: 'right' },
+    { header: 'Deduction', width: 46, align: 'right' },
+  ], rows, 7);
+}
+
+function drawHomeOffice(layout: Layout, tenant: TenantInfo, ledger: Ledger, currency: string): void {
+  addPage(layout);
+  drawHeading(layout, 'Home Office Calculation');
+
+  const { homeTotalSqft, homeOfficeSqft } = tenant;
+  const configured = !!homeTotalSqft && !!homeOfficeSqft && homeTotalSqft > 0;
+  const currentPercent = configured ? Math.round((homeOfficeSqft! / homeTotalSqft!) * 100) : null;
+
+  drawParagraph(layout, 'Simplified area method: the business-use percentage is the dedicated office area divided by the total area of the home. Each expense keeps the percentage in effect when it was entered, so changes to square footage during the year are reflected below.');
+
+  drawFacts(layout, [
+    ['Total home area', configured ? `${homeTotalSqft!.toLocaleString('en-US')} sq ft` : 'Not set'],
+    ['Dedicated office area', configured ? `${homeOfficeSqft!.toLocaleString('en-US')} sq ft` : 'Not set'],
+    ['Current business-use percentage', currentPercent !== null ? `${currentPercent}%` : 'Not set'],
+  ]);
+
+  const homeOffice = ledger.filter(e => e.isHomeOffice);
+  if (homeOffice.length === 0) {
+    drawParagraph(layout, 'No home office expenses were recorded this year.');
+    return;
+  }
+
+  const totalSpend = homeOffice.reduce((sum, e) => sum + e.amount, 0);
+  const totalDeductible = homeOffice.reduce((sum, e) => sum + getDeductibleAmount(e), 0);
+
+  const rows: TableRow[] = homeOffice.map(expense => ({
+    cells: [
+      formatDate(expense.date),
+      expense.vendor || '',
+      expense.categoryName || 'Uncategorized',
+      formatAmount(expense.amount, currency),
+      expense.homeOfficePercent != null ? `${expense.homeOfficePercent}%` : '100%',
+      formatAmount(getDeductibleAmount(expense), currency),
+    ],
+  }));
+  rows.push({
+    cells: ['Total', `${homeOffice.length} expenses`, '', formatAmount(totalSpend, currency), '', formatAmount(totalDeductible, currency)],
+    total: true,
+  });
+
+  drawTable(layout, [
+    { header: 'Date', width: 66 },
+    { header: 'Vendor', width: 140 },
+    { header: 'Category', width: 110 },
+    { header: 'Amount', width: 70, align: 'right' },
+    { header: 'Business %', width: 50, align: 'right' },
+    { header: 'Deductible', width: 76, align: 'right' },
+  ], rows);
+}
+
+async function drawReceiptAppendix(layout: Layout, receipts: ReceiptRef[], currency: string): Promise<void> {
+  addPage(layout);
+  drawHeading(layout, 'Appendix: Receipts');
+
+  if (receipts.length === 0) {
+    drawParagraph(layout, 'No receipts were attached to expenses in this year.');
+    return;
+  }
+
+  const shown = receipts.slice(0, MAX_RECEIPTS);
+  if (receipts.length > shown.length) {
+    drawParagraph(layout, `Showing the first ${shown.length} of ${receipts.length} receipts. The rest are available in the app.`);
+  }
+
+  // 2 × 3 grid of thumbnails, each with a caption underneath
+  const cols = 2;
+  const gap = 16;
+  const cellWidth = (CONTENT_WIDTH - gap) / cols;
+  const captionHeight = 26;
+  const cellHeight = 180;
+
+  let bytesUsed = 0;
+  let col = 0;
+
+  // Fetch a few at a time — sequential is too slow, all at once is too much memory
+  for (let i = 0; i < shown.length; i += 6) {
+    const batch = shown.slice(i, i + 6);
+    const files = await Promise.all(batch.map(r =>
+      r.url.includes('.public.blob.vercel-storage.com') && bytesUsed < RECEIPT_BYTES_BUDGET
+        ? fetchBytes(r.url)
+        : Promise.resolve(null)
+    ));
+
+    for (let j = 0; j < batch.length; j++) {
+      const receipt = batch[j];
+      const file = files[j];
+      let embedded: Embedded | null = null;
+      if (file && bytesUsed + file.bytes.length <= RECEIPT_BYTES_BUDGET) {
+        bytesUsed += file.bytes.length;
+        embedded = await embedFile(layout.doc, file.bytes, receipt.mimeType || file.contentType);
+      }
+
+      if (col === 0) ensureSpace(layout, cellHeight + captionHeight + gap);
+      const x = MARGIN + col * (cellWidth + gap);
+      const top = layout.y;
+      const boxY = top - cellHeight;
+
+      layout.page.drawRectangle({ x, y: boxY, width: cellWidth, height: cellHeight, borderColor: LIGHT_GRAY, borderWidth: 0.75 });
+
+      if (embedded) {
+        const source = embedded.kind === 'image' ? embedded.image : embedded.page;
+        const scale = Math.min((cellWidth - 8) / source.width, (cellHeight - 8) / source.height, 1);
+        const width = source.width * scale;
+        const height = source.height * scale;
+        const options = { x: x + (cellWidth - width) / 2, y: boxY + (cellHeight - height) / 2, width, height };
+        if (embedded.kind === 'image') layout.page.drawImage(embedded.image, options);
+        else layout.page.drawPage(embedded.page, options);
+      } else {
+        const note = 'Preview not available';
+        layout.page.drawText(note, {
+          x: x + (cellWidth - layout.regular.widthOfTextAtSize(note, 8)) / 2,
+          y: boxY + cellHeight / 2,
+          size: 8,
+          font: layout.regular,
+          color: GRAY,
+        });
+      }
+
+      const caption = `${formatDate(receipt.date)}  ${pdfText(receipt.vendor) || 'Unknown vendor'}  ${formatAmount(receipt.amount, currency)}`;
+      layout.page.drawText(fitText(caption, layout.bold, 8, cellWidth), { x, y: boxY - 11, size: 8, font: layout.bold, color: BLACK });
+      layout.page.drawText(fitText(pdfText(receipt.fileName), layout.regular, 7, cellWidth), { x, y: boxY - 21, size: 7, font: layout.regular, color: GRAY });
+
+      col = (col + 1) % cols;
+      if (col === 0) layout.y = boxY - captionHeight - gap;
+    }
+  }
+}
+
+// ============================================
+// Build
+// ============================================
+
+/** Render the tax packet for a tenant's year. Returns the PDF bytes. */
+export async function buildTaxPacket(tenantId: string, year: number, options: ReportOptions = {}): Promise<Uint8Array> {
+  const [tenant] = await db
+    .select({
+      name: tenants.name,
+      logoUrl: tenants.logoUrl,
+      primaryColor: tenants.primaryColor,
+      homeTotalSqft: tenants.homeTotalSqft,
+      homeOfficeSqft: tenants.homeOfficeSqft,
+    })
+    .from(tenants)
+    .where(eq(tenants.id, tenantId))
+    .limit(1);
+
+  if (!tenant) throw new Error(`Tenant ${tenantId} not found`);
+
+  const [taxSummary, mileage, ledger, receipts] = await Promise.all([
+    getTaxSummary(tenantId, year, options),
+    getMileageLog(tenantId, year),
+    getExpenseLedger(tenantId, year, options),
+    getReceipts(tenantId, year, options),
+  ]);
+
+  const doc = await PDFDocument.create();
+  const businessName = pdfText(tenant.name) || 'Business';
+  doc.setTitle(`${businessName} Tax Packet ${year}`);
+  doc.setAuthor(businessName);
+  doc.setCreator('Wayve Expense Tracker');
+
+  const layout: Layout = {
+    doc,
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    brand: hexToRgb(tenant.primaryColor),
+    title: `${businessName} - Tax Packet ${year}`,
+    page: doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    y: 0,
+  };
+
+  // ---- Cover ----
+  drawPageHeader(layout);
+  if (tenant.logoUrl?.startsWith('https://')) {
+    const logoFile = await fetchBytes(tenant.logoUrl);
+    const logo = logoFile ? await embedFile(doc, logoFile.bytes, logoFile.contentType) : null;
+    if (logo?.kind === 'image') {
+      const scale = Math.min(160 / logo.image.width, 60 / logo.image.height, 1);
+      const height = logo.image.height * scale;
+      layout.page.drawImage(logo.image, { x: MARGIN, y: layout.y - height + 10, width: logo.image.width * scale, height });
+      layout.y -= height + 20;
+    }
+  }
+
+  layout.page.drawText(fitText(businessName, layout.bold, 26, CONTENT_WIDTH), { x: MARGIN, y: layout.y, size: 26, font: layout.bold, color: BLACK });
+  layout.y -= 34;
+  layout.page.drawText(`${year} Tax Packet`, { x: MARGIN, y: layout.y, size: 18, font: layout.regular, color: layout.brand });
+  layout.y -= 40;
+
+  const homeOfficeSection = taxSummary.sections.find(s => s.type === 'home_office');
+  drawFacts(layout, [
+    ['Total spend', formatAmount(taxSummary.totalSpent, taxSummary.currency)],
+    ['Deductible expenses', formatAmount(taxSummary.totalDeductible, taxSummary.currency)],
+    ['  of which home office', formatAmount(homeOfficeSection?.deductible ?? 0, taxSummary.currency)],
+    ['Business miles', formatMiles(mileage.summary.totalMiles)],
+    ['Mileage deduction', formatDollars(mileage.summary.estimatedDeduction)],
+    ['Expenses recorded', String(taxSummary.expenseCount)],
+    ['Receipts attached', String(receipts.length)],
+  ]);
+
+  drawParagraph(layout, 'Contents: Tax Summary, Mileage Log, Home Office Calculation, Appendix: Receipts.', 10);
+  drawParagraph(layout, 'Prepared from the records in this account for review by a tax professional. It is not tax advice.', 8);
+
+  drawTaxSummary(layout, taxSummary);
+  drawMileageLog(layout, mileage);
+  drawHomeOffice(layout, tenant, ledger, taxSummary.currency);
+  await drawReceiptAppendix(layout, receipts, taxSummary.currency);
+
+  drawFooters(layout, formatDateShort(new Date().toISOString()));
+
+  return doc.save();
+}
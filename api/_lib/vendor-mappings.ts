@@ -0,0 +1,147 @@
+import { db } from '../../src/db/index.js';
+import { vendorCategoryMappings, categories } from '../../src/db/schema.js';
+import { eq, and, desc, sql, inArray } from 'drizzle-orm';
+
+export interface CategorySuggestion {
+  categoryId: string;
+  categoryName: string;
+  categoryEmoji: string | null;
+  useCount: number;
+  confidence: number; // 0–1, see suggestCategoryForVendor
+}
+
+/**
+ * Reduce a vendor name to the key mappings are stored under, so
+ * "The Home Depot #4521" and "the home depot" learn together.
+ */
+export function normalizeVendor(vendor: string | null | undefined): string | null {
+  if (!vendor) return null;
+  const normalized = vendor
+    .toLowerCase()
+    .replace(/#\s*\d+/g, ' ') // store numbers
+    .replace(/[^a-z0-9&' ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 255);
+  return normalized.length > 0 ? normalized : null;
+}
+
+/**
+ * Loose vendor match for pairing records of the same purchase. Bank
+ * descriptors are noisy ("SQ *BLUE BOTTLE 1234 OAKLAND CA"), so this
+ * accepts containment or a shared leading word.
+ */
+export function vendorsSimilar(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = normalizeVendor(a);
+  const right = normalizeVendor(b);
+  if (!left || !right) return false;
+  if (left === right || left.includes(right) || right.includes(left)) return true;
+
+  const leadingWord = (value: string) => value.split(' ').find(word => word.length >= 3 && word !== 'the') ?? null;
+  const leftWord = leadingWord(left);
+  return leftWord !== null && leftWord === leadingWord(right);
+}
+
+/**
+ * Count one more expense (or `count` more, for batch imports) for this
+ * vendor → category pair. No-op when the vendor normalizes to nothing.
+ */
+export async function recordVendorCategory(tenantId: string, vendor: string | null | undefined, categoryId: string | null | undefined, count = 1): Promise<void> {
+  const vendorPattern = normalizeVendor(vendor);
+  if (!vendorPattern || !categoryId) return;
+
+  await db
+    .insert(vendorCategoryMappings)
+    .values({ tenantId, vendorPattern, categoryId, useCount: count })
+    .onConflictDoUpdate({
+      target: [vendorCategoryMappings.tenantId, vendorCategoryMappings.vendorPattern, vendorCategoryMappings.categoryId],
+      set: {
+        useCount: sql`${vendorCategoryMappings.useCount} + ${count}`,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+/**
+ * Most-used active category for a vendor, or null if we've never seen it.
+ *
+ * Confidence is the category's share of the vendor's expenses, damped for
+ * small samples: one past expense gives 0.5, four unanimous ones give 0.8.
+ */
+export async function suggestCategoryForVendor(tenantId: string, vendor: string | null | undefined): Promise<CategorySuggestion | null> {
+  const vendorPattern = normalizeVendor(vendor);
+  if (!vendorPattern) return null;
+
+  const mappings = await db
+    .select({
+      categoryId: vendorCategoryMappings.categoryId,
+      categoryName: categories.name,
+      categoryEmoji: categories.emoji,
+      useCount: vendorCategoryMappings.useCount,
+    })
+    .from(vendorCategoryMappings)
+    .innerJoin(categories, eq(vendorCategoryMappings.categoryId, categories.id))
+    .where(and(
+      eq(vendorCategoryMappings.tenantId, tenantId),
+      eq(vendorCategoryMappings.vendorPattern, vendorPattern),
+      eq(categories.isActive, true),
+    ))
+    .orderBy(desc(vendorCategoryMappings.useCount), desc(vendorCategoryMappings.updatedAt));
+
+  return pickSuggestion(mappings);
+}
+
+/**
+ * Suggestions for many vendors in one query (statement imports).
+ * Keyed by normalized vendor; vendors we've never seen are absent.
+ */
+export async function suggestCategoriesForVendors(tenantId: string, vendors: (string | null | undefined)[]): Promise<Map<string, CategorySuggestion>> {
+  const patterns = [...new Set(vendors.map(normalizeVendor).filter((p): p is string => p !== null))];
+  const suggestions = new Map<string, CategorySuggestion>();
+  if (patterns.length === 0) return suggestions;
+
+  const mappings = await db
+    .select({
+      vendorPattern: vendorCategoryMappings.vendorPattern,
+      categoryId: vendorCategoryMappings.categoryId,
+      categoryName: categories.name,
+      categoryEmoji: categories.emoji,
+      useCount: vendorCategoryMappings.useCount,
+    })
+    .from(vendorCategoryMappings)
+    .innerJoin(categories, eq(vendorCategoryMappings.categoryId, categories.id))
+    .where(and(
+      eq(vendorCategoryMappings.tenantId, tenantId),
+      inArray(vendorCategoryMappings.vendorPattern, patterns),
+      eq(categories.isActive, true),
+    ))
+    .orderBy(desc(vendorCategoryMappings.useCount), desc(vendorCategoryMappings.updatedAt));
+
+  const byPattern = new Map<string, typeof mappings>();
+  for (const mapping of mappings) {
+    if (!byPattern.has(mapping.vendorPattern)) byPattern.set(mapping.vendorPattern, []);
+    byPattern.get(mapping.vendorPattern)!.push(mapping);
+  }
+
+  for (const [pattern, patternMappings] of byPattern) {
+    const suggestion = pickSuggestion(patternMappings);
+    if (suggestion) suggestions.set(pattern, suggestion);
+  }
+  return suggestions;
+}
+
+/** Top mapping (rows sorted by useCount desc) with its damped confidence */
+function pickSuggestion(mappings: Omit<CategorySuggestion, 'confidence'>[]): CategorySuggestion | null {
+  if (mappings.length === 0) return null;
+
+  const total = mappings.reduce((sum, m) => sum + m.useCount, 0);
+  const { categoryId, categoryName, categoryEmoji, useCount } = mappings[0];
+
+  return {
+    categoryId,
+    categoryName,
+    categoryEmoji,
+    useCount,
+    confidence: (useCount / total) * (useCount / (useCount + 1)),
+  };
+}
@@ -0,0 +1,162 @@
+import { repairJson, validateReceiptScan, type ReceiptScanResult } from './receipt-schema.js';
+import type { ScanImage } from './scan-providers.js';
+
+// How the AI receipt scanner talks to a vision model. Each adapter builds
+// the HTTP request for its API and pulls the model's text answer back out;
+// runVisionScan() sends it and holds the answer to the receipt schema, so
+// adding a model vendor means adding an adapter and nothing else.
+
+export interface VisionScanInput {
+  images: ScanImage[];
+  prompt: string;
+  model: string;
+}
+
+export interface VisionRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface VisionAdapter {
+  id: 'anthropic' | 'mock';
+  isConfigured(): boolean;
+  buildRequest(input: VisionScanInput): VisionRequest;
+  /** The model's text answer from a response body, or null if there isn't one */
+  parseResponse(body: unknown): string | null;
+  /** Replaces the HTTP call — only the mock adapter needs it */
+  send?(request: VisionRequest): Promise<unknown>;
+}
+
+// ===========================================
+// Anthropic Messages API
+// ===========================================
+export const anthropicVisionAdapter: VisionAdapter = {
+  id: 'anthropic',
+
+  isConfigured() {
+    return Boolean(process.env.ANTHROPIC_API_KEY);
+  },
+
+  buildRequest({ images, prompt, model }) {
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      headers: {
+        'x-api-key': process.env.ANTHROPIC_API_KEY!,
+        'anthropic-version': '2023-06-01',
+        'content-type': 'application/json',
+      },
+      body: {
+        model,
+        max_tokens: 1024,
+        messages: [{
+          role: 'user',
+          content: [
+            // PDFs go in whole as documents; everything else is a page image
+            ...images.map(image => ({
+              type: image.mediaType === 'application/pdf' ? 'document' : 'image',
+              source: {
+                type: 'base64',
+                media_type: image.mediaType,
+                data: image.base64,
+              },
+            })),
+            { type: 'text', text: prompt },
+          ],
+        }],
+      },
+    };
+  },
+
+  parseResponse(body) {
+    const content = (body as { content?: Array<{ type: string; text?: string }> } | null)?.content;
+    return content?.find(block => block.type === 'text')?.text || null;
+  },
+};
+
+// ===========================================
+// Mock — canned answer, no network, for local development without an
+// API key. Set RECEIPT_SCAN_ADAPTER=mock to use it; MOCK_VISION_RESPONSE
+// replaces the answer text (e.g. with broken JSON to try the repair path
+// by hand).
+// ===========================================
+export const mockVisionAdapter: VisionAdapter = {
+  id: 'mock',
+
+  isConfigured() {
+    return true;
+  },
+
+  buildRequest({ images, prompt, model }) {
+    return {
+      url: 'mock://vision',
+      headers: {},
+      body: { model, prompt, imageCount: images.length },
+    };
+  },
+
+  async send(request) {
+    const { model, imageCount } = request.body as { model: string; imageCount: number };
+    return {
+      text: process.env.MOCK_VISION_RESPONSE ?? JSON.stringify({
+        vendor: { value: 'Mock Coffee Co.', confidence: 0.95 },
+        date: { value: new Date().toISOString().slice(0, 10), confidence: 0.9 },
+        total: { value: 12.5, confidence: 0.95 },
+        subtotal: { value: 11.5, confidence: 0.9 },
+        tax: { value: 1, confidence: 0.9 },
+        paymentMethod: { value: 'VISA', confidence: 0.8 },
+        lineItems: [
+          { description: 'Latte', amount: 5.5, quantity: 1 },
+          { description: 'Sandwich', amount: 6, quantity: 1 },
+        ],
+        rawText: `Mock scan of ${imageCount} image(s) with ${model}`,
+      }),
+    };
+  },
+
+  parseResponse(body) {
+    return (body as { text?: string } | null)?.text || null;
+  },
+};
+
+/** The adapter receipt scans use in this deployment */
+export function getVisionAdapter(): VisionAdapter {
+  return process.env.RECEIPT_SCAN_ADAPTER === 'mock' ? mockVisionAdapter : anthropicVisionAdapter;
+}
+
+/**
+ * Run one scan through an adapter and return the answer held to the
+ * receipt schema. Throws with a user-facing message on failure.
+ */
+export async function runVisionScan(adapter: VisionAdapter, input: VisionScanInput): Promise<ReceiptScanResult> {
+  const request = adapter.buildRequest(input);
+
+  let body: unknown;
+  if (adapter.send) {
+    body = await adapter.send(request);
+  } else {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+    });
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error(`Vision API error (${adapter.id}):`, response.status, errorBody);
+      throw new Error('Receipt scanning service unavailable');
+    }
+    body = await response.json();
+  }
+
+  const text = adapter.parseResponse(body);
+  if (!text) {
+    throw new Error('No response from scanning service');
+  }
+
+  const result = validateReceiptScan(repairJson(text));
+  if (!result) {
+    console.error('Failed to parse scan result:', text);
+    throw new Error('Failed to parse receipt data');
+  }
+  return result;
+}
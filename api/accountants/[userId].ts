@@ -0,0 +1,76 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { accountantInvites, userTenantAccess } from '../../src/db/schema.js'
+import { eq, and } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+
+// ===========================================
+// DELETE: Revoke an accountant's access to this tenant
+// ===========================================
+async function handleDelete(req: VercelRequest, res: VercelResponse, accountantUserId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'accountants:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  // Only accountant rows — owners and staff are managed elsewhere
+  const [removed] = await db
+    .delete(userTenantAccess)
+    .where(and(
+      eq(userTenantAccess.userId, accountantUserId),
+      eq(userTenantAccess.tenantId, tenantId),
+      eq(userTenantAccess.role, 'accountant')
+    ))
+    .returning({ id: userTenantAccess.id })
+
+  if (!removed) {
+    return res.status(404).json({ error: 'Accountant not found' })
+  }
+
+  // Keep the invite trail accurate. users.isAccountant stays set —
+  // they may still work with other businesses.
+  await db
+    .update(accountantInvites)
+    .set({ status: 'revoked' })
+    .where(and(
+      eq(accountantInvites.tenantId, tenantId),
+      eq(accountantInvites.acceptedByUserId, accountantUserId),
+      eq(accountantInvites.status, 'accepted')
+    ))
+
+  return res.status(200).json({
+    message: 'Accountant access revoked',
+    revokedUserId: accountantUserId,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const accountantUserId = req.query.userId as string
+
+  if (!accountantUserId) {
+    return res.status(400).json({ error: 'User ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'DELETE':
+        return handleDelete(req, res, accountantUserId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in accountant API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
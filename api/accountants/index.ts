@@ -0,0 +1,251 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { accountantInvites, userTenantAccess, users, tenants } from '../../src/db/schema.js'
+import { eq, and, desc, gt } from 'drizzle-orm'
+import crypto from 'crypto'
+import { Resend } from 'resend'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { escapeHtml } from '../_lib/utils.js'
+
+const resend = new Resend(process.env.RESEND_API_KEY)
+
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000 // 14 days
+
+// ===========================================
+// GET: Accountants with access + outstanding invites
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'accountants:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  const accountants = await db
+    .select({
+      userId: userTenantAccess.userId,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      canEdit: userTenantAccess.canEdit,
+      grantedAt: userTenantAccess.createdAt,
+      lastLoginAt: users.lastLoginAt,
+    })
+    .from(userTenantAccess)
+    .innerJoin(users, eq(userTenantAccess.userId, users.id))
+    .where(and(
+      eq(userTenantAccess.tenantId, tenantId),
+      eq(userTenantAccess.role, 'accountant')
+    ))
+    .orderBy(desc(userTenantAccess.createdAt))
+
+  // Accepted invites show up as accountants above; revoked ones are history
+  const pendingInvites = await db
+    .select({
+      id: accountantInvites.id,
+      email: accountantInvites.email,
+      expiresAt: accountantInvites.expiresAt,
+      createdAt: accountantInvites.createdAt,
+    })
+    .from(accountantInvites)
+    .where(and(
+      eq(accountantInvites.tenantId, tenantId),
+      eq(accountantInvites.status, 'pending')
+    ))
+    .orderBy(desc(accountantInvites.createdAt))
+
+  const now = new Date()
+
+  return res.status(200).json({
+    accountants,
+    invites: pendingInvites.map(invite => ({
+      ...invite,
+      status: invite.expiresAt < now ? 'expired' : 'pending',
+    })),
+  })
+}
+
+// ===========================================
+// POST: Invite an accountant by email
+// ===========================================
+async function handlePost(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'accountants:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId, user } = auth
+  const { email } = req.body ?? {}
+
+  // ===========================================
+  // Validation
+  // ===========================================
+  const errors: string[] = []
+  const cleanEmail = typeof email === 'string' ? email.toLowerCase().trim() : ''
+
+  if (!cleanEmail) {
+    errors.push('Email is required')
+  } else if (!cleanEmail.includes('@')) {
+    errors.push('Invalid email address')
+  } else if (cleanEmail === user.email.toLowerCase()) {
+    errors.push('You cannot invite yourself')
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  // Already has access to this tenant (as an accountant or otherwise)?
+  const [existingAccess] = await db
+    .select({ id: userTenantAccess.id })
+    .from(userTenantAccess)
+    .innerJoin(users, eq(userTenantAccess.userId, users.id))
+    .where(and(
+      eq(userTenantAccess.tenantId, tenantId),
+      eq(users.email, cleanEmail)
+    ))
+    .limit(1)
+
+  if (existingAccess) {
+    return res.status(409).json({ error: 'This person already has access to your business' })
+  }
+
+  const [existingInvite] = await db
+    .select({ id: accountantInvites.id })
+    .from(accountantInvites)
+    .where(and(
+      eq(accountantInvites.tenantId, tenantId),
+      eq(accountantInvites.email, cleanEmail),
+      eq(accountantInvites.status, 'pending'),
+      gt(accountantInvites.expiresAt, new Date())
+    ))
+    .limit(1)
+
+  if (existingInvite) {
+    return res.status(409).json({ error: 'A pending invite already exists for this email' })
+  }
+
+  const [tenant] = await db
+    .select({ name: tenants.name })
+    .from(tenants)
+    .where(eq(tenants.id, tenantId))
+    .limit(1)
+
+  // ===========================================
+  // Create the invite
+  // ===========================================
+  const inviteToken = crypto.randomBytes(32).toString('hex')
+  const expiresAt = new Date(Date.now() + INVITE_TTL_MS)
+
+  const [invite] = await db
+    .insert(accountantInvites)
+    .values({
+      tenantId,
+      email: cleanEmail,
+      inviteToken,
+      status: 'pending',
+      expiresAt,
+      invitedBy: user.id,
+    })
+    .returning({
+      id: accountantInvites.id,
+      email: accountantInvites.email,
+      expiresAt: accountantInvites.expiresAt,
+      createdAt: accountantInvites.createdAt,
+    })
+
+  // ===========================================
+  // Send invite email
+  // ===========================================
+  const inviteUrl = `https://wayveexpenses.app/invite?token=${inviteToken}`
+  const businessName = tenant?.name || 'a business'
+  const expiryDate = expiresAt.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+
+  let emailSent = true
+  try {
+    await resend.emails.send({
+      from: 'Wayve Expense Tracker <noreply@wayveconsulting.app>',
+      to: cleanEmail,
+      subject: `${businessName} invited you to review their expenses`,
+      text: `${businessName} has invited you to view their expenses on Wayve Expense Tracker as their accountant.\n\nAccept the invite here: ${inviteUrl}\n\nYou'll sign in with your Google account (${cleanEmail}) — no new password needed. Your access is read-only.\n\nThis invite expires on ${expiryDate}.\n\nWayve Consulting — Expense Tracking Made Simple`,
+      html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+          <div style="text-align: center; margin-bottom: 32px;">
+            <h1 style="color: #2A9D8F; margin: 0; font-size: 24px;">Wayve Expense Tracker</h1>
+          </div>
+
+          <p style="font-size: 16px; color: #333; line-height: 1.6;">
+            <strong>${escapeHtml(businessName)}</strong> has invited you to view their expenses as their accountant.
+          </p>
+
+          <p style="font-size: 16px; color: #333; line-height: 1.6;">
+            You'll sign in with your Google account (${escapeHtml(cleanEmail)}) — no new password needed. Your access is read-only.
+          </p>
+
+          <div style="text-align: center; margin: 32px 0;">
+            <a href="${inviteUrl}"
+               style="background: #2A9D8F; color: white; padding: 14px 32px; border-radius: 8px; text-decoration: none; font-size: 16px; font-weight: 600; display: inline-block;">
+              Accept Invite
+            </a>
+          </div>
+
+          <p style="font-size: 14px; color: #666; line-height: 1.6;">
+            This invite expires on ${expiryDate}.
+          </p>
+
+          <hr style="border: none; border-top: 1px solid #eee; margin: 32px 0;" />
+
+          <p style="font-size: 12px; color: #999; text-align: center;">
+            Wayve Consulting &middot; Expense Tracking Made Simple
+          </p>
+        </div>
+      `,
+    })
+  } catch (emailErr) {
+    // Log but don't fail — the invite exists and can be revoked and re-sent
+    console.error('Failed to send accountant invite email:', emailErr)
+    emailSent = false
+  }
+
+  return res.status(201).json({
+    message: 'Invite sent successfully',
+    invite: { ...invite, status: 'pending' },
+    emailSent,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      case 'POST':
+        return handlePost(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in accountants API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
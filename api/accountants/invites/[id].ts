@@ -0,0 +1,66 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../../src/db/index.js'
+import { accountantInvites } from '../../../src/db/schema.js'
+import { eq, and } from 'drizzle-orm'
+import { authenticateRequest } from '../../_lib/auth.js'
+import { checkPermission } from '../../_lib/permissions.js'
+
+// ===========================================
+// DELETE: Revoke a pending accountant invite
+// ===========================================
+async function handleDelete(req: VercelRequest, res: VercelResponse, inviteId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'accountants:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  // Status flips rather than deleting so a stale link reports "revoked"
+  const [revoked] = await db
+    .update(accountantInvites)
+    .set({ status: 'revoked' })
+    .where(and(
+      eq(accountantInvites.id, inviteId),
+      eq(accountantInvites.tenantId, tenantId),
+      eq(accountantInvites.status, 'pending')
+    ))
+    .returning({ id: accountantInvites.id })
+
+  if (!revoked) {
+    return res.status(404).json({ error: 'Invite not found' })
+  }
+
+  return res.status(200).json({
+    message: 'Invite revoked',
+    revokedId: inviteId,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const inviteId = req.query.id as string
+
+  if (!inviteId) {
+    return res.status(400).json({ error: 'Invite ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'DELETE':
+        return handleDelete(req, res, inviteId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in accountant invite API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
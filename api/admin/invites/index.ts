@@ -219,6 +219,7 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
         emoji: cat.emoji,
         expenseType: cat.expenseType,
         homeOfficeEligible: cat.homeOfficeEligible,
+        scheduleCLine: cat.scheduleCLine,
         isSystem: false,
         sortOrder: index + 1,
       })),
@@ -228,6 +229,7 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
         emoji: UNCATEGORIZED_CATEGORY.emoji,
         expenseType: UNCATEGORIZED_CATEGORY.expenseType,
         homeOfficeEligible: UNCATEGORIZED_CATEGORY.homeOfficeEligible,
+        scheduleCLine: UNCATEGORIZED_CATEGORY.scheduleCLine,
         isSystem: true,
         sortOrder: 0,
       },
@@ -0,0 +1,125 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { db } from '../../../src/db/index.js';
+import { mileageRates } from '../../../src/db/schema.js';
+import { eq, and, ne, sql } from 'drizzle-orm';
+import { authenticateSuperAdmin } from '../../_lib/auth.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method === 'PUT') {
+    return handlePut(req, res);
+  } else if (req.method === 'DELETE') {
+    return handleDelete(req, res);
+  } else {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+// ============================================
+// PUT — Correct a rate's date, amount, or note
+// ============================================
+async function handlePut(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateSuperAdmin(req);
+  if (!auth) return res.status(403).json({ error: 'Forbidden' });
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Missing rate ID' });
+  }
+
+  const { effectiveDate, mileageRate, note } = req.body || {};
+  const updateData: Partial<typeof mileageRates.$inferInsert> = { updatedAt: new Date() };
+
+  // --- Validation ---
+  if (effectiveDate !== undefined) {
+    if (typeof effectiveDate !== 'string' || !DATE_PATTERN.test(effectiveDate)) {
+      return res.status(400).json({ error: 'Effective date must be YYYY-MM-DD' });
+    }
+    updateData.effectiveDate = new Date(effectiveDate + 'T12:00:00.000Z');
+  }
+
+  if (mileageRate !== undefined) {
+    const rateMills = Math.round(Number(mileageRate) * 10);
+    if (!Number.isFinite(rateMills) || rateMills <= 0 || rateMills >= 10000) {
+      return res.status(400).json({ error: 'Rate must be between 0 and 1000 cents per mile' });
+    }
+    updateData.rateMills = rateMills;
+  }
+
+  if (note !== undefined) {
+    if (note !== null && (typeof note !== 'string' || note.length > 255)) {
+      return res.status(400).json({ error: 'Note must be 255 characters or fewer' });
+    }
+    updateData.note = note?.trim() || null;
+  }
+
+  try {
+    if (updateData.effectiveDate) {
+      const [clash] = await db
+        .select({ id: mileageRates.id })
+        .from(mileageRates)
+        .where(and(eq(mileageRates.effectiveDate, updateData.effectiveDate), ne(mileageRates.id, id)))
+        .limit(1);
+
+      if (clash) {
+        return res.status(409).json({ error: 'A rate already exists for that date' });
+      }
+    }
+
+    const [updated] = await db
+      .update(mileageRates)
+      .set(updateData)
+      .where(eq(mileageRates.id, id))
+      .returning({ id: mileageRates.id });
+
+    if (!updated) {
+      return res.status(404).json({ error: 'Rate not found' });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (err) {
+    console.error('Error updating mileage rate:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// ============================================
+// DELETE — Remove a rate (trips fall back to the previous one)
+// ============================================
+async function handleDelete(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateSuperAdmin(req);
+  if (!auth) return res.status(403).json({ error: 'Forbidden' });
+
+  const { id } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Missing rate ID' });
+  }
+
+  try {
+    // An empty table would be reseeded with the defaults on the next read
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(mileageRates);
+
+    if (Number(count) <= 1) {
+      return res.status(400).json({ error: 'Cannot delete the only mileage rate' });
+    }
+
+    const [deleted] = await db
+      .delete(mileageRates)
+      .where(eq(mileageRates.id, id))
+      .returning({ id: mileageRates.id });
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Rate not found' });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (err) {
+    console.error('Error deleting mileage rate:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
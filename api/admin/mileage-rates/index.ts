@@ -0,0 +1,99 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { db } from '../../../src/db/index.js';
+import { mileageRates } from '../../../src/db/schema.js';
+import { eq } from 'drizzle-orm';
+import { authenticateSuperAdmin } from '../../_lib/auth.js';
+import { getMileageRates, millsToCents } from '../../_lib/mileage-rates.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method === 'GET') {
+    return handleGet(req, res);
+  } else if (req.method === 'POST') {
+    return handlePost(req, res);
+  } else {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+// ============================================
+// GET — Full rate table, oldest first
+// ============================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateSuperAdmin(req);
+  if (!auth) return res.status(403).json({ error: 'Forbidden' });
+
+  try {
+    const rates = await getMileageRates();
+
+    return res.status(200).json({
+      rates: rates.map(r => ({
+        id: r.id,
+        effectiveDate: r.effectiveDate.toISOString().slice(0, 10),
+        mileageRate: millsToCents(r.rateMills),
+        note: r.note,
+      })),
+    });
+  } catch (err) {
+    console.error('Error fetching mileage rates:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// ============================================
+// POST — Add a rate (new year or mid-year change)
+// ============================================
+async function handlePost(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateSuperAdmin(req);
+  if (!auth) return res.status(403).json({ error: 'Forbidden' });
+
+  const { effectiveDate, mileageRate, note } = req.body || {};
+
+  // --- Validation ---
+  if (typeof effectiveDate !== 'string' || !DATE_PATTERN.test(effectiveDate)) {
+    return res.status(400).json({ error: 'Effective date must be YYYY-MM-DD' });
+  }
+
+  const rateMills = Math.round(Number(mileageRate) * 10);
+  if (!Number.isFinite(rateMills) || rateMills <= 0 || rateMills >= 10000) {
+    return res.status(400).json({ error: 'Rate must be between 0 and 1000 cents per mile' });
+  }
+
+  if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 255)) {
+    return res.status(400).json({ error: 'Note must be 255 characters or fewer' });
+  }
+
+  try {
+    // Make sure the defaults are in place before adding to them
+    await getMileageRates();
+
+    const date = new Date(effectiveDate + 'T12:00:00.000Z');
+    const [existing] = await db
+      .select({ id: mileageRates.id })
+      .from(mileageRates)
+      .where(eq(mileageRates.effectiveDate, date))
+      .limit(1);
+
+    if (existing) {
+      return res.status(409).json({ error: 'A rate already exists for that date' });
+    }
+
+    const [rate] = await db
+      .insert(mileageRates)
+      .values({
+        effectiveDate: date,
+        rateMills,
+        note: note?.trim() || null,
+        createdBy: auth.user.id,
+      })
+      .returning({ id: mileageRates.id });
+
+    return res.status(201).json({ success: true, id: rate.id });
+  } catch (err) {
+    console.error('Error creating mileage rate:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
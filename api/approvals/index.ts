@@ -0,0 +1,107 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { expenses, categories, tenants, users } from '../../src/db/schema.js'
+import { eq, and, asc, desc } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+
+// ===========================================
+// GET: The approval queue. Approvers get every pending
+// expense (any date); everyone else gets their own
+// pending submissions and what was sent back to them.
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const { tenantId, user } = auth
+  const canApprove = checkPermission(auth, 'expenses:approve') === null
+
+  const columns = {
+    id: expenses.id,
+    amount: expenses.amount,
+    currency: expenses.currency,
+    originalAmount: expenses.originalAmount,
+    vendor: expenses.vendor,
+    description: expenses.description,
+    date: expenses.date,
+    categoryId: expenses.categoryId,
+    categoryName: categories.name,
+    categoryEmoji: categories.emoji,
+    expenseType: expenses.expenseType,
+    isHomeOffice: expenses.isHomeOffice,
+    homeOfficePercent: expenses.homeOfficePercent,
+    taxAmount: expenses.taxAmount,
+    taxRate: expenses.taxRate,
+    paymentAccountId: expenses.paymentAccountId,
+    isReimbursable: expenses.isReimbursable,
+    reimbursementId: expenses.reimbursementId,
+    receiptUrl: expenses.receiptUrl,
+    approvalStatus: expenses.approvalStatus,
+    approvalComment: expenses.approvalComment,
+    approvalReviewedAt: expenses.approvalReviewedAt,
+    createdBy: expenses.createdBy,
+    createdAt: expenses.createdAt,
+    submitterEmail: users.email,
+    submitterFirstName: users.firstName,
+    submitterLastName: users.lastName,
+  }
+
+  const [[tenant], pending, rejected] = await Promise.all([
+    db
+      .select({ requireApproval: tenants.requireApproval, baseCurrency: tenants.baseCurrency })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1),
+    db
+      .select(columns)
+      .from(expenses)
+      .leftJoin(categories, eq(expenses.categoryId, categories.id))
+      .leftJoin(users, eq(expenses.createdBy, users.id))
+      .where(and(
+        eq(expenses.tenantId, tenantId),
+        eq(expenses.approvalStatus, 'pending'),
+        canApprove ? undefined : eq(expenses.createdBy, user.id)
+      ))
+      .orderBy(asc(expenses.createdAt)),
+    db
+      .select(columns)
+      .from(expenses)
+      .leftJoin(categories, eq(expenses.categoryId, categories.id))
+      .leftJoin(users, eq(expenses.createdBy, users.id))
+      .where(and(
+        eq(expenses.tenantId, tenantId),
+        eq(expenses.approvalStatus, 'rejected'),
+        canApprove ? undefined : eq(expenses.createdBy, user.id)
+      ))
+      .orderBy(desc(expenses.approvalReviewedAt)),
+  ])
+
+  return res.status(200).json({
+    requireApproval: tenant?.requireApproval ?? false,
+    currency: tenant?.baseCurrency ?? 'USD',
+    canApprove,
+    pending,
+    rejected,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in approvals API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,47 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { tenants } from '../../src/db/schema.js'
+import { eq } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+
+// ============================================
+// MAIN HANDLER — PUT only
+// ============================================
+// Turns approval mode on or off. Only new expenses are affected: anything
+// already waiting stays in the queue until it's approved or rejected.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const denied = checkPermission(auth, 'settings:manage')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
+    const { requireApproval } = req.body ?? {}
+
+    if (typeof requireApproval !== 'boolean') {
+      return res.status(400).json({ error: 'Validation failed', details: ['requireApproval must be true or false'] })
+    }
+
+    await db.update(tenants)
+      .set({ requireApproval, updatedAt: new Date() })
+      .where(eq(tenants.id, auth.tenantId))
+
+    return res.status(200).json({ requireApproval })
+
+  } catch (err) {
+    console.error('Error updating approval mode:', err)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
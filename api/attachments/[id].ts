@@ -4,6 +4,7 @@ import { db } from '../../src/db/index.js';
 import { expenseAttachments } from '../../src/db/schema.js';
 import { eq, and } from 'drizzle-orm';
 import { authenticateRequest } from '../_lib/auth.js';
+import { checkPermission } from '../_lib/permissions.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const { id } = req.query;
@@ -46,6 +47,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // DELETE — Remove attachment record + delete blob
   // ============================================
   if (req.method === 'DELETE') {
+    const denied = checkPermission(auth, 'attachments:delete');
+    if (denied) return res.status(403).json({ error: denied });
+
     try {
       // Fetch the attachment (tenant-scoped)
       const [attachment] = await db
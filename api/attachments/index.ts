@@ -3,6 +3,7 @@ import { db } from '../../src/db/index.js';
 import { expenseAttachments, expenses } from '../../src/db/schema.js';
 import { eq, and } from 'drizzle-orm';
 import { authenticateRequest } from '../_lib/auth.js';
+import { checkPermission } from '../_lib/permissions.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // ============================================
@@ -13,6 +14,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const auth = await authenticateRequest(req);
       if (!auth) return res.status(401).json({ error: 'Unauthorized' });
 
+      const denied = checkPermission(auth, 'attachments:upload');
+      if (denied) return res.status(403).json({ error: denied });
+
       const { expenseId, blobUrl, fileName, fileType, fileSize } = req.body || {};
 
       if (!expenseId || !blobUrl || !fileName || !fileType || !fileSize) {
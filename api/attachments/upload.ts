@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { handleUpload, type HandleUploadBody } from '@vercel/blob/client';
 import { authenticateRequest } from '../_lib/auth.js';
+import { checkPermission } from '../_lib/permissions.js';
 
 // Allowed MIME types
 const ALLOWED_TYPES = [
@@ -21,6 +22,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const auth = await authenticateRequest(req);
     if (!auth) return res.status(401).json({ error: 'Unauthorized' });
 
+    const denied = checkPermission(auth, 'attachments:upload');
+    if (denied) return res.status(403).json({ error: denied });
+
     const body = req.body as HandleUploadBody;
 
     const jsonResponse = await handleUpload({
@@ -1,6 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { db } from '../../../src/db/index.js';
-import { users, sessions, userTenantAccess, tenants, invites, inviteTenants } from '../../../src/db/schema.js';
+import { users, sessions, userTenantAccess, tenants, invites, inviteTenants, accountantInvites } from '../../../src/db/schema.js';
 import { eq, and } from 'drizzle-orm';
 import crypto from 'crypto';
 
@@ -62,12 +62,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.redirect('/login?error=missing_code');
   }
 
-  // Parse state to get redirect URL
+  // Parse state to get redirect URL and any accountant invite token
   let redirectTo = '/';
+  let accountantInviteToken: string | null = null;
   if (state && typeof state === 'string') {
     try {
       const stateData = JSON.parse(Buffer.from(state, 'base64').toString());
       redirectTo = stateData.redirectTo || '/';
+      accountantInviteToken = typeof stateData.accountantInvite === 'string' ? stateData.accountantInvite : null;
     } catch {
       // Invalid state, use default redirect
     }
@@ -111,6 +113,48 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.redirect('/login?error=email_not_verified');
     }
 
+    // --- Accountant invite (from /invite?token=...) ---
+    let accountantInvite: {
+      id: string;
+      tenantId: string;
+      subdomain: string;
+      invitedBy: string | null;
+    } | null = null;
+
+    if (accountantInviteToken) {
+      const [invite] = await db
+        .select({
+          id: accountantInvites.id,
+          tenantId: accountantInvites.tenantId,
+          email: accountantInvites.email,
+          status: accountantInvites.status,
+          expiresAt: accountantInvites.expiresAt,
+          invitedBy: accountantInvites.invitedBy,
+          subdomain: tenants.subdomain,
+          tenantDeletedAt: tenants.deletedAt,
+        })
+        .from(accountantInvites)
+        .innerJoin(tenants, eq(accountantInvites.tenantId, tenants.id))
+        .where(eq(accountantInvites.inviteToken, accountantInviteToken))
+        .limit(1);
+
+      if (!invite || invite.status !== 'pending' || invite.tenantDeletedAt) {
+        return res.redirect('/login?error=invalid_invite');
+      }
+
+      if (new Date(invite.expiresAt) < new Date()) {
+        return res.redirect('/login?error=invite_expired');
+      }
+
+      // The link alone isn't enough — the Google account must be the invited one
+      if (invite.email !== googleUser.email.toLowerCase()) {
+        console.log(`Accountant invite ${invite.id} used by a different Google account (sub: ${googleUser.id})`);
+        return res.redirect('/login?error=invite_email_mismatch');
+      }
+
+      accountantInvite = invite;
+    }
+
     // Look up user by email
     const existingUsers = await db
       .select()
@@ -120,7 +164,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     let user = existingUsers[0];
 
-    if (!user) {
+    if (!user && accountantInvite) {
+      // New accountant — exists above tenant level; access is granted below
+      const [newUser] = await db
+        .insert(users)
+        .values({
+          email: googleUser.email.toLowerCase(),
+          firstName: googleUser.given_name || null,
+          lastName: googleUser.family_name || null,
+          googleId: googleUser.id,
+          tenantId: null,
+          lastTenantId: accountantInvite.tenantId,
+          role: 'accountant',
+          emailVerified: true,
+          isSuperAdmin: false,
+          isAccountant: true,
+        })
+        .returning();
+
+      user = newUser;
+    } else if (!user) {
       // User not found — check for pending invite
       const [pendingInvite] = await db
         .select()
@@ -226,6 +289,37 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.redirect('/login?error=account_mismatch');
     }
 
+    // Grant read-only accountant access. An existing access row (e.g. they're
+    // already staff on this tenant) is left alone rather than downgraded.
+    if (accountantInvite) {
+      if (!user.isAccountant) {
+        await db
+          .update(users)
+          .set({ isAccountant: true, updatedAt: new Date() })
+          .where(eq(users.id, user.id));
+      }
+
+      await db
+        .insert(userTenantAccess)
+        .values({
+          userId: user.id,
+          tenantId: accountantInvite.tenantId,
+          role: 'accountant',
+          canEdit: false,
+          invitedBy: accountantInvite.invitedBy,
+        })
+        .onConflictDoNothing({ target: [userTenantAccess.userId, userTenantAccess.tenantId] });
+
+      await db
+        .update(accountantInvites)
+        .set({
+          status: 'accepted',
+          acceptedByUserId: user.id,
+          acceptedAt: new Date(),
+        })
+        .where(eq(accountantInvites.id, accountantInvite.id));
+    }
+
     // Create session
     const sessionToken = crypto.randomBytes(32).toString('hex');
     const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
@@ -295,7 +389,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     let finalRedirect: string;
 
-    if (user.isSuperAdmin) {
+    if (accountantInvite) {
+      // Just accepted an invite — land on the business that sent it
+      finalRedirect = tenantUrl(accountantInvite.subdomain);
+    } else if (user.isSuperAdmin) {
       if (allTenantAccess.length === 0) {
         finalRedirect = '/admin';
       } else if (allTenantAccess.length === 1) {
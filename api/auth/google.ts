@@ -5,11 +5,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { redirect } = req.query;
+  const { redirect, accountantInvite } = req.query;
 
-  // Build state parameter (includes redirect URL, could add CSRF token later)
+  // Build state parameter (includes redirect URL, could add CSRF token later).
+  // Accountant invite tokens ride along so the callback can grant access.
   const state = Buffer.from(JSON.stringify({
     redirectTo: typeof redirect === 'string' ? redirect : '/',
+    accountantInvite: typeof accountantInvite === 'string' ? accountantInvite : undefined,
   })).toString('base64');
 
   // Determine the correct redirect URI based on environment
@@ -1,8 +1,11 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { db } from '../../src/db/index.js'
-import { categories, expenses } from '../../src/db/schema.js'
+import { categories, expenses, expenseSplits, recurringExpenses, vendorCategoryMappings } from '../../src/db/schema.js'
 import { eq, and, sql } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { isScheduleCLine } from '../../src/utils/schedule-c.js'
+import { recordExpenseHistory } from '../_lib/expense-history.js'
 
 // ============================================
 // MAIN HANDLER
@@ -34,6 +37,11 @@ async function handlePut(req: VercelRequest, res: VercelResponse, categoryId: st
       return res.status(401).json({ error: 'Unauthorized' })
     }
 
+    const denied = checkPermission(auth, 'categories:manage')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
     const { tenantId } = auth
 
     // Verify category exists and belongs to this tenant
@@ -50,7 +58,7 @@ async function handlePut(req: VercelRequest, res: VercelResponse, categoryId: st
       return res.status(404).json({ error: 'Category not found' })
     }
 
-    const { name, emoji, expenseType, homeOfficeEligible } = req.body
+    const { name, emoji, expenseType, homeOfficeEligible, scheduleCLine } = req.body
 
     // Validation
     const errors: string[] = []
@@ -63,6 +71,9 @@ async function handlePut(req: VercelRequest, res: VercelResponse, categoryId: st
     if (expenseType !== undefined && !['operating', 'cogs'].includes(expenseType)) {
       errors.push('Invalid expense type')
     }
+    if (scheduleCLine != null && !isScheduleCLine(scheduleCLine)) {
+      errors.push('Invalid Schedule C line')
+    }
     // System categories can have name/emoji edited but not deleted
     // (No restriction on editing system categories for now — just deletion)
     if (errors.length > 0) {
@@ -96,6 +107,7 @@ async function handlePut(req: VercelRequest, res: VercelResponse, categoryId: st
     if (emoji !== undefined) updates.emoji = emoji
     if (expenseType !== undefined) updates.expenseType = expenseType
     if (homeOfficeEligible !== undefined) updates.homeOfficeEligible = homeOfficeEligible
+    if (scheduleCLine !== undefined) updates.scheduleCLine = scheduleCLine
 
     const [updated] = await db
       .update(categories)
@@ -121,7 +133,12 @@ async function handleDelete(req: VercelRequest, res: VercelResponse, categoryId:
       return res.status(401).json({ error: 'Unauthorized' })
     }
 
-    const { tenantId } = auth
+    const denied = checkPermission(auth, 'categories:manage')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
+    const { tenantId, user } = auth
 
     // Verify category exists and belongs to this tenant
     const [existing] = await db
@@ -182,16 +199,16 @@ async function handleDelete(req: VercelRequest, res: VercelResponse, categoryId:
       targetCategoryId = uncategorized.id
     }
 
-    // Count affected expenses
-    const [affectedResult] = await db
-      .select({ count: sql<number>`count(*)` })
+    // Collect affected expenses (ids are needed for the history trail)
+    const affectedExpenses = await db
+      .select({ id: expenses.id })
       .from(expenses)
       .where(and(
         eq(expenses.categoryId, categoryId),
         eq(expenses.tenantId, tenantId)
       ))
 
-    const affectedCount = Number(affectedResult?.count || 0)
+    const affectedCount = affectedExpenses.length
 
     // Reassign expenses to target category
     if (affectedCount > 0) {
@@ -199,14 +216,53 @@ async function handleDelete(req: VercelRequest, res: VercelResponse, categoryId:
         .update(expenses)
         .set({
           categoryId: targetCategoryId,
+          updatedBy: user.id,
           updatedAt: new Date(),
         })
         .where(and(
           eq(expenses.categoryId, categoryId),
           eq(expenses.tenantId, tenantId)
         ))
+
+      await recordExpenseHistory(affectedExpenses.map(e => ({
+        expenseId: e.id,
+        tenantId,
+        action: 'reassign' as const,
+        previous: { categoryId },
+        next: { categoryId: targetCategoryId },
+        changedBy: user.id,
+      })))
     }
 
+    // Split lines in this category move with the expenses
+    await db
+      .update(expenseSplits)
+      .set({ categoryId: targetCategoryId })
+      .where(and(
+        eq(expenseSplits.categoryId, categoryId),
+        eq(expenseSplits.tenantId, tenantId)
+      ))
+
+    // Point recurring templates at the same target so future expenses don't land in a hidden category
+    await db
+      .update(recurringExpenses)
+      .set({
+        categoryId: targetCategoryId,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(recurringExpenses.categoryId, categoryId),
+        eq(recurringExpenses.tenantId, tenantId)
+      ))
+
+    // Stop suggesting a category that no longer exists
+    await db
+      .delete(vendorCategoryMappings)
+      .where(and(
+        eq(vendorCategoryMappings.categoryId, categoryId),
+        eq(vendorCategoryMappings.tenantId, tenantId)
+      ))
+
     // Soft-delete the category
     await db
       .update(categories)
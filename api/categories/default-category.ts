@@ -3,6 +3,7 @@ import { db } from '../../src/db/index.js'
 import { tenants, categories } from '../../src/db/schema.js'
 import { eq, and } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
 
 // ============================================
 // MAIN HANDLER — PUT only
@@ -20,6 +21,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
 
+    const denied = checkPermission(auth, 'settings:manage')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
     const { tenantId } = auth
     const { defaultCategoryId } = req.body
 
@@ -3,6 +3,8 @@ import { db } from '../../src/db/index.js'
 import { categories, expenses, tenants } from '../../src/db/schema.js'
 import { eq, and, asc, sql } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { isScheduleCLine } from '../../src/utils/schedule-c.js'
 
 // ============================================
 // MAIN HANDLER
@@ -48,6 +50,7 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
           emoji: categories.emoji,
           expenseType: categories.expenseType,
           homeOfficeEligible: categories.homeOfficeEligible,
+          scheduleCLine: categories.scheduleCLine,
           isSystem: categories.isSystem,
           sortOrder: categories.sortOrder,
           isActive: categories.isActive,
@@ -109,6 +112,7 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
         emoji: categories.emoji,
         expenseType: categories.expenseType,
         homeOfficeEligible: categories.homeOfficeEligible,
+        scheduleCLine: categories.scheduleCLine,
         isSystem: categories.isSystem,
         sortOrder: categories.sortOrder,
       })
@@ -156,8 +160,13 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
 
+    const denied = checkPermission(auth, 'categories:manage')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
     const { tenantId } = auth
-    const { name, emoji, expenseType, homeOfficeEligible } = req.body
+    const { name, emoji, expenseType, homeOfficeEligible, scheduleCLine } = req.body
 
     // Validation
     const errors: string[] = []
@@ -170,6 +179,9 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
     if (expenseType && !['operating', 'cogs'].includes(expenseType)) {
       errors.push('Invalid expense type')
     }
+    if (scheduleCLine != null && !isScheduleCLine(scheduleCLine)) {
+      errors.push('Invalid Schedule C line')
+    }
     if (errors.length > 0) {
       return res.status(400).json({ error: 'Validation failed', details: errors })
     }
@@ -206,6 +218,7 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
         emoji: emoji || '📁',
         expenseType: resolvedType,
         homeOfficeEligible: resolvedEligible,
+        scheduleCLine: scheduleCLine ?? null,
         sortOrder: (Number(maxSort?.max) || 0) + 1,
       })
       .returning()
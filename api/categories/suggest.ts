@@ -0,0 +1,33 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticateRequest } from '../_lib/auth.js'
+import { suggestCategoryForVendor } from '../_lib/vendor-mappings.js'
+
+// ============================================
+// MAIN HANDLER — GET only
+// Suggest a category for a vendor from past expenses
+// ============================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const { tenantId } = auth
+    const vendor = typeof req.query.vendor === 'string' ? req.query.vendor : ''
+
+    const suggestion = await suggestCategoryForVendor(tenantId, vendor)
+
+    return res.status(200).json({ suggestion })
+
+  } catch (error) {
+    console.error('Error suggesting category:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -5,8 +5,13 @@ import {
   users,
   userTenantAccess,
   categories,
+  paymentAccounts,
   expenses,
+  reimbursements,
   expenseAttachments,
+  expenseSplits,
+  receiptScans,
+  receiptInboxItems,
   expenseHistory,
   mileageTrips,
   savedLocations,
@@ -97,6 +102,8 @@ async function hardDeleteTenant(tenantId: string, subdomain: string): Promise<vo
 
   // Step 2: Leaf tables (no other tables reference these)
   await db.delete(rateLimitUsage).where(eq(rateLimitUsage.tenantId, tenantId));
+  await db.delete(receiptScans).where(eq(receiptScans.tenantId, tenantId));
+  await db.delete(receiptInboxItems).where(eq(receiptInboxItems.tenantId, tenantId));
   await db.delete(expensePolicies).where(eq(expensePolicies.tenantId, tenantId));
   await db.delete(accountantInvites).where(eq(accountantInvites.tenantId, tenantId));
   await db.delete(invites).where(eq(invites.tenantId, tenantId));
@@ -113,14 +120,17 @@ async function hardDeleteTenant(tenantId: string, subdomain: string): Promise<vo
   // Step 3: Expense history (FK → expenses)
   await db.delete(expenseHistory).where(eq(expenseHistory.tenantId, tenantId));
 
-  // Step 4: Expense attachments (FK → expenses)
+  // Step 4: Expense attachments and splits (FK → expenses)
   await db.delete(expenseAttachments).where(eq(expenseAttachments.tenantId, tenantId));
+  await db.delete(expenseSplits).where(eq(expenseSplits.tenantId, tenantId));
 
-  // Step 5: Expenses (FK → categories)
+  // Step 5: Expenses (FK → categories, reimbursements), then their reimbursement batches
   await db.delete(expenses).where(eq(expenses.tenantId, tenantId));
+  await db.delete(reimbursements).where(eq(reimbursements.tenantId, tenantId));
 
-  // Step 6: Categories
+  // Step 6: Categories and payment accounts
   await db.delete(categories).where(eq(categories.tenantId, tenantId));
+  await db.delete(paymentAccounts).where(eq(paymentAccounts.tenantId, tenantId));
 
   // Step 7: User tenant access
   await db.delete(userTenantAccess).where(eq(userTenantAccess.tenantId, tenantId));
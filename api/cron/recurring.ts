@@ -0,0 +1,132 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { db } from '../../src/db/index.js';
+import { tenants, recurringExpenses, expenses } from '../../src/db/schema.js';
+import { eq, and, lte, isNull, isNotNull } from 'drizzle-orm';
+import { advanceOccurrence, isRecurringFrequency } from '../_lib/recurring.js';
+import { recordExpenseHistory } from '../_lib/expense-history.js';
+
+// Safety cap on back-filled occurrences per template per run
+// (e.g. a monthly template whose cron was missed for a few days still catches up,
+// but a bad nextGenerationAt years in the past can't flood the ledger)
+const MAX_OCCURRENCES_PER_RUN = 12;
+
+type RecurringTemplate = typeof recurringExpenses.$inferSelect;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store');
+
+  // Verify this is a cron request (Vercel sends this header)
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const now = new Date();
+
+    // Active templates that are due, skipping soft-deleted tenants
+    const dueTemplates = await db
+      .select({ template: recurringExpenses, baseCurrency: tenants.baseCurrency })
+      .from(recurringExpenses)
+      .innerJoin(tenants, eq(recurringExpenses.tenantId, tenants.id))
+      .where(and(
+        eq(recurringExpenses.isActive, true),
+        isNotNull(recurringExpenses.nextGenerationAt),
+        lte(recurringExpenses.nextGenerationAt, now),
+        isNull(tenants.deletedAt),
+      ));
+
+    if (dueTemplates.length === 0) {
+      return res.status(200).json({ message: 'No recurring expenses due', generated: 0 });
+    }
+
+    const results: { id: string; generated: number; success: boolean; error?: string }[] = [];
+
+    for (const { template, baseCurrency } of dueTemplates) {
+      try {
+        const generated = await materializeTemplate(template, baseCurrency, now);
+        console.log(`[cron] Recurring ${template.id}: generated ${generated} expense(s)`);
+        results.push({ id: template.id, generated, success: true });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error(`[cron] Failed to generate recurring ${template.id}:`, msg);
+        results.push({ id: template.id, generated: 0, success: false, error: msg });
+      }
+    }
+
+    return res.status(200).json({
+      message: `Processed ${dueTemplates.length} template(s)`,
+      generated: results.reduce((sum, r) => sum + r.generated, 0),
+      failed: results.filter(r => !r.success).length,
+      details: results,
+    });
+  } catch (err) {
+    console.error('[cron] Recurring error:', err);
+    return res.status(500).json({ error: 'Recurring generation failed' });
+  }
+}
+
+/**
+ * Create an expense for every occurrence of the template that is due,
+ * then advance nextGenerationAt past `now`.
+ *
+ * Idempotent: the (recurring_expense_id, date) unique constraint means a
+ * re-run (or an overlapping run) inserts nothing for occurrences that
+ * already exist. Returns the number of expenses actually created.
+ * Template amounts are in the tenant's base currency.
+ */
+async function materializeTemplate(template: RecurringTemplate, baseCurrency: string, now: Date): Promise<number> {
+  if (!template.nextGenerationAt || !isRecurringFrequency(template.frequency)) {
+    return 0;
+  }
+
+  const dayOfMonth = template.dayOfMonth ?? template.nextGenerationAt.getUTCDate();
+  let occurrence = template.nextGenerationAt;
+  let created = 0;
+  let processed = 0;
+
+  while (occurrence <= now && processed < MAX_OCCURRENCES_PER_RUN) {
+    const inserted = await db
+      .insert(expenses)
+      .values({
+        tenantId: template.tenantId,
+        amount: template.amount,
+        currency: baseCurrency,
+        vendor: template.vendor,
+        description: template.description,
+        date: occurrence,
+        categoryId: template.categoryId,
+        expenseType: template.expenseType,
+        recurringExpenseId: template.id,
+        createdBy: template.createdBy,
+        updatedBy: template.createdBy,
+      })
+      .onConflictDoNothing({ target: [expenses.recurringExpenseId, expenses.date] })
+      .returning();
+
+    // changedBy stays null: generated by the system, not a person
+    await recordExpenseHistory(inserted.map(expense => ({
+      expenseId: expense.id,
+      tenantId: template.tenantId,
+      action: 'create' as const,
+      previous: null,
+      next: expense,
+      changedBy: null,
+    })));
+
+    created += inserted.length;
+    processed++;
+    occurrence = advanceOccurrence(occurrence, template.frequency, dayOfMonth);
+  }
+
+  await db
+    .update(recurringExpenses)
+    .set({
+      lastGeneratedAt: now,
+      nextGenerationAt: occurrence,
+      updatedAt: now,
+    })
+    .where(eq(recurringExpenses.id, template.id));
+
+  return created;
+}
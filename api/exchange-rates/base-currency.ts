@@ -0,0 +1,69 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { tenants, expenses } from '../../src/db/schema.js'
+import { eq } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { isCurrencyCode } from '../../src/utils/currency.js'
+
+// ============================================
+// MAIN HANDLER — PUT only
+// ============================================
+// Every stored amount is already converted into the base currency, so it
+// can only change before the first expense is recorded.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const denied = checkPermission(auth, 'settings:manage')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
+    const { tenantId } = auth
+    const { baseCurrency } = req.body ?? {}
+
+    if (!isCurrencyCode(baseCurrency)) {
+      return res.status(400).json({ error: 'Validation failed', details: ['Unsupported currency'] })
+    }
+
+    const [[tenant], [existing]] = await Promise.all([
+      db
+        .select({ baseCurrency: tenants.baseCurrency })
+        .from(tenants)
+        .where(eq(tenants.id, tenantId))
+        .limit(1),
+      db
+        .select({ id: expenses.id })
+        .from(expenses)
+        .where(eq(expenses.tenantId, tenantId))
+        .limit(1),
+    ])
+
+    if (tenant?.baseCurrency === baseCurrency) {
+      return res.status(200).json({ baseCurrency })
+    }
+    if (existing) {
+      return res.status(409).json({ error: 'The base currency can only be changed before any expenses are recorded' })
+    }
+
+    await db.update(tenants)
+      .set({ baseCurrency, updatedAt: new Date() })
+      .where(eq(tenants.id, tenantId))
+
+    return res.status(200).json({ baseCurrency })
+
+  } catch (err) {
+    console.error('Error updating base currency:', err)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,54 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { tenants } from '../../src/db/schema.js'
+import { eq } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { getExchangeRates, exchangeRateFor } from '../_lib/exchange-rates.js'
+import { CURRENCIES } from '../../src/utils/currency.js'
+
+// ===========================================
+// GET: Rates into the tenant's base currency
+// ===========================================
+// For previewing a conversion while an expense is being entered — the
+// expense APIs look the rate up again when they save.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const date = typeof req.query.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(req.query.date)
+      ? `${req.query.date}T12:00:00.000Z`
+      : new Date().toISOString()
+
+    const [[tenant], rates] = await Promise.all([
+      db
+        .select({ baseCurrency: tenants.baseCurrency })
+        .from(tenants)
+        .where(eq(tenants.id, auth.tenantId))
+        .limit(1),
+      getExchangeRates(),
+    ])
+    const baseCurrency = tenant?.baseCurrency ?? 'USD'
+
+    return res.status(200).json({
+      baseCurrency,
+      date: date.slice(0, 10),
+      rates: CURRENCIES.map(c => ({
+        currency: c.code,
+        rate: exchangeRateFor(rates, c.code, baseCurrency, date), // base units per 1 unit; null if not on file
+      })),
+    })
+
+  } catch (error) {
+    console.error('Error in exchange rates API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,176 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { expensePolicies, userTenantAccess, categories } from '../../src/db/schema.js'
+import { eq, and, inArray } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { parseAllowedCategories } from '../_lib/expense-policy.js'
+
+function isCentsOrNull(value: unknown, { allowZero }: { allowZero: boolean }): boolean {
+  if (value === null) return true
+  return typeof value === 'number' && Number.isInteger(value) && (allowZero ? value >= 0 : value > 0)
+}
+
+// ===========================================
+// PUT: Create or replace a team member's policy
+// ===========================================
+async function handlePut(req: VercelRequest, res: VercelResponse, memberUserId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'policies:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId, user } = auth
+
+  const [member] = await db
+    .select({ role: userTenantAccess.role })
+    .from(userTenantAccess)
+    .where(and(
+      eq(userTenantAccess.userId, memberUserId),
+      eq(userTenantAccess.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!member) {
+    return res.status(404).json({ error: 'Team member not found' })
+  }
+
+  const {
+    maxExpenseAmount = null,   // cents or null
+    requireNotesAbove = null,  // cents or null
+    allowedCategories = null,  // category IDs or null for all
+  } = req.body ?? {}
+
+  // Validation
+  const errors: string[] = []
+
+  if (member.role === 'owner') {
+    errors.push('Owners cannot have an expense policy')
+  }
+
+  if (!isCentsOrNull(maxExpenseAmount, { allowZero: false })) {
+    errors.push('Max expense amount must be a positive integer (in cents)')
+  }
+
+  if (!isCentsOrNull(requireNotesAbove, { allowZero: true })) {
+    errors.push('Notes threshold must be a non-negative integer (in cents)')
+  }
+
+  if (allowedCategories !== null) {
+    if (!Array.isArray(allowedCategories) || allowedCategories.some(id => typeof id !== 'string')) {
+      errors.push('Allowed categories must be an array of category IDs')
+    } else if (allowedCategories.length === 0) {
+      errors.push('Allow at least one category, or allow all')
+    } else {
+      const found = await db
+        .select({ id: categories.id })
+        .from(categories)
+        .where(and(
+          eq(categories.tenantId, tenantId),
+          inArray(categories.id, allowedCategories)
+        ))
+
+      if (found.length !== new Set(allowedCategories).size) {
+        errors.push('Invalid category')
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  const values = {
+    maxExpenseAmount,
+    requireNotesAbove,
+    allowedCategories: allowedCategories ? JSON.stringify([...new Set(allowedCategories)]) : null,
+  }
+
+  const [policy] = await db
+    .insert(expensePolicies)
+    .values({
+      tenantId,
+      userId: memberUserId,
+      ...values,
+      createdBy: user.id,
+    })
+    .onConflictDoUpdate({
+      target: [expensePolicies.tenantId, expensePolicies.userId],
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning()
+
+  return res.status(200).json({
+    message: 'Expense policy saved successfully',
+    policy: {
+      maxExpenseAmount: policy.maxExpenseAmount,
+      requireNotesAbove: policy.requireNotesAbove,
+      allowedCategories: parseAllowedCategories(policy.allowedCategories),
+      updatedAt: policy.updatedAt,
+    },
+  })
+}
+
+// ===========================================
+// DELETE: Remove a team member's policy (no restrictions)
+// ===========================================
+async function handleDelete(req: VercelRequest, res: VercelResponse, memberUserId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'policies:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  const [removed] = await db
+    .delete(expensePolicies)
+    .where(and(
+      eq(expensePolicies.userId, memberUserId),
+      eq(expensePolicies.tenantId, tenantId)
+    ))
+    .returning({ id: expensePolicies.id })
+
+  if (!removed) {
+    return res.status(404).json({ error: 'Expense policy not found' })
+  }
+
+  return res.status(200).json({
+    message: 'Expense policy removed successfully',
+    userId: memberUserId,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const memberUserId = req.query.userId as string
+
+  if (!memberUserId) {
+    return res.status(400).json({ error: 'User ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'PUT':
+        return handlePut(req, res, memberUserId)
+      case 'DELETE':
+        return handleDelete(req, res, memberUserId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in expense policy API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,86 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { expensePolicies, userTenantAccess, users } from '../../src/db/schema.js'
+import { eq, and, ne, asc } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { parseAllowedCategories } from '../_lib/expense-policy.js'
+
+// ===========================================
+// GET: Team members with their expense policies
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'policies:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  // Owners set policies; they aren't subject to them
+  const members = await db
+    .select({
+      userId: userTenantAccess.userId,
+      role: userTenantAccess.role,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      policyId: expensePolicies.id,
+      maxExpenseAmount: expensePolicies.maxExpenseAmount,
+      requireNotesAbove: expensePolicies.requireNotesAbove,
+      allowedCategories: expensePolicies.allowedCategories,
+      policyUpdatedAt: expensePolicies.updatedAt,
+    })
+    .from(userTenantAccess)
+    .innerJoin(users, eq(userTenantAccess.userId, users.id))
+    .leftJoin(expensePolicies, and(
+      eq(expensePolicies.tenantId, userTenantAccess.tenantId),
+      eq(expensePolicies.userId, userTenantAccess.userId)
+    ))
+    .where(and(
+      eq(userTenantAccess.tenantId, tenantId),
+      ne(userTenantAccess.role, 'owner')
+    ))
+    .orderBy(asc(users.email))
+
+  return res.status(200).json({
+    members: members.map(m => ({
+      userId: m.userId,
+      role: m.role,
+      email: m.email,
+      firstName: m.firstName,
+      lastName: m.lastName,
+      policy: m.policyId
+        ? {
+            maxExpenseAmount: m.maxExpenseAmount,
+            requireNotesAbove: m.requireNotesAbove,
+            allowedCategories: parseAllowedCategories(m.allowedCategories),
+            updatedAt: m.policyUpdatedAt,
+          }
+        : null,
+    })),
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in expense policies API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -1,8 +1,37 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { db } from '../../src/db/index.js'
-import { expenses, categories, tenants } from '../../src/db/schema.js'
+import { expenses, categories, paymentAccounts, tenants } from '../../src/db/schema.js'
 import { eq, and } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { recordExpenseHistory } from '../_lib/expense-history.js'
+import { getExpensePolicy, evaluateExpensePolicy } from '../_lib/expense-policy.js'
+import { recordVendorCategory, normalizeVendor } from '../_lib/vendor-mappings.js'
+import { validateExpenseSplits, convertSplits, primarySplit, getExpenseSplits, replaceExpenseSplits, type ExpenseSplitValues } from '../_lib/expense-splits.js'
+import { getExchangeRates, convertToBase, type CurrencyValues } from '../_lib/exchange-rates.js'
+import { validateSalesTax, type SalesTaxValues } from '../_lib/sales-tax.js'
+
+// Tenant's current home office deduction %, snapshotted onto home office expenses and split lines
+async function currentHomeOfficePercent(tenantId: string): Promise<number | null> {
+  const [tenant] = await db
+    .select({
+      homeTotalSqft: tenants.homeTotalSqft,
+      homeOfficeSqft: tenants.homeOfficeSqft,
+    })
+    .from(tenants)
+    .where(eq(tenants.id, tenantId))
+    .limit(1)
+
+  if (tenant?.homeTotalSqft && tenant?.homeOfficeSqft && tenant.homeTotalSqft > 0) {
+    return Math.round((tenant.homeOfficeSqft / tenant.homeTotalSqft) * 100)
+  }
+  return null
+}
+
+// Rejected expenses return to whoever submitted them to fix or discard
+function isReturnedToSubmitter(expense: { approvalStatus: string; createdBy: string | null }, userId: string): boolean {
+  return expense.approvalStatus === 'rejected' && expense.createdBy === userId
+}
 
 // ===========================================
 // GET: Fetch single expense by ID
@@ -19,6 +48,11 @@ async function handleGet(req: VercelRequest, res: VercelResponse, expenseId: str
     .select({
       id: expenses.id,
       amount: expenses.amount,
+      currency: expenses.currency,
+      originalAmount: expenses.originalAmount,
+      exchangeRate: expenses.exchangeRate,
+      taxAmount: expenses.taxAmount,
+      taxRate: expenses.taxRate,
       vendor: expenses.vendor,
       description: expenses.description,
       date: expenses.date,
@@ -28,8 +62,16 @@ async function handleGet(req: VercelRequest, res: VercelResponse, expenseId: str
       expenseType: expenses.expenseType,
       isHomeOffice: expenses.isHomeOffice,
       homeOfficePercent: expenses.homeOfficePercent,
+      paymentAccountId: expenses.paymentAccountId,
+      isReimbursable: expenses.isReimbursable,
+      reimbursementId: expenses.reimbursementId,
       receiptUrl: expenses.receiptUrl,
       extractedText: expenses.extractedText,
+      policyFlag: expenses.policyFlag,
+      policyReviewedAt: expenses.policyReviewedAt,
+      approvalStatus: expenses.approvalStatus,
+      approvalComment: expenses.approvalComment,
+      createdBy: expenses.createdBy,
       createdAt: expenses.createdAt,
       updatedAt: expenses.updatedAt,
     })
@@ -45,7 +87,9 @@ async function handleGet(req: VercelRequest, res: VercelResponse, expenseId: str
     return res.status(404).json({ error: 'Expense not found' })
   }
 
-  return res.status(200).json({ expense })
+  const splits = await getExpenseSplits(expense.id)
+
+  return res.status(200).json({ expense: { ...expense, splits } })
 }
 
 // ===========================================
@@ -56,6 +100,7 @@ async function handlePut(req: VercelRequest, res: VercelResponse, expenseId: str
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
+
   const { user, tenantId } = auth
 
   // Verify expense exists and belongs to tenant
@@ -72,15 +117,28 @@ async function handlePut(req: VercelRequest, res: VercelResponse, expenseId: str
     return res.status(404).json({ error: 'Expense not found' })
   }
 
+  // A rejected expense goes back to its submitter to fix, even without edit rights
+  const denied = checkPermission(auth, 'expenses:edit')
+  if (denied && !isReturnedToSubmitter(existingExpense, user.id)) {
+    return res.status(403).json({ error: denied })
+  }
+
   const {
     amount,
+    currency,
+    exchangeRate,
+    taxAmount,
+    taxRate,
     date,
     categoryId,
     vendor,
     description,
     expenseType,
     isHomeOffice,
+    paymentAccountId,
+    isReimbursable,
     extractedText,
+    splits,
   } = req.body
 
   // Validation
@@ -114,11 +172,123 @@ async function handlePut(req: VercelRequest, res: VercelResponse, expenseId: str
     }
   }
 
+  // Payment account: null clears it; an archived account may stay but can't be newly chosen
+  if (paymentAccountId !== undefined && paymentAccountId !== null && paymentAccountId !== '' && paymentAccountId !== existingExpense.paymentAccountId) {
+    const [account] = typeof paymentAccountId === 'string'
+      ? await db
+          .select({ id: paymentAccounts.id })
+          .from(paymentAccounts)
+          .where(and(
+            eq(paymentAccounts.id, paymentAccountId),
+            eq(paymentAccounts.tenantId, tenantId),
+            eq(paymentAccounts.isActive, true)
+          ))
+          .limit(1)
+      : []
+
+    if (!account) {
+      errors.push('Invalid payment account')
+    }
+  }
+
+  if (isReimbursable !== undefined && typeof isReimbursable !== 'boolean') {
+    errors.push('Reimbursable must be true or false')
+  }
+
   const validExpenseTypes = ['cogs', 'operating', 'home_office']
   if (expenseType !== undefined && !validExpenseTypes.includes(expenseType)) {
     errors.push(`Expense type must be one of: ${validExpenseTypes.join(', ')}`)
   }
 
+  // The submitter's policy applies whoever edits, so an owner's edit
+  // doesn't re-check a member's expense against the owner's (empty) policy
+  const [policy, [tenant]] = await Promise.all([
+    existingExpense.createdBy ? getExpensePolicy(tenantId, existingExpense.createdBy) : null,
+    db
+      .select({ baseCurrency: tenants.baseCurrency, requireApproval: tenants.requireApproval })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1),
+  ])
+  const baseCurrency = tenant?.baseCurrency ?? 'USD'
+
+  // Currency: amount is in the expense's currency. Re-convert when any of
+  // them is sent; the stored rate is kept unless the currency changes or a
+  // new rate (or null, to look it up again) comes in.
+  let converted: CurrencyValues = {
+    amount: existingExpense.amount,
+    currency: existingExpense.currency,
+    originalAmount: existingExpense.originalAmount,
+    exchangeRate: existingExpense.exchangeRate,
+  }
+  if (errors.length === 0 && (amount !== undefined || currency !== undefined || exchangeRate !== undefined)) {
+    const nextCurrency = currency ?? existingExpense.currency
+    const rates = await getExchangeRates()
+    const result = convertToBase({
+      amount: amount ?? existingExpense.originalAmount ?? existingExpense.amount,
+      currency: nextCurrency,
+      exchangeRate: exchangeRate !== undefined
+        ? exchangeRate
+        : nextCurrency === existingExpense.currency ? existingExpense.exchangeRate : null,
+      date: date !== undefined ? new Date(date) : existingExpense.date,
+    }, baseCurrency, rates)
+    errors.push(...result.errors)
+    if (result.values) converted = result.values
+  }
+
+  // Sales tax: checked against the total as entered. A new total without
+  // new tax fields keeps the rate and recomputes the tax from it.
+  let tax: SalesTaxValues = { taxAmount: existingExpense.taxAmount, taxRate: existingExpense.taxRate }
+  const enteredTotal = converted.originalAmount ?? converted.amount
+  const existingTotal = existingExpense.originalAmount ?? existingExpense.amount
+  if (errors.length === 0 && (taxAmount !== undefined || taxRate !== undefined || enteredTotal !== existingTotal)) {
+    const result = taxAmount !== undefined || taxRate !== undefined
+      ? validateSalesTax({ taxAmount, taxRate }, enteredTotal)
+      : validateSalesTax({ taxRate: existingExpense.taxRate }, enteredTotal)
+    errors.push(...result.errors)
+    if (result.values) tax = result.values
+  }
+
+  // Splits: [] clears them; a new amount on a split expense needs new lines too
+  let newSplits: ExpenseSplitValues[] | null = null
+  if (splits !== undefined && errors.length === 0) {
+    const tenantCategories = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.tenantId, tenantId))
+    // Lines are in the expense's own currency, like the amount
+    const result = validateExpenseSplits(splits, converted.originalAmount ?? converted.amount, {
+      categoryIds: new Set(tenantCategories.map(c => c.id)),
+      currency: converted.currency,
+      policy,
+    })
+    errors.push(...result.errors)
+    newSplits = result.splits && convertSplits(result.splits, converted)
+  } else if (splits === undefined && converted.amount !== existingExpense.amount) {
+    const existingSplits = await getExpenseSplits(expenseId)
+    if (existingSplits.length > 0) {
+      errors.push('This expense is split — update the splits to match the new amount')
+    }
+  }
+  const primary = newSplits && newSplits.length > 0 ? primarySplit(newSplits) : null
+
+  // What's owed is fixed once the expense is in a reimbursement batch
+  if (existingExpense.reimbursementId && (
+    converted.amount !== existingExpense.amount
+    || (isReimbursable !== undefined && isReimbursable !== existingExpense.isReimbursable)
+  )) {
+    errors.push('This expense is on a reimbursement — its amount and reimbursable flag can\'t change')
+  }
+
+  // Submitter's expense policy, checked against the expense as it will be saved
+  const nextCategoryId = primary?.categoryId ?? (categoryId !== undefined ? categoryId : existingExpense.categoryId)
+  const policyCheck = evaluateExpensePolicy(policy, {
+    amount: converted.amount,
+    categoryId: nextCategoryId,
+    description: description !== undefined ? description?.trim() || null : existingExpense.description,
+  }, { currency: baseCurrency, checkCategory: nextCategoryId !== existingExpense.categoryId })
+  if (errors.length === 0) errors.push(...policyCheck.errors)
+
   if (errors.length > 0) {
     return res.status(400).json({ error: 'Validation failed', details: errors })
   }
@@ -129,33 +299,48 @@ async function handlePut(req: VercelRequest, res: VercelResponse, expenseId: str
     updatedAt: new Date(),
   }
 
-  if (amount !== undefined) updateData.amount = amount
+  updateData.amount = converted.amount
+  updateData.currency = converted.currency
+  updateData.originalAmount = converted.originalAmount
+  updateData.exchangeRate = converted.exchangeRate
+  updateData.taxAmount = tax.taxAmount
+  updateData.taxRate = tax.taxRate
+  if (converted.amount !== existingExpense.amount) {
+    // A new amount needs a fresh look, even if the old one was reviewed
+    updateData.policyFlag = policyCheck.flag
+    updateData.policyReviewedBy = null
+    updateData.policyReviewedAt = null
+  }
   if (date !== undefined) updateData.date = new Date(date)
   if (categoryId !== undefined) updateData.categoryId = categoryId
   if (vendor !== undefined) updateData.vendor = vendor?.trim() || null
   if (description !== undefined) updateData.description = description?.trim() || null
   if (expenseType !== undefined) updateData.expenseType = expenseType
+  if (paymentAccountId !== undefined) updateData.paymentAccountId = paymentAccountId || null
+  if (existingExpense.approvalStatus === 'rejected') {
+    // Saving a rejected expense resubmits it for approval — or, if approvals
+    // have been turned off since, settles it like any other expense
+    updateData.approvalStatus = tenant?.requireApproval ? 'pending' : 'approved'
+  }
+  if (isReimbursable !== undefined) updateData.isReimbursable = isReimbursable
   if (extractedText !== undefined) updateData.extractedText = extractedText
   if (isHomeOffice !== undefined) {
     updateData.isHomeOffice = isHomeOffice
     if (isHomeOffice) {
       // Snapshot current deduction percentage from tenant
-      const [tenant] = await db
-        .select({
-          homeTotalSqft: tenants.homeTotalSqft,
-          homeOfficeSqft: tenants.homeOfficeSqft,
-        })
-        .from(tenants)
-        .where(eq(tenants.id, tenantId))
-        .limit(1)
-
-      if (tenant?.homeTotalSqft && tenant?.homeOfficeSqft && tenant.homeTotalSqft > 0) {
-        updateData.homeOfficePercent = Math.round((tenant.homeOfficeSqft / tenant.homeTotalSqft) * 100)
-      }
+      const percent = await currentHomeOfficePercent(tenantId)
+      if (percent !== null) updateData.homeOfficePercent = percent
     } else {
       updateData.homeOfficePercent = null
     }
   }
+  if (primary) {
+    // Split lines carry their own category, type and home office flag
+    updateData.categoryId = primary.categoryId
+    updateData.expenseType = primary.expenseType
+    updateData.isHomeOffice = false
+    updateData.homeOfficePercent = null
+  }
 
   // Update the expense
   const [updatedExpense] = await db
@@ -164,11 +349,38 @@ async function handlePut(req: VercelRequest, res: VercelResponse, expenseId: str
     .where(eq(expenses.id, expenseId))
     .returning()
 
+  if (newSplits) {
+    const percent = newSplits.some(line => line.isHomeOffice) ? await currentHomeOfficePercent(tenantId) : null
+    await replaceExpenseSplits(tenantId, expenseId, newSplits, percent)
+  }
+
+  await recordExpenseHistory({
+    expenseId,
+    tenantId,
+    action: 'update',
+    previous: existingExpense,
+    next: updatedExpense,
+    changedBy: user.id,
+  })
+
+  // Re-categorizing (or renaming the vendor) teaches the suggestion for the new pair
+  if (
+    updatedExpense.categoryId !== existingExpense.categoryId
+    || normalizeVendor(updatedExpense.vendor) !== normalizeVendor(existingExpense.vendor)
+  ) {
+    await recordVendorCategory(tenantId, updatedExpense.vendor, updatedExpense.categoryId)
+  }
+
   // Fetch with category info
   const [expenseWithCategory] = await db
     .select({
       id: expenses.id,
       amount: expenses.amount,
+      currency: expenses.currency,
+      originalAmount: expenses.originalAmount,
+      exchangeRate: expenses.exchangeRate,
+      taxAmount: expenses.taxAmount,
+      taxRate: expenses.taxRate,
       vendor: expenses.vendor,
       description: expenses.description,
       date: expenses.date,
@@ -178,7 +390,15 @@ async function handlePut(req: VercelRequest, res: VercelResponse, expenseId: str
       expenseType: expenses.expenseType,
       isHomeOffice: expenses.isHomeOffice,
       homeOfficePercent: expenses.homeOfficePercent,
+      paymentAccountId: expenses.paymentAccountId,
+      isReimbursable: expenses.isReimbursable,
+      reimbursementId: expenses.reimbursementId,
       receiptUrl: expenses.receiptUrl,
+      policyFlag: expenses.policyFlag,
+      policyReviewedAt: expenses.policyReviewedAt,
+      approvalStatus: expenses.approvalStatus,
+      approvalComment: expenses.approvalComment,
+      createdBy: expenses.createdBy,
       createdAt: expenses.createdAt,
       updatedAt: expenses.updatedAt,
     })
@@ -187,9 +407,11 @@ async function handlePut(req: VercelRequest, res: VercelResponse, expenseId: str
     .where(eq(expenses.id, updatedExpense.id))
     .limit(1)
 
+  const savedSplits = await getExpenseSplits(expenseId)
+
   return res.status(200).json({
     message: 'Expense updated successfully',
-    expense: expenseWithCategory,
+    expense: { ...expenseWithCategory, splits: savedSplits },
   })
 }
 
@@ -201,7 +423,8 @@ async function handleDelete(req: VercelRequest, res: VercelResponse, expenseId:
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
-  const { tenantId } = auth
+
+  const { tenantId, user } = auth
 
   // Verify expense exists and belongs to tenant
   const [existingExpense] = await db
@@ -217,11 +440,30 @@ async function handleDelete(req: VercelRequest, res: VercelResponse, expenseId:
     return res.status(404).json({ error: 'Expense not found' })
   }
 
+  // The submitter may also discard an expense that was sent back to them
+  const denied = checkPermission(auth, 'expenses:delete')
+  if (denied && !isReturnedToSubmitter(existingExpense, user.id)) {
+    return res.status(403).json({ error: denied })
+  }
+
+  if (existingExpense.reimbursementId) {
+    return res.status(400).json({ error: 'This expense is on a reimbursement and can\'t be deleted' })
+  }
+
   // Delete the expense
   await db
     .delete(expenses)
     .where(eq(expenses.id, expenseId))
 
+  await recordExpenseHistory({
+    expenseId,
+    tenantId,
+    action: 'delete',
+    previous: existingExpense,
+    next: null,
+    changedBy: user.id,
+  })
+
   return res.status(200).json({
     message: 'Expense deleted successfully',
     deletedId: expenseId,
@@ -0,0 +1,124 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../../src/db/index.js'
+import { expenses } from '../../../src/db/schema.js'
+import { eq, and } from 'drizzle-orm'
+import { authenticateRequest } from '../../_lib/auth.js'
+import { checkPermission } from '../../_lib/permissions.js'
+import { recordExpenseHistory } from '../../_lib/expense-history.js'
+
+const DECISIONS = ['approve', 'reject']
+
+// ===========================================
+// POST: Approve a pending expense, or reject it back to
+// its submitter with a comment saying what to fix
+// ===========================================
+async function handlePost(req: VercelRequest, res: VercelResponse, expenseId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'expenses:approve')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId, user } = auth
+  const { decision, comment } = req.body ?? {}
+
+  // Validation
+  const errors: string[] = []
+  if (!DECISIONS.includes(decision)) {
+    errors.push(`Decision must be one of: ${DECISIONS.join(', ')}`)
+  }
+  const trimmedComment = typeof comment === 'string' ? comment.trim() : ''
+  if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+    errors.push('Comment must be a string')
+  } else if (trimmedComment.length > 1000) {
+    errors.push('Comment must be 1000 characters or less')
+  } else if (decision === 'reject' && !trimmedComment) {
+    errors.push('Add a comment so the submitter knows what to fix')
+  }
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  const [existingExpense] = await db
+    .select()
+    .from(expenses)
+    .where(and(
+      eq(expenses.id, expenseId),
+      eq(expenses.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!existingExpense) {
+    return res.status(404).json({ error: 'Expense not found' })
+  }
+
+  if (existingExpense.approvalStatus !== 'pending') {
+    return res.status(400).json({ error: 'Expense is not awaiting approval' })
+  }
+
+  const [updatedExpense] = await db
+    .update(expenses)
+    .set({
+      approvalStatus: decision === 'approve' ? 'approved' : 'rejected',
+      approvalComment: trimmedComment || null,
+      approvalReviewedBy: user.id,
+      approvalReviewedAt: new Date(),
+    })
+    // Only if it's still pending — another approver (or a re-save) may have got there first
+    .where(and(
+      eq(expenses.id, expenseId),
+      eq(expenses.tenantId, tenantId),
+      eq(expenses.approvalStatus, 'pending')
+    ))
+    .returning()
+
+  if (!updatedExpense) {
+    return res.status(409).json({ error: 'Expense was changed by someone else — reload and try again' })
+  }
+
+  await recordExpenseHistory({
+    expenseId,
+    tenantId,
+    action: 'update',
+    previous: existingExpense,
+    next: updatedExpense,
+    changedBy: user.id,
+  })
+
+  return res.status(200).json({
+    message: decision === 'approve' ? 'Expense approved' : 'Expense returned to submitter',
+    expense: {
+      id: updatedExpense.id,
+      approvalStatus: updatedExpense.approvalStatus,
+      approvalComment: updatedExpense.approvalComment,
+      approvalReviewedAt: updatedExpense.approvalReviewedAt,
+    },
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const expenseId = req.query.id as string
+
+  if (!expenseId) {
+    return res.status(400).json({ error: 'Expense ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'POST':
+        return handlePost(req, res, expenseId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in expense approval API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,135 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../../src/db/index.js'
+import { expenseHistory, categories, users } from '../../../src/db/schema.js'
+import { eq, and, desc, inArray } from 'drizzle-orm'
+import { authenticateRequest } from '../../_lib/auth.js'
+import { changedFields, type ExpenseSnapshot } from '../../_lib/expense-history.js'
+import { getPaymentAccounts } from '../../_lib/payment-accounts.js'
+import { formatPaymentAccount } from '../../../src/utils/payment-accounts.js'
+
+function parseSnapshot(json: string | null): ExpenseSnapshot | null {
+  if (!json) return null
+  try {
+    return JSON.parse(json) as ExpenseSnapshot
+  } catch {
+    return null
+  }
+}
+
+// ===========================================
+// GET: Audit trail for a single expense
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse, expenseId: string) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const { tenantId } = auth
+
+  // History is scoped by tenant rather than by joining expenses,
+  // so the trail is still readable after the expense is deleted
+  const rows = await db
+    .select({
+      id: expenseHistory.id,
+      action: expenseHistory.action,
+      previousValues: expenseHistory.previousValues,
+      newValues: expenseHistory.newValues,
+      changedAt: expenseHistory.changedAt,
+      changedById: expenseHistory.changedBy,
+      changedByEmail: users.email,
+      changedByFirstName: users.firstName,
+      changedByLastName: users.lastName,
+    })
+    .from(expenseHistory)
+    .leftJoin(users, eq(expenseHistory.changedBy, users.id))
+    .where(and(
+      eq(expenseHistory.expenseId, expenseId),
+      eq(expenseHistory.tenantId, tenantId)
+    ))
+    .orderBy(desc(expenseHistory.changedAt))
+
+  if (rows.length === 0) {
+    return res.status(200).json({ history: [], categories: {}, paymentAccounts: {} })
+  }
+
+  const entries = rows.map(row => {
+    const previous = parseSnapshot(row.previousValues)
+    const next = parseSnapshot(row.newValues)
+    // Creates and deletes list every captured field; updates only the ones that changed
+    const fields = row.action === 'update' || row.action === 'reassign'
+      ? changedFields(previous, next)
+      : changedFields(null, previous ?? next)
+
+    const name = [row.changedByFirstName, row.changedByLastName].filter(Boolean).join(' ')
+
+    return {
+      id: row.id,
+      action: row.action,
+      changedAt: row.changedAt,
+      changedBy: row.changedById
+        ? { id: row.changedById, name: name || null, email: row.changedByEmail }
+        : null,
+      changes: fields.map(field => ({
+        field,
+        from: previous?.[field] ?? null,
+        to: next?.[field] ?? null,
+      })),
+    }
+  })
+
+  // Resolve category ids that appear in any change so the client can show names
+  const categoryIds = new Set<string>()
+  for (const entry of entries) {
+    for (const change of entry.changes) {
+      if (change.field !== 'categoryId') continue
+      if (typeof change.from === 'string') categoryIds.add(change.from)
+      if (typeof change.to === 'string') categoryIds.add(change.to)
+    }
+  }
+
+  const categoryRows = categoryIds.size > 0
+    ? await db
+        .select({ id: categories.id, name: categories.name, emoji: categories.emoji })
+        .from(categories)
+        .where(and(
+          inArray(categories.id, [...categoryIds]),
+          eq(categories.tenantId, tenantId)
+        ))
+    : []
+
+  const categoryLookup = Object.fromEntries(
+    categoryRows.map(c => [c.id, { name: c.name, emoji: c.emoji }])
+  )
+
+  // Same for payment accounts — the tenant only has a handful, so load them all
+  const showsAccounts = entries.some(entry => entry.changes.some(change => change.field === 'paymentAccountId'))
+  const accountLookup = showsAccounts
+    ? Object.fromEntries((await getPaymentAccounts(tenantId)).map(a => [a.id, formatPaymentAccount(a)]))
+    : {}
+
+  return res.status(200).json({ history: entries, categories: categoryLookup, paymentAccounts: accountLookup })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const expenseId = req.query.id as string
+
+  if (!expenseId) {
+    return res.status(400).json({ error: 'Expense ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res, expenseId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in expense history API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,81 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../../src/db/index.js'
+import { expenses } from '../../../src/db/schema.js'
+import { eq, and } from 'drizzle-orm'
+import { authenticateRequest } from '../../_lib/auth.js'
+import { checkPermission } from '../../_lib/permissions.js'
+
+// ===========================================
+// POST: Mark a policy-flagged expense as reviewed
+// ===========================================
+async function handlePost(req: VercelRequest, res: VercelResponse, expenseId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'policies:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId, user } = auth
+
+  const [existingExpense] = await db
+    .select({ id: expenses.id, policyFlag: expenses.policyFlag })
+    .from(expenses)
+    .where(and(
+      eq(expenses.id, expenseId),
+      eq(expenses.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!existingExpense) {
+    return res.status(404).json({ error: 'Expense not found' })
+  }
+
+  if (!existingExpense.policyFlag) {
+    return res.status(400).json({ error: 'Expense is not flagged for review' })
+  }
+
+  const [reviewed] = await db
+    .update(expenses)
+    .set({
+      policyReviewedBy: user.id,
+      policyReviewedAt: new Date(),
+    })
+    .where(eq(expenses.id, expenseId))
+    .returning({
+      id: expenses.id,
+      policyFlag: expenses.policyFlag,
+      policyReviewedAt: expenses.policyReviewedAt,
+    })
+
+  return res.status(200).json({
+    message: 'Expense marked as reviewed',
+    expense: reviewed,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const expenseId = req.query.id as string
+
+  if (!expenseId) {
+    return res.status(400).json({ error: 'Expense ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'POST':
+        return handlePost(req, res, expenseId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in expense review API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -1,8 +1,19 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { db } from '../../src/db/index.js'
-import { expenses, categories, tenants } from '../../src/db/schema.js'
-import { eq, and, desc, sql, gte, lt } from 'drizzle-orm'
+import { expenses, categories } from '../../src/db/schema.js'
+import { eq, and, sql, gte, lt, isNull } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { recordExpenseHistory } from '../_lib/expense-history.js'
+import { loadExpenseInputContext, validateExpenseInput } from '../_lib/expense-input.js'
+import { validateExpenseSplits, convertSplits, primarySplit, replaceExpenseSplits, type ExpenseSplitValues } from '../_lib/expense-splits.js'
+import { recordVendorCategory } from '../_lib/vendor-mappings.js'
+import { encodeCursor, decodeCursor, keysetOrder, keysetAfter } from '../_lib/cursor.js'
+import { reportableExpenses } from '../_lib/reports.js'
+
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 500
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
 // ===========================================
 // GET: Fetch expenses with category breakdown
@@ -17,90 +28,150 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
 
   // Get query params for filtering
   const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear()
-  const limit = req.query.limit ? parseInt(req.query.limit as string) : 100
+  const limit = Math.min(req.query.limit ? parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE : DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  const categoryId = typeof req.query.categoryId === 'string' ? req.query.categoryId : null
+  const paymentAccountId = typeof req.query.paymentAccountId === 'string' ? req.query.paymentAccountId : null
+
+  const after = decodeCursor(req.query.cursor)
+  if (req.query.cursor !== undefined && !after) {
+    return res.status(400).json({ error: 'Invalid cursor' })
+  }
+  if (categoryId && categoryId !== 'uncategorized' && !UUID_PATTERN.test(categoryId)) {
+    return res.status(400).json({ error: 'Invalid category ID' })
+  }
+  if (paymentAccountId && paymentAccountId !== 'none' && !UUID_PATTERN.test(paymentAccountId)) {
+    return res.status(400).json({ error: 'Invalid payment account ID' })
+  }
 
   // Date range for SQL-level filtering
   const startDate = new Date(year, 0, 1)
   const endDate = new Date(year + 1, 0, 1)
 
-  // Fetch expenses for this year only (SQL-level date filter) with category info + attachment count
-  const filteredExpenses = await db
-    .select({
-      id: expenses.id,
-      amount: expenses.amount,
-      vendor: expenses.vendor,
-      description: expenses.description,
-      date: expenses.date,
-      categoryId: expenses.categoryId,
-      categoryName: categories.name,
-      categoryEmoji: categories.emoji,
-      expenseType: expenses.expenseType,
-      isHomeOffice: expenses.isHomeOffice,
-      homeOfficePercent: expenses.homeOfficePercent,
-      receiptUrl: expenses.receiptUrl,
-      createdAt: expenses.createdAt,
-      attachmentCount: sql<number>`(SELECT COUNT(*) FROM expense_attachments WHERE expense_attachments.expense_id = ${expenses.id})`.as('attachment_count'),
-    })
-    .from(expenses)
-    .leftJoin(categories, eq(expenses.categoryId, categories.id))
-    .where(and(
-      eq(expenses.tenantId, tenantId),
-      gte(expenses.date, startDate),
-      lt(expenses.date, endDate)
-    ))
-    .orderBy(desc(expenses.date), desc(expenses.createdAt))
-    .limit(limit)
+  const where = and(
+    eq(expenses.tenantId, tenantId),
+    gte(expenses.date, startDate),
+    lt(expenses.date, endDate),
+    categoryId === 'uncategorized' ? isNull(expenses.categoryId) : categoryId ? eq(expenses.categoryId, categoryId) : undefined,
+    paymentAccountId === 'none' ? isNull(expenses.paymentAccountId) : paymentAccountId ? eq(expenses.paymentAccountId, paymentAccountId) : undefined
+  )
 
-  // Helper: get effective (deductible) amount for an expense
-  function getEffectiveAmount(e: { amount: number; isHomeOffice?: boolean | null; homeOfficePercent?: number | null }): number {
-    if (e.isHomeOffice && e.homeOfficePercent) {
-      return Math.round(e.amount * e.homeOfficePercent / 100)
-    }
-    return e.amount
-  }
+  // Effective (deductible) amount — home office expenses only count their business-use share
+  const effectiveAmount = sql<number>`CASE WHEN ${expenses.isHomeOffice} AND COALESCE(${expenses.homeOfficePercent}, 0) <> 0 THEN ROUND(${expenses.amount} * ${expenses.homeOfficePercent} / 100.0) ELSE ${expenses.amount} END`
+  const monthKey = sql<string>`to_char(${expenses.date}, 'YYYY-MM')`
+
+  // Totals count what reports count (approved expenses); pending ones are
+  // listed but summed separately, and rejected ones aren't summed at all
+  const counted = reportableExpenses()
+  const pending = eq(expenses.approvalStatus, 'pending')
+
+  // One page of rows, plus aggregates over the whole year so totals don't depend on page size
+  const [page, [totals], categoryTotals, monthTotals] = await Promise.all([
+    db
+      .select({
+        id: expenses.id,
+        amount: expenses.amount,
+        currency: expenses.currency,
+        originalAmount: expenses.originalAmount,
+        taxAmount: expenses.taxAmount,
+        taxRate: expenses.taxRate,
+        vendor: expenses.vendor,
+        description: expenses.description,
+        date: expenses.date,
+        categoryId: expenses.categoryId,
+        categoryName: categories.name,
+        categoryEmoji: categories.emoji,
+        expenseType: expenses.expenseType,
+        isHomeOffice: expenses.isHomeOffice,
+        homeOfficePercent: expenses.homeOfficePercent,
+        paymentAccountId: expenses.paymentAccountId,
+        isReimbursable: expenses.isReimbursable,
+        reimbursementId: expenses.reimbursementId,
+        receiptUrl: expenses.receiptUrl,
+        policyFlag: expenses.policyFlag,
+        policyReviewedAt: expenses.policyReviewedAt,
+        approvalStatus: expenses.approvalStatus,
+        approvalComment: expenses.approvalComment,
+        createdBy: expenses.createdBy,
+        createdAt: expenses.createdAt,
+        attachmentCount: sql<number>`(SELECT COUNT(*) FROM expense_attachments WHERE expense_attachments.expense_id = ${expenses.id})`.as('attachment_count'),
+      })
+      .from(expenses)
+      .leftJoin(categories, eq(expenses.categoryId, categories.id))
+      .where(after ? and(where, keysetAfter(expenses, after)) : where)
+      .orderBy(...keysetOrder(expenses))
+      .limit(limit + 1),
+
+    db
+      .select({
+        expenseCount: sql<number>`count(*) FILTER (WHERE ${counted})`,
+        totalAmount: sql<number>`COALESCE(SUM(${effectiveAmount}) FILTER (WHERE ${counted}), 0)`,
+        pendingCount: sql<number>`count(*) FILTER (WHERE ${pending})`,
+        pendingAmount: sql<number>`COALESCE(SUM(${effectiveAmount}) FILTER (WHERE ${pending}), 0)`,
+      })
+      .from(expenses)
+      .where(where),
+
+    db
+      .select({
+        categoryId: expenses.categoryId,
+        name: categories.name,
+        emoji: categories.emoji,
+        total: sql<number>`COALESCE(SUM(${effectiveAmount}), 0)`,
+        count: sql<number>`count(*)`,
+      })
+      .from(expenses)
+      .leftJoin(categories, eq(expenses.categoryId, categories.id))
+      .where(and(where, counted))
+      .groupBy(expenses.categoryId, categories.name, categories.emoji),
+
+    db
+      .select({
+        month: monthKey,
+        total: sql<number>`COALESCE(SUM(${effectiveAmount}), 0)`,
+        count: sql<number>`count(*)`,
+      })
+      .from(expenses)
+      .where(and(where, counted))
+      .groupBy(monthKey),
+  ])
+
+  const hasMore = page.length > limit
+  const pageExpenses = hasMore ? page.slice(0, limit) : page
 
   // Calculate summary stats
-  const totalAmount = filteredExpenses.reduce((sum, e) => sum + getEffectiveAmount(e), 0)
-  const totalDeductible = filteredExpenses.reduce((sum, e) => {
-    if (e.isHomeOffice && e.homeOfficePercent) {
-      return sum + Math.round(e.amount * (e.homeOfficePercent / 100))
-    }
-    return sum + e.amount
-  }, 0)
-  const expenseCount = filteredExpenses.length
+  const totalAmount = Number(totals.totalAmount)
+  const expenseCount = Number(totals.expenseCount)
   const averageAmount = expenseCount > 0 ? Math.round(totalAmount / expenseCount) : 0
 
   // Category breakdown
-  const categoryTotals = new Map<string, { name: string; emoji: string | null; total: number; count: number }>()
-  for (const expense of filteredExpenses) {
-    const key = expense.categoryId || 'uncategorized'
-    const existing = categoryTotals.get(key)
-    if (existing) {
-      existing.total += getEffectiveAmount(expense)
-      existing.count += 1
-    } else {
-      categoryTotals.set(key, {
-        name: expense.categoryName || 'Uncategorized',
-        emoji: expense.categoryEmoji,
-        total: getEffectiveAmount(expense),
-        count: 1,
-      })
-    }
-  }
-
-  const categoryBreakdown = Array.from(categoryTotals.values())
+  const categoryBreakdown = categoryTotals
+    .map(c => ({
+      categoryId: c.categoryId ?? 'uncategorized',
+      name: c.name || 'Uncategorized',
+      emoji: c.emoji,
+      total: Number(c.total),
+      count: Number(c.count),
+    }))
     .sort((a, b) => b.total - a.total)
 
+  const monthlyTotals = monthTotals
+    .map(m => ({ month: m.month, total: Number(m.total), count: Number(m.count) }))
+    .sort((a, b) => b.month.localeCompare(a.month))
+
   return res.status(200).json({
-    expenses: filteredExpenses,
+    expenses: pageExpenses,
+    nextCursor: hasMore ? encodeCursor(pageExpenses[pageExpenses.length - 1]) : null,
     summary: {
       totalAmount,
-      totalDeductible,
+      totalDeductible: totalAmount,
       expenseCount,
       averageAmount,
+      pendingAmount: Number(totals.pendingAmount),
+      pendingCount: Number(totals.pendingCount),
       year,
     },
     categoryBreakdown,
+    monthlyTotals,
   })
 }
 
@@ -112,86 +183,46 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
-  const { user, tenantId } = auth
-
-  // Parse request body
-  const {
-    amount,        // Required: number in cents
-    date,          // Required: ISO date string
-    categoryId,    // Required: UUID
-    vendor,        // Optional: string
-    description,   // Optional: string
-    expenseType,   // Optional: 'cogs' | 'operating' | 'home_office' (defaults to 'operating')
-    isHomeOffice,  // Optional: boolean — true if user checked "Home Office Expense"
-    extractedText, // Optional: string — raw text from AI receipt scan
-  } = req.body
-
-  // If home office, snapshot the tenant's current deduction percentage
-  let homeOfficePercent: number | null = null
-  if (isHomeOffice) {
-    const [tenant] = await db
-      .select({
-        homeTotalSqft: tenants.homeTotalSqft,
-        homeOfficeSqft: tenants.homeOfficeSqft,
-      })
-      .from(tenants)
-      .where(eq(tenants.id, tenantId))
-      .limit(1)
 
-    if (tenant?.homeTotalSqft && tenant?.homeOfficeSqft && tenant.homeTotalSqft > 0) {
-      homeOfficePercent = Math.round((tenant.homeOfficeSqft / tenant.homeTotalSqft) * 100)
-    }
+  const denied = checkPermission(auth, 'expenses:create')
+  if (denied) {
+    return res.status(403).json({ error: denied })
   }
 
+  const { user, tenantId } = auth
+
   // ===========================================
   // Validation
   // ===========================================
-  const errors: string[] = []
+  const context = await loadExpenseInputContext(tenantId, user.id, auth.role)
+  const { errors, values } = validateExpenseInput(req.body ?? {}, context)
 
-  // Amount: required, must be positive integer
-  if (amount === undefined || amount === null) {
-    errors.push('Amount is required')
-  } else if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
-    errors.push('Amount must be a positive integer (in cents)')
-  }
-
-  // Date: required, must be valid
-  if (!date) {
-    errors.push('Date is required')
-  } else {
-    const parsedDate = new Date(date)
-    if (isNaN(parsedDate.getTime())) {
-      errors.push('Date must be a valid ISO date string')
-    }
+  // Return all validation errors at once
+  if (errors.length > 0 || !values) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
   }
 
-  // Category: required, must exist and belong to tenant
-  if (!categoryId) {
-    errors.push('Category is required')
-  } else {
-    const [category] = await db
-      .select()
-      .from(categories)
-      .where(and(
-        eq(categories.id, categoryId),
-        eq(categories.tenantId, tenantId)
-      ))
-      .limit(1)
-
-    if (!category) {
-      errors.push('Invalid category')
+  // Optional split across categories — the lines carry category, type and
+  // home office; the expense itself follows the largest line
+  let splits: ExpenseSplitValues[] = []
+  if (req.body?.splits !== undefined) {
+    // Lines are in the currency the expense was entered in
+    const result = validateExpenseSplits(req.body.splits, values.originalAmount ?? values.amount, {
+      categoryIds: context.categoryIds,
+      currency: values.currency ?? context.baseCurrency,
+      policy: context.policy,
+    })
+    if (!result.splits) {
+      return res.status(400).json({ error: 'Validation failed', details: result.errors })
     }
+    splits = convertSplits(result.splits, { amount: values.amount, originalAmount: values.originalAmount ?? null })
   }
-
-  // Expense type: optional, but must be valid if provided
-  const validExpenseTypes = ['cogs', 'operating']
-  if (expenseType && !validExpenseTypes.includes(expenseType)) {
-    errors.push(`Expense type must be one of: ${validExpenseTypes.join(', ')}`)
-  }
-
-  // Return all validation errors at once
-  if (errors.length > 0) {
-    return res.status(400).json({ error: 'Validation failed', details: errors })
+  if (splits.length > 0) {
+    const primary = primarySplit(splits)
+    values.categoryId = primary.categoryId
+    values.expenseType = primary.expenseType
+    values.isHomeOffice = false
+    values.homeOfficePercent = null
   }
 
   // ===========================================
@@ -199,27 +230,33 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
   // ===========================================
   const [newExpense] = await db
     .insert(expenses)
-    .values({
-      tenantId,
-      amount,
-      date: new Date(date),
-      categoryId,
-      vendor: vendor?.trim() || null,
-      description: description?.trim() || null,
-      expenseType: expenseType || 'operating',
-      isHomeOffice: isHomeOffice || false,
-      homeOfficePercent,
-      extractedText: extractedText || null,
-      createdBy: user.id,
-      updatedBy: user.id,
-    })
+    .values(values)
     .returning()
 
+  if (splits.length > 0) {
+    await replaceExpenseSplits(tenantId, newExpense.id, splits, context.homeOfficePercent)
+  }
+
+  await recordExpenseHistory({
+    expenseId: newExpense.id,
+    tenantId,
+    action: 'create',
+    previous: null,
+    next: newExpense,
+    changedBy: user.id,
+  })
+
+  await recordVendorCategory(tenantId, newExpense.vendor, newExpense.categoryId)
+
   // Fetch the expense with category info + attachment count to return
   const [expenseWithCategory] = await db
     .select({
       id: expenses.id,
       amount: expenses.amount,
+      currency: expenses.currency,
+      originalAmount: expenses.originalAmount,
+      taxAmount: expenses.taxAmount,
+      taxRate: expenses.taxRate,
       vendor: expenses.vendor,
       description: expenses.description,
       date: expenses.date,
@@ -229,7 +266,15 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
       expenseType: expenses.expenseType,
       isHomeOffice: expenses.isHomeOffice,
       homeOfficePercent: expenses.homeOfficePercent,
+      paymentAccountId: expenses.paymentAccountId,
+      isReimbursable: expenses.isReimbursable,
+      reimbursementId: expenses.reimbursementId,
       receiptUrl: expenses.receiptUrl,
+      policyFlag: expenses.policyFlag,
+      policyReviewedAt: expenses.policyReviewedAt,
+      approvalStatus: expenses.approvalStatus,
+      approvalComment: expenses.approvalComment,
+      createdBy: expenses.createdBy,
       createdAt: expenses.createdAt,
       attachmentCount: sql<number>`(SELECT COUNT(*) FROM expense_attachments WHERE expense_attachments.expense_id = ${expenses.id})`.as('attachment_count'),
     })
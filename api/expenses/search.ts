@@ -0,0 +1,278 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { expenses, categories } from '../../src/db/schema.js'
+import { eq, and, or, desc, sql, gte, lt, lte, isNull, inArray, type SQL } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { encodeCursor, decodeCursor, keysetOrder, keysetAfter } from '../_lib/cursor.js'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const EXPENSE_TYPES = ['operating', 'cogs', 'home_office']
+
+// Same expression as expense_search_idx in the schema, so Postgres can use the GIN index
+const searchVector = sql`to_tsvector('english', coalesce(${expenses.vendor}, '') || ' ' || coalesce(${expenses.description}, '') || ' ' || coalesce(${expenses.extractedText}, ''))`
+
+const hasAttachment = sql<boolean>`(${expenses.receiptUrl} IS NOT NULL OR EXISTS (SELECT 1 FROM expense_attachments WHERE expense_attachments.expense_id = ${expenses.id}))`
+
+/**
+ * Turn free text into a prefix tsquery ("home dep" → "home:* & dep:*")
+ * so results update as the user types. Punctuation is dropped rather
+ * than escaped, which keeps to_tsquery from ever seeing bad syntax;
+ * letters in any script are kept, so "Café" and "Müller" still match.
+ */
+function toPrefixQuery(q: string): string | null {
+  const terms = q.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).slice(0, 10)
+  if (terms.length === 0) return null
+  return terms.map(t => `${t}:*`).join(' & ')
+}
+
+function parseList(value: unknown): string[] {
+  if (typeof value !== 'string' || value.trim() === '') return []
+  return value.split(',').map(v => v.trim()).filter(Boolean)
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (value === 'true') return true
+  if (value === 'false') return false
+  return undefined
+}
+
+// ===========================================
+// GET: Search expenses with facets
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const { tenantId } = auth
+
+  const {
+    q,              // Free text: vendor, description, receipt text
+    categoryId,     // Comma-separated category IDs ("uncategorized" for none)
+    paymentAccountId, // Comma-separated payment account IDs ("none" for no account)
+    expenseType,    // Comma-separated: operating, cogs, home_office
+    minAmount,      // Cents, inclusive
+    maxAmount,      // Cents, inclusive
+    from,           // YYYY-MM-DD, inclusive
+    to,             // YYYY-MM-DD, inclusive
+    cursor,         // From a previous page's nextCursor
+  } = req.query
+
+  // Validation
+  const errors: string[] = []
+
+  const categoryIds = parseList(categoryId)
+  if (categoryIds.some(id => id !== 'uncategorized' && !UUID_PATTERN.test(id))) {
+    errors.push('Invalid category ID')
+  }
+
+  const paymentAccountIds = parseList(paymentAccountId)
+  if (paymentAccountIds.some(id => id !== 'none' && !UUID_PATTERN.test(id))) {
+    errors.push('Invalid payment account ID')
+  }
+
+  const expenseTypes = parseList(expenseType)
+  if (expenseTypes.some(t => !EXPENSE_TYPES.includes(t))) {
+    errors.push(`Expense type must be one of: ${EXPENSE_TYPES.join(', ')}`)
+  }
+
+  const min = minAmount !== undefined ? Number(minAmount) : undefined
+  const max = maxAmount !== undefined ? Number(maxAmount) : undefined
+  if (min !== undefined && !Number.isInteger(min)) errors.push('Minimum amount must be an integer (cents)')
+  if (max !== undefined && !Number.isInteger(max)) errors.push('Maximum amount must be an integer (cents)')
+
+  if (from !== undefined && (typeof from !== 'string' || !DATE_PATTERN.test(from))) {
+    errors.push('From date must be YYYY-MM-DD')
+  }
+  if (to !== undefined && (typeof to !== 'string' || !DATE_PATTERN.test(to))) {
+    errors.push('To date must be YYYY-MM-DD')
+  }
+
+  const after = decodeCursor(cursor)
+  if (cursor !== undefined && !after) errors.push('Invalid cursor')
+
+  const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_LIMIT
+  if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+    errors.push(`Limit must be between 1 and ${MAX_LIMIT}`)
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  // Build filters shared by the results and the facet counts
+  const conditions: SQL[] = [eq(expenses.tenantId, tenantId)]
+
+  const tsQuery = typeof q === 'string' ? toPrefixQuery(q) : null
+  if (tsQuery) {
+    conditions.push(sql`${searchVector} @@ to_tsquery('english', ${tsQuery})`)
+  }
+
+  if (categoryIds.length > 0) {
+    const ids = categoryIds.filter(id => id !== 'uncategorized')
+    const categoryConditions: SQL[] = []
+    if (ids.length > 0) categoryConditions.push(inArray(expenses.categoryId, ids))
+    if (ids.length < categoryIds.length) categoryConditions.push(isNull(expenses.categoryId))
+    conditions.push(or(...categoryConditions)!)
+  }
+
+  if (paymentAccountIds.length > 0) {
+    const ids = paymentAccountIds.filter(id => id !== 'none')
+    const accountConditions: SQL[] = []
+    if (ids.length > 0) accountConditions.push(inArray(expenses.paymentAccountId, ids))
+    if (ids.length < paymentAccountIds.length) accountConditions.push(isNull(expenses.paymentAccountId))
+    conditions.push(or(...accountConditions)!)
+  }
+
+  if (expenseTypes.length > 0) conditions.push(inArray(expenses.expenseType, expenseTypes))
+  if (min !== undefined) conditions.push(gte(expenses.amount, min))
+  if (max !== undefined) conditions.push(lte(expenses.amount, max))
+
+  // Dates are stored at noon UTC — compare on whole days
+  if (typeof from === 'string') conditions.push(gte(expenses.date, new Date(from + 'T00:00:00.000Z')))
+  if (typeof to === 'string') {
+    const end = new Date(to + 'T00:00:00.000Z')
+    end.setUTCDate(end.getUTCDate() + 1)
+    conditions.push(lt(expenses.date, end))
+  }
+
+  const attachmentFilter = parseBoolean(req.query.hasAttachment)
+  if (attachmentFilter !== undefined) {
+    conditions.push(attachmentFilter ? hasAttachment : sql`NOT ${hasAttachment}`)
+  }
+
+  const homeOfficeFilter = parseBoolean(req.query.homeOffice)
+  if (homeOfficeFilter !== undefined) conditions.push(eq(expenses.isHomeOffice, homeOfficeFilter))
+
+  const where = and(...conditions)
+
+  // Keyset pagination: newest first, ties broken by createdAt then id
+  const pageWhere = after ? and(where, keysetAfter(expenses, after)) : where
+
+  const [rows, [totals], categoryCounts, typeCounts] = await Promise.all([
+    db
+      .select({
+        id: expenses.id,
+        amount: expenses.amount,
+        currency: expenses.currency,
+        originalAmount: expenses.originalAmount,
+        vendor: expenses.vendor,
+        description: expenses.description,
+        date: expenses.date,
+        categoryId: expenses.categoryId,
+        categoryName: categories.name,
+        categoryEmoji: categories.emoji,
+        expenseType: expenses.expenseType,
+        isHomeOffice: expenses.isHomeOffice,
+        homeOfficePercent: expenses.homeOfficePercent,
+        paymentAccountId: expenses.paymentAccountId,
+        isReimbursable: expenses.isReimbursable,
+        reimbursementId: expenses.reimbursementId,
+        receiptUrl: expenses.receiptUrl,
+        policyFlag: expenses.policyFlag,
+        policyReviewedAt: expenses.policyReviewedAt,
+        approvalStatus: expenses.approvalStatus,
+        approvalComment: expenses.approvalComment,
+        createdBy: expenses.createdBy,
+        createdAt: expenses.createdAt,
+        attachmentCount: sql<number>`(SELECT COUNT(*) FROM expense_attachments WHERE expense_attachments.expense_id = ${expenses.id})`.as('attachment_count'),
+      })
+      .from(expenses)
+      .leftJoin(categories, eq(expenses.categoryId, categories.id))
+      .where(pageWhere)
+      .orderBy(...keysetOrder(expenses))
+      .limit(limit + 1),
+
+    // Facets are computed over every match, not just this page
+    db
+      .select({
+        total: sql<number>`count(*)`,
+        minAmount: sql<number | null>`min(${expenses.amount})`,
+        maxAmount: sql<number | null>`max(${expenses.amount})`,
+        minDate: sql<string | null>`min(${expenses.date})`,
+        maxDate: sql<string | null>`max(${expenses.date})`,
+        withAttachment: sql<number>`count(*) filter (where ${hasAttachment})`,
+        homeOffice: sql<number>`count(*) filter (where ${expenses.isHomeOffice})`,
+      })
+      .from(expenses)
+      .where(where),
+
+    db
+      .select({
+        categoryId: expenses.categoryId,
+        name: categories.name,
+        emoji: categories.emoji,
+        count: sql<number>`count(*)`,
+      })
+      .from(expenses)
+      .leftJoin(categories, eq(expenses.categoryId, categories.id))
+      .where(where)
+      .groupBy(expenses.categoryId, categories.name, categories.emoji)
+      .orderBy(desc(sql`count(*)`)),
+
+    db
+      .select({
+        expenseType: expenses.expenseType,
+        count: sql<number>`count(*)`,
+      })
+      .from(expenses)
+      .where(where)
+      .groupBy(expenses.expenseType),
+  ])
+
+  const hasMore = rows.length > limit
+  const page = hasMore ? rows.slice(0, limit) : rows
+  const total = Number(totals.total)
+
+  return res.status(200).json({
+    expenses: page,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    total,
+    facets: {
+      categories: categoryCounts.map(c => ({
+        categoryId: c.categoryId ?? 'uncategorized',
+        name: c.name ?? 'Uncategorized',
+        emoji: c.emoji,
+        count: Number(c.count),
+      })),
+      expenseTypes: typeCounts.map(t => ({ expenseType: t.expenseType, count: Number(t.count) })),
+      amount: {
+        min: totals.minAmount !== null ? Number(totals.minAmount) : null,
+        max: totals.maxAmount !== null ? Number(totals.maxAmount) : null,
+      },
+      date: {
+        min: totals.minDate,
+        max: totals.maxDate,
+      },
+      hasAttachment: {
+        true: Number(totals.withAttachment),
+        false: total - Number(totals.withAttachment),
+      },
+      homeOffice: {
+        true: Number(totals.homeOffice),
+        false: total - Number(totals.homeOffice),
+      },
+    },
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in expense search API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
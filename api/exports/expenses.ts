@@ -3,6 +3,9 @@ import { db } from '../../src/db/index.js'
 import { expenses, categories } from '../../src/db/schema.js'
 import { eq, and, gte, lte, desc } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { getBaseCurrency, parseReportOptions, reportableExpenses } from '../_lib/reports.js'
+import { fromMinorUnits } from '../../src/utils/currency.js'
+import { taxInBaseCurrency } from '../_lib/sales-tax.js'
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'GET') {
@@ -20,7 +23,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const endDate = req.query.endDate as string | undefined
 
     // Build query conditions
-    const conditions = [eq(expenses.tenantId, auth.tenantId)]
+    const conditions = [eq(expenses.tenantId, auth.tenantId), reportableExpenses(parseReportOptions(req.query))]
     
     if (startDate) {
       conditions.push(gte(expenses.date, new Date(startDate)))
@@ -33,11 +36,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // Fetch expenses with categories
+    const baseCurrency = await getBaseCurrency(auth.tenantId)
     const expenseData = await db
       .select({
         id: expenses.id,
         date: expenses.date,
         amount: expenses.amount,
+        currency: expenses.currency,
+        originalAmount: expenses.originalAmount,
+        taxAmount: expenses.taxAmount,
+        taxRate: expenses.taxRate,
         vendor: expenses.vendor,
         description: expenses.description,
         expenseType: expenses.expenseType,
@@ -59,16 +67,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       'Category',
       'Expense Type',
       'Home Office',
-      'Total Spend',
-      'Expensable Amount',
+      `Total Spend (${baseCurrency})`,
+      `Expensable Amount (${baseCurrency})`,
+      `Sales Tax (${baseCurrency})`,
+      'Tax Rate (%)',
+      'Original Amount',
+      'Original Currency',
     ]
 
     const csvRows = expenseData.map(expense => {
       const isHO = expense.isHomeOffice && expense.homeOfficePercent
-      const totalSpend = (expense.amount / 100).toFixed(2)
+      const totalSpend = fromMinorUnits(expense.amount, baseCurrency)
       const expensableAmount = isHO
-        ? (Math.round(expense.amount * expense.homeOfficePercent! / 100) / 100).toFixed(2)
+        ? fromMinorUnits(Math.round(expense.amount * expense.homeOfficePercent! / 100), baseCurrency)
         : totalSpend
+      const isForeign = expense.originalAmount !== null
 
       return [
         new Date(expense.date).toISOString().split('T')[0],
@@ -79,6 +92,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         isHO ? `Yes (${expense.homeOfficePercent}%)` : 'No',
         totalSpend,
         expensableAmount,
+        expense.taxAmount !== null ? fromMinorUnits(taxInBaseCurrency(expense), baseCurrency) : '',
+        expense.taxRate ?? '',
+        isForeign ? fromMinorUnits(expense.originalAmount!, expense.currency) : '',
+        isForeign ? expense.currency : '',
       ]
     })
 
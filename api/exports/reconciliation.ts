@@ -0,0 +1,88 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticateRequest } from '../_lib/auth.js'
+import { getReconciliation } from '../_lib/reconciliation.js'
+import { parseReportOptions } from '../_lib/reports.js'
+
+// ===========================================
+// GET: Reconciliation list as CSV (the list auditors ask for)
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear()
+    const report = await getReconciliation(auth.tenantId, year, parseReportOptions(req.query))
+
+    const csvHeaders = [
+      'Status',
+      'Transaction Date',
+      'Transaction Vendor',
+      'Transaction Amount',
+      'Bank Reference',
+      'Receipt Date',
+      'Receipt Vendor',
+      'Receipt Amount',
+      'Difference',
+    ]
+
+    const dollars = (cents: number) => (cents / 100).toFixed(2)
+
+    const csvRows = [
+      ...report.matches.map(m => [
+        m.how === 'attached' ? 'Receipt on transaction' : 'Matched',
+        m.transaction.date,
+        escapeCsvField(m.transaction.vendor || ''),
+        dollars(m.transaction.amount),
+        escapeCsvField(m.transaction.importReference || ''),
+        m.receipt.date,
+        escapeCsvField(m.receipt.vendor || ''),
+        dollars(m.receipt.amount),
+        dollars(m.amountDifference),
+      ]),
+      ...report.unmatchedTransactions.map(t => [
+        'Missing receipt',
+        t.date,
+        escapeCsvField(t.vendor || ''),
+        dollars(t.amount),
+        escapeCsvField(t.importReference || ''),
+        '', '', '', '',
+      ]),
+      ...report.unmatchedReceipts.map(r => [
+        'No bank transaction',
+        '', '', '', '',
+        r.date,
+        escapeCsvField(r.vendor || ''),
+        dollars(r.amount),
+        '',
+      ]),
+    ]
+
+    const csvContent = [
+      csvHeaders.join(','),
+      ...csvRows.map(row => row.join(','))
+    ].join('\n')
+
+    res.setHeader('Content-Type', 'text/csv')
+    res.setHeader('Content-Disposition', `attachment; filename="reconciliation_${year}.csv"`)
+    return res.status(200).send(csvContent)
+
+  } catch (error) {
+    console.error('Reconciliation export error:', error)
+    return res.status(500).json({ error: 'Failed to export reconciliation' })
+  }
+}
+
+// Helper to escape CSV fields
+function escapeCsvField(field: string): string {
+  if (field.includes(',') || field.includes('"') || field.includes('\n')) {
+    return `"${field.replace(/"/g, '""')}"`
+  }
+  return field
+}
@@ -0,0 +1,61 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { put, list, del } from '@vercel/blob'
+import { db } from '../../src/db/index.js'
+import { tenants } from '../../src/db/schema.js'
+import { eq } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { buildTaxPacket } from '../_lib/tax-packet.js'
+import { parseReportOptions } from '../_lib/reports.js'
+
+// ===========================================
+// POST: Generate the year's tax packet PDF
+// ===========================================
+// With receipts embedded the PDF is usually larger than a function response
+// can carry, so it's stored under the tenant's blob prefix (replacing any
+// earlier packet for the same year) and the client downloads it from there.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear()
+    if (isNaN(year) || year < 2000 || year > 2100) {
+      return res.status(400).json({ error: 'Validation failed', details: ['Year must be a valid year'] })
+    }
+
+    const [tenant] = await db
+      .select({ subdomain: tenants.subdomain })
+      .from(tenants)
+      .where(eq(tenants.id, auth.tenantId))
+      .limit(1)
+
+    const pdf = await buildTaxPacket(auth.tenantId, year, parseReportOptions(req.query))
+
+    const prefix = `${tenant.subdomain}/tax-packets/${year}`
+    const previous = await list({ prefix })
+    if (previous.blobs.length > 0) {
+      await del(previous.blobs.map(b => b.url))
+    }
+
+    const fileName = `tax-packet_${year}.pdf`
+    const blob = await put(`${prefix}/${fileName}`, Buffer.from(pdf), {
+      access: 'public',
+      addRandomSuffix: true,
+      contentType: 'application/pdf',
+    })
+
+    return res.status(200).json({ url: blob.url, fileName })
+
+  } catch (error) {
+    console.error('Tax packet error:', error)
+    return res.status(500).json({ error: 'Failed to generate tax packet' })
+  }
+}
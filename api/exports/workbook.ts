@@ -0,0 +1,223 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import * as XLSX from 'xlsx'
+import { authenticateRequest } from '../_lib/auth.js'
+import { getExpenseLedger, getTaxSummary, getQuarterlyReport, getSalesTaxReport, getMileageLog, getDeductibleAmount, parseReportOptions } from '../_lib/reports.js'
+import { currencyDecimals } from '../../src/utils/currency.js'
+
+// Excel number formats — cells hold dollars/miles, the format handles display
+const CURRENCY = '"$"#,##0.00'
+const RATE = '"$"0.000'
+const MILES = '#,##0.0'
+const PERCENT = '0.0"%"'
+
+type Cell = string | number | Date | null
+
+const dollars = (cents: number) => cents / 100
+
+/** Cell value in major units for a minor-unit amount (yen have no cents) */
+const major = (minor: number, currency: string) => minor / 10 ** currencyDecimals(currency)
+
+/** Number format for an amount in `currency` — expense sheets use the tenant's base currency */
+function moneyFormat(currency: string): string {
+  if (currency === 'USD') return CURRENCY
+  const decimals = currencyDecimals(currency)
+  return `#,##0${decimals > 0 ? '.' + '0'.repeat(decimals) : ''} "${currency}"`
+}
+
+/**
+ * Build a worksheet from rows (first row is the header) and apply
+ * column widths plus a number format per column index.
+ */
+function buildSheet(rows: Cell[][], widths: number[], formats: Record<number, string>): XLSX.WorkSheet {
+  const sheet = XLSX.utils.aoa_to_sheet(rows, { cellDates: true, dateNF: 'yyyy-mm-dd' })
+  sheet['!cols'] = widths.map(wch => ({ wch }))
+
+  for (let r = 1; r < rows.length; r++) {
+    for (const [c, z] of Object.entries(formats)) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c: Number(c) })]
+      if (cell && cell.t === 'n') cell.z = z
+    }
+  }
+  return sheet
+}
+
+// ===========================================
+// Sheets
+// ===========================================
+function ledgerSheet(ledger: Awaited<ReturnType<typeof getExpenseLedger>>, currency: string): XLSX.WorkSheet {
+  const rows: Cell[][] = [
+    ['Date', 'Vendor', 'Description', 'Category', 'Expense Type', 'Home Office', 'Total Spend', 'Deductible Amount', 'Original Amount', 'Original Currency'],
+  ]
+
+  let totalSpend = 0
+  let totalDeductible = 0
+  for (const expense of ledger) {
+    const deductible = getDeductibleAmount(expense)
+    totalSpend += expense.amount
+    totalDeductible += deductible
+
+    rows.push([
+      new Date(expense.date),
+      expense.vendor || '',
+      expense.description || '',
+      expense.categoryName || 'Uncategorized',
+      expense.expenseType || 'operating',
+      expense.isHomeOffice && expense.homeOfficePercent != null ? `Yes (${expense.homeOfficePercent}%)` : 'No',
+      major(expense.amount, currency),
+      major(deductible, currency),
+      expense.originalAmount !== null ? major(expense.originalAmount, expense.currency) : null,
+      expense.originalAmount !== null ? expense.currency : null,
+    ])
+  }
+
+  rows.push([], ['Total', null, null, null, null, null, major(totalSpend, currency), major(totalDeductible, currency)])
+
+  const money = moneyFormat(currency)
+  const sheet = buildSheet(rows, [12, 28, 36, 22, 14, 14, 14, 18, 16, 10], { 6: money, 7: money, 8: '#,##0.00' })
+  sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: ledger.length, c: 9 } }) }
+  return sheet
+}
+
+function taxSummarySheet(summary: Awaited<ReturnType<typeof getTaxSummary>>): XLSX.WorkSheet {
+  const { currency } = summary
+
+  const rows: Cell[][] = [
+    ['Section', 'Category', 'Expenses', 'Total Spend', 'Deductible Amount', '% of Section'],
+  ]
+
+  for (const section of summary.sections) {
+    if (section.count === 0) continue
+    for (const category of section.categories) {
+      rows.push([
+        section.label,
+        category.name,
+        category.count,
+        major(category.amount, currency),
+        major(category.deductible, currency),
+        category.percentOfType,
+      ])
+    }
+    rows.push([`${section.label} total`, null, section.count, major(section.total, currency), major(section.deductible, currency), null], [])
+  }
+
+  rows.push(['Total', null, summary.expenseCount, major(summary.totalSpent, currency), major(summary.totalDeductible, currency), null])
+
+  return buildSheet(rows, [30, 28, 10, 14, 18, 12], { 3: moneyFormat(currency), 4: moneyFormat(currency), 5: PERCENT })
+}
+
+function quarterlySheet(quarterly: Awaited<ReturnType<typeof getQuarterlyReport>>): XLSX.WorkSheet {
+  const { currency } = quarterly
+
+  const rows: Cell[][] = [
+    ['Category', 'Q1', 'Q2', 'Q3', 'Q4', 'Total'],
+    ...quarterly.rows.map(row => [
+      row.name,
+      major(row.q1, currency),
+      major(row.q2, currency),
+      major(row.q3, currency),
+      major(row.q4, currency),
+      major(row.total, currency),
+    ]),
+  ]
+
+  const { totals } = quarterly
+  rows.push([], ['Total', major(totals.q1, currency), major(totals.q2, currency), major(totals.q3, currency), major(totals.q4, currency), major(totals.total, currency)])
+
+  const money = moneyFormat(currency)
+  return buildSheet(rows, [28, 14, 14, 14, 14, 16], { 1: money, 2: money, 3: money, 4: money, 5: money })
+}
+
+function salesTaxSheet(report: Awaited<ReturnType<typeof getSalesTaxReport>>): XLSX.WorkSheet {
+  const { currency } = report
+
+  const rows: Cell[][] = [
+    ['Quarter', 'Expenses', 'Gross Spend', 'Net of Tax', 'Input Tax'],
+    ...report.quarters.map(q => [
+      q.label,
+      q.count,
+      major(q.grossAmount, currency),
+      major(q.netAmount, currency),
+      major(q.taxAmount, currency),
+    ]),
+  ]
+
+  const { totals } = report
+  rows.push(['Total', totals.count, major(totals.grossAmount, currency), major(totals.netAmount, currency), major(totals.taxAmount, currency)], [])
+
+  rows.push(['Rate', 'Expenses', 'Gross Spend', 'Net of Tax', 'Input Tax'])
+  for (const rate of report.rates) {
+    rows.push([`${rate.rate}%`, rate.count, major(rate.grossAmount, currency), major(rate.netAmount, currency), major(rate.taxAmount, currency)])
+  }
+
+  const money = moneyFormat(currency)
+  return buildSheet(rows, [12, 10, 16, 16, 14], { 2: money, 3: money, 4: money })
+}
+
+function mileageSheet(log: Awaited<ReturnType<typeof getMileageLog>>): XLSX.WorkSheet {
+  const rows: Cell[][] = [
+    ['Date', 'From', 'To', 'Business Purpose', 'Round Trip', 'Miles', 'Rate per Mile', 'Deduction'],
+    ...log.trips.map(trip => [
+      new Date(trip.date),
+      trip.startLocation,
+      trip.endLocation,
+      trip.description || '',
+      trip.isRoundTrip ? 'Yes' : 'No',
+      trip.displayMiles / 100,
+      dollars(trip.mileageRate),
+      dollars(trip.deduction),
+    ]),
+  ]
+
+  const { summary } = log
+  rows.push([], ['Total', null, null, `${summary.tripCount} trips`, null, summary.totalMiles / 100, null, dollars(summary.estimatedDeduction)])
+
+  return buildSheet(rows, [12, 36, 36, 30, 11, 10, 14, 14], { 5: MILES, 6: RATE, 7: CURRENCY })
+}
+
+// ===========================================
+// GET: Year-end workbook, one sheet per report
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear()
+    if (isNaN(year) || year < 2000 || year > 2100) {
+      return res.status(400).json({ error: 'Validation failed', details: ['Year must be a valid year'] })
+    }
+
+    const options = parseReportOptions(req.query)
+    const [ledger, taxSummary, quarterly, salesTax, mileage] = await Promise.all([
+      getExpenseLedger(auth.tenantId, year, options),
+      getTaxSummary(auth.tenantId, year, options),
+      getQuarterlyReport(auth.tenantId, year, options),
+      getSalesTaxReport(auth.tenantId, year, options),
+      getMileageLog(auth.tenantId, year),
+    ])
+
+    const workbook = XLSX.utils.book_new()
+    workbook.Props = { Title: `Expenses ${year}` }
+    XLSX.utils.book_append_sheet(workbook, ledgerSheet(ledger, taxSummary.currency), 'Expense Ledger')
+    XLSX.utils.book_append_sheet(workbook, taxSummarySheet(taxSummary), 'Tax Summary')
+    XLSX.utils.book_append_sheet(workbook, quarterlySheet(quarterly), 'Quarterly')
+    XLSX.utils.book_append_sheet(workbook, salesTaxSheet(salesTax), 'Sales Tax')
+    XLSX.utils.book_append_sheet(workbook, mileageSheet(mileage), 'Mileage Log')
+
+    const buffer: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx', compression: true })
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+    res.setHeader('Content-Disposition', `attachment; filename="expenses_${year}.xlsx"`)
+    return res.status(200).send(buffer)
+
+  } catch (error) {
+    console.error('Workbook export error:', error)
+    return res.status(500).json({ error: 'Failed to export workbook' })
+  }
+}
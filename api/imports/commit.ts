@@ -0,0 +1,115 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { expenses } from '../../src/db/schema.js'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { recordExpenseHistory } from '../_lib/expense-history.js'
+import { loadExpenseInputContext, validateExpenseInput, type ExpenseInsert } from '../_lib/expense-input.js'
+import { normalizeVendor, recordVendorCategory } from '../_lib/vendor-mappings.js'
+import { MAX_STATEMENT_ROWS } from '../_lib/statement-import.js'
+
+// ===========================================
+// POST: Save the reviewed statement rows
+// ===========================================
+// Each row goes through the same validation as POST /api/expenses. The batch
+// is all-or-nothing: if any row fails, nothing is inserted and the errors
+// come back keyed by row so the preview can point at them.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const denied = checkPermission(auth, 'expenses:create')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
+    const { user, tenantId } = auth
+    const { rows } = req.body ?? {}
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ error: 'Validation failed', details: ['Select at least one row to import'] })
+    }
+    if (rows.length > MAX_STATEMENT_ROWS) {
+      return res.status(400).json({ error: 'Validation failed', details: [`Import at most ${MAX_STATEMENT_ROWS} rows at a time`] })
+    }
+
+    // ===========================================
+    // Validation
+    // ===========================================
+    const context = await loadExpenseInputContext(tenantId, user.id, auth.role)
+    const values: ExpenseInsert[] = []
+    const rowErrors: { index: number; errors: string[] }[] = []
+
+    rows.forEach((row: unknown, index: number) => {
+      const input = row && typeof row === 'object' ? row as Record<string, unknown> : {}
+      const result = validateExpenseInput(input, context)
+      if (result.values) {
+        const reference = typeof input.importReference === 'string' ? input.importReference.trim().slice(0, 255) : ''
+        // Statement rows were paid by the business, so nobody is owed for them
+        values.push({ ...result.values, isReimbursable: false, source: 'import', importReference: reference || null })
+      } else {
+        rowErrors.push({ index, errors: result.errors })
+      }
+    })
+
+    if (rowErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: rowErrors.map(r => `Row ${r.index + 1}: ${r.errors.join(', ')}`),
+        rowErrors,
+      })
+    }
+
+    // ===========================================
+    // Create the expenses
+    // ===========================================
+    const created = await db
+      .insert(expenses)
+      .values(values)
+      .returning()
+
+    await recordExpenseHistory(created.map(expense => ({
+      expenseId: expense.id,
+      tenantId,
+      action: 'create' as const,
+      previous: null,
+      next: expense,
+      changedBy: user.id,
+    })))
+
+    // One vendor-mapping upsert per vendor → category pair, not per row
+    const mappingCounts = new Map<string, { vendor: string; categoryId: string; count: number }>()
+    for (const expense of created) {
+      const pattern = normalizeVendor(expense.vendor)
+      if (!pattern || !expense.categoryId) continue
+      const key = `${pattern}|${expense.categoryId}`
+      const entry = mappingCounts.get(key)
+      if (entry) {
+        entry.count++
+      } else {
+        mappingCounts.set(key, { vendor: expense.vendor!, categoryId: expense.categoryId, count: 1 })
+      }
+    }
+    for (const { vendor, categoryId, count } of mappingCounts.values()) {
+      await recordVendorCategory(tenantId, vendor, categoryId, count)
+    }
+
+    return res.status(201).json({
+      message: `Imported ${created.length} expense${created.length === 1 ? '' : 's'}`,
+      imported: created.length,
+    })
+
+  } catch (error) {
+    console.error('Error in import commit API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,215 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { expenses, tenants } from '../../src/db/schema.js'
+import { eq, and, gte, lt, inArray } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { normalizeVendor, vendorsSimilar, suggestCategoriesForVendors, type CategorySuggestion } from '../_lib/vendor-mappings.js'
+import { parseStatement, type StatementRow } from '../_lib/statement-import.js'
+import { MAX_STATEMENT_BYTES, type ColumnMapping } from '../../src/utils/statement-presets.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DUPLICATE_WINDOW_DAYS = 3
+
+interface ExistingExpense {
+  id: string
+  amount: number
+  date: Date
+  vendor: string | null
+  description: string | null
+  importReference: string | null
+}
+
+interface DuplicateMatch {
+  status: 'duplicate' | 'possible'
+  expenseId: string | null // null when the match is an earlier row in the same file
+  vendor: string | null
+  date: string
+  amount: number
+}
+
+// ===========================================
+// Duplicate detection
+// ===========================================
+
+/**
+ * Same bank transaction id, or same amount within ±3 days and a similar
+ * vendor → duplicate. Same amount on the same day but a different-looking
+ * vendor → possible.
+ */
+function findDuplicate(row: StatementRow, existing: ExistingExpense[]): DuplicateMatch | null {
+  const rowTime = new Date(`${row.date}T12:00:00.000Z`).getTime()
+  let possible: DuplicateMatch | null = null
+
+  for (const expense of existing) {
+    if (expense.amount !== row.amount) continue
+
+    const days = Math.round(Math.abs(expense.date.getTime() - rowTime) / DAY_MS)
+    if (days > DUPLICATE_WINDOW_DAYS) continue
+
+    const match = {
+      expenseId: expense.id,
+      vendor: expense.vendor,
+      date: expense.date.toISOString().slice(0, 10),
+      amount: expense.amount,
+    }
+    const sameReference = row.reference !== null && row.reference === expense.importReference
+    if (sameReference || vendorsSimilar(row.description, expense.vendor) || vendorsSimilar(row.description, expense.description)) {
+      return { status: 'duplicate', ...match }
+    }
+    if (days === 0 && !possible) {
+      possible = { status: 'possible', ...match }
+    }
+  }
+
+  return possible
+}
+
+// ===========================================
+// POST: Parse a statement and preview the rows
+// ===========================================
+// Nothing is saved here — the client reviews the rows (category, include
+// or skip) and sends the ones it keeps to /api/imports/commit.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const denied = checkPermission(auth, 'expenses:create')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
+    const { tenantId } = auth
+    const { fileName, content, preset, mapping } = req.body ?? {}
+
+    // ===========================================
+    // Validation
+    // ===========================================
+    const errors: string[] = []
+
+    if (!fileName || typeof fileName !== 'string') {
+      errors.push('File name is required')
+    }
+    if (!content || typeof content !== 'string') {
+      errors.push('File content is required')
+    } else if (Buffer.byteLength(content, 'utf8') > MAX_STATEMENT_BYTES) {
+      errors.push(`File must be ${MAX_STATEMENT_BYTES / (1024 * 1024)}MB or smaller`)
+    }
+    if (preset != null && typeof preset !== 'string') {
+      errors.push('Preset must be a string')
+    }
+    if (mapping != null) {
+      const m = mapping as Partial<ColumnMapping>
+      if (typeof m.date !== 'string' || typeof m.description !== 'string') {
+        errors.push('Mapping needs date and description columns')
+      }
+      if (!m.amount && !m.debit && !m.credit) {
+        errors.push('Mapping needs an amount column or debit/credit columns')
+      }
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: errors })
+    }
+
+    const parsed = parseStatement(fileName, content, {
+      preset: preset ?? null,
+      mapping: mapping ? { ...mapping, negativeIsExpense: Boolean(mapping.negativeIsExpense) } : null,
+    })
+    if (!parsed.statement) {
+      return res.status(400).json({ error: 'Could not read statement', details: parsed.errors })
+    }
+
+    const statement = parsed.statement
+    const rows = statement.rows
+
+    // ===========================================
+    // Category suggestions + duplicate candidates
+    // ===========================================
+    let existing: ExistingExpense[] = []
+    let defaultCategoryId: string | null = null
+    let suggestions = new Map<string, CategorySuggestion>()
+
+    if (rows.length > 0) {
+      const times = rows.map(r => new Date(`${r.date}T12:00:00.000Z`).getTime())
+      const windowStart = new Date(Math.min(...times) - (DUPLICATE_WINDOW_DAYS + 1) * DAY_MS)
+      const windowEnd = new Date(Math.max(...times) + (DUPLICATE_WINDOW_DAYS + 1) * DAY_MS)
+
+      const [existingExpenses, [tenant], vendorSuggestions] = await Promise.all([
+        db
+          .select({
+            id: expenses.id,
+            amount: expenses.amount,
+            date: expenses.date,
+            vendor: expenses.vendor,
+            description: expenses.description,
+            importReference: expenses.importReference,
+          })
+          .from(expenses)
+          .where(and(
+            eq(expenses.tenantId, tenantId),
+            gte(expenses.date, windowStart),
+            lt(expenses.date, windowEnd),
+            inArray(expenses.amount, [...new Set(rows.map(r => r.amount))])
+          )),
+        db
+          .select({ defaultCategoryId: tenants.defaultCategoryId })
+          .from(tenants)
+          .where(eq(tenants.id, tenantId))
+          .limit(1),
+        suggestCategoriesForVendors(tenantId, rows.map(r => r.description)),
+      ])
+
+      existing = existingExpenses
+      defaultCategoryId = tenant?.defaultCategoryId ?? null
+      suggestions = vendorSuggestions
+    }
+
+    // Rows repeated within the file itself (same day, amount and description)
+    const seen = new Map<string, StatementRow>()
+
+    const previewRows = rows.map(row => {
+      const pattern = normalizeVendor(row.description)
+      const suggestion = pattern ? suggestions.get(pattern) ?? null : null
+
+      let duplicate = findDuplicate(row, existing)
+      const key = `${row.date}|${row.amount}|${pattern}`
+      const earlier = seen.get(key)
+      if (!duplicate && earlier) {
+        duplicate = { status: 'possible', expenseId: null, vendor: earlier.description, date: earlier.date, amount: earlier.amount }
+      }
+      if (!earlier) seen.set(key, row)
+
+      return {
+        ...row,
+        vendor: row.description,
+        categoryId: suggestion?.categoryId ?? defaultCategoryId,
+        suggestion,
+        duplicate,
+      }
+    })
+
+    return res.status(200).json({
+      format: statement.format,
+      headers: statement.headers,
+      preset: statement.preset,
+      mapping: statement.mapping,
+      rows: previewRows,
+      skippedCredits: statement.skippedCredits,
+      skippedInvalid: statement.skippedInvalid,
+    })
+
+  } catch (error) {
+    console.error('Error in import preview API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,107 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { tenants } from '../../src/db/schema.js'
+import { eq } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { generateInboundToken, inboundAddress } from '../_lib/inbound-email.js'
+
+// ===========================================
+// GET: The tenant's inbound receipt address (null when turned off).
+// `available` is false when this deployment has no inbound domain.
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  // Anyone who can add expenses can forward receipts to it
+  const denied = checkPermission(auth, 'expenses:create')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const [tenant] = await db
+    .select({ inboundEmailToken: tenants.inboundEmailToken })
+    .from(tenants)
+    .where(eq(tenants.id, auth.tenantId))
+    .limit(1)
+
+  return res.status(200).json({
+    available: Boolean(process.env.INBOUND_EMAIL_DOMAIN),
+    address: inboundAddress(tenant?.inboundEmailToken ?? null),
+  })
+}
+
+// ===========================================
+// POST: Turn the address on, or replace it with a new one (the old
+// address stops working straight away)
+// ===========================================
+async function handlePost(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'settings:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  if (!process.env.INBOUND_EMAIL_DOMAIN) {
+    return res.status(503).json({ error: 'Inbound email not configured' })
+  }
+
+  const [updated] = await db
+    .update(tenants)
+    .set({ inboundEmailToken: generateInboundToken(), updatedAt: new Date() })
+    .where(eq(tenants.id, auth.tenantId))
+    .returning({ inboundEmailToken: tenants.inboundEmailToken })
+
+  return res.status(200).json({ available: true, address: inboundAddress(updated.inboundEmailToken) })
+}
+
+// ===========================================
+// DELETE: Turn the address off
+// ===========================================
+async function handleDelete(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'settings:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  await db
+    .update(tenants)
+    .set({ inboundEmailToken: null, updatedAt: new Date() })
+    .where(eq(tenants.id, auth.tenantId))
+
+  return res.status(200).json({ available: Boolean(process.env.INBOUND_EMAIL_DOMAIN), address: null })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      case 'POST':
+        return handlePost(req, res)
+      case 'DELETE':
+        return handleDelete(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in inbound email address API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
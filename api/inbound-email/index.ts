@@ -0,0 +1,202 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { put } from '@vercel/blob'
+import { db } from '../../src/db/index.js'
+import { receiptInboxItems, tenants } from '../../src/db/schema.js'
+import { eq, and, isNull } from 'drizzle-orm'
+import { INBOUND_EMAIL_LIMITS, checkRateLimit, recordUsage } from '../_lib/rate-limit.js'
+import { inboundTokenFrom, isInboundSecret, parseInboundEmail, resolveInboundRecipient } from '../_lib/inbound-email.js'
+import { htmlToText, renderEmailPdf } from '../_lib/email-render.js'
+import { draftFromScan } from '../_lib/receipt-inbox.js'
+import { extractReceiptFields } from '../_lib/receipt-text.js'
+import { scanReceiptImages } from '../_lib/scan-providers.js'
+
+const RECEIPT_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/webp', 'application/pdf']
+const MAX_FILES_PER_EMAIL = 10
+
+// Scans start while less than this has passed since the email arrived;
+// the rest wait in the queue. Keep well under maxDuration in vercel.json.
+const SCAN_BUDGET_MS = 30_000
+
+interface ReceiptFile {
+  fileName: string
+  fileType: string
+  content: Buffer
+  bodyText: string | null // only e-receipt bodies, read as text if no scanner takes the PDF
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 100) || 'receipt'
+}
+
+// ===========================================
+// POST: Inbound email webhook
+// ===========================================
+// Called by the email provider with a parsed message (see
+// parseInboundEmail for the shape), authenticated with INBOUND_EMAIL_SECRET.
+// Receipt attachments — or, when there are none, the HTML body rendered
+// to a PDF — land in the receipt inbox and are scanned here with the
+// tenant's scan providers, the same as an uploaded receipt. Scanning
+// stops starting new files after SCAN_BUDGET_MS so a ten-receipt email
+// doesn't run into the function timeout; anything left (or that no
+// provider here can read) stays queued and is scanned in the browser the
+// next time the inbox is opened.
+//
+// Size: Vercel caps the request body at 4.5MB and attachments arrive
+// base64-encoded, so an email can carry about 3MB of receipts in total.
+// The provider rejects anything bigger before it gets here.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const secret = process.env.INBOUND_EMAIL_SECRET
+  if (!secret) {
+    console.error('Inbound email received but INBOUND_EMAIL_SECRET is not set')
+    return res.status(503).json({ error: 'Inbound email not configured' })
+  }
+  if (!isInboundSecret(req.headers.authorization, secret)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const receivedAt = Date.now()
+
+  try {
+    const email = parseInboundEmail(req.body)
+    if (!email) {
+      return res.status(400).json({ error: 'Validation failed', details: ['Expected a parsed email with to and from'] })
+    }
+
+    // ===========================================
+    // Resolve the tenant and its owner, whose inbox it goes to
+    // ===========================================
+    const token = inboundTokenFrom(email.to)
+    const [tenant] = token
+      ? await db
+        .select({ id: tenants.id, subdomain: tenants.subdomain, baseCurrency: tenants.baseCurrency })
+        .from(tenants)
+        .where(and(eq(tenants.inboundEmailToken, token), isNull(tenants.deletedAt)))
+        .limit(1)
+      : []
+    if (!tenant) {
+      return res.status(404).json({ error: 'Unknown inbound address' })
+    }
+
+    const rateCheck = await checkRateLimit(tenant.id, INBOUND_EMAIL_LIMITS)
+    if (!rateCheck.allowed) {
+      return res.status(429).json({
+        error: 'Rate limit exceeded',
+        limitHit: rateCheck.limitHit,
+        retryAfterSeconds: rateCheck.retryAfterSeconds,
+      })
+    }
+
+    const uploadedBy = await resolveInboundRecipient(tenant.id)
+    if (!uploadedBy) {
+      return res.status(422).json({ error: 'This workspace has no owner to receive emailed receipts' })
+    }
+
+    // ===========================================
+    // Pick out the receipts
+    // ===========================================
+    const files: ReceiptFile[] = email.attachments
+      .filter(a => !a.inline && RECEIPT_TYPES.includes(a.contentType) && a.content.length > 0)
+      .slice(0, MAX_FILES_PER_EMAIL)
+      .map(attachment => ({
+        fileName: attachment.filename,
+        fileType: attachment.contentType,
+        content: attachment.content,
+        bodyText: null,
+      }))
+
+    // No receipt attached: the email itself is the receipt (Amazon, Uber...)
+    const bodyText = email.html ? htmlToText(email.html) : email.text?.trim() ?? ''
+    if (files.length === 0 && bodyText) {
+      const pdf = await renderEmailPdf({ subject: email.subject, from: email.from, date: email.date, text: bodyText })
+      files.push({
+        fileName: `${safeFileName(email.subject ?? 'emailed-receipt')}.pdf`,
+        fileType: 'application/pdf',
+        content: Buffer.from(pdf),
+        bodyText,
+      })
+    }
+
+    if (files.length === 0) {
+      return res.status(200).json({ message: 'No receipts found in this email', items: [] })
+    }
+
+    // ===========================================
+    // Store each one as an inbox draft, then scan it
+    // ===========================================
+    const itemIds: string[] = []
+    const stored: Array<{ id: string; blobUrl: string; file: ReceiptFile }> = []
+    for (const file of files) {
+      const blob = await put(`${tenant.subdomain}/pending/${Date.now()}-${safeFileName(file.fileName)}`, file.content, {
+        access: 'public',
+        contentType: file.fileType,
+        addRandomSuffix: true,
+        token: process.env.BLOB_READ_WRITE_TOKEN,
+      })
+
+      const [item] = await db
+        .insert(receiptInboxItems)
+        .values({
+          tenantId: tenant.id,
+          uploadedBy,
+          blobUrl: blob.url,
+          fileName: file.fileName.slice(0, 255),
+          fileType: file.fileType,
+          fileSize: file.content.length,
+          source: 'email',
+          emailFrom: email.from,
+          description: email.subject,
+        })
+        .returning({ id: receiptInboxItems.id })
+      itemIds.push(item.id)
+      stored.push({ id: item.id, blobUrl: blob.url, file })
+    }
+
+    for (const { id, blobUrl, file } of stored) {
+      if (Date.now() - receivedAt > SCAN_BUDGET_MS) break
+
+      // The items are stored already, so a failed scan leaves them queued
+      // rather than failing the webhook (and the provider sending it again)
+      try {
+        const attempt = await scanReceiptImages(tenant.id, [{
+          base64: file.content.toString('base64'),
+          mediaType: file.fileType,
+        }])
+        // An e-receipt body is text already, so the receipt heuristics can
+        // still read it when no provider here takes the PDF (offline OCR only
+        // reads images) or the scan quota is used up
+        const scan = attempt.ok ? attempt.result : file.bodyText ? extractReceiptFields(file.bodyText, 100) : null
+        if (!scan) continue
+
+        const draft = await draftFromScan(tenant.id, blobUrl, scan, { currency: tenant.baseCurrency, categoryId: null })
+        await db
+          .update(receiptInboxItems)
+          .set({
+            ...draft,
+            // E-receipts usually arrive the day of the purchase
+            date: draft.date ?? (file.bodyText ? email.date : null),
+            updatedAt: new Date(),
+          })
+          .where(eq(receiptInboxItems.id, id))
+      } catch (err) {
+        console.error('Error scanning emailed receipt:', err)
+      }
+    }
+
+    await recordUsage(tenant.id, INBOUND_EMAIL_LIMITS.actionType)
+
+    return res.status(201).json({
+      message: `Added ${itemIds.length} receipt${itemIds.length === 1 ? '' : 's'} to the inbox`,
+      items: itemIds,
+    })
+
+  } catch (error) {
+    console.error('Error in inbound email webhook:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -1,6 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { db } from '../../src/db/index.js';
-import { invites, tenants } from '../../src/db/schema.js';
+import { invites, accountantInvites, tenants } from '../../src/db/schema.js';
 import { eq } from 'drizzle-orm';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -31,7 +31,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .limit(1);
 
     if (!invite) {
-      return res.status(404).json({ error: 'Invalid invite link', valid: false });
+      return validateAccountantInvite(token, res);
     }
 
     if (invite.status === 'accepted') {
@@ -44,6 +44,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     return res.status(200).json({
       valid: true,
+      kind: 'owner',
       businessName: invite.tenantName,
       email: invite.email,
     });
@@ -52,4 +53,42 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     console.error('Error validating invite:', err);
     return res.status(500).json({ error: 'Failed to validate invite' });
   }
-}
\ No newline at end of file
+}
+
+// Accountant invites (tenant owner → CPA) share the /invite page
+async function validateAccountantInvite(token: string, res: VercelResponse) {
+  const [invite] = await db
+    .select({
+      email: accountantInvites.email,
+      status: accountantInvites.status,
+      expiresAt: accountantInvites.expiresAt,
+      tenantName: tenants.name,
+    })
+    .from(accountantInvites)
+    .innerJoin(tenants, eq(accountantInvites.tenantId, tenants.id))
+    .where(eq(accountantInvites.inviteToken, token))
+    .limit(1);
+
+  if (!invite) {
+    return res.status(404).json({ error: 'Invalid invite link', valid: false });
+  }
+
+  if (invite.status === 'accepted') {
+    return res.status(200).json({ valid: false, reason: 'already_used', businessName: invite.tenantName });
+  }
+
+  if (invite.status === 'revoked') {
+    return res.status(200).json({ valid: false, reason: 'revoked', businessName: invite.tenantName });
+  }
+
+  if (new Date(invite.expiresAt) < new Date()) {
+    return res.status(200).json({ valid: false, reason: 'expired', businessName: invite.tenantName });
+  }
+
+  return res.status(200).json({
+    valid: true,
+    kind: 'accountant',
+    businessName: invite.tenantName,
+    email: invite.email,
+  });
+}
@@ -0,0 +1,150 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { savedLocations } from '../../src/db/schema.js'
+import { eq, and } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+
+// ===========================================
+// PUT: Update a saved location
+// ===========================================
+async function handlePut(req: VercelRequest, res: VercelResponse, locationId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'locations:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  const [existing] = await db
+    .select({ id: savedLocations.id })
+    .from(savedLocations)
+    .where(and(
+      eq(savedLocations.id, locationId),
+      eq(savedLocations.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!existing) {
+    return res.status(404).json({ error: 'Location not found' })
+  }
+
+  const { name, address, sortOrder } = req.body
+
+  // Validation
+  const errors: string[] = []
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      errors.push('Name cannot be empty')
+    } else if (name.trim().length > 100) {
+      errors.push('Name must be 100 characters or less')
+    }
+  }
+
+  if (address !== undefined) {
+    if (typeof address !== 'string' || address.trim().length === 0) {
+      errors.push('Address cannot be empty')
+    } else if (address.trim().length > 500) {
+      errors.push('Address must be 500 characters or less')
+    }
+  }
+
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+    errors.push('Sort order must be an integer')
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  // Build update object with only provided fields
+  const updateData: Partial<typeof savedLocations.$inferInsert> = {
+    updatedAt: new Date(),
+  }
+
+  if (name !== undefined) updateData.name = name.trim()
+  if (address !== undefined) updateData.address = address.trim()
+  if (sortOrder !== undefined) updateData.sortOrder = sortOrder
+
+  const [location] = await db
+    .update(savedLocations)
+    .set(updateData)
+    .where(eq(savedLocations.id, locationId))
+    .returning({
+      id: savedLocations.id,
+      name: savedLocations.name,
+      address: savedLocations.address,
+      sortOrder: savedLocations.sortOrder,
+    })
+
+  return res.status(200).json({
+    message: 'Location updated successfully',
+    location,
+  })
+}
+
+// ===========================================
+// DELETE: Remove a saved location
+// ===========================================
+async function handleDelete(req: VercelRequest, res: VercelResponse, locationId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'locations:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  // Trips store the address text, so nothing else references this row
+  const [removed] = await db
+    .delete(savedLocations)
+    .where(and(
+      eq(savedLocations.id, locationId),
+      eq(savedLocations.tenantId, tenantId)
+    ))
+    .returning({ id: savedLocations.id })
+
+  if (!removed) {
+    return res.status(404).json({ error: 'Location not found' })
+  }
+
+  return res.status(200).json({
+    message: 'Location deleted successfully',
+    deletedId: locationId,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const locationId = req.query.id as string
+
+  if (!locationId) {
+    return res.status(400).json({ error: 'Location ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'PUT':
+        return handlePut(req, res, locationId)
+      case 'DELETE':
+        return handleDelete(req, res, locationId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in location API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,143 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { savedLocations, mileageTrips } from '../../src/db/schema.js'
+import { eq, and, asc, desc, gte, sql } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+
+// Destinations visited at least this often (past year) are offered as quick picks
+const FREQUENT_MIN_TRIPS = 2
+const FREQUENT_LIMIT = 3
+
+// ===========================================
+// GET: Saved locations + frequent trip destinations
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const { tenantId } = auth
+
+  const locations = await db
+    .select({
+      id: savedLocations.id,
+      name: savedLocations.name,
+      address: savedLocations.address,
+      sortOrder: savedLocations.sortOrder,
+    })
+    .from(savedLocations)
+    .where(eq(savedLocations.tenantId, tenantId))
+    .orderBy(asc(savedLocations.sortOrder), asc(savedLocations.name))
+
+  const oneYearAgo = new Date()
+  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1)
+
+  const tripCount = sql<number>`count(*)`
+  const destinations = await db
+    .select({
+      address: mileageTrips.endLocation,
+      tripCount: tripCount.as('trip_count'),
+    })
+    .from(mileageTrips)
+    .where(and(
+      eq(mileageTrips.tenantId, tenantId),
+      gte(mileageTrips.date, oneYearAgo)
+    ))
+    .groupBy(mileageTrips.endLocation)
+    .having(sql`count(*) >= ${FREQUENT_MIN_TRIPS}`)
+    .orderBy(desc(tripCount))
+    .limit(FREQUENT_LIMIT + locations.length)
+
+  // Don't repeat an address that's already saved
+  const savedAddresses = new Set(locations.map(l => l.address.trim().toLowerCase()))
+  const frequent = destinations
+    .filter(d => !savedAddresses.has(d.address.trim().toLowerCase()))
+    .slice(0, FREQUENT_LIMIT)
+    .map(d => ({ address: d.address, tripCount: Number(d.tripCount) }))
+
+  return res.status(200).json({ locations, frequent })
+}
+
+// ===========================================
+// POST: Save a new location
+// ===========================================
+async function handlePost(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'locations:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+  const { name, address } = req.body
+
+  // Validation
+  const errors: string[] = []
+
+  if (!name || typeof name !== 'string' || name.trim().length === 0) {
+    errors.push('Name is required')
+  } else if (name.trim().length > 100) {
+    errors.push('Name must be 100 characters or less')
+  }
+
+  if (!address || typeof address !== 'string' || address.trim().length === 0) {
+    errors.push('Address is required')
+  } else if (address.trim().length > 500) {
+    errors.push('Address must be 500 characters or less')
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  // New locations go to the end of the list
+  const [{ maxSort }] = await db
+    .select({ maxSort: sql<number>`coalesce(max(${savedLocations.sortOrder}), 0)` })
+    .from(savedLocations)
+    .where(eq(savedLocations.tenantId, tenantId))
+
+  const [location] = await db
+    .insert(savedLocations)
+    .values({
+      tenantId,
+      name: name.trim(),
+      address: address.trim(),
+      sortOrder: Number(maxSort) + 1,
+    })
+    .returning({
+      id: savedLocations.id,
+      name: savedLocations.name,
+      address: savedLocations.address,
+      sortOrder: savedLocations.sortOrder,
+    })
+
+  return res.status(201).json({
+    message: 'Location saved successfully',
+    location,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      case 'POST':
+        return handlePost(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in locations API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
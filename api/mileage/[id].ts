@@ -3,6 +3,8 @@ import { db } from '../../src/db/index.js'
 import { mileageTrips } from '../../src/db/schema.js'
 import { eq, and } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { getMileageRates, rateForDate, millsToCents, mileageDeduction } from '../_lib/mileage-rates.js'
 
 // ===========================================
 // GET: Fetch single trip
@@ -29,10 +31,15 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
     return res.status(404).json({ error: 'Trip not found' })
   }
 
+  const displayMiles = trip.isRoundTrip ? trip.distanceMiles * 2 : trip.distanceMiles
+  const rateMills = rateForDate(await getMileageRates(), trip.date)
+
   return res.status(200).json({
     trip: {
       ...trip,
-      displayMiles: trip.isRoundTrip ? trip.distanceMiles * 2 : trip.distanceMiles,
+      displayMiles,
+      mileageRate: millsToCents(rateMills), // cents per mile
+      deduction: mileageDeduction(displayMiles, rateMills), // cents
     },
   })
 }
@@ -45,6 +52,12 @@ async function handlePut(req: VercelRequest, res: VercelResponse) {
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
+
+  const denied = checkPermission(auth, 'mileage:edit')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
   const { user, tenantId } = auth
 
   const tripId = req.query.id as string
@@ -127,6 +140,12 @@ async function handleDelete(req: VercelRequest, res: VercelResponse) {
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
+
+  const denied = checkPermission(auth, 'mileage:delete')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
   const { tenantId } = auth
 
   const tripId = req.query.id as string
@@ -1,8 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { db } from '../../src/db/index.js'
 import { mileageTrips } from '../../src/db/schema.js'
-import { eq, and, desc, gte, lt } from 'drizzle-orm'
+import { eq, and, or, gte, lt, ilike, sql } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { getMileageRates, rateForDate, ratesForYear, millsToCents, mileageDeduction } from '../_lib/mileage-rates.js'
+import { encodeCursor, decodeCursor, keysetOrder, keysetAfter } from '../_lib/cursor.js'
+
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 500
 
 // ===========================================
 // GET: Fetch mileage trips
@@ -16,55 +22,113 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
 
   // Get query params for filtering
   const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear()
-  const limit = req.query.limit ? parseInt(req.query.limit as string) : 500
+  const limit = Math.min(req.query.limit ? parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE : DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+
+  const after = decodeCursor(req.query.cursor)
+  if (req.query.cursor !== undefined && !after) {
+    return res.status(400).json({ error: 'Invalid cursor' })
+  }
 
   // Date range for year filter
   const startOfYear = new Date(year, 0, 1)
   const endOfYear = new Date(year + 1, 0, 1)
 
-  // Fetch trips
-  const trips = await db
-    .select({
-      id: mileageTrips.id,
-      date: mileageTrips.date,
-      description: mileageTrips.description,
-      startLocation: mileageTrips.startLocation,
-      endLocation: mileageTrips.endLocation,
-      distanceMiles: mileageTrips.distanceMiles,
-      isRoundTrip: mileageTrips.isRoundTrip,
-      createdAt: mileageTrips.createdAt,
-    })
-    .from(mileageTrips)
-    .where(and(
-      eq(mileageTrips.tenantId, tenantId),
-      gte(mileageTrips.date, startOfYear),
-      lt(mileageTrips.date, endOfYear)
-    ))
-    .orderBy(desc(mileageTrips.date))
-    .limit(limit)
-
-  // Calculate summary
-  const totalMiles = trips.reduce((sum, trip) => {
-    const miles = trip.isRoundTrip ? trip.distanceMiles * 2 : trip.distanceMiles
-    return sum + miles
-  }, 0)
-
-  // IRS standard mileage rate for 2025 (70 cents)
-  const mileageRate = 0.70
-  const estimatedDeduction = (totalMiles / 100) * mileageRate
+  // Optional text filter over locations and purpose
+  const pattern = `%${q.replace(/[\\%_]/g, '\\$&')}%`
+  const where = and(
+    eq(mileageTrips.tenantId, tenantId),
+    gte(mileageTrips.date, startOfYear),
+    lt(mileageTrips.date, endOfYear),
+    q ? or(
+      ilike(mileageTrips.startLocation, pattern),
+      ilike(mileageTrips.endLocation, pattern),
+      ilike(mileageTrips.description, pattern)
+    ) : undefined
+  )
+
+  const displayMilesSql = sql<number>`CASE WHEN ${mileageTrips.isRoundTrip} THEN ${mileageTrips.distanceMiles} * 2 ELSE ${mileageTrips.distanceMiles} END`
+  const day = sql<string>`to_char(${mileageTrips.date}, 'YYYY-MM-DD')`
+
+  // One page of trips, plus per-day mileage for the whole year so totals don't depend on page size
+  const [page, dailyTotals, rates] = await Promise.all([
+    db
+      .select({
+        id: mileageTrips.id,
+        date: mileageTrips.date,
+        description: mileageTrips.description,
+        startLocation: mileageTrips.startLocation,
+        endLocation: mileageTrips.endLocation,
+        distanceMiles: mileageTrips.distanceMiles,
+        isRoundTrip: mileageTrips.isRoundTrip,
+        createdAt: mileageTrips.createdAt,
+      })
+      .from(mileageTrips)
+      .where(after ? and(where, keysetAfter(mileageTrips, after)) : where)
+      .orderBy(...keysetOrder(mileageTrips))
+      .limit(limit + 1),
+
+    db
+      .select({
+        day,
+        miles: sql<number>`COALESCE(SUM(${displayMilesSql}), 0)`,
+        count: sql<number>`count(*)`,
+      })
+      .from(mileageTrips)
+      .where(where)
+      .groupBy(day),
+
+    getMileageRates(),
+  ])
+
+  const hasMore = page.length > limit
+  const trips = hasMore ? page.slice(0, limit) : page
+
+  // Deductions use the IRS rate in effect on each trip's date
+  const tripsWithDeduction = trips.map(trip => {
+    // Include calculated round-trip miles for display
+    const displayMiles = trip.isRoundTrip ? trip.distanceMiles * 2 : trip.distanceMiles
+    const rateMills = rateForDate(rates, trip.date)
+    return {
+      ...trip,
+      displayMiles,
+      mileageRate: millsToCents(rateMills), // cents per mile
+      deduction: mileageDeduction(displayMiles, rateMills), // cents
+    }
+  })
+
+  // Calculate summary from the daily aggregates
+  let totalMiles = 0
+  let tripCount = 0
+  let estimatedDeduction = 0
+  const months = new Map<string, { totalMiles: number; tripCount: number }>()
+  for (const d of dailyTotals) {
+    const miles = Number(d.miles)
+    const count = Number(d.count)
+    totalMiles += miles
+    tripCount += count
+    estimatedDeduction += mileageDeduction(miles, rateForDate(rates, d.day))
+
+    const month = months.get(d.day.slice(0, 7)) ?? { totalMiles: 0, tripCount: 0 }
+    month.totalMiles += miles
+    month.tripCount += count
+    months.set(d.day.slice(0, 7), month)
+  }
+
+  const monthlyTotals = Array.from(months, ([month, totals]) => ({ month, ...totals }))
+    .sort((a, b) => b.month.localeCompare(a.month))
 
   return res.status(200).json({
-    trips: trips.map(trip => ({
-      ...trip,
-      // Include calculated round-trip miles for display
-      displayMiles: trip.isRoundTrip ? trip.distanceMiles * 2 : trip.distanceMiles,
-    })),
+    trips: tripsWithDeduction,
+    nextCursor: hasMore ? encodeCursor(trips[trips.length - 1]) : null,
     summary: {
       totalMiles,
-      tripCount: trips.length,
-      estimatedDeduction: Math.round(estimatedDeduction * 100), // Store as cents
+      tripCount,
+      estimatedDeduction, // cents
+      mileageRates: ratesForYear(rates, year),
       year,
     },
+    monthlyTotals,
   })
 }
 
@@ -76,6 +140,12 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' })
   }
+
+  const denied = checkPermission(auth, 'mileage:create')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
   const { user, tenantId } = auth
 
   // Parse request body
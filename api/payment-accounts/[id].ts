@@ -0,0 +1,167 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { paymentAccounts, expenses } from '../../src/db/schema.js'
+import { eq, and } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { validatePaymentAccountInput } from '../_lib/payment-accounts.js'
+
+const accountColumns = {
+  id: paymentAccounts.id,
+  name: paymentAccounts.name,
+  kind: paymentAccounts.kind,
+  last4: paymentAccounts.last4,
+  sortOrder: paymentAccounts.sortOrder,
+  isActive: paymentAccounts.isActive,
+}
+
+// ===========================================
+// PUT: Update a payment account (or restore an archived one)
+// ===========================================
+async function handlePut(req: VercelRequest, res: VercelResponse, accountId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'accounts:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  const [existing] = await db
+    .select({ id: paymentAccounts.id })
+    .from(paymentAccounts)
+    .where(and(
+      eq(paymentAccounts.id, accountId),
+      eq(paymentAccounts.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!existing) {
+    return res.status(404).json({ error: 'Payment account not found' })
+  }
+
+  const { sortOrder, isActive } = req.body ?? {}
+
+  // Validation
+  const { errors, values } = validatePaymentAccountInput(req.body ?? {}, { partial: true })
+
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+    errors.push('Sort order must be an integer')
+  }
+
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    errors.push('isActive must be a boolean')
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  // Build update object with only provided fields
+  const updateData: Partial<typeof paymentAccounts.$inferInsert> = {
+    ...values,
+    updatedAt: new Date(),
+  }
+
+  if (sortOrder !== undefined) updateData.sortOrder = sortOrder
+  if (isActive !== undefined) updateData.isActive = isActive
+
+  const [account] = await db
+    .update(paymentAccounts)
+    .set(updateData)
+    .where(eq(paymentAccounts.id, accountId))
+    .returning(accountColumns)
+
+  return res.status(200).json({
+    message: 'Payment account updated successfully',
+    account,
+  })
+}
+
+// ===========================================
+// DELETE: Remove a payment account
+// ===========================================
+// An account that expenses were paid from is archived instead, so reports
+// can still tie those expenses back to its statements.
+async function handleDelete(req: VercelRequest, res: VercelResponse, accountId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'accounts:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  const [existing] = await db
+    .select({ id: paymentAccounts.id })
+    .from(paymentAccounts)
+    .where(and(
+      eq(paymentAccounts.id, accountId),
+      eq(paymentAccounts.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!existing) {
+    return res.status(404).json({ error: 'Payment account not found' })
+  }
+
+  const [inUse] = await db
+    .select({ id: expenses.id })
+    .from(expenses)
+    .where(eq(expenses.paymentAccountId, accountId))
+    .limit(1)
+
+  if (inUse) {
+    await db
+      .update(paymentAccounts)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(paymentAccounts.id, accountId))
+
+    return res.status(200).json({
+      message: 'Payment account archived — expenses paid from it keep it',
+      archived: true,
+      deletedId: accountId,
+    })
+  }
+
+  await db.delete(paymentAccounts).where(eq(paymentAccounts.id, accountId))
+
+  return res.status(200).json({
+    message: 'Payment account deleted successfully',
+    archived: false,
+    deletedId: accountId,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const accountId = req.query.id as string
+
+  if (!accountId) {
+    return res.status(400).json({ error: 'Payment account ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'PUT':
+        return handlePut(req, res, accountId)
+      case 'DELETE':
+        return handleDelete(req, res, accountId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in payment account API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
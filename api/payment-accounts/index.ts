@@ -0,0 +1,90 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { paymentAccounts } from '../../src/db/schema.js'
+import { eq, sql } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { getPaymentAccounts, validatePaymentAccountInput } from '../_lib/payment-accounts.js'
+
+// ===========================================
+// GET: Payment accounts (archived ones included, flagged)
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  return res.status(200).json({ accounts: await getPaymentAccounts(auth.tenantId) })
+}
+
+// ===========================================
+// POST: Add a payment account
+// ===========================================
+async function handlePost(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'accounts:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+  const { errors, values } = validatePaymentAccountInput(req.body ?? {})
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  // New accounts go to the end of the list
+  const [{ maxSort }] = await db
+    .select({ maxSort: sql<number>`coalesce(max(${paymentAccounts.sortOrder}), 0)` })
+    .from(paymentAccounts)
+    .where(eq(paymentAccounts.tenantId, tenantId))
+
+  const [account] = await db
+    .insert(paymentAccounts)
+    .values({
+      tenantId,
+      name: values.name!,
+      kind: values.kind,
+      last4: values.last4,
+      sortOrder: Number(maxSort) + 1,
+    })
+    .returning({
+      id: paymentAccounts.id,
+      name: paymentAccounts.name,
+      kind: paymentAccounts.kind,
+      last4: paymentAccounts.last4,
+      sortOrder: paymentAccounts.sortOrder,
+      isActive: paymentAccounts.isActive,
+    })
+
+  return res.status(201).json({
+    message: 'Payment account added successfully',
+    account,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      case 'POST':
+        return handlePost(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in payment accounts API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
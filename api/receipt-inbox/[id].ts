@@ -0,0 +1,193 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { del } from '@vercel/blob'
+import { db } from '../../src/db/index.js'
+import { categories, receiptInboxItems, tenants } from '../../src/db/schema.js'
+import { eq, and } from 'drizzle-orm'
+import { authenticateRequest, type AuthResult } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { validateReceiptScan } from '../_lib/receipt-schema.js'
+import { draftFromScan, findClaimedBlobUrls, isInboxBlobUrl, selectInboxItems } from '../_lib/receipt-inbox.js'
+
+async function findItem(auth: AuthResult, itemId: string) {
+  const [item] = await db
+    .select({ id: receiptInboxItems.id, blobUrl: receiptInboxItems.blobUrl, categoryId: receiptInboxItems.categoryId })
+    .from(receiptInboxItems)
+    .where(and(
+      eq(receiptInboxItems.id, itemId),
+      eq(receiptInboxItems.tenantId, auth.tenantId),
+      eq(receiptInboxItems.uploadedBy, auth.user.id)
+    ))
+    .limit(1)
+  return item ?? null
+}
+
+// ===========================================
+// PUT: Update a draft. Three shapes:
+//   { scan }      — result from /api/receipts/scan; fills in the draft
+//   { scanError } — the scan failed; shown on the item so it can be retried
+//   field edits   — vendor, date, amount, categoryId, description
+// ===========================================
+async function handlePut(req: VercelRequest, res: VercelResponse, itemId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'expenses:create') ?? checkPermission(auth, 'attachments:upload')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+  const item = await findItem(auth, itemId)
+  if (!item) {
+    return res.status(404).json({ error: 'Inbox item not found' })
+  }
+
+  const body = req.body ?? {}
+  let updates: Partial<typeof receiptInboxItems.$inferInsert>
+
+  if (body.scan !== undefined) {
+    const scan = validateReceiptScan(body.scan)
+    if (!scan) {
+      return res.status(400).json({ error: 'Validation failed', details: ['Scan result is not a receipt'] })
+    }
+
+    const [tenant] = await db
+      .select({ baseCurrency: tenants.baseCurrency })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1)
+
+    updates = await draftFromScan(tenantId, item.blobUrl, scan, {
+      currency: tenant?.baseCurrency ?? 'USD',
+      categoryId: item.categoryId,
+    })
+  } else if (body.scanError !== undefined) {
+    updates = {
+      status: 'failed',
+      scanError: typeof body.scanError === 'string' && body.scanError.trim()
+        ? body.scanError.trim().slice(0, 500)
+        : 'Failed to scan receipt',
+    }
+  } else {
+    const { vendor, date, amount, categoryId, description } = body
+    const errors: string[] = []
+    updates = {}
+
+    if (vendor !== undefined) {
+      if (vendor !== null && typeof vendor !== 'string') errors.push('Vendor must be a string')
+      else updates.vendor = vendor?.trim().slice(0, 255) || null
+    }
+
+    if (date !== undefined) {
+      if (date === null || date === '') {
+        updates.date = null
+      } else if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(`${date}T12:00:00.000Z`).getTime())) {
+        errors.push('Date must be YYYY-MM-DD')
+      } else {
+        updates.date = new Date(`${date}T12:00:00.000Z`)
+      }
+    }
+
+    if (amount !== undefined) {
+      if (amount !== null && (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0)) {
+        errors.push('Amount must be a positive integer (in cents)')
+      } else {
+        updates.amount = amount
+      }
+    }
+
+    if (categoryId !== undefined) {
+      if (categoryId === null || categoryId === '') {
+        updates.categoryId = null
+      } else {
+        const [category] = typeof categoryId === 'string'
+          ? await db
+            .select({ id: categories.id })
+            .from(categories)
+            .where(and(eq(categories.id, categoryId), eq(categories.tenantId, tenantId)))
+            .limit(1)
+          : []
+        if (!category) errors.push('Invalid category')
+        else updates.categoryId = category.id
+      }
+    }
+
+    if (description !== undefined) {
+      if (description !== null && typeof description !== 'string') errors.push('Description must be a string')
+      else updates.description = description?.trim() || null
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: errors })
+    }
+
+    // The user has looked at it now
+    updates.reviewNeeded = false
+  }
+
+  await db
+    .update(receiptInboxItems)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(receiptInboxItems.id, itemId))
+
+  const [updated] = await selectInboxItems().where(eq(receiptInboxItems.id, itemId))
+
+  return res.status(200).json({ item: updated })
+}
+
+// ===========================================
+// DELETE: Discard an inbox item and its uploaded file
+// ===========================================
+async function handleDelete(req: VercelRequest, res: VercelResponse, itemId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'expenses:create') ?? checkPermission(auth, 'attachments:upload')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const item = await findItem(auth, itemId)
+  if (!item) {
+    return res.status(404).json({ error: 'Inbox item not found' })
+  }
+
+  // Only the tenant's own pending/ uploads that nothing else points at are
+  // deleted from the store; otherwise just the inbox row goes
+  const claimed = await findClaimedBlobUrls([item.blobUrl], item.id)
+  if (isInboxBlobUrl(item.blobUrl, auth.tenantSubdomain) && !claimed.has(item.blobUrl)) {
+    await del(item.blobUrl, { token: process.env.BLOB_READ_WRITE_TOKEN })
+  }
+  await db.delete(receiptInboxItems).where(eq(receiptInboxItems.id, itemId))
+
+  return res.status(200).json({ message: 'Receipt removed from the inbox', deletedId: itemId })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const itemId = req.query.id as string
+
+  if (!itemId) {
+    return res.status(400).json({ error: 'Inbox item ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'PUT':
+        return handlePut(req, res, itemId)
+      case 'DELETE':
+        return handleDelete(req, res, itemId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in receipt inbox item API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,189 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { categories, expenseAttachments, expenses, receiptInboxItems, receiptScans } from '../../src/db/schema.js'
+import { eq, and, inArray } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { recordExpenseHistory } from '../_lib/expense-history.js'
+import { loadExpenseInputContext, validateExpenseInput } from '../_lib/expense-input.js'
+import { MAX_INBOX_BATCH, findClaimedBlobUrls, isInboxBlobUrl, moveReceiptBlob } from '../_lib/receipt-inbox.js'
+import { normalizeVendor, recordVendorCategory } from '../_lib/vendor-mappings.js'
+
+// ===========================================
+// POST: Turn reviewed inbox drafts into expenses
+// ===========================================
+// Each draft goes through the same validation as POST /api/expenses.
+// Unlike the statement import this isn't all-or-nothing: valid drafts
+// become expenses (with their receipt moved out of pending/ and attached),
+// and the rest stay in the inbox with their errors keyed by item.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const denied = checkPermission(auth, 'expenses:create') ?? checkPermission(auth, 'attachments:upload')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
+    const { user, tenantId, tenantSubdomain } = auth
+    const { ids } = req.body ?? {}
+
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+      return res.status(400).json({ error: 'Validation failed', details: ['Select at least one receipt'] })
+    }
+    if (ids.length > MAX_INBOX_BATCH) {
+      return res.status(400).json({ error: 'Validation failed', details: [`Create at most ${MAX_INBOX_BATCH} expenses at a time`] })
+    }
+
+    const items = await db
+      .select()
+      .from(receiptInboxItems)
+      .where(and(
+        eq(receiptInboxItems.tenantId, tenantId),
+        eq(receiptInboxItems.uploadedBy, user.id),
+        inArray(receiptInboxItems.id, ids as string[])
+      ))
+
+    const [context, tenantCategories] = await Promise.all([
+      loadExpenseInputContext(tenantId, user.id, auth.role),
+      db
+        .select({ id: categories.id, expenseType: categories.expenseType })
+        .from(categories)
+        .where(eq(categories.tenantId, tenantId)),
+    ])
+    // Drafts only carry a category; the expense type follows it
+    const categoryTypes = new Map(tenantCategories.map(c => [c.id, c.expenseType]))
+
+    const itemErrors: { id: string; errors: string[] }[] = []
+    const createdIds: string[] = []
+    const mappingCounts = new Map<string, { vendor: string; categoryId: string; count: number }>()
+
+    for (const id of ids as string[]) {
+      if (!items.some(item => item.id === id)) {
+        itemErrors.push({ id, errors: ['Inbox item not found'] })
+      }
+    }
+
+    for (const item of items) {
+      if (item.status === 'queued') {
+        itemErrors.push({ id: item.id, errors: ['Still waiting to be scanned'] })
+        continue
+      }
+      // Only the tenant's own pending/ uploads are attached (and moved)
+      if (!isInboxBlobUrl(item.blobUrl, tenantSubdomain) || (await findClaimedBlobUrls([item.blobUrl], item.id)).has(item.blobUrl)) {
+        itemErrors.push({ id: item.id, errors: ['Receipt file is not an upload to this workspace\'s inbox'] })
+        continue
+      }
+
+      // ===========================================
+      // Validation
+      // ===========================================
+      const { errors, values } = validateExpenseInput({
+        amount: item.amount,
+        currency: item.currency ?? undefined,
+        date: item.date?.toISOString(),
+        categoryId: item.categoryId,
+        expenseType: item.categoryId && categoryTypes.get(item.categoryId) === 'cogs' ? 'cogs' : 'operating',
+        vendor: item.vendor,
+        description: item.description,
+        extractedText: item.extractedText,
+      }, context)
+
+      if (!values) {
+        itemErrors.push({ id: item.id, errors })
+        continue
+      }
+
+      // ===========================================
+      // Create the expense and attach the receipt
+      // ===========================================
+      const [expense] = await db
+        .insert(expenses)
+        .values(values)
+        .returning()
+
+      await recordExpenseHistory({
+        expenseId: expense.id,
+        tenantId,
+        action: 'create',
+        previous: null,
+        next: expense,
+        changedBy: user.id,
+      })
+
+      // A failed move leaves the file in pending/ but still attached
+      let blobUrl = item.blobUrl
+      try {
+        blobUrl = await moveReceiptBlob(item.blobUrl, tenantSubdomain, expense.id)
+      } catch (err) {
+        console.error(`Failed to move inbox receipt ${item.id}:`, err)
+      }
+
+      await db.insert(expenseAttachments).values({
+        tenantId,
+        expenseId: expense.id,
+        blobUrl,
+        fileName: item.fileName,
+        fileSize: item.fileSize,
+        mimeType: item.fileType,
+        sortOrder: 0,
+        uploadedBy: user.id,
+      })
+
+      // Reconciliation matches scans to attachments by URL
+      if (blobUrl !== item.blobUrl) {
+        await db
+          .update(receiptScans)
+          .set({ blobUrl })
+          .where(and(eq(receiptScans.tenantId, tenantId), eq(receiptScans.blobUrl, item.blobUrl)))
+      }
+
+      await db.delete(receiptInboxItems).where(eq(receiptInboxItems.id, item.id))
+      createdIds.push(expense.id)
+
+      const pattern = normalizeVendor(expense.vendor)
+      if (pattern && expense.categoryId) {
+        const key = `${pattern}|${expense.categoryId}`
+        const entry = mappingCounts.get(key)
+        if (entry) {
+          entry.count++
+        } else {
+          mappingCounts.set(key, { vendor: expense.vendor!, categoryId: expense.categoryId, count: 1 })
+        }
+      }
+    }
+
+    // One vendor-mapping upsert per vendor → category pair, not per receipt
+    for (const { vendor, categoryId, count } of mappingCounts.values()) {
+      await recordVendorCategory(tenantId, vendor, categoryId, count)
+    }
+
+    if (createdIds.length === 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: itemErrors.flatMap(e => e.errors),
+        itemErrors,
+      })
+    }
+
+    return res.status(201).json({
+      message: `Created ${createdIds.length} expense${createdIds.length === 1 ? '' : 's'}`,
+      created: createdIds.length,
+      createdIds,
+      itemErrors,
+    })
+
+  } catch (error) {
+    console.error('Error in receipt inbox commit API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
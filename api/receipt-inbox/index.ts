@@ -0,0 +1,117 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { receiptInboxItems } from '../../src/db/schema.js'
+import { eq, and, inArray, asc } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { MAX_INBOX_BATCH, findClaimedBlobUrls, isInboxBlobUrl, selectInboxItems } from '../_lib/receipt-inbox.js'
+
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/webp', 'application/pdf']
+
+// ===========================================
+// GET: The signed-in user's inbox, oldest upload first
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const items = await selectInboxItems()
+    .where(and(
+      eq(receiptInboxItems.tenantId, auth.tenantId),
+      eq(receiptInboxItems.uploadedBy, auth.user.id)
+    ))
+    .orderBy(asc(receiptInboxItems.createdAt))
+
+  return res.status(200).json({ items })
+}
+
+// ===========================================
+// POST: Add uploaded files to the inbox (blobs already uploaded to the
+// pending/ prefix via client upload). Each one is queued for scanning.
+// ===========================================
+async function handlePost(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'expenses:create') ?? checkPermission(auth, 'attachments:upload')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId, tenantSubdomain, user } = auth
+  const { files } = req.body ?? {}
+
+  if (!Array.isArray(files) || files.length === 0) {
+    return res.status(400).json({ error: 'Validation failed', details: ['Upload at least one receipt'] })
+  }
+  if (files.length > MAX_INBOX_BATCH) {
+    return res.status(400).json({ error: 'Validation failed', details: [`Add at most ${MAX_INBOX_BATCH} receipts at a time`] })
+  }
+
+  const details: string[] = []
+  const values = files.map((file: unknown, index: number) => {
+    const { blobUrl, fileName, fileType, fileSize } = (file && typeof file === 'object' ? file : {}) as Record<string, unknown>
+    if (!isInboxBlobUrl(blobUrl, tenantSubdomain)) details.push(`File ${index + 1}: invalid blob URL`)
+    if (typeof fileName !== 'string' || !fileName.trim()) details.push(`File ${index + 1}: file name is required`)
+    if (typeof fileType !== 'string' || !ALLOWED_TYPES.includes(fileType)) details.push(`File ${index + 1}: file type not allowed`)
+    if (typeof fileSize !== 'number' || !Number.isInteger(fileSize) || fileSize <= 0) details.push(`File ${index + 1}: invalid file size`)
+
+    return {
+      tenantId,
+      uploadedBy: user.id,
+      blobUrl: blobUrl as string,
+      fileName: String(fileName).trim().slice(0, 255),
+      fileType: fileType as string,
+      fileSize: fileSize as number,
+    }
+  })
+
+  if (details.length === 0) {
+    const claimed = await findClaimedBlobUrls(values.map(value => value.blobUrl))
+    values.forEach((value, index) => {
+      if (claimed.has(value.blobUrl)) details.push(`File ${index + 1}: already in use`)
+    })
+  }
+
+  if (details.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details })
+  }
+
+  const inserted = await db
+    .insert(receiptInboxItems)
+    .values(values)
+    .returning({ id: receiptInboxItems.id })
+
+  const items = await selectInboxItems()
+    .where(inArray(receiptInboxItems.id, inserted.map(item => item.id)))
+    .orderBy(asc(receiptInboxItems.createdAt))
+
+  return res.status(201).json({
+    message: `Added ${items.length} receipt${items.length === 1 ? '' : 's'} to the inbox`,
+    items,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      case 'POST':
+        return handlePost(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in receipt inbox API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
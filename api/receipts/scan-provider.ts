@@ -0,0 +1,66 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { tenants } from '../../src/db/schema.js'
+import { eq } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { SCAN_PROVIDER_SETTINGS, isScanProviderSetting } from '../../src/utils/scan-providers.js'
+import { VISION_MODELS, isVisionModel } from '../../src/utils/vision-models.js'
+
+// ============================================
+// MAIN HANDLER — PUT only
+// ============================================
+// Picks which engine reads receipts: the AI scanner with an offline OCR
+// fallback ("auto"), or just one of the two — and which vision model the
+// AI scanner uses. Send either field on its own.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req)
+    if (!auth) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    const denied = checkPermission(auth, 'settings:manage')
+    if (denied) {
+      return res.status(403).json({ error: denied })
+    }
+
+    const { scanProvider, visionModel } = req.body ?? {}
+
+    // Validation
+    const errors: string[] = []
+    if (scanProvider !== undefined && !isScanProviderSetting(scanProvider)) {
+      errors.push(`scanProvider must be one of: ${SCAN_PROVIDER_SETTINGS.join(', ')}`)
+    }
+    if (visionModel !== undefined && !isVisionModel(visionModel)) {
+      errors.push(`visionModel must be one of: ${VISION_MODELS.map(model => model.id).join(', ')}`)
+    }
+    if (scanProvider === undefined && visionModel === undefined) {
+      errors.push('Nothing to update')
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: errors })
+    }
+
+    const [updated] = await db.update(tenants)
+      .set({
+        ...(scanProvider !== undefined && { scanProvider }),
+        ...(visionModel !== undefined && { visionModel }),
+        updatedAt: new Date(),
+      })
+      .where(eq(tenants.id, auth.tenantId))
+      .returning({ scanProvider: tenants.scanProvider, visionModel: tenants.visionModel })
+
+    return res.status(200).json(updated)
+
+  } catch (err) {
+    console.error('Error updating scan provider:', err)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,287 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { recurringExpenses, expenses, categories } from '../../src/db/schema.js'
+import { eq, and, desc } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import {
+  RECURRING_FREQUENCIES,
+  isRecurringFrequency,
+  parseScheduleDate,
+  advanceOccurrence,
+  firstOccurrenceOnOrAfter,
+} from '../_lib/recurring.js'
+
+// ===========================================
+// GET: Single template with its generated expenses
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse, recurringId: string) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const { tenantId } = auth
+
+  const [template] = await db
+    .select({
+      id: recurringExpenses.id,
+      amount: recurringExpenses.amount,
+      vendor: recurringExpenses.vendor,
+      description: recurringExpenses.description,
+      categoryId: recurringExpenses.categoryId,
+      categoryName: categories.name,
+      categoryEmoji: categories.emoji,
+      expenseType: recurringExpenses.expenseType,
+      frequency: recurringExpenses.frequency,
+      dayOfMonth: recurringExpenses.dayOfMonth,
+      lastGeneratedAt: recurringExpenses.lastGeneratedAt,
+      nextGenerationAt: recurringExpenses.nextGenerationAt,
+      isActive: recurringExpenses.isActive,
+      createdAt: recurringExpenses.createdAt,
+      updatedAt: recurringExpenses.updatedAt,
+    })
+    .from(recurringExpenses)
+    .leftJoin(categories, eq(recurringExpenses.categoryId, categories.id))
+    .where(and(
+      eq(recurringExpenses.id, recurringId),
+      eq(recurringExpenses.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!template) {
+    return res.status(404).json({ error: 'Recurring expense not found' })
+  }
+
+  const generatedExpenses = await db
+    .select({
+      id: expenses.id,
+      amount: expenses.amount,
+      date: expenses.date,
+      createdAt: expenses.createdAt,
+    })
+    .from(expenses)
+    .where(and(
+      eq(expenses.recurringExpenseId, recurringId),
+      eq(expenses.tenantId, tenantId)
+    ))
+    .orderBy(desc(expenses.date))
+    .limit(24)
+
+  return res.status(200).json({ recurringExpense: template, generatedExpenses })
+}
+
+// ===========================================
+// PUT: Update template (details, schedule, pause/resume)
+// ===========================================
+async function handlePut(req: VercelRequest, res: VercelResponse, recurringId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'recurring:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  const [existing] = await db
+    .select()
+    .from(recurringExpenses)
+    .where(and(
+      eq(recurringExpenses.id, recurringId),
+      eq(recurringExpenses.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!existing) {
+    return res.status(404).json({ error: 'Recurring expense not found' })
+  }
+
+  const {
+    amount,
+    vendor,
+    description,
+    categoryId,
+    expenseType,
+    frequency,
+    dayOfMonth,
+    nextDate,
+    isActive,
+  } = req.body
+
+  // Validation
+  const errors: string[] = []
+
+  if (amount !== undefined) {
+    if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+      errors.push('Amount must be a positive integer (in cents)')
+    }
+  }
+
+  if (vendor !== undefined && !vendor?.trim()) {
+    errors.push('Vendor cannot be empty')
+  }
+
+  if (categoryId !== undefined) {
+    const [category] = await db
+      .select()
+      .from(categories)
+      .where(and(
+        eq(categories.id, categoryId),
+        eq(categories.tenantId, tenantId),
+        eq(categories.isActive, true)
+      ))
+      .limit(1)
+
+    if (!category) {
+      errors.push('Invalid category')
+    }
+  }
+
+  const validExpenseTypes = ['cogs', 'operating']
+  if (expenseType !== undefined && !validExpenseTypes.includes(expenseType)) {
+    errors.push(`Expense type must be one of: ${validExpenseTypes.join(', ')}`)
+  }
+
+  if (frequency !== undefined && !isRecurringFrequency(frequency)) {
+    errors.push(`Frequency must be one of: ${RECURRING_FREQUENCIES.join(', ')}`)
+  }
+
+  if (dayOfMonth !== undefined) {
+    if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+      errors.push('Day of month must be between 1 and 31')
+    }
+  }
+
+  const parsedNextDate = nextDate !== undefined ? parseScheduleDate(nextDate) : null
+  if (nextDate !== undefined && !parsedNextDate) {
+    errors.push('Next date must be a valid date (YYYY-MM-DD)')
+  }
+
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    errors.push('isActive must be a boolean')
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  // Build update object with only provided fields
+  const updateData: Partial<typeof recurringExpenses.$inferInsert> = {
+    updatedAt: new Date(),
+  }
+
+  if (amount !== undefined) updateData.amount = amount
+  if (vendor !== undefined) updateData.vendor = vendor.trim()
+  if (description !== undefined) updateData.description = description?.trim() || null
+  if (categoryId !== undefined) updateData.categoryId = categoryId
+  if (expenseType !== undefined) updateData.expenseType = expenseType
+  if (frequency !== undefined) updateData.frequency = frequency
+  if (dayOfMonth !== undefined) updateData.dayOfMonth = dayOfMonth
+
+  // Keep the next occurrence on the template's day: a new next date or a
+  // new day moves it to that day on or after the date it would have been
+  const scheduleDay = dayOfMonth ?? existing.dayOfMonth
+  if (parsedNextDate) {
+    updateData.nextGenerationAt = scheduleDay ? firstOccurrenceOnOrAfter(parsedNextDate, scheduleDay) : parsedNextDate
+  } else if (dayOfMonth !== undefined && dayOfMonth !== existing.dayOfMonth && existing.nextGenerationAt) {
+    updateData.nextGenerationAt = firstOccurrenceOnOrAfter(existing.nextGenerationAt, dayOfMonth)
+  }
+  if (isActive !== undefined) updateData.isActive = isActive
+
+  // Resuming a paused template: skip the occurrences missed while paused
+  // instead of letting the cron back-fill them all at once
+  const schedFrequency = updateData.frequency ?? existing.frequency
+  if (isActive === true && !existing.isActive && !parsedNextDate && existing.nextGenerationAt && isRecurringFrequency(schedFrequency)) {
+    const schedDay = updateData.dayOfMonth ?? existing.dayOfMonth ?? 1
+    const startOfToday = new Date()
+    startOfToday.setUTCHours(0, 0, 0, 0)
+
+    let next = updateData.nextGenerationAt ?? existing.nextGenerationAt
+    while (next < startOfToday) {
+      next = advanceOccurrence(next, schedFrequency, schedDay)
+    }
+    updateData.nextGenerationAt = next
+  }
+
+  const [updated] = await db
+    .update(recurringExpenses)
+    .set(updateData)
+    .where(eq(recurringExpenses.id, recurringId))
+    .returning()
+
+  return res.status(200).json({
+    message: 'Recurring expense updated successfully',
+    recurringExpense: updated,
+  })
+}
+
+// ===========================================
+// DELETE: Remove template (generated expenses are kept)
+// ===========================================
+async function handleDelete(req: VercelRequest, res: VercelResponse, recurringId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'recurring:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  const [existing] = await db
+    .select({ id: recurringExpenses.id })
+    .from(recurringExpenses)
+    .where(and(
+      eq(recurringExpenses.id, recurringId),
+      eq(recurringExpenses.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!existing) {
+    return res.status(404).json({ error: 'Recurring expense not found' })
+  }
+
+  // expenses.recurring_expense_id is ON DELETE SET NULL, so past expenses stay put
+  await db
+    .delete(recurringExpenses)
+    .where(eq(recurringExpenses.id, recurringId))
+
+  return res.status(200).json({
+    message: 'Recurring expense deleted successfully',
+    deletedId: recurringId,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const recurringId = req.query.id as string
+
+  if (!recurringId) {
+    return res.status(400).json({ error: 'Recurring expense ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res, recurringId)
+      case 'PUT':
+        return handlePut(req, res, recurringId)
+      case 'DELETE':
+        return handleDelete(req, res, recurringId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in recurring expense API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
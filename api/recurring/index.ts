@@ -0,0 +1,194 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { recurringExpenses, categories } from '../../src/db/schema.js'
+import { eq, and, desc, asc, sql } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { RECURRING_FREQUENCIES, isRecurringFrequency, parseScheduleDate, firstOccurrenceOnOrAfter } from '../_lib/recurring.js'
+
+// ===========================================
+// GET: List recurring expense templates
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const { tenantId } = auth
+
+  const templates = await db
+    .select({
+      id: recurringExpenses.id,
+      amount: recurringExpenses.amount,
+      vendor: recurringExpenses.vendor,
+      description: recurringExpenses.description,
+      categoryId: recurringExpenses.categoryId,
+      categoryName: categories.name,
+      categoryEmoji: categories.emoji,
+      expenseType: recurringExpenses.expenseType,
+      frequency: recurringExpenses.frequency,
+      dayOfMonth: recurringExpenses.dayOfMonth,
+      lastGeneratedAt: recurringExpenses.lastGeneratedAt,
+      nextGenerationAt: recurringExpenses.nextGenerationAt,
+      isActive: recurringExpenses.isActive,
+      createdAt: recurringExpenses.createdAt,
+      generatedCount: sql<number>`(SELECT COUNT(*) FROM expenses WHERE expenses.recurring_expense_id = ${recurringExpenses.id})`.as('generated_count'),
+    })
+    .from(recurringExpenses)
+    .leftJoin(categories, eq(recurringExpenses.categoryId, categories.id))
+    .where(eq(recurringExpenses.tenantId, tenantId))
+    .orderBy(desc(recurringExpenses.isActive), asc(recurringExpenses.nextGenerationAt))
+
+  // Monthly-equivalent total of active templates, for the page summary
+  const monthlyTotal = templates
+    .filter(t => t.isActive)
+    .reduce((sum, t) => {
+      if (t.frequency === 'quarterly') return sum + t.amount / 3
+      if (t.frequency === 'yearly') return sum + t.amount / 12
+      return sum + t.amount
+    }, 0)
+
+  return res.status(200).json({
+    recurringExpenses: templates.map(t => ({ ...t, generatedCount: Number(t.generatedCount) })),
+    summary: {
+      activeCount: templates.filter(t => t.isActive).length,
+      monthlyTotal: Math.round(monthlyTotal),
+    },
+  })
+}
+
+// ===========================================
+// POST: Create a recurring expense template
+// ===========================================
+async function handlePost(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'recurring:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId, user } = auth
+
+  const {
+    amount,
+    vendor,
+    description,
+    categoryId,
+    expenseType,
+    frequency,
+    dayOfMonth,
+    startDate,
+  } = req.body
+
+  // ===========================================
+  // Validation
+  // ===========================================
+  const errors: string[] = []
+
+  if (amount === undefined || amount === null) {
+    errors.push('Amount is required')
+  } else if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+    errors.push('Amount must be a positive integer (in cents)')
+  }
+
+  if (!vendor?.trim()) {
+    errors.push('Vendor is required')
+  }
+
+  if (!categoryId) {
+    errors.push('Category is required')
+  } else {
+    const [category] = await db
+      .select()
+      .from(categories)
+      .where(and(
+        eq(categories.id, categoryId),
+        eq(categories.tenantId, tenantId),
+        eq(categories.isActive, true)
+      ))
+      .limit(1)
+
+    if (!category) {
+      errors.push('Invalid category')
+    }
+  }
+
+  const validExpenseTypes = ['cogs', 'operating']
+  if (expenseType && !validExpenseTypes.includes(expenseType)) {
+    errors.push(`Expense type must be one of: ${validExpenseTypes.join(', ')}`)
+  }
+
+  if (frequency !== undefined && !isRecurringFrequency(frequency)) {
+    errors.push(`Frequency must be one of: ${RECURRING_FREQUENCIES.join(', ')}`)
+  }
+
+  // startDate sets dayOfMonth unless one is given; with a different
+  // dayOfMonth, the first occurrence is that day on or after startDate
+  const parsedStartDate = parseScheduleDate(startDate)
+  if (!startDate) {
+    errors.push('Start date is required')
+  } else if (!parsedStartDate) {
+    errors.push('Start date must be a valid date (YYYY-MM-DD)')
+  }
+
+  if (dayOfMonth !== undefined && dayOfMonth !== null) {
+    if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+      errors.push('Day of month must be between 1 and 31')
+    }
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  const scheduleDay: number = dayOfMonth ?? parsedStartDate!.getUTCDate()
+  const firstOccurrence = firstOccurrenceOnOrAfter(parsedStartDate!, scheduleDay)
+
+  // ===========================================
+  // Create the template
+  // ===========================================
+  const [template] = await db
+    .insert(recurringExpenses)
+    .values({
+      tenantId,
+      amount,
+      vendor: vendor.trim(),
+      description: description?.trim() || null,
+      categoryId,
+      expenseType: expenseType || 'operating',
+      frequency: frequency || 'monthly',
+      dayOfMonth: scheduleDay,
+      nextGenerationAt: firstOccurrence,
+      createdBy: user.id,
+    })
+    .returning()
+
+  return res.status(201).json({
+    message: 'Recurring expense created successfully',
+    recurringExpense: template,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      case 'POST':
+        return handlePost(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in recurring expenses API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
@@ -0,0 +1,225 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { expenses, reimbursements, tenants, users } from '../../src/db/schema.js'
+import { eq, and, inArray } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { getReimbursementExpenses } from '../_lib/reimbursements.js'
+import { isReimbursementStatus, nextReimbursementStatus, REIMBURSEMENT_STATUS_LABELS } from '../../src/utils/reimbursements.js'
+
+// ===========================================
+// GET: One batch with its expenses — everything the
+// printable statement needs. Managers or the payee only.
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse, reimbursementId: string) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const { tenantId, user } = auth
+
+  const [batch] = await db
+    .select()
+    .from(reimbursements)
+    .where(and(
+      eq(reimbursements.id, reimbursementId),
+      eq(reimbursements.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  const denied = checkPermission(auth, 'reimbursements:manage')
+  if (!batch || (denied && batch.userId !== user.id)) {
+    return res.status(404).json({ error: 'Reimbursement not found' })
+  }
+
+  const peopleIds = [batch.userId, batch.approvedBy, batch.paidBy].filter((id): id is string => Boolean(id))
+  const [[tenant], people, batchExpenses] = await Promise.all([
+    db
+      .select({ name: tenants.name, logoUrl: tenants.logoUrl })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1),
+    db
+      .select({ id: users.id, email: users.email, firstName: users.firstName, lastName: users.lastName })
+      .from(users)
+      .where(inArray(users.id, peopleIds)),
+    getReimbursementExpenses(batch.id),
+  ])
+
+  const person = (id: string | null) => people.find(p => p.id === id) ?? null
+
+  return res.status(200).json({
+    reimbursement: {
+      ...batch,
+      payee: person(batch.userId),
+      approver: person(batch.approvedBy),
+      payer: person(batch.paidBy),
+      expenses: batchExpenses,
+    },
+    business: { name: tenant?.name ?? null, logoUrl: tenant?.logoUrl ?? null },
+    canManage: !denied,
+  })
+}
+
+// ===========================================
+// PUT: Move a batch forward (draft → approved → paid),
+// or correct the payment reference on a paid one
+// ===========================================
+async function handlePut(req: VercelRequest, res: VercelResponse, reimbursementId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'reimbursements:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId, user } = auth
+
+  const [existing] = await db
+    .select()
+    .from(reimbursements)
+    .where(and(
+      eq(reimbursements.id, reimbursementId),
+      eq(reimbursements.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!existing) {
+    return res.status(404).json({ error: 'Reimbursement not found' })
+  }
+
+  const { status, paymentReference } = req.body ?? {}
+
+  // Validation
+  const errors: string[] = []
+  const currentStatus = isReimbursementStatus(existing.status) ? existing.status : 'draft'
+  if (status !== undefined && status !== currentStatus) {
+    const next = nextReimbursementStatus(currentStatus)
+    if (!isReimbursementStatus(status)) {
+      errors.push('Invalid status')
+    } else if (status !== next) {
+      errors.push(next
+        ? `A ${REIMBURSEMENT_STATUS_LABELS[currentStatus].toLowerCase()} reimbursement can only be marked ${REIMBURSEMENT_STATUS_LABELS[next].toLowerCase()}`
+        : 'This reimbursement has already been paid')
+    }
+  }
+  if (paymentReference !== undefined && paymentReference !== null) {
+    if (typeof paymentReference !== 'string') {
+      errors.push('Payment reference must be a string')
+    } else if (paymentReference.trim().length > 255) {
+      errors.push('Payment reference must be 255 characters or less')
+    }
+  }
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  const updateData: Partial<typeof reimbursements.$inferInsert> = {
+    updatedAt: new Date(),
+  }
+  if (status === 'approved' && currentStatus === 'draft') {
+    updateData.status = 'approved'
+    updateData.approvedBy = user.id
+    updateData.approvedAt = new Date()
+  }
+  if (status === 'paid' && currentStatus === 'approved') {
+    updateData.status = 'paid'
+    updateData.paidBy = user.id
+    updateData.paidAt = new Date()
+  }
+  if (paymentReference !== undefined) {
+    updateData.paymentReference = paymentReference?.trim() || null
+  }
+
+  const [updated] = await db
+    .update(reimbursements)
+    .set(updateData)
+    .where(eq(reimbursements.id, reimbursementId))
+    .returning()
+
+  return res.status(200).json({
+    message: 'Reimbursement updated successfully',
+    reimbursement: updated,
+  })
+}
+
+// ===========================================
+// DELETE: Discard a draft, releasing its expenses
+// back to outstanding
+// ===========================================
+async function handleDelete(req: VercelRequest, res: VercelResponse, reimbursementId: string) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'reimbursements:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId } = auth
+
+  const [existing] = await db
+    .select({ id: reimbursements.id, status: reimbursements.status })
+    .from(reimbursements)
+    .where(and(
+      eq(reimbursements.id, reimbursementId),
+      eq(reimbursements.tenantId, tenantId)
+    ))
+    .limit(1)
+
+  if (!existing) {
+    return res.status(404).json({ error: 'Reimbursement not found' })
+  }
+
+  if (existing.status !== 'draft') {
+    return res.status(400).json({ error: 'Only draft reimbursements can be deleted' })
+  }
+
+  await db
+    .update(expenses)
+    .set({ reimbursementId: null })
+    .where(eq(expenses.reimbursementId, reimbursementId))
+
+  await db
+    .delete(reimbursements)
+    .where(eq(reimbursements.id, reimbursementId))
+
+  return res.status(200).json({
+    message: 'Reimbursement deleted successfully',
+    deletedId: reimbursementId,
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const reimbursementId = req.query.id as string
+
+  if (!reimbursementId) {
+    return res.status(400).json({ error: 'Reimbursement ID is required' })
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res, reimbursementId)
+      case 'PUT':
+        return handlePut(req, res, reimbursementId)
+      case 'DELETE':
+        return handleDelete(req, res, reimbursementId)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in reimbursement API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
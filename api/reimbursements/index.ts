@@ -0,0 +1,202 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { db } from '../../src/db/index.js'
+import { expenses, reimbursements, tenants, userTenantAccess, users } from '../../src/db/schema.js'
+import { eq, and, desc, inArray, isNull } from 'drizzle-orm'
+import { authenticateRequest } from '../_lib/auth.js'
+import { checkPermission } from '../_lib/permissions.js'
+import { getReimbursementBalances, getOutstandingExpenses } from '../_lib/reimbursements.js'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// ===========================================
+// GET: Balances and batches. Managers see everyone;
+// anyone else only sees what they're owed themselves.
+// Pass userId for that person's outstanding expenses too.
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const { tenantId, user } = auth
+  const canManage = checkPermission(auth, 'reimbursements:manage') === null
+
+  const requestedUserId = typeof req.query.userId === 'string' ? req.query.userId : null
+  if (requestedUserId && !UUID_PATTERN.test(requestedUserId)) {
+    return res.status(400).json({ error: 'Invalid user' })
+  }
+  if (requestedUserId && !canManage && requestedUserId !== user.id) {
+    return res.status(403).json({ error: checkPermission(auth, 'reimbursements:manage') })
+  }
+  const scopedUserId = canManage ? requestedUserId : user.id
+
+  const [[tenant], balances, batches, outstanding] = await Promise.all([
+    db
+      .select({ baseCurrency: tenants.baseCurrency })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1),
+    getReimbursementBalances(tenantId, scopedUserId ?? undefined),
+    db
+      .select({
+        id: reimbursements.id,
+        userId: reimbursements.userId,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        status: reimbursements.status,
+        total: reimbursements.total,
+        currency: reimbursements.currency,
+        approvedAt: reimbursements.approvedAt,
+        paidAt: reimbursements.paidAt,
+        paymentReference: reimbursements.paymentReference,
+        createdAt: reimbursements.createdAt,
+      })
+      .from(reimbursements)
+      .innerJoin(users, eq(reimbursements.userId, users.id))
+      .where(and(
+        eq(reimbursements.tenantId, tenantId),
+        scopedUserId ? eq(reimbursements.userId, scopedUserId) : undefined
+      ))
+      .orderBy(desc(reimbursements.createdAt)),
+    scopedUserId ? getOutstandingExpenses(tenantId, scopedUserId) : null,
+  ])
+
+  return res.status(200).json({
+    currency: tenant?.baseCurrency ?? 'USD',
+    canManage,
+    balances,
+    reimbursements: batches,
+    ...(outstanding && { outstanding }),
+  })
+}
+
+// ===========================================
+// POST: Draft a batch from a person's outstanding expenses
+// ===========================================
+async function handlePost(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const denied = checkPermission(auth, 'reimbursements:manage')
+  if (denied) {
+    return res.status(403).json({ error: denied })
+  }
+
+  const { tenantId, user } = auth
+  const { userId, expenseIds } = req.body ?? {}
+
+  // Validation
+  const errors: string[] = []
+  if (!userId || typeof userId !== 'string' || !UUID_PATTERN.test(userId)) {
+    errors.push('User is required')
+  }
+  if (expenseIds !== undefined && (
+    !Array.isArray(expenseIds)
+    || expenseIds.length === 0
+    || !expenseIds.every(id => typeof id === 'string' && UUID_PATTERN.test(id))
+  )) {
+    errors.push('Expense IDs must be a non-empty list of expense IDs')
+  }
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Validation failed', details: errors })
+  }
+
+  const [[member], [tenant]] = await Promise.all([
+    db
+      .select({ userId: userTenantAccess.userId })
+      .from(userTenantAccess)
+      .where(and(
+        eq(userTenantAccess.userId, userId),
+        eq(userTenantAccess.tenantId, tenantId)
+      ))
+      .limit(1),
+    db
+      .select({ baseCurrency: tenants.baseCurrency })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1),
+  ])
+
+  if (!member) {
+    return res.status(404).json({ error: 'Team member not found' })
+  }
+
+  // Every requested expense must still be outstanding for this person
+  const outstanding = await getOutstandingExpenses(tenantId, userId)
+  const selected = expenseIds === undefined
+    ? outstanding
+    : outstanding.filter(e => (expenseIds as string[]).includes(e.id))
+
+  if (selected.length === 0) {
+    return res.status(400).json({ error: 'No outstanding reimbursable expenses for this person' })
+  }
+  if (expenseIds !== undefined && selected.length !== new Set(expenseIds).size) {
+    return res.status(400).json({ error: 'Some expenses are not outstanding for this person' })
+  }
+
+  const [batch] = await db
+    .insert(reimbursements)
+    .values({
+      tenantId,
+      userId,
+      status: 'draft',
+      total: selected.reduce((sum, e) => sum + e.amount, 0),
+      currency: tenant?.baseCurrency ?? 'USD',
+      createdBy: user.id,
+    })
+    .returning()
+
+  // Only claim expenses nobody else batched in the meantime, then settle the total on what was claimed
+  const claimed = await db
+    .update(expenses)
+    .set({ reimbursementId: batch.id })
+    .where(and(
+      eq(expenses.tenantId, tenantId),
+      inArray(expenses.id, selected.map(e => e.id)),
+      isNull(expenses.reimbursementId)
+    ))
+    .returning({ amount: expenses.amount })
+
+  if (claimed.length === 0) {
+    await db.delete(reimbursements).where(eq(reimbursements.id, batch.id))
+    return res.status(409).json({ error: 'These expenses were just added to another reimbursement' })
+  }
+
+  const total = claimed.reduce((sum, e) => sum + e.amount, 0)
+  const [saved] = total === batch.total
+    ? [batch]
+    : await db
+        .update(reimbursements)
+        .set({ total })
+        .where(eq(reimbursements.id, batch.id))
+        .returning()
+
+  return res.status(201).json({
+    message: 'Reimbursement created successfully',
+    reimbursement: { ...saved, expenseCount: claimed.length },
+  })
+}
+
+// ===========================================
+// Main handler: Route by method
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      case 'POST':
+        return handlePost(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in reimbursements API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
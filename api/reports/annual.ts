@@ -1,8 +1,10 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { db } from '../../src/db/index.js'
-import { expenses, categories } from '../../src/db/schema.js'
-import { eq, and, gte, lt } from 'drizzle-orm'
+import { categories } from '../../src/db/schema.js'
+import { eq } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { getExpenseLines, countExpenses, getBaseCurrency, summarizeForeignCurrency, parseReportOptions } from '../_lib/reports.js'
+import { getPaymentAccounts } from '../_lib/payment-accounts.js'
 
 // ===========================================
 // GET: Annual summary report
@@ -16,28 +18,14 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
   const { tenantId } = auth
 
   const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear()
+  const options = parseReportOptions(req.query) // pending approvals are left out unless includePending=true
 
-  // Date range for SQL-level filtering
-  const startDate = new Date(year, 0, 1)
-  const endDate = new Date(year + 1, 0, 1)
-
-  // Fetch expenses for this year only (SQL-level date filter)
-  const yearExpenses = await db
-    .select({
-      id: expenses.id,
-      amount: expenses.amount,
-      date: expenses.date,
-      categoryId: expenses.categoryId,
-      expenseType: expenses.expenseType,
-      isHomeOffice: expenses.isHomeOffice,
-      homeOfficePercent: expenses.homeOfficePercent,
-    })
-    .from(expenses)
-    .where(and(
-      eq(expenses.tenantId, tenantId),
-      gte(expenses.date, startDate),
-      lt(expenses.date, endDate)
-    ))
+  // This year's expense lines — a split expense counts toward each of its categories
+  const [yearExpenses, currency, accounts] = await Promise.all([
+    getExpenseLines(tenantId, year, options),
+    getBaseCurrency(tenantId),
+    getPaymentAccounts(tenantId),
+  ])
 
   // Fetch categories for this tenant
   const tenantCategories = await db
@@ -57,12 +45,13 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
   }
 
   const monthlyTotals = new Array(12).fill(0)
-  const monthlyCounts = new Array(12).fill(0)
+  const monthlyExpenses = Array.from({ length: 12 }, () => new Set<string>())
   for (const exp of yearExpenses) {
     const month = new Date(exp.date).getMonth()
     monthlyTotals[month] += getEffectiveAmount(exp)
-    monthlyCounts[month] += 1
+    monthlyExpenses[month].add(exp.id)
   }
+  const monthlyCounts = monthlyExpenses.map((ids) => ids.size)
 
   const monthlyBreakdown = monthlyTotals.map((total, i) => ({
     month: i + 1,
@@ -104,8 +93,35 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
     })
     .sort((a, b) => b.amount - a.amount)
 
+  // ---- Payment Account Breakdown ----
+  // Full amounts charged (no home office share), so each total ties back to a statement
+  const accountTotals = new Map<string | null, { amount: number; expenseIds: Set<string> }>()
+  for (const exp of yearExpenses) {
+    const existing = accountTotals.get(exp.paymentAccountId) || { amount: 0, expenseIds: new Set<string>() }
+    existing.amount += exp.amount
+    existing.expenseIds.add(exp.id)
+    accountTotals.set(exp.paymentAccountId, existing)
+  }
+
+  const accountMap = new Map(accounts.map((a) => [a.id, a]))
+  const paymentAccountBreakdown = Array.from(accountTotals.entries())
+    .map(([accountId, data]) => {
+      const account = accountId ? accountMap.get(accountId) : undefined
+      return {
+        paymentAccountId: accountId,
+        name: account?.name || 'No account',
+        kind: account?.kind ?? null,
+        last4: account?.last4 ?? null,
+        isActive: account?.isActive ?? true,
+        amount: data.amount,
+        count: data.expenseIds.size,
+      }
+    })
+    // Unassigned spending goes last
+    .sort((a, b) => Number(a.paymentAccountId === null) - Number(b.paymentAccountId === null) || b.amount - a.amount)
+
   // ---- Top-line Summary ----
-  const expenseCount = yearExpenses.length
+  const expenseCount = countExpenses(yearExpenses)
   const activeMonths = monthlyCounts.filter((c) => c > 0).length
   const averagePerMonth = activeMonths > 0 ? Math.round(totalSpent / activeMonths) : 0
   const highestMonth = monthlyBreakdown.reduce(
@@ -123,6 +139,7 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
 
   return res.status(200).json({
     year,
+    currency,
     summary: {
       totalSpent,
       totalDeductible,
@@ -135,6 +152,8 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
     },
     monthlyBreakdown,
     categoryBreakdown,
+    paymentAccountBreakdown,
+    foreignCurrency: summarizeForeignCurrency(yearExpenses),
   })
 }
 
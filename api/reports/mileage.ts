@@ -1,8 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import { db } from '../../src/db/index.js'
-import { mileageTrips } from '../../src/db/schema.js'
-import { eq, and, asc, gte, lt } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
+import { getMileageLog } from '../_lib/reports.js'
 
 // ===========================================
 // GET: Mileage log report for a year
@@ -17,65 +15,7 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
 
   const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear()
 
-  // Date range for SQL-level filtering
-  const startDate = new Date(year, 0, 1)
-  const endDate = new Date(year + 1, 0, 1)
-
-  // Fetch mileage trips for this year only, sorted chronologically (oldest first for IRS report)
-  const yearTrips = await db
-    .select()
-    .from(mileageTrips)
-    .where(and(
-      eq(mileageTrips.tenantId, tenantId),
-      gte(mileageTrips.date, startDate),
-      lt(mileageTrips.date, endDate)
-    ))
-    .orderBy(asc(mileageTrips.date))
-
-  // Build report rows
-  const trips = yearTrips.map((trip) => ({
-    id: trip.id,
-    date: trip.date,
-    startLocation: trip.startLocation,
-    endLocation: trip.endLocation,
-    description: trip.description,
-    distanceMiles: trip.distanceMiles,
-    displayMiles: trip.isRoundTrip ? trip.distanceMiles * 2 : trip.distanceMiles,
-    isRoundTrip: trip.isRoundTrip,
-  }))
-
-  // Calculate summary
-  const totalMiles = trips.reduce((sum, t) => sum + t.displayMiles, 0)
-  const tripCount = trips.length
-  // IRS standard mileage rate for 2025: $0.70/mile
-  const mileageRate = 70 // cents per mile
-  const estimatedDeduction = Math.round((totalMiles / 100) * mileageRate)
-
-  // Monthly breakdown
-  const monthlyMiles = new Array(12).fill(0)
-  for (const trip of trips) {
-    const month = new Date(trip.date).getMonth()
-    monthlyMiles[month] += trip.displayMiles
-  }
-
-  const monthlyBreakdown = monthlyMiles.map((miles, i) => ({
-    month: i + 1,
-    label: new Date(year, i).toLocaleString('en-US', { month: 'long' }),
-    totalMiles: miles,
-    tripCount: trips.filter((t) => new Date(t.date).getMonth() === i).length,
-  })).filter((m) => m.totalMiles > 0 || m.tripCount > 0)
-
-  return res.status(200).json({
-    year,
-    trips,
-    summary: {
-      totalMiles,
-      tripCount,
-      estimatedDeduction,
-      mileageRate,
-    },
-    monthlyBreakdown,
-  })
+  return res.status(200).json(await getMileageLog(tenantId, year))
 }
 
 // ===========================================
@@ -93,4 +33,4 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     console.error('Error in mileage report API:', error)
     return res.status(500).json({ error: 'Internal server error' })
   }
-}
\ No newline at end of file
+}
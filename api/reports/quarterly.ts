@@ -1,15 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import { db } from '../../src/db/index.js'
-import { expenses, categories } from '../../src/db/schema.js'
-import { eq, and, desc, gte, lt } from 'drizzle-orm'
 import { authenticateRequest } from '../_lib/auth.js'
-
-// ===========================================
-// Helper: Get quarter (1-4) from a date
-// ===========================================
-function getQuarter(date: Date): number {
-  return Math.floor(date.getMonth() / 3) + 1
-}
+import { getQuarterlyReport, parseReportOptions } from '../_lib/reports.js'
 
 // ===========================================
 // GET: Quarterly breakdown by category
@@ -23,93 +14,9 @@ async function handleGet(req: VercelRequest, res: VercelResponse) {
   const { tenantId } = auth
 
   const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear()
+  const options = parseReportOptions(req.query) // pending approvals are left out unless includePending=true
 
-  // Date range for SQL-level filtering
-  const startDate = new Date(year, 0, 1)   // Jan 1 of year
-  const endDate = new Date(year + 1, 0, 1) // Jan 1 of next year
-
-  // Fetch expenses for this year only (SQL-level date filter)
-  const filtered = await db
-    .select({
-      amount: expenses.amount,
-      date: expenses.date,
-      categoryId: expenses.categoryId,
-      categoryName: categories.name,
-      categoryEmoji: categories.emoji,
-      isHomeOffice: expenses.isHomeOffice,
-      homeOfficePercent: expenses.homeOfficePercent,
-    })
-    .from(expenses)
-    .leftJoin(categories, eq(expenses.categoryId, categories.id))
-    .where(and(
-      eq(expenses.tenantId, tenantId),
-      gte(expenses.date, startDate),
-      lt(expenses.date, endDate)
-    ))
-    .orderBy(desc(expenses.date))
-
-  // Build category × quarter matrix
-  type QuarterlyRow = {
-    categoryId: string
-    name: string
-    emoji: string | null
-    q1: number
-    q2: number
-    q3: number
-    q4: number
-    total: number
-  }
-
-  // Helper: get effective (deductible) amount for an expense
-  function getEffectiveAmount(e: { amount: number; isHomeOffice?: boolean | null; homeOfficePercent?: number | null }): number {
-    if (e.isHomeOffice && e.homeOfficePercent) {
-      return Math.round(e.amount * e.homeOfficePercent / 100)
-    }
-    return e.amount
-  }
-
-  const matrix = new Map<string, QuarterlyRow>()
-
-  for (const expense of filtered) {
-    const key = expense.categoryId || 'uncategorized'
-    const quarter = getQuarter(new Date(expense.date))
-
-    if (!matrix.has(key)) {
-      matrix.set(key, {
-        categoryId: key,
-        name: expense.categoryName || 'Uncategorized',
-        emoji: expense.categoryEmoji,
-        q1: 0,
-        q2: 0,
-        q3: 0,
-        q4: 0,
-        total: 0,
-      })
-    }
-
-    const row = matrix.get(key)!
-    const qKey = `q${quarter}` as 'q1' | 'q2' | 'q3' | 'q4'
-    row[qKey] += getEffectiveAmount(expense)
-    row.total += getEffectiveAmount(expense)
-  }
-
-  // Sort by total descending
-  const rows = Array.from(matrix.values()).sort((a, b) => b.total - a.total)
-
-  // Calculate column totals
-  const totals = {
-    q1: rows.reduce((sum, r) => sum + r.q1, 0),
-    q2: rows.reduce((sum, r) => sum + r.q2, 0),
-    q3: rows.reduce((sum, r) => sum + r.q3, 0),
-    q4: rows.reduce((sum, r) => sum + r.q4, 0),
-    total: rows.reduce((sum, r) => sum + r.total, 0),
-  }
-
-  return res.status(200).json({
-    year,
-    rows,
-    totals,
-  })
+  return res.status(200).json(await getQuarterlyReport(tenantId, year, options))
 }
 
 // ===========================================
@@ -127,4 +34,4 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     console.error('Error in quarterly report API:', error)
     return res.status(500).json({ error: 'Internal server error' })
   }
-}
\ No newline at end of file
+}
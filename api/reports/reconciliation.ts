@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticateRequest } from '../_lib/auth.js'
+import { getReconciliation } from '../_lib/reconciliation.js'
+import { parseReportOptions } from '../_lib/reports.js'
+
+// ===========================================
+// GET: Receipts matched against imported bank transactions
+// ===========================================
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Cache-Control', 'no-store')
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const { tenantId } = auth
+
+  const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear()
+  const options = parseReportOptions(req.query) // pending approvals are left out unless includePending=true
+
+  return res.status(200).json(await getReconciliation(tenantId, year, options))
+}
+
+// ===========================================
+// Main handler
+// ===========================================
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return handleGet(req, res)
+      default:
+        return res.status(405).json({ error: 'Method not allowed' })
+    }
+  } catch (error) {
+    console.error('Error in reconciliation report API:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+}
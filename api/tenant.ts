@@ -23,6 +23,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         logoUrl: tenants.logoUrl,
         primaryColor: tenants.primaryColor,
         appName: tenants.appName,
+        baseCurrency: tenants.baseCurrency,
+        requireApproval: tenants.requireApproval,
+        scanProvider: tenants.scanProvider,
+        visionModel: tenants.visionModel,
         isActive: tenants.isActive,
       })
       .from(tenants)
@@ -17,9 +17,9 @@
  * 
  * Database deletion order (FK-safe):
  *   1. Leaf tables (rate limits, policies, invites, saved locations, vendor mappings, recurring, sessions, mileage)
- *   2. Expense attachments (FK → expenses)
- *   3. Expenses (FK → categories)
- *   4. Categories
+ *   2. Expense history, attachments and splits (FK → expenses)
+ *   3. Expenses (FK → categories, payment accounts, reimbursements), then reimbursements
+ *   4. Categories and payment accounts
  *   5. User tenant access records
  *   6. Users (only those whose primary tenant is this one AND who have no other tenant access)
  *   7. The tenant record itself
@@ -37,6 +37,11 @@ import {
   categories,
   expenses,
   expenseAttachments,
+  expenseSplits,
+  expenseHistory,
+  reimbursements,
+  receiptScans,
+  receiptInboxItems,
   mileageTrips,
   savedLocations,
   vendorCategoryMappings,
@@ -46,6 +51,7 @@ import {
   invites,
   expensePolicies,
   rateLimitUsage,
+  paymentAccounts,
 } from '../src/db/schema.js'
 
 // ============================================
@@ -208,6 +214,8 @@ async function main() {
   // Step 1: Leaf tables (no other tables reference these)
   const step1 = [
     { name: 'rate_limit_usage', fn: () => db.delete(rateLimitUsage).where(eq(rateLimitUsage.tenantId, tenantId)) },
+    { name: 'receipt_scans', fn: () => db.delete(receiptScans).where(eq(receiptScans.tenantId, tenantId)) },
+    { name: 'receipt_inbox_items', fn: () => db.delete(receiptInboxItems).where(eq(receiptInboxItems.tenantId, tenantId)) },
     { name: 'expense_policies', fn: () => db.delete(expensePolicies).where(eq(expensePolicies.tenantId, tenantId)) },
     { name: 'accountant_invites', fn: () => db.delete(accountantInvites).where(eq(accountantInvites.tenantId, tenantId)) },
     { name: 'invites', fn: () => db.delete(invites).where(eq(invites.tenantId, tenantId)) },
@@ -229,17 +237,25 @@ async function main() {
     if (counts[step.name]! > 0) console.log(`   ✓ ${step.name}`)
   }
 
-  // Step 2: Attachments (FK → expenses)
+  // Step 2: History, attachments and splits (FK → expenses)
+  await db.delete(expenseHistory).where(eq(expenseHistory.tenantId, tenantId))
+  if (counts.expense_history > 0) console.log(`   ✓ expense_history`)
   await db.delete(expenseAttachments).where(eq(expenseAttachments.tenantId, tenantId))
   if (counts.expense_attachments > 0) console.log(`   ✓ expense_attachments`)
+  await db.delete(expenseSplits).where(eq(expenseSplits.tenantId, tenantId))
+  if (counts.expense_splits > 0) console.log(`   ✓ expense_splits`)
 
-  // Step 3: Expenses (FK → categories)
+  // Step 3: Expenses (FK → categories, payment accounts, reimbursements), then their reimbursement batches
   await db.delete(expenses).where(eq(expenses.tenantId, tenantId))
   if (counts.expenses > 0) console.log(`   ✓ expenses`)
+  await db.delete(reimbursements).where(eq(reimbursements.tenantId, tenantId))
+  if (counts.reimbursements > 0) console.log(`   ✓ reimbursements`)
 
-  // Step 4: Categories
+  // Step 4: Categories and payment accounts
   await db.delete(categories).where(eq(categories.tenantId, tenantId))
   if (counts.categories > 0) console.log(`   ✓ categories`)
+  await db.delete(paymentAccounts).where(eq(paymentAccounts.tenantId, tenantId))
+  if (counts.payment_accounts > 0) console.log(`   ✓ payment_accounts`)
 
   // Step 5: User tenant access
   await db.delete(userTenantAccess).where(eq(userTenantAccess.tenantId, tenantId))
@@ -288,7 +304,13 @@ async function getCounts(tenantId: string): Promise<Record<string, number>> {
     user_tenant_access: await countQuery(userTenantAccess, userTenantAccess.tenantId),
     categories: await countQuery(categories, categories.tenantId),
     expenses: await countQuery(expenses, expenses.tenantId),
+    payment_accounts: await countQuery(paymentAccounts, paymentAccounts.tenantId),
     expense_attachments: await countQuery(expenseAttachments, expenseAttachments.tenantId),
+    expense_splits: await countQuery(expenseSplits, expenseSplits.tenantId),
+    expense_history: await countQuery(expenseHistory, expenseHistory.tenantId),
+    reimbursements: await countQuery(reimbursements, reimbursements.tenantId),
+    receipt_scans: await countQuery(receiptScans, receiptScans.tenantId),
+    receipt_inbox_items: await countQuery(receiptInboxItems, receiptInboxItems.tenantId),
     mileage_trips: await countQuery(mileageTrips, mileageTrips.tenantId),
     saved_locations: await countQuery(savedLocations, savedLocations.tenantId),
     vendor_category_mappings: await countQuery(vendorCategoryMappings, vendorCategoryMappings.tenantId),
@@ -0,0 +1,136 @@
+/**
+ * load-exchange-rates.ts — Load exchange rates from a local CSV file
+ *
+ * Usage:
+ *   npx tsx scripts/load-exchange-rates.ts <file.csv>
+ *
+ * The CSV needs a header row and three columns, in any order:
+ *   date,currency,units_per_usd
+ *   2025-03-03,EUR,0.9612
+ *   2025-03-03,JPY,150.42
+ *
+ * units_per_usd is how many units of the currency one US dollar buys (the
+ * way central-bank reference tables usually quote it). Rows for a date and
+ * currency already on file are overwritten; everything else is left alone,
+ * including the bundled defaults. No network access is needed — export the
+ * table from your bank or the ECB/Fed once and load it here.
+ *
+ * Requires in .env or environment:
+ *   - DATABASE_URL (Neon connection string)
+ */
+
+import 'dotenv/config'
+import { readFileSync } from 'node:fs'
+import { drizzle } from 'drizzle-orm/neon-http'
+import { neon } from '@neondatabase/serverless'
+import { sql } from 'drizzle-orm'
+import { exchangeRates } from '../src/db/schema.js'
+import { isCurrencyCode } from '../src/utils/currency.js'
+
+// ============================================
+// SETUP
+// ============================================
+const DATABASE_URL = process.env.DATABASE_URL
+if (!DATABASE_URL) {
+  console.error('❌ DATABASE_URL not set. Add it to .env or export it.')
+  process.exit(1)
+}
+
+const client = neon(DATABASE_URL)
+const db = drizzle(client)
+
+const file = process.argv[2]
+
+if (!file) {
+  console.error('❌ Usage: npx tsx scripts/load-exchange-rates.ts <file.csv>')
+  console.error('   Example: npx tsx scripts/load-exchange-rates.ts rates-2025.csv')
+  process.exit(1)
+}
+
+const BATCH_SIZE = 500
+
+// ============================================
+// PARSING
+// ============================================
+interface RateRow {
+  currency: string
+  effectiveDate: Date
+  unitsPerUsd: number
+}
+
+function parseRates(text: string): { rows: RateRow[]; errors: string[] } {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '')
+  const header = (lines.shift() ?? '').split(',').map(h => h.trim().toLowerCase())
+  const dateCol = header.indexOf('date')
+  const currencyCol = header.indexOf('currency')
+  const rateCol = header.indexOf('units_per_usd')
+
+  if (dateCol === -1 || currencyCol === -1 || rateCol === -1) {
+    return { rows: [], errors: ['Header must include date, currency and units_per_usd'] }
+  }
+
+  const rows: RateRow[] = []
+  const errors: string[] = []
+
+  lines.forEach((line, index) => {
+    const cells = line.split(',').map(c => c.trim())
+    const lineNo = index + 2
+    const date = cells[dateCol]
+    const currency = (cells[currencyCol] ?? '').toUpperCase()
+    const unitsPerUsd = parseFloat(cells[rateCol])
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') || isNaN(new Date(date).getTime())) {
+      errors.push(`Line ${lineNo}: invalid date "${date}"`)
+    } else if (currency === 'USD') {
+      // USD is the pivot — always 1
+    } else if (!isCurrencyCode(currency)) {
+      errors.push(`Line ${lineNo}: unsupported currency "${currency}"`)
+    } else if (!isFinite(unitsPerUsd) || unitsPerUsd <= 0) {
+      errors.push(`Line ${lineNo}: rate must be a positive number`)
+    } else {
+      rows.push({ currency, effectiveDate: new Date(date + 'T12:00:00.000Z'), unitsPerUsd })
+    }
+  })
+
+  return { rows, errors }
+}
+
+// ============================================
+// MAIN
+// ============================================
+async function main() {
+  const { rows, errors } = parseRates(readFileSync(file, 'utf8'))
+
+  if (errors.length > 0) {
+    console.error(`❌ ${errors.length} problem(s) in ${file}:`)
+    errors.slice(0, 20).forEach(e => console.error(`   ${e}`))
+    if (errors.length > 20) console.error(`   …and ${errors.length - 20} more`)
+    process.exit(1)
+  }
+
+  if (rows.length === 0) {
+    console.log('Nothing to load.')
+    return
+  }
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await db
+      .insert(exchangeRates)
+      .values(rows.slice(i, i + BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [exchangeRates.currency, exchangeRates.effectiveDate],
+        set: { unitsPerUsd: sql`excluded.units_per_usd` },
+      })
+  }
+
+  const currencies = [...new Set(rows.map(r => r.currency))].sort()
+  console.log(`✅ Loaded ${rows.length} rate(s) for ${currencies.join(', ')}`)
+}
+
+// ============================================
+// RUN
+// ============================================
+main().catch((err) => {
+  console.error('❌ Fatal error:', err)
+  process.exit(1)
+})
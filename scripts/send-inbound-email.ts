@@ -0,0 +1,88 @@
+/**
+ * send-inbound-email.ts — Post a fixture email to the inbound email webhook
+ *
+ * Usage:
+ *   npx tsx scripts/send-inbound-email.ts <fixture.json> <to-address> [--url http://localhost:3000]
+ *
+ * Stands in for the email provider when developing locally. The fixture is
+ * the webhook body without `to` (see scripts/fixtures/inbound-email/):
+ *   { from, subject?, date?, html?, text?,
+ *     attachments?: [{ filename, contentType, content (base64) | path, contentId? }] }
+ * Attachments given as `path` are read relative to the fixture and sent
+ * base64-encoded, the way the provider sends them. <to-address> is the
+ * workspace's inbound address from Settings → Email Receipts.
+ *
+ * Requires in .env or environment:
+ *   - INBOUND_EMAIL_SECRET (the same value the API is running with)
+ */
+
+import 'dotenv/config'
+import { readFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
+
+// ============================================
+// SETUP
+// ============================================
+const INBOUND_EMAIL_SECRET = process.env.INBOUND_EMAIL_SECRET
+if (!INBOUND_EMAIL_SECRET) {
+  console.error('❌ INBOUND_EMAIL_SECRET not set. Add it to .env or export it.')
+  process.exit(1)
+}
+
+const args = process.argv.slice(2)
+const urlFlag = args.indexOf('--url')
+const baseUrl = urlFlag >= 0 ? args.splice(urlFlag, 2)[1] : 'http://localhost:3000'
+const [fixturePath, to] = args
+
+if (!fixturePath || !to || !baseUrl) {
+  console.error('Usage: npx tsx scripts/send-inbound-email.ts <fixture.json> <to-address> [--url http://localhost:3000]')
+  process.exit(1)
+}
+
+interface FixtureAttachment {
+  filename: string
+  contentType: string
+  content?: string
+  path?: string
+  contentId?: string
+}
+
+// ============================================
+// MAIN
+// ============================================
+async function main() {
+  const fixture = JSON.parse(readFileSync(fixturePath, 'utf8'))
+  const attachments = ((fixture.attachments ?? []) as FixtureAttachment[]).map(({ path, ...attachment }) => ({
+    ...attachment,
+    content: path
+      ? readFileSync(resolve(dirname(fixturePath), path)).toString('base64')
+      : attachment.content,
+  }))
+
+  console.log(`📧 Sending "${fixture.subject ?? '(no subject)'}" to ${to}`)
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/inbound-email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${INBOUND_EMAIL_SECRET}`,
+    },
+    body: JSON.stringify({ ...fixture, to, attachments }),
+  })
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok) {
+    console.error(`❌ ${response.status}: ${result?.error ?? response.statusText}`)
+    process.exit(1)
+  }
+
+  console.log(`✅ ${result?.message ?? response.status}`)
+}
+
+// ============================================
+// RUN
+// ============================================
+main().catch((err) => {
+  console.error('❌ Fatal error:', err)
+  process.exit(1)
+})
@@ -5,13 +5,21 @@ import { LoginPage } from './pages/LoginPage'
 import { Layout } from './components/Layout'
 import DashboardPage from './pages/DashboardPage'
 import ExpensesPage from './pages/ExpensesPage'
+import ImportPage from './pages/ImportPage'
+import ReceiptInboxPage from './pages/ReceiptInboxPage'
 import MileagePage from './pages/MileagePage'
 import CategoriesPage from './pages/CategoriesPage'
+import RecurringPage from './pages/RecurringPage'
+import ReimbursementsPage from './pages/ReimbursementsPage'
+import ApprovalsPage from './pages/ApprovalsPage'
+import ReimbursementStatementPage from './pages/ReimbursementStatementPage'
 import ReportsPage from './pages/ReportsPage'
 import QuarterlyReportPage from './pages/QuarterlyReportPage'
+import SalesTaxReportPage from './pages/SalesTaxReportPage'
 import MileageReportPage from './pages/MileageReportPage'
 import AnnualSummaryPage from './pages/AnnualSummaryPage'
 import TaxSummaryPage from './pages/TaxSummaryPage'
+import ReconciliationPage from './pages/ReconciliationPage'
 import SettingsPage from './pages/SettingsPage'
 import AdminPage from './pages/AdminPage'
 import AdminDeletePage from './pages/AdminDeletePage'
@@ -54,13 +62,21 @@ function App() {
     <Layout>
       <Switch>
         <Route path="/" component={DashboardPage} />
+        <Route path="/expenses/import" component={ImportPage} />
+        <Route path="/expenses/inbox" component={ReceiptInboxPage} />
         <Route path="/expenses" component={ExpensesPage} />
+        <Route path="/approvals" component={ApprovalsPage} />
         <Route path="/mileage" component={MileagePage} />
         <Route path="/categories" component={CategoriesPage} />
+        <Route path="/recurring" component={RecurringPage} />
+        <Route path="/reimbursements/:id" component={ReimbursementStatementPage} />
+        <Route path="/reimbursements" component={ReimbursementsPage} />
         <Route path="/reports/tax" component={TaxSummaryPage} />
         <Route path="/reports/annual" component={AnnualSummaryPage} />
         <Route path="/reports/mileage" component={MileageReportPage} />
         <Route path="/reports/quarterly" component={QuarterlyReportPage} />
+        <Route path="/reports/sales-tax" component={SalesTaxReportPage} />
+        <Route path="/reports/reconciliation" component={ReconciliationPage} />
         <Route path="/reports" component={ReportsPage} />
         <Route path="/admin/delete" component={AdminDeletePage} />
         <Route path="/admin" component={AdminPage} />
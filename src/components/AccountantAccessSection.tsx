@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+import { formatDateShort } from '../utils/date-utils'
+
+interface Accountant {
+  userId: string
+  email: string
+  firstName: string | null
+  lastName: string | null
+  grantedAt: string
+  lastLoginAt: string | null
+}
+
+interface AccountantInvite {
+  id: string
+  email: string
+  status: 'pending' | 'expired'
+  expiresAt: string
+  createdAt: string
+}
+
+interface RevokeTarget {
+  kind: 'access' | 'invite'
+  id: string
+  label: string
+}
+
+/**
+ * Settings section for owners to invite their CPA and manage
+ * accountant access. Accountants always get read-only access.
+ */
+export function AccountantAccessSection() {
+  const { subdomain } = useTenant()
+
+  const [accountants, setAccountants] = useState<Accountant[]>([])
+  const [invites, setInvites] = useState<AccountantInvite[]>([])
+  const [loading, setLoading] = useState(true)
+  const [listKey, setListKey] = useState(0)
+
+  // Invite form state
+  const [email, setEmail] = useState('')
+  const [sending, setSending] = useState(false)
+  const [inviteError, setInviteError] = useState<string | null>(null)
+  const [inviteSent, setInviteSent] = useState(false)
+
+  // Revoke confirmation state
+  const [revoking, setRevoking] = useState<RevokeTarget | null>(null)
+  const [revokeSubmitting, setRevokeSubmitting] = useState(false)
+
+  // ============================================
+  // FETCH ACCOUNTANTS + INVITES
+  // ============================================
+  useEffect(() => {
+    if (!subdomain) return
+    async function fetchAccess() {
+      try {
+        const response = await fetch(`/api/accountants?tenant=${subdomain}`)
+        if (!response.ok) return
+        const data = await response.json()
+        setAccountants(data.accountants)
+        setInvites(data.invites)
+      } catch (err) {
+        console.error('Error fetching accountants:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchAccess()
+  }, [subdomain, listKey])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setSending(true)
+    setInviteError(null)
+    setInviteSent(false)
+    try {
+      const response = await fetch(`/api/accountants?tenant=${subdomain}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim() }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.join(', ') || data.error || 'Failed to send invite')
+      }
+      setEmail('')
+      setInviteSent(true)
+      setTimeout(() => setInviteSent(false), 2000)
+      setListKey(k => k + 1)
+    } catch (err) {
+      setInviteError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  async function handleRevokeConfirm() {
+    if (!revoking) return
+
+    const url = revoking.kind === 'access'
+      ? `/api/accountants/${revoking.id}?tenant=${subdomain}`
+      : `/api/accountants/invites/${revoking.id}?tenant=${subdomain}`
+
+    try {
+      setRevokeSubmitting(true)
+      const response = await fetch(url, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to revoke')
+      }
+      setRevoking(null)
+      setListKey(k => k + 1)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setRevokeSubmitting(false)
+    }
+  }
+
+  function accountantName(a: Accountant) {
+    const name = [a.firstName, a.lastName].filter(Boolean).join(' ')
+    return name || a.email
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section__title">Accountant Access</h2>
+      <div className="card">
+        {loading ? (
+          <div className="settings-row">
+            <span className="settings-row__description">Loading...</span>
+          </div>
+        ) : (
+          <>
+            {accountants.map(a => (
+              <div key={a.userId} className="settings-row">
+                <div className="settings-row__label">
+                  <span className="settings-row__title">{accountantName(a)}</span>
+                  <span className="settings-row__description">
+                    {a.firstName || a.lastName ? `${a.email} · ` : ''}
+                    Read-only since {formatDateShort(a.grantedAt)}
+                  </span>
+                </div>
+                <button
+                  className="btn btn--danger-outline btn--sm"
+                  onClick={() => setRevoking({ kind: 'access', id: a.userId, label: accountantName(a) })}
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+            {invites.map(invite => (
+              <div key={invite.id} className="settings-row">
+                <div className="settings-row__label">
+                  <span className="settings-row__title">{invite.email}</span>
+                  <span className="settings-row__description">
+                    {invite.status === 'expired'
+                      ? 'Invite expired'
+                      : `Invite pending · expires ${formatDateShort(invite.expiresAt)}`}
+                  </span>
+                </div>
+                <button
+                  className="btn btn--secondary btn--sm"
+                  onClick={() => setRevoking({ kind: 'invite', id: invite.id, label: invite.email })}
+                >
+                  {invite.status === 'expired' ? 'Remove' : 'Cancel'}
+                </button>
+              </div>
+            ))}
+          </>
+        )}
+
+        {/* Invite form */}
+        <form className="settings-row settings-row--last accountant-invite-form" onSubmit={handleInvite}>
+          <div className="settings-row__label">
+            <span className="settings-row__title">Invite your accountant</span>
+            <span className="settings-row__description">
+              They'll get read-only access to your expenses and reports
+              {inviteSent && <span className="settings-row__saved"> — Invite sent!</span>}
+            </span>
+          </div>
+          <div className="accountant-invite-form__controls">
+            <input
+              type="email"
+              className="form-input"
+              placeholder="cpa@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={sending}
+            />
+            <button type="submit" className="btn btn--primary btn--sm" disabled={sending || !email.trim()}>
+              {sending ? 'Sending...' : 'Send Invite'}
+            </button>
+          </div>
+        </form>
+        {inviteError && <div className="form-error">{inviteError}</div>}
+      </div>
+
+      {/* ============================================
+         REVOKE CONFIRMATION MODAL
+         ============================================ */}
+      {revoking && (
+        <>
+          <div className="sheet-backdrop sheet-backdrop--open" onClick={() => setRevoking(null)} />
+          <div className="delete-modal">
+            <h3 className="delete-modal__title">
+              {revoking.kind === 'access' ? `Revoke access for ${revoking.label}?` : `Cancel invite to ${revoking.label}?`}
+            </h3>
+            <p className="delete-modal__body">
+              {revoking.kind === 'access'
+                ? 'They will no longer be able to see your expenses. You can invite them again later.'
+                : 'The invite link will stop working.'}
+            </p>
+            <div className="delete-modal__actions">
+              <button
+                className="btn btn--secondary"
+                onClick={() => setRevoking(null)}
+                disabled={revokeSubmitting}
+              >
+                Keep
+              </button>
+              <button
+                className="btn btn--danger"
+                onClick={handleRevokeConfirm}
+                disabled={revokeSubmitting}
+              >
+                {revokeSubmitting ? 'Revoking...' : 'Revoke'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
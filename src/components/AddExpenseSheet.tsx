@@ -10,6 +10,12 @@ import {
   formatFileSize,
   ALLOWED_FILE_ACCEPT,
 } from '../utils/attachment-upload'
+import { DEFAULT_CURRENCY, currencyDecimals, currencySymbol, toMinorUnits } from '../utils/currency'
+import { CurrencyFields } from './CurrencyFields'
+import { SalesTaxFields } from './SalesTaxFields'
+import { PaymentAccountSelect } from './PaymentAccountSelect'
+import { usePaymentAccounts } from '../hooks/usePaymentAccounts'
+import { matchPaymentAccount } from '../utils/payment-accounts'
 
 const MAX_ATTACHMENTS = 2
 
@@ -22,6 +28,14 @@ interface Category {
   homeOfficeEligible?: boolean
 }
 
+interface CategorySuggestion {
+  categoryId: string
+  categoryName: string
+  categoryEmoji: string | null
+  useCount: number
+  confidence: number
+}
+
 interface AddExpenseSheetProps {
   isOpen: boolean
   onClose: () => void
@@ -31,11 +45,17 @@ interface AddExpenseSheetProps {
 }
 
 export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategoryId, preselectedCategoryName }: AddExpenseSheetProps) {
-  const { subdomain } = useTenant()
+  const { subdomain, tenant } = useTenant()
   const { scanResult, isScanning, scanError, scanReceipt, clearScan } = useScanReceipt()
+  const { accounts: paymentAccounts } = usePaymentAccounts()
 
   // Form state
   const [amount, setAmount] = useState('')
+  const [currency, setCurrency] = useState('') // '' = base currency
+  const [exchangeRate, setExchangeRate] = useState('')
+  const [taxAmount, setTaxAmount] = useState('')
+  const [taxRate, setTaxRate] = useState('')
+  const [paymentAccountId, setPaymentAccountId] = useState('')
   const [vendor, setVendor] = useState('')
   const [description, setDescription] = useState('')
   const [date, setDate] = useState(() => {
@@ -45,8 +65,12 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
   const [categoryId, setCategoryId] = useState('')
   const [expenseType, setExpenseType] = useState<'operating' | 'cogs'>('operating')
   const [isHomeOffice, setIsHomeOffice] = useState(false)
+  const [isReimbursable, setIsReimbursable] = useState(false)
   const [extractedText, setExtractedText] = useState<string | null>(null)
 
+  const expenseCurrency = currency || tenant?.baseCurrency || DEFAULT_CURRENCY
+  const amountStep = currencyDecimals(expenseCurrency) === 0 ? '1' : '0.01'
+
   // UI state
   const [categories, setCategories] = useState<Category[]>([])
   const [loadingCategories, setLoadingCategories] = useState(true)
@@ -61,6 +85,10 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
   const [homeOfficeConfigured, setHomeOfficeConfigured] = useState(false)
   const [homeOfficeIgnored, setHomeOfficeIgnored] = useState(false)
 
+  // Vendor → category suggestion (learned from past expenses)
+  const [categorySuggestion, setCategorySuggestion] = useState<CategorySuggestion | null>(null)
+  const [categoryTouched, setCategoryTouched] = useState(false)
+
   // Derived: selected category properties
   const selectedCategory = categories.find(c => c.id === categoryId)
   const showHomeOfficeCheckbox = selectedCategory?.homeOfficeEligible === true && !homeOfficeIgnored
@@ -118,11 +146,48 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
     fetchCategories()
   }, [isOpen, subdomain])
 
+  // Look up the usual category for this vendor (typed or filled by scan).
+  // It's applied automatically unless the category was picked on purpose.
+  useEffect(() => {
+    if (!isOpen || !subdomain || vendor.trim().length < 2) {
+      setCategorySuggestion(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/categories/suggest?tenant=${subdomain}&vendor=${encodeURIComponent(vendor.trim())}`
+        )
+        if (!response.ok || cancelled) return
+        const { suggestion } = await response.json()
+        if (cancelled) return
+        setCategorySuggestion(suggestion)
+        if (suggestion && !categoryTouched && !preselectedCategoryId && !preselectedCategoryName) {
+          setCategoryId(suggestion.categoryId)
+        }
+      } catch (err) {
+        console.error('Error fetching category suggestion:', err)
+      }
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [vendor, isOpen, subdomain, categoryTouched, preselectedCategoryId, preselectedCategoryName])
+
   // Reset form when sheet closes (including pending attachments and scan state)
   useEffect(() => {
     if (!isOpen) {
       const timer = setTimeout(() => {
         setAmount('')
+        setCurrency('')
+        setExchangeRate('')
+        setTaxAmount('')
+        setTaxRate('')
+        setPaymentAccountId('')
         setVendor('')
         setDescription('')
         const now = new Date()
@@ -130,7 +195,10 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
         setCategoryId('')
         setExpenseType('operating')
         setIsHomeOffice(false)
+        setIsReimbursable(false)
         setExtractedText(null)
+        setCategorySuggestion(null)
+        setCategoryTouched(false)
         setError(null)
         setPendingAttachments([])
         setUploadProgress({ status: 'idle' })
@@ -148,6 +216,16 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
     if (!amount && result.total?.value != null) {
       setAmount(Number(result.total.value).toFixed(2))
     }
+    if (!taxAmount && !taxRate && result.tax?.value != null) {
+      const tax = Number(result.tax.value)
+      const subtotal = Number(result.subtotal?.value)
+      setTaxAmount(tax.toFixed(2))
+      if (subtotal > 0) setTaxRate(String(Math.round(tax / subtotal * 100000) / 1000))
+    }
+    if (!paymentAccountId && result.paymentMethod?.value) {
+      const match = matchPaymentAccount(String(result.paymentMethod.value), paymentAccounts.filter(a => a.isActive))
+      if (match) setPaymentAccountId(match.id)
+    }
     if (!vendor && result.vendor?.value) {
       setVendor(String(result.vendor.value))
     }
@@ -213,11 +291,16 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
     e.preventDefault()
     setError(null)
 
-    const amountNum = parseFloat(amount)
-    if (!amount || isNaN(amountNum) || amountNum <= 0) {
+    const amountMinor = toMinorUnits(amount, expenseCurrency)
+    if (!amount || isNaN(amountMinor) || amountMinor <= 0) {
       setError('Please enter a valid amount')
       return
     }
+    const taxMinor = taxAmount ? toMinorUnits(taxAmount, expenseCurrency) : null
+    if (taxMinor !== null && (isNaN(taxMinor) || taxMinor < 0 || taxMinor >= amountMinor)) {
+      setError('Sales tax must be less than the amount')
+      return
+    }
     if (!date) {
       setError('Please select a date')
       return
@@ -230,19 +313,23 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
     try {
       setSubmitting(true)
 
-      const amountCents = Math.round(amountNum * 100)
-
       const response = await fetch(`/api/expenses?tenant=${subdomain}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          amount: amountCents,
+          amount: amountMinor,
+          currency: expenseCurrency,
+          exchangeRate: exchangeRate ? parseFloat(exchangeRate) : undefined,
+          taxAmount: taxMinor ?? undefined,
+          taxRate: taxRate ? parseFloat(taxRate) : undefined,
+          paymentAccountId: paymentAccountId || null,
           date: date + 'T12:00:00.000Z',
           categoryId,
           vendor: vendor.trim() || null,
           description: description.trim() || null,
           expenseType,
           isHomeOffice,
+          isReimbursable,
           extractedText,
         }),
       })
@@ -295,7 +382,7 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
   }
 
   // Check if a field was populated by scan
-  function wasScanned(fieldName: 'total' | 'vendor' | 'date'): number | undefined {
+  function wasScanned(fieldName: 'total' | 'vendor' | 'date' | 'tax' | 'paymentMethod'): number | undefined {
     if (!scanResult) return undefined
     const field = scanResult[fieldName]
     if (field?.value != null) return field.confidence
@@ -428,7 +515,7 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
                           onClick={() => handleScan(att.blobUrl, att.fileType)}
                           disabled={isScanning}
                         >
-                          {isScanning ? 'Scanning...' : '🔍 Scan Receipt with AI'}
+                          {isScanning ? 'Scanning...' : tenant?.scanProvider === 'local' ? '🔍 Scan Receipt' : '🔍 Scan Receipt with AI'}
                         </button>
                       )}
                     </div>
@@ -458,14 +545,14 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
               Amount * {confidenceDot(wasScanned('total'))}
             </label>
             <div className="input-with-prefix">
-              <span className="input-prefix">$</span>
+              <span className="input-prefix">{currencySymbol(expenseCurrency)}</span>
               <input
                 type="number"
                 id="amount"
                 className="form-input form-input--with-prefix"
-                placeholder="0.00"
-                step="0.01"
-                min="0.01"
+                placeholder={amountStep === '1' ? '0' : '0.00'}
+                step={amountStep}
+                min={amountStep}
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 required
@@ -475,6 +562,27 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
             {scanSuggestion('total', () => setAmount(String(scanResult!.total.value)))}
           </div>
 
+          {/* Currency */}
+          <CurrencyFields
+            currency={expenseCurrency}
+            onCurrencyChange={setCurrency}
+            exchangeRate={exchangeRate}
+            onExchangeRateChange={setExchangeRate}
+            amount={amount}
+            date={date}
+          />
+
+          {/* Sales tax / VAT */}
+          <SalesTaxFields
+            taxAmount={taxAmount}
+            onTaxAmountChange={setTaxAmount}
+            taxRate={taxRate}
+            onTaxRateChange={setTaxRate}
+            amount={amount}
+            currency={expenseCurrency}
+            labelExtra={confidenceDot(wasScanned('tax'))}
+          />
+
           {/* Date */}
           <div className="form-group">
             <label htmlFor="date" className="form-label">
@@ -496,7 +604,9 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
 
           {/* Category */}
           <div className="form-group">
-            <label htmlFor="category" className="form-label">Category *</label>
+            <label htmlFor="category" className="form-label">
+              Category * {categorySuggestion?.categoryId === categoryId && confidenceDot(categorySuggestion.confidence)}
+            </label>
             {loadingCategories ? (
               <div className="form-input form-input--loading">Loading categories...</div>
             ) : (
@@ -504,7 +614,10 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
                 id="category"
                 className="form-input form-select"
                 value={categoryId}
-                onChange={(e) => setCategoryId(e.target.value)}
+                onChange={(e) => {
+                  setCategoryId(e.target.value)
+                  setCategoryTouched(true)
+                }}
                 required
               >
                 <option value="" disabled>Select a category</option>
@@ -515,6 +628,15 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
                 ))}
               </select>
             )}
+            {categorySuggestion && (categorySuggestion.categoryId === categoryId ? (
+              <span className="form-hint">
+                Suggested from {categorySuggestion.useCount} past expense{categorySuggestion.useCount !== 1 ? 's' : ''} at this vendor
+              </span>
+            ) : (
+              <button type="button" className="scan-suggestion" onClick={() => setCategoryId(categorySuggestion.categoryId)}>
+                Usual for this vendor: {categorySuggestion.categoryEmoji} {categorySuggestion.categoryName}
+              </button>
+            ))}
           </div>
 
           {/* Home Office Checkbox */}
@@ -557,6 +679,32 @@ export function AddExpenseSheet({ isOpen, onClose, onSuccess, preselectedCategor
             {scanSuggestion('vendor', () => setVendor(String(scanResult!.vendor.value)))}
           </div>
 
+          {/* Payment Account */}
+          <PaymentAccountSelect
+            id="paymentAccount"
+            accounts={paymentAccounts}
+            value={paymentAccountId}
+            onChange={setPaymentAccountId}
+            labelExtra={paymentAccountId ? confidenceDot(wasScanned('paymentMethod')) : null}
+          />
+
+          {/* Reimbursable */}
+          <div className="form-group">
+            <label className="home-office-checkbox">
+              <input
+                type="checkbox"
+                checked={isReimbursable}
+                onChange={(e) => setIsReimbursable(e.target.checked)}
+              />
+              <span className="home-office-checkbox__label">
+                💸 Paid Out of Pocket
+              </span>
+              <span className="home-office-checkbox__hint">
+                The business owes this back to you — it's added to your reimbursement balance
+              </span>
+            </label>
+          </div>
+
           {/* Description */}
           <div className="form-group">
             <label htmlFor="description" className="form-label">Description</label>
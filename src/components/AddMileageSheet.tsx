@@ -21,8 +21,19 @@ interface AddMileageSheetProps {
 interface PlaceData {
   address: string
   location: { lat: number; lng: number } | null
+  picked?: boolean // Came from a quick-pick chip — routed by address instead of coordinates
 }
 
+interface QuickPick {
+  key: string
+  label: string
+  address: string
+  icon: string
+}
+
+// A place we can hand to the Distance Matrix
+const isRoutable = (place: PlaceData) => !!place.location || (!!place.picked && !!place.address)
+
 export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetProps) {
   const { subdomain } = useTenant()
   
@@ -44,6 +55,7 @@ export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetP
   const [error, setError] = useState<string | null>(null)
   const [calculatingDistance, setCalculatingDistance] = useState(false)
   const [googleLoaded, setGoogleLoaded] = useState(false)
+  const [quickPicks, setQuickPicks] = useState<QuickPick[]>([])
   
   // Refs for the autocomplete containers
   const startContainerRef = useRef<HTMLDivElement>(null)
@@ -86,6 +98,34 @@ export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetP
     document.head.appendChild(script)
   }, [])
 
+  // Fetch saved locations + frequent destinations for the quick-pick chips
+  useEffect(() => {
+    if (!isOpen || !subdomain) return
+
+    async function fetchQuickPicks() {
+      try {
+        const response = await fetch(`/api/locations?tenant=${subdomain}`)
+        if (!response.ok) return
+        const data: {
+          locations: { id: string; name: string; address: string }[]
+          frequent: { address: string; tripCount: number }[]
+        } = await response.json()
+        setQuickPicks([
+          ...data.locations.map(l => ({ key: l.id, label: l.name, address: l.address, icon: '📍' })),
+          ...data.frequent.map(f => ({
+            key: `frequent:${f.address}`,
+            label: f.address.split(',')[0],
+            address: f.address,
+            icon: '🔁',
+          })),
+        ])
+      } catch (err) {
+        console.error('Error fetching saved locations:', err)
+      }
+    }
+    fetchQuickPicks()
+  }, [isOpen, subdomain])
+
   // Initialize autocomplete elements when Google is loaded and sheet is open
   useEffect(() => {
     if (!googleLoaded || !isOpen) return
@@ -154,7 +194,7 @@ export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetP
 
   // Calculate distance when both locations are set
   const calculateDistance = useCallback(async () => {
-    if (!startLocation.location || !endLocation.location) {
+    if (!isRoutable(startLocation) || !isRoutable(endLocation)) {
       return
     }
 
@@ -166,8 +206,8 @@ export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetP
       const service = new DistanceMatrixService()
       
       const response = await service.getDistanceMatrix({
-        origins: [startLocation.location],
-        destinations: [endLocation.location],
+        origins: [startLocation.location ?? startLocation.address],
+        destinations: [endLocation.location ?? endLocation.address],
         travelMode: google.maps.TravelMode.DRIVING,
         unitSystem: google.maps.UnitSystem.IMPERIAL,
       })
@@ -190,14 +230,14 @@ export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetP
     } finally {
       setCalculatingDistance(false)
     }
-  }, [startLocation.location, endLocation.location])
+  }, [startLocation, endLocation])
 
   // Trigger distance calculation when both places are selected
   useEffect(() => {
-    if (startLocation.location && endLocation.location && !useManualDistance) {
+    if (isRoutable(startLocation) && isRoutable(endLocation) && googleLoaded && !useManualDistance) {
       calculateDistance()
     }
-  }, [startLocation.location, endLocation.location, calculateDistance, useManualDistance])
+  }, [startLocation, endLocation, calculateDistance, googleLoaded, useManualDistance])
 
   // Reset form when sheet closes
   useEffect(() => {
@@ -225,6 +265,43 @@ export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetP
     }
   }, [isOpen])
 
+  // Renders the chips under a location field. With autocomplete active, a pick
+  // replaces the search box with a pill; in manual mode it just fills the input.
+  function renderQuickPicks(place: PlaceData, setPlace: (place: PlaceData) => void) {
+    if (quickPicks.length === 0) return null
+    return (
+      <div className="location-chips">
+        {quickPicks.map(pick => (
+          <button
+            key={pick.key}
+            type="button"
+            className={`location-chip ${place.picked && place.address === pick.address ? 'location-chip--active' : ''}`}
+            onClick={() => setPlace({ address: pick.address, location: null, picked: true })}
+            title={pick.address}
+          >
+            {pick.icon} {pick.label}
+          </button>
+        ))}
+      </div>
+    )
+  }
+
+  function renderPickedLocation(place: PlaceData, setPlace: (place: PlaceData) => void) {
+    return (
+      <div className="location-picked">
+        <span className="location-picked__address">{place.address}</span>
+        <button
+          type="button"
+          className="location-picked__clear"
+          onClick={() => setPlace({ address: '', location: null })}
+          aria-label="Clear location"
+        >
+          ✕
+        </button>
+      </div>
+    )
+  }
+
   // Format miles for display (stored as miles * 100)
   const formatMiles = (miles: number) => (miles / 100).toFixed(1)
 
@@ -353,7 +430,15 @@ export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetP
           <div className="form-group">
             <label className="form-label">Start Location *</label>
             {googleLoaded && !useManualDistance ? (
-              <div ref={startContainerRef} className="autocomplete-container" />
+              <>
+                {/* Hidden rather than unmounted so the autocomplete element survives */}
+                <div
+                  ref={startContainerRef}
+                  className="autocomplete-container"
+                  style={startLocation.picked ? { display: 'none' } : undefined}
+                />
+                {startLocation.picked && renderPickedLocation(startLocation, setStartLocation)}
+              </>
             ) : (
               <input
                 type="text"
@@ -364,13 +449,22 @@ export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetP
                 required
               />
             )}
+            {renderQuickPicks(startLocation, setStartLocation)}
           </div>
 
           {/* End Location */}
           <div className="form-group">
             <label className="form-label">End Location *</label>
             {googleLoaded && !useManualDistance ? (
-              <div ref={endContainerRef} className="autocomplete-container" />
+              <>
+                {/* Hidden rather than unmounted so the autocomplete element survives */}
+                <div
+                  ref={endContainerRef}
+                  className="autocomplete-container"
+                  style={endLocation.picked ? { display: 'none' } : undefined}
+                />
+                {endLocation.picked && renderPickedLocation(endLocation, setEndLocation)}
+              </>
             ) : (
               <input
                 type="text"
@@ -381,6 +475,7 @@ export function AddMileageSheet({ isOpen, onClose, onSuccess }: AddMileageSheetP
                 required
               />
             )}
+            {renderQuickPicks(endLocation, setEndLocation)}
           </div>
 
           {/* Distance Display / Manual Entry */}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react'
 import { useTenant } from '../hooks/useTenant'
+import { SCHEDULE_C_LINES, formatScheduleCLine } from '../utils/schedule-c'
 
 // ============================================
 // CURATED EMOJI LIST
@@ -34,6 +35,7 @@ interface CategorySheetProps {
     emoji: string | null
     expenseType: string
     homeOfficeEligible: boolean
+    scheduleCLine: string | null
     isSystem: boolean
   } | null
 }
@@ -47,6 +49,7 @@ export function CategorySheet({ isOpen, onClose, onSuccess, editCategory }: Cate
   const [emoji, setEmoji] = useState('📁')
   const [expenseType, setExpenseType] = useState<'operating' | 'cogs'>('operating')
   const [homeOfficeEligible, setHomeOfficeEligible] = useState(false)
+  const [scheduleCLine, setScheduleCLine] = useState('')
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
 
   // UI state
@@ -62,6 +65,7 @@ export function CategorySheet({ isOpen, onClose, onSuccess, editCategory }: Cate
       const type = editCategory.expenseType === 'home_office' ? 'operating' : editCategory.expenseType
       setExpenseType(type as 'operating' | 'cogs')
       setHomeOfficeEligible(editCategory.homeOfficeEligible)
+      setScheduleCLine(editCategory.scheduleCLine ?? '')
       setShowEmojiPicker(false)
       setError(null)
     }
@@ -76,6 +80,7 @@ export function CategorySheet({ isOpen, onClose, onSuccess, editCategory }: Cate
           setEmoji('📁')
           setExpenseType('operating')
           setHomeOfficeEligible(false)
+          setScheduleCLine('')
         }
         setShowEmojiPicker(false)
         setError(null)
@@ -101,6 +106,7 @@ export function CategorySheet({ isOpen, onClose, onSuccess, editCategory }: Cate
         emoji,
         expenseType,
         homeOfficeEligible,
+        scheduleCLine: scheduleCLine || null,
       }
 
       const url = isEditing
@@ -245,6 +251,26 @@ export function CategorySheet({ isOpen, onClose, onSuccess, editCategory }: Cate
             </div>
           </div>
 
+          {/* Schedule C line */}
+          <div className="form-group">
+            <label htmlFor="scheduleCLine" className="form-label">Schedule C Line</label>
+            <select
+              id="scheduleCLine"
+              className="form-input form-select"
+              value={scheduleCLine}
+              onChange={(e) => setScheduleCLine(e.target.value)}
+            >
+              <option value="">Not set</option>
+              {SCHEDULE_C_LINES.map(line => (
+                <option key={line.line} value={line.line}>{formatScheduleCLine(line)}</option>
+              ))}
+            </select>
+            <span className="form-hint">
+              Where these expenses are totaled on the Schedule C tax summary. COGS and
+              home office expenses always go to lines 4 and 30.
+            </span>
+          </div>
+
           {/* Home Office Eligible toggle — always visible */}
           <div className="form-group form-group--horizontal">
             <div>
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, toMinorUnits, convertMinorUnits } from '../utils/currency'
+
+interface CurrencyFieldsProps {
+  currency: string
+  onCurrencyChange: (currency: string) => void
+  exchangeRate: string // typed override; '' uses the rate on file
+  onExchangeRateChange: (rate: string) => void
+  amount: string       // typed amount in `currency`, for the conversion preview
+  date: string         // YYYY-MM-DD — rates are looked up for the expense date
+}
+
+/**
+ * Currency picker for an expense, plus the exchange rate and converted
+ * amount when it isn't the base currency. The API converts on save; the
+ * preview here uses the same rate table.
+ */
+export function CurrencyFields({ currency, onCurrencyChange, exchangeRate, onExchangeRateChange, amount, date }: CurrencyFieldsProps) {
+  const { tenant, subdomain } = useTenant()
+  const baseCurrency = tenant?.baseCurrency ?? DEFAULT_CURRENCY
+  const isForeign = currency !== baseCurrency
+  const lookupKey = `${currency}|${date}`
+  const [lookup, setLookup] = useState<{ key: string; rate: number | null } | null>(null)
+  const tableRate = isForeign && lookup?.key === lookupKey ? lookup.rate : null
+
+  // Look up the rate on file for the expense date
+  useEffect(() => {
+    if (!isForeign || !subdomain || !date) return
+    let cancelled = false
+    async function fetchRate() {
+      try {
+        const response = await fetch(`/api/exchange-rates?tenant=${subdomain}&date=${date}`)
+        if (!response.ok) return
+        const data = await response.json()
+        const match = data.rates.find((r: { currency: string }) => r.currency === currency)
+        if (!cancelled) setLookup({ key: `${currency}|${date}`, rate: match?.rate ?? null })
+      } catch (err) {
+        console.error('Error fetching exchange rate:', err)
+      }
+    }
+    fetchRate()
+    return () => { cancelled = true }
+  }, [isForeign, currency, date, subdomain])
+
+  const typedRate = parseFloat(exchangeRate)
+  const rate = exchangeRate && !isNaN(typedRate) && typedRate > 0 ? typedRate : tableRate
+  const minor = toMinorUnits(amount, currency)
+  const converted = rate !== null && !isNaN(minor) && minor > 0
+    ? convertMinorUnits(minor, currency, baseCurrency, rate)
+    : null
+
+  return (
+    <div className="form-group">
+      <label htmlFor="currency" className="form-label">Currency</label>
+      <div className="currency-fields">
+        <select
+          id="currency"
+          className="form-input currency-fields__select"
+          value={currency}
+          onChange={(e) => {
+            onCurrencyChange(e.target.value)
+            onExchangeRateChange('')
+          }}
+        >
+          {CURRENCIES.map(c => (
+            <option key={c.code} value={c.code}>{c.code} — {c.name}</option>
+          ))}
+        </select>
+        {isForeign && (
+          <input
+            type="number"
+            className="form-input currency-fields__rate"
+            placeholder={tableRate !== null ? String(tableRate) : 'Rate'}
+            step="any"
+            min="0"
+            value={exchangeRate}
+            onChange={(e) => onExchangeRateChange(e.target.value)}
+            aria-label={`${baseCurrency} per 1 ${currency}`}
+          />
+        )}
+      </div>
+      {isForeign && (
+        <span className="form-hint">
+          {rate !== null
+            ? <>1 {currency} = {rate} {baseCurrency}{exchangeRate ? '' : ' (rate on file)'}{converted !== null && <> · recorded as <strong>{formatMoney(converted, baseCurrency)}</strong></>}</>
+            : `No ${currency} rate on file for this date — enter the rate from your statement`}
+        </span>
+      )}
+    </div>
+  )
+}
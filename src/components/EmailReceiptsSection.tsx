@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+
+/**
+ * Settings section for the workspace's inbound receipt address.
+ * Receipts emailed or forwarded to it land in the receipt inbox.
+ */
+export function EmailReceiptsSection() {
+  const { subdomain } = useTenant()
+
+  const [available, setAvailable] = useState(false)
+  const [address, setAddress] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================
+  // FETCH ADDRESS
+  // ============================================
+  useEffect(() => {
+    if (!subdomain) return
+    async function fetchAddress() {
+      try {
+        const response = await fetch(`/api/inbound-email/address?tenant=${subdomain}`)
+        if (!response.ok) return
+        const data = await response.json()
+        setAvailable(data.available)
+        setAddress(data.address)
+      } catch (err) {
+        console.error('Error fetching inbound address:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchAddress()
+  }, [subdomain])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  async function updateAddress(method: 'POST' | 'DELETE') {
+    if (method === 'POST' && address && !confirm('Get a new address? The current one will stop working straight away.')) return
+    if (method === 'DELETE' && !confirm('Turn off email receipts? Emails sent to this address will be rejected.')) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/inbound-email/address?tenant=${subdomain}`, { method })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update address')
+      }
+      setAvailable(data.available)
+      setAddress(data.address)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleCopy() {
+    if (!address) return
+    try {
+      await navigator.clipboard.writeText(address)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      setError('Could not copy — select the address and copy it instead')
+    }
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section__title">Email Receipts</h2>
+      <div className="card">
+        {loading ? (
+          <div className="settings-row settings-row--last">
+            <span className="settings-row__description">Loading...</span>
+          </div>
+        ) : !available ? (
+          <div className="settings-row settings-row--last">
+            <div className="settings-row__label">
+              <span className="settings-row__title">Receipt Address</span>
+              <span className="settings-row__description">Email receipts aren't set up for this server</span>
+            </div>
+          </div>
+        ) : address ? (
+          <>
+            <div className="settings-row email-receipts-address">
+              <div className="settings-row__label">
+                <span className="settings-row__title">Receipt Address</span>
+                <span className="settings-row__description">
+                  Forward receipts here, or give it to stores for e-receipts
+                  {copied && <span className="settings-row__saved"> — Copied!</span>}
+                </span>
+              </div>
+              <div className="email-receipts-address__controls">
+                <code className="email-receipts-address__value">{address}</code>
+                <button className="btn btn--secondary btn--sm" onClick={handleCopy}>
+                  Copy
+                </button>
+              </div>
+            </div>
+            <div className="settings-row settings-row--last">
+              <div className="settings-row__label">
+                <span className="settings-row__description">
+                  Emailed receipts go to the owner's inbox, marked with who sent them
+                </span>
+              </div>
+              <div className="email-receipts-address__controls">
+                <button className="btn btn--secondary btn--sm" onClick={() => updateAddress('POST')} disabled={saving}>
+                  New Address
+                </button>
+                <button className="btn btn--danger-outline btn--sm" onClick={() => updateAddress('DELETE')} disabled={saving}>
+                  Turn Off
+                </button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="settings-row settings-row--last">
+            <div className="settings-row__label">
+              <span className="settings-row__title">Receipt Address</span>
+              <span className="settings-row__description">
+                Get an email address that drops receipts straight into the receipt inbox
+              </span>
+            </div>
+            <button className="btn btn--primary btn--sm" onClick={() => updateAddress('POST')} disabled={saving}>
+              {saving ? 'Turning on...' : 'Turn On'}
+            </button>
+          </div>
+        )}
+        {error && <div className="form-error">{error}</div>}
+      </div>
+    </section>
+  )
+}
@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react'
 import { useTenant } from '../hooks/useTenant'
+import { useAuth } from '../hooks/useAuth'
+import { usePermissions } from '../hooks/usePermissions'
 import { useScanReceipt, type ScanResult } from '../hooks/useScanReceipt'
+import { ExpenseHistoryPanel } from './ExpenseHistoryPanel'
 import {
   uploadToBlob,
   linkAttachmentToExpense,
@@ -8,6 +11,12 @@ import {
   formatFileSize,
   ALLOWED_FILE_ACCEPT,
 } from '../utils/attachment-upload'
+import { DEFAULT_CURRENCY, currencyDecimals, currencySymbol, formatMoney, toMinorUnits, fromMinorUnits } from '../utils/currency'
+import { CurrencyFields } from './CurrencyFields'
+import { SalesTaxFields } from './SalesTaxFields'
+import { PaymentAccountSelect } from './PaymentAccountSelect'
+import { usePaymentAccounts } from '../hooks/usePaymentAccounts'
+import { formatPaymentAccount, matchPaymentAccount } from '../utils/payment-accounts'
 
 interface Category {
   id: string
@@ -19,7 +28,11 @@ interface Category {
 
 interface Expense {
   id: string
-  amount: number
+  amount: number // base currency
+  currency?: string
+  originalAmount?: number | null // as entered, when not in the base currency
+  taxAmount?: number | null // sales tax / VAT, in `currency`
+  taxRate?: number | null
   vendor: string | null
   description: string | null
   date: string
@@ -29,6 +42,92 @@ interface Expense {
   expenseType?: string
   isHomeOffice?: boolean
   homeOfficePercent?: number | null
+  paymentAccountId?: string | null
+  isReimbursable?: boolean
+  reimbursementId?: string | null // batch it's being paid back in
+  policyFlag?: string | null
+  policyReviewedAt?: string | null
+  approvalStatus?: string // 'pending' | 'approved' | 'rejected'
+  approvalComment?: string | null
+  createdBy?: string | null
+}
+
+interface ExpenseSplit {
+  id: string
+  amount: number
+  originalAmount: number | null
+  description: string | null
+  categoryId: string
+  categoryName: string | null
+  categoryEmoji: string | null
+  expenseType: string
+  isHomeOffice: boolean
+  homeOfficePercent: number | null
+}
+
+// Editable split line — amount as typed, in the expense's currency
+interface SplitRow {
+  key: number
+  amount: string
+  description: string
+  categoryId: string
+  expenseType: 'operating' | 'cogs'
+  isHomeOffice: boolean
+}
+
+// Matches MAX_EXPENSE_SPLITS in api/_lib/expense-splits.ts
+const MAX_SPLIT_LINES = 20
+
+let nextSplitKey = 0
+
+function newSplitRow(fields: Partial<Omit<SplitRow, 'key'>> = {}): SplitRow {
+  return {
+    key: nextSplitKey++,
+    amount: '',
+    description: '',
+    categoryId: '',
+    expenseType: 'operating',
+    isHomeOffice: false,
+    ...fields,
+  }
+}
+
+/**
+ * Split rows from a scan's line items. The items rarely add up to the
+ * total on their own (tax, discounts), so the difference is spread over
+ * the lines in proportion and any rounding cent lands on the largest.
+ */
+function splitRowsFromLineItems(
+  items: ScanResult['lineItems'],
+  totalCents: number,
+  currency: string,
+  defaults: Pick<SplitRow, 'categoryId' | 'expenseType'>
+): SplitRow[] {
+  let lines = items
+    .map(item => ({ description: String(item.description || '').trim(), cents: toMinorUnits(String(item.amount), currency) }))
+    .filter(line => line.cents > 0)
+  if (lines.length > MAX_SPLIT_LINES) {
+    const rest = lines.slice(MAX_SPLIT_LINES - 1)
+    lines = [
+      ...lines.slice(0, MAX_SPLIT_LINES - 1),
+      { description: `${rest.length} other items`, cents: rest.reduce((sum, line) => sum + line.cents, 0) },
+    ]
+  }
+
+  const itemsTotal = lines.reduce((sum, line) => sum + line.cents, 0)
+  const target = totalCents > 0 ? totalCents : itemsTotal
+  const amounts = lines.map(line => Math.round(line.cents * target / itemsTotal))
+  const remainder = target - amounts.reduce((sum, cents) => sum + cents, 0)
+  if (remainder !== 0 && amounts.length > 0) {
+    const largest = amounts.indexOf(Math.max(...amounts))
+    amounts[largest] += remainder
+  }
+
+  return lines.map((line, i) => newSplitRow({
+    amount: fromMinorUnits(amounts[i], currency),
+    description: line.description,
+    ...defaults,
+  }))
 }
 
 interface Attachment {
@@ -49,27 +148,49 @@ interface ExpenseDetailSheetProps {
 }
 
 export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelete }: ExpenseDetailSheetProps) {
-  const { subdomain } = useTenant()
+  const { subdomain, tenant } = useTenant()
   const { scanResult, isScanning, scanError, scanReceipt, clearScan } = useScanReceipt()
+  const { accounts: paymentAccounts } = usePaymentAccounts()
+  const { user } = useAuth()
+  const { can } = usePermissions()
+  // A rejected expense goes back to whoever submitted it to fix and resubmit
+  const isReturnedToMe = expense?.approvalStatus === 'rejected' && !!user && expense.createdBy === user.id
+  const canEditExpense = can('expenses:edit') || isReturnedToMe
+  const canDeleteExpense = can('expenses:delete') || isReturnedToMe
 
   // Mode: always open in view mode, persisted preference only used for next manual toggle
-  const [mode, setMode] = useState<'view' | 'edit'>('view')
+  const [mode, setMode] = useState<'view' | 'edit' | 'history'>('view')
   
   // Persist mode changes to localStorage
-  const handleModeChange = (newMode: 'view' | 'edit') => {
+  const handleModeChange = (newMode: 'view' | 'edit' | 'history') => {
     setMode(newMode)
     localStorage.setItem('expenseDetailMode', newMode)
   }
   
   // Edit form state
   const [amount, setAmount] = useState('')
+  const [currency, setCurrency] = useState('') // '' = base currency
+  const [exchangeRate, setExchangeRate] = useState('')
+  const [taxAmount, setTaxAmount] = useState('')
+  const [taxRate, setTaxRate] = useState('')
+  const [taxTouched, setTaxTouched] = useState(false) // untouched: the API keeps the rate if the total changes
+  const [paymentAccountId, setPaymentAccountId] = useState('')
   const [vendor, setVendor] = useState('')
   const [description, setDescription] = useState('')
   const [date, setDate] = useState('')
   const [categoryId, setCategoryId] = useState('')
   const [expenseType, setExpenseType] = useState<'operating' | 'cogs'>('operating')
   const [isHomeOffice, setIsHomeOffice] = useState(false)
+  const [isReimbursable, setIsReimbursable] = useState(false)
   const [extractedText, setExtractedText] = useState<string | null>(null)
+  const [splitRows, setSplitRows] = useState<SplitRow[]>([])
+
+  // Saved split lines (fetched with the expense — the list doesn't carry them)
+  const [splits, setSplits] = useState<ExpenseSplit[]>([])
+
+  const baseCurrency = tenant?.baseCurrency ?? DEFAULT_CURRENCY
+  const editCurrency = currency || baseCurrency
+  const amountStep = currencyDecimals(editCurrency) === 0 ? '1' : '0.01'
 
   // UI state
   const [categories, setCategories] = useState<Category[]>([])
@@ -79,6 +200,10 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  // Policy review state
+  const [reviewing, setReviewing] = useState(false)
+  const [reviewed, setReviewed] = useState(false)
+
   // Attachment state
   const [attachments, setAttachments] = useState<Attachment[]>([])
   const [loadingAttachments, setLoadingAttachments] = useState(false)
@@ -111,7 +236,14 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
   // Populate form when expense changes or sheet opens
   useEffect(() => {
     if (expense && isOpen) {
-      setAmount(String(expense.amount / 100))
+      const entered = expense.currency || baseCurrency
+      setCurrency(expense.currency || '')
+      setAmount(fromMinorUnits(expense.originalAmount ?? expense.amount, entered))
+      setExchangeRate('')
+      setTaxAmount(expense.taxAmount != null ? fromMinorUnits(expense.taxAmount, entered) : '')
+      setTaxRate(expense.taxRate != null ? String(expense.taxRate) : '')
+      setTaxTouched(false)
+      setPaymentAccountId(expense.paymentAccountId || '')
       setVendor(expense.vendor || '')
       setDescription(expense.description || '')
       setDate(expense.date.substring(0, 10))
@@ -119,11 +251,43 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
       const type = expense.expenseType === 'home_office' ? 'operating' : expense.expenseType
       setExpenseType((type as 'operating' | 'cogs') || 'operating')
       setIsHomeOffice(expense.isHomeOffice || false)
+      setIsReimbursable(expense.isReimbursable || false)
+      setSplitRows([])
+      setSplits([])
       setMode('view')
       setError(null)
       setShowDeleteConfirm(false)
+      setReviewed(false)
+    }
+  }, [expense, isOpen, baseCurrency])
+
+  // Fetch split lines when sheet opens
+  useEffect(() => {
+    if (isOpen && expense && subdomain) {
+      async function fetchSplits() {
+        try {
+          const response = await fetch(`/api/expenses/${expense!.id}?tenant=${subdomain}`)
+          if (response.ok) {
+            const data = await response.json()
+            const saved: ExpenseSplit[] = data.expense.splits || []
+            const entered = data.expense.currency || baseCurrency
+            setSplits(saved)
+            setExchangeRate(data.expense.exchangeRate != null ? String(data.expense.exchangeRate) : '')
+            setSplitRows(saved.map(split => newSplitRow({
+              amount: fromMinorUnits(split.originalAmount ?? split.amount, entered),
+              description: split.description || '',
+              categoryId: split.categoryId,
+              expenseType: split.expenseType === 'cogs' ? 'cogs' : 'operating',
+              isHomeOffice: split.isHomeOffice,
+            })))
+          }
+        } catch (err) {
+          console.error('Error fetching expense splits:', err)
+        }
+      }
+      fetchSplits()
     }
-  }, [expense, isOpen])
+  }, [isOpen, expense, subdomain, baseCurrency])
 
   // Fetch categories when entering edit mode (always re-fetch to get fresh HO settings)
   useEffect(() => {
@@ -250,13 +414,10 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
     }
   }
 
-  // Format cents to dollars for display
-  const formatMoney = (cents: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(cents / 100)
-  }
+  const paymentAccount = paymentAccounts.find(a => a.id === expense?.paymentAccountId)
+
+  // Stored amounts are in the tenant's base currency
+  const formatBase = (minor: number) => formatMoney(minor, baseCurrency)
 
   // Format date for display
   // Parse YYYY-MM-DD directly to avoid timezone shift —
@@ -280,6 +441,10 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
     if (!vendor && result.vendor?.value) {
       setVendor(String(result.vendor.value))
     }
+    if (!paymentAccountId && result.paymentMethod?.value) {
+      const match = matchPaymentAccount(String(result.paymentMethod.value), paymentAccounts.filter(a => a.isActive))
+      if (match) setPaymentAccountId(match.id)
+    }
     if (result.date?.value) {
       const parsed = result.date.value as string
       if (/^\d{4}-\d{2}-\d{2}$/.test(parsed)) {
@@ -329,13 +494,71 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
     )
   }
 
+  // Split editing
+  const isSplit = splitRows.length > 0
+  const amountMinor = toMinorUnits(amount, editCurrency) || 0
+  const splitRemaining = amountMinor - splitRows.reduce((sum, row) => sum + (toMinorUnits(row.amount, editCurrency) || 0), 0)
+  const scannedLineItems = scanResult?.lineItems?.filter(item => Number(item.amount) > 0) ?? []
+
+  function canSplitHomeOffice(row: SplitRow): boolean {
+    const category = categories.find(c => c.id === row.categoryId)
+    return category?.homeOfficeEligible === true && !homeOfficeIgnored
+  }
+
+  function updateSplitRow(key: number, changes: Partial<SplitRow>) {
+    setSplitRows(rows => rows.map(row => {
+      if (row.key !== key) return row
+      const next = { ...row, ...changes }
+      if (changes.categoryId !== undefined) {
+        // Same defaults as picking a category for the whole expense
+        const category = categories.find(c => c.id === changes.categoryId)
+        if (category) next.expenseType = category.expenseType === 'cogs' ? 'cogs' : 'operating'
+        if (!canSplitHomeOffice(next)) next.isHomeOffice = false
+      }
+      return next
+    }))
+  }
+
+  function startSplit() {
+    setSplitRows([
+      newSplitRow({ amount: amountMinor > 0 ? fromMinorUnits(amountMinor, editCurrency) : '', categoryId, expenseType, isHomeOffice }),
+      newSplitRow({ categoryId, expenseType }),
+    ])
+  }
+
+  function splitFromLineItems() {
+    setSplitRows(splitRowsFromLineItems(scannedLineItems, amountMinor, editCurrency, { categoryId, expenseType }))
+    if (!amount) {
+      const itemsTotal = scannedLineItems.reduce((sum, item) => sum + toMinorUnits(String(item.amount), editCurrency), 0)
+      setAmount(fromMinorUnits(itemsTotal, editCurrency))
+    }
+  }
+
+  function removeSplitRow(key: number) {
+    setSplitRows(rows => {
+      const remaining = rows.filter(row => row.key !== key)
+      return remaining.length < 2 ? [] : remaining
+    })
+  }
+
+  function validateSplitRows(): string | null {
+    for (const [i, row] of splitRows.entries()) {
+      const value = parseFloat(row.amount)
+      if (!row.amount || isNaN(value) || value <= 0) return `Enter an amount for split ${i + 1}`
+      if (!row.categoryId) return `Select a category for split ${i + 1}`
+    }
+    if (splitRemaining !== 0) {
+      return `Splits must add up to the total (${formatMoney(Math.abs(splitRemaining), editCurrency)} ${splitRemaining > 0 ? 'left to assign' : 'over'})`
+    }
+    return null
+  }
+
   // Handle save
   async function handleSave() {
     if (!expense) return
     setError(null)
 
-    const amountNum = parseFloat(amount)
-    if (!amount || isNaN(amountNum) || amountNum <= 0) {
+    if (!amount || amountMinor <= 0) {
       setError('Please enter a valid amount')
       return
     }
@@ -343,27 +566,53 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
       setError('Please select a date')
       return
     }
-    if (!categoryId) {
+    if (!isSplit && !categoryId) {
       setError('Please select a category')
       return
     }
+    const splitError = isSplit ? validateSplitRows() : null
+    if (splitError) {
+      setError(splitError)
+      return
+    }
 
     try {
       setSubmitting(true)
-      const amountCents = Math.round(amountNum * 100)
 
       const response = await fetch(`/api/expenses/${expense.id}?tenant=${subdomain}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          amount: amountCents,
+          amount: amountMinor,
+          currency: editCurrency,
+          exchangeRate: exchangeRate ? parseFloat(exchangeRate) : undefined,
+          ...(taxTouched
+            ? {
+                taxAmount: taxAmount ? toMinorUnits(taxAmount, editCurrency) : null,
+                taxRate: taxRate ? parseFloat(taxRate) : null,
+              }
+            : {}),
+          paymentAccountId: paymentAccountId || null,
           date: date + 'T12:00:00.000Z',
-          categoryId,
+          categoryId: isSplit ? undefined : categoryId,
           vendor: vendor.trim() || null,
           description: description.trim() || null,
           expenseType,
           isHomeOffice,
+          isReimbursable,
           extractedText,
+          // [] clears an existing split; leave untouched when there never was one
+          ...(isSplit || splits.length > 0
+            ? {
+                splits: splitRows.map(row => ({
+                  amount: toMinorUnits(row.amount, editCurrency),
+                  description: row.description.trim() || null,
+                  categoryId: row.categoryId,
+                  expenseType: row.expenseType,
+                  isHomeOffice: row.isHomeOffice,
+                })),
+              }
+            : {}),
         }),
       })
 
@@ -382,6 +631,29 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
   }
 
   // Handle delete
+  async function handleMarkReviewed() {
+    if (!expense) return
+
+    try {
+      setReviewing(true)
+      const response = await fetch(`/api/expenses/${expense.id}/review?tenant=${subdomain}`, {
+        method: 'POST',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to mark as reviewed')
+      }
+
+      setReviewed(true)
+      onUpdate()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setReviewing(false)
+    }
+  }
+
   async function handleDelete() {
     if (!expense) return
 
@@ -433,7 +705,7 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
         {/* Header */}
         <div className="bottom-sheet__header">
           <h2 className="bottom-sheet__title">
-            {mode === 'view' ? 'Expense Details' : 'Edit Expense'}
+            {mode === 'view' ? 'Expense Details' : mode === 'edit' ? 'Edit Expense' : 'History'}
           </h2>
           <div className="bottom-sheet__header-actions">
             {/* View/Edit Toggle */}
@@ -449,15 +721,28 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
                   <circle cx="12" cy="12" r="3" />
                 </svg>
               </button>
+              {canEditExpense && (
+                <button
+                  className={`mode-toggle__btn ${mode === 'edit' ? 'mode-toggle__btn--active' : ''}`}
+                  onClick={() => handleModeChange('edit')}
+                  aria-label="Edit mode"
+                  title="Edit mode"
+                >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
+                    <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
+                  </svg>
+                </button>
+              )}
               <button
-                className={`mode-toggle__btn ${mode === 'edit' ? 'mode-toggle__btn--active' : ''}`}
-                onClick={() => handleModeChange('edit')}
-                aria-label="Edit mode"
-                title="Edit mode"
+                className={`mode-toggle__btn ${mode === 'history' ? 'mode-toggle__btn--active' : ''}`}
+                onClick={() => handleModeChange('history')}
+                aria-label="History"
+                title="History"
               >
                 <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
-                  <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
+                  <circle cx="12" cy="12" r="10" />
+                  <polyline points="12 6 12 12 16 14" />
                 </svg>
               </button>
             </div>
@@ -514,19 +799,64 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
               <div className="detail-hero">
                 <span className="detail-hero__emoji">{expense.categoryEmoji || '📁'}</span>
                 <span className="detail-hero__amount">
-                  {formatMoney(
-                    expense.isHomeOffice && expense.homeOfficePercent
-                      ? Math.round(expense.amount * expense.homeOfficePercent / 100)
-                      : expense.amount
+                  {formatBase(
+                    splits.length > 0
+                      ? splits.reduce((sum, s) => sum + (s.isHomeOffice && s.homeOfficePercent ? Math.round(s.amount * s.homeOfficePercent / 100) : s.amount), 0)
+                      : expense.isHomeOffice && expense.homeOfficePercent
+                        ? Math.round(expense.amount * expense.homeOfficePercent / 100)
+                        : expense.amount
                   )}
                 </span>
                 {expense.isHomeOffice && expense.homeOfficePercent && (
                   <span className="detail-hero__ho-context">
-                    🏡 {expense.homeOfficePercent}% of total spent ({formatMoney(expense.amount)})
+                    🏡 {expense.homeOfficePercent}% of total spent ({formatBase(expense.amount)})
+                  </span>
+                )}
+                {splits.some(s => s.isHomeOffice && s.homeOfficePercent) && (
+                  <span className="detail-hero__ho-context">
+                    🏡 Home office share applied (total spent {formatBase(expense.amount)})
+                  </span>
+                )}
+                {expense.originalAmount != null && expense.currency && (
+                  <span className="detail-hero__ho-context">
+                    💱 Entered as {formatMoney(expense.originalAmount, expense.currency)}
                   </span>
                 )}
               </div>
 
+              {/* Policy flag — over the submitter's limit */}
+              {expense.policyFlag && !expense.policyReviewedAt && !reviewed && (
+                <div className="policy-flag">
+                  <span className="policy-flag__message">
+                    ⚠️ Over the submitter's expense limit — needs owner review
+                  </span>
+                  {can('policies:manage') && (
+                    <button
+                      className="btn btn--secondary btn--sm"
+                      onClick={handleMarkReviewed}
+                      disabled={reviewing}
+                    >
+                      {reviewing ? 'Saving...' : 'Mark Reviewed'}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Approval status — only shown while it's not approved */}
+              {expense.approvalStatus === 'pending' && (
+                <div className="policy-flag approval-flag">
+                  <span className="policy-flag__message">⏳ Awaiting approval — left out of reports until approved</span>
+                </div>
+              )}
+              {expense.approvalStatus === 'rejected' && (
+                <div className="policy-flag approval-flag approval-flag--rejected">
+                  <span className="policy-flag__message">
+                    ↩️ Returned{expense.approvalComment ? `: ${expense.approvalComment}` : ''}
+                    {isReturnedToMe && ' — edit and save to resubmit'}
+                  </span>
+                </div>
+              )}
+
               {/* Details List */}
               <div className="detail-list">
                 <div className="detail-row">
@@ -537,7 +867,9 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
                 <div className="detail-row">
                   <span className="detail-row__label">Category</span>
                   <span className="detail-row__value">
-                    {expense.categoryEmoji} {expense.categoryName || 'Uncategorized'}
+                    {splits.length > 0
+                      ? `Split across ${splits.length} lines`
+                      : `${expense.categoryEmoji ?? ''} ${expense.categoryName || 'Uncategorized'}`}
                   </span>
                 </div>
 
@@ -555,28 +887,78 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
                   </div>
                 )}
 
-                <div className="detail-row">
-                  <span className="detail-row__label">Type</span>
-                  <span className="detail-row__value detail-row__value--capitalize">
-                    {expense.expenseType?.replace('_', ' ') || 'Operating'}
-                  </span>
-                </div>
+                {paymentAccount && (
+                  <div className="detail-row">
+                    <span className="detail-row__label">Paid With</span>
+                    <span className="detail-row__value">{formatPaymentAccount(paymentAccount)}</span>
+                  </div>
+                )}
+
+                {expense.isReimbursable && (
+                  <div className="detail-row">
+                    <span className="detail-row__label">Reimbursable</span>
+                    <span className="detail-row__value">
+                      {expense.reimbursementId ? 'On a reimbursement' : 'Owed back — not yet batched'}
+                    </span>
+                  </div>
+                )}
+
+                {expense.taxAmount != null && (
+                  <div className="detail-row">
+                    <span className="detail-row__label">Sales Tax</span>
+                    <span className="detail-row__value">
+                      {formatMoney(expense.taxAmount, expense.currency || baseCurrency)}
+                      {expense.taxRate != null && ` (${expense.taxRate}%)`}
+                    </span>
+                  </div>
+                )}
+
+                {splits.length === 0 && (
+                  <div className="detail-row">
+                    <span className="detail-row__label">Type</span>
+                    <span className="detail-row__value detail-row__value--capitalize">
+                      {expense.expenseType?.replace('_', ' ') || 'Operating'}
+                    </span>
+                  </div>
+                )}
               </div>
 
+              {/* Split lines */}
+              {splits.length > 0 && (
+                <div className="split-list">
+                  {splits.map(split => (
+                    <div key={split.id} className="split-list__row">
+                      <span className="split-list__emoji">{split.categoryEmoji || '📁'}</span>
+                      <div className="split-list__main">
+                        <span className="split-list__category">{split.categoryName || 'Uncategorized'}</span>
+                        <span className="split-list__meta">
+                          {split.expenseType === 'cogs' ? 'COGS' : 'Operating'}
+                          {split.isHomeOffice && ` · 🏡 ${split.homeOfficePercent ?? 0}%`}
+                          {split.description && ` · ${split.description}`}
+                        </span>
+                      </div>
+                      <span className="split-list__amount">{formatBase(split.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Attachments Section */}
               <div className="attachments-section">
                 <div className="attachments-section__header">
                   <span className="form-label">Attachments</span>
-                  <label className="btn btn--small btn--secondary attachments-upload-btn">
-                    <input
-                      type="file"
-                      accept={ALLOWED_FILE_ACCEPT}
-                      onChange={handleFileUpload}
-                      style={{ display: 'none' }}
-                      disabled={uploading}
-                    />
-                    {uploading ? 'Uploading...' : '📎 Attach'}
-                  </label>
+                  {can('attachments:upload') && (
+                    <label className="btn btn--small btn--secondary attachments-upload-btn">
+                      <input
+                        type="file"
+                        accept={ALLOWED_FILE_ACCEPT}
+                        onChange={handleFileUpload}
+                        style={{ display: 'none' }}
+                        disabled={uploading}
+                      />
+                      {uploading ? 'Uploading...' : '📎 Attach'}
+                    </label>
+                  )}
                 </div>
 
                 {/* Upload status message (compression feedback) */}
@@ -615,15 +997,17 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
                           <span className="attachment-item__name">{att.fileName}</span>
                           <span className="attachment-item__size">{formatFileSize(att.fileSize)}</span>
                         </div>
-                        <button
-                          className="attachment-item__delete"
-                          onClick={() => handleDeleteAttachment(att.id)}
-                          aria-label="Delete attachment"
-                        >
-                          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                            <path d="M18 6 6 18M6 6l12 12" />
-                          </svg>
-                        </button>
+                        {can('attachments:delete') && (
+                          <button
+                            className="attachment-item__delete"
+                            onClick={() => handleDeleteAttachment(att.id)}
+                            aria-label="Delete attachment"
+                          >
+                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <path d="M18 6 6 18M6 6l12 12" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -631,33 +1015,44 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
               </div>
 
               {/* Action Buttons */}
-              <div className="detail-actions">
-                <button 
-                  className="btn btn--secondary btn--full"
-                  onClick={() => handleModeChange('edit')}
-                >
-                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
-                    <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
-                  </svg>
-                  Edit Expense
-                </button>
-                <button 
-                  className="btn btn--danger-outline btn--full"
-                  onClick={() => setShowDeleteConfirm(true)}
-                >
-                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <polyline points="3 6 5 6 21 6" />
-                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                  </svg>
-                  Delete Expense
-                </button>
-              </div>
+              {(canEditExpense || canDeleteExpense) && (
+                <div className="detail-actions">
+                  {canEditExpense && (
+                    <button 
+                      className="btn btn--secondary btn--full"
+                      onClick={() => handleModeChange('edit')}
+                    >
+                      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
+                        <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
+                      </svg>
+                      Edit Expense
+                    </button>
+                  )}
+                  {canDeleteExpense && (
+                    <button 
+                      className="btn btn--danger-outline btn--full"
+                      onClick={() => setShowDeleteConfirm(true)}
+                    >
+                      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="3 6 5 6 21 6" />
+                        <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                      </svg>
+                      Delete Expense
+                    </button>
+                  )}
+                </div>
+              )}
             </>
           )}
 
+          {/* History Mode */}
+          {mode === 'history' && !showDeleteConfirm && (
+            <ExpenseHistoryPanel expenseId={expense.id} refreshKey={expense} />
+          )}
+
           {/* Edit Mode */}
-          {mode === 'edit' && !showDeleteConfirm && (
+          {mode === 'edit' && canEditExpense && !showDeleteConfirm && (
             <>
               {/* Amount */}
               <div className="form-group">
@@ -665,14 +1060,14 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
                   Amount * {confidenceDot(wasScanned('total'))}
                 </label>
                 <div className="input-with-prefix">
-                  <span className="input-prefix">$</span>
+                  <span className="input-prefix">{currencySymbol(editCurrency)}</span>
                   <input
                     type="number"
                     id="edit-amount"
                     className="form-input form-input--with-prefix"
-                    placeholder="0.00"
-                    step="0.01"
-                    min="0.01"
+                    placeholder={amountStep === '1' ? '0' : '0.00'}
+                    step={amountStep}
+                    min={amountStep}
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
                     required
@@ -681,6 +1076,26 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
                 {scanSuggestion('total', () => setAmount(String(scanResult!.total.value)))}
               </div>
 
+              {/* Currency */}
+              <CurrencyFields
+                currency={editCurrency}
+                onCurrencyChange={setCurrency}
+                exchangeRate={exchangeRate}
+                onExchangeRateChange={setExchangeRate}
+                amount={amount}
+                date={date}
+              />
+
+              {/* Sales tax / VAT */}
+              <SalesTaxFields
+                taxAmount={taxAmount}
+                onTaxAmountChange={(value) => { setTaxAmount(value); setTaxTouched(true) }}
+                taxRate={taxRate}
+                onTaxRateChange={(value) => { setTaxRate(value); setTaxTouched(true) }}
+                amount={amount}
+                currency={editCurrency}
+              />
+
               {/* Date */}
               <div className="form-group">
                 <label htmlFor="edit-date" className="form-label">
@@ -701,30 +1116,32 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
               </div>
 
               {/* Category */}
-              <div className="form-group">
-                <label htmlFor="edit-category" className="form-label">Category *</label>
-                {loadingCategories ? (
-                  <div className="form-input form-input--loading">Loading categories...</div>
-                ) : (
-                  <select
-                    id="edit-category"
-                    className="form-input form-select"
-                    value={categoryId}
-                    onChange={(e) => setCategoryId(e.target.value)}
-                    required
-                  >
-                    <option value="" disabled>Select a category</option>
-                    {categories.map((cat) => (
-                      <option key={cat.id} value={cat.id}>
-                        {cat.emoji} {cat.name}
-                      </option>
-                    ))}
-                  </select>
-                )}
-              </div>
+              {!isSplit && (
+                <div className="form-group">
+                  <label htmlFor="edit-category" className="form-label">Category *</label>
+                  {loadingCategories ? (
+                    <div className="form-input form-input--loading">Loading categories...</div>
+                  ) : (
+                    <select
+                      id="edit-category"
+                      className="form-input form-select"
+                      value={categoryId}
+                      onChange={(e) => setCategoryId(e.target.value)}
+                      required
+                    >
+                      <option value="" disabled>Select a category</option>
+                      {categories.map((cat) => (
+                        <option key={cat.id} value={cat.id}>
+                          {cat.emoji} {cat.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
 
               {/* Home Office Checkbox — only when category is eligible */}
-              {showHomeOfficeCheckbox && (
+              {!isSplit && showHomeOfficeCheckbox && (
                 <div className="form-group">
                   <label className="home-office-checkbox">
                     <input
@@ -763,6 +1180,34 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
                 {scanSuggestion('vendor', () => setVendor(String(scanResult!.vendor.value)))}
               </div>
 
+              {/* Payment Account */}
+              <PaymentAccountSelect
+                id="edit-paymentAccount"
+                accounts={paymentAccounts}
+                value={paymentAccountId}
+                onChange={setPaymentAccountId}
+              />
+
+              {/* Reimbursable */}
+              <div className="form-group">
+                <label className="home-office-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={isReimbursable}
+                    onChange={(e) => setIsReimbursable(e.target.checked)}
+                    disabled={Boolean(expense.reimbursementId)}
+                  />
+                  <span className="home-office-checkbox__label">
+                    💸 Paid Out of Pocket
+                  </span>
+                  <span className="home-office-checkbox__hint">
+                    {expense.reimbursementId
+                      ? 'Already on a reimbursement — its amount is locked'
+                      : 'Owed back to whoever entered it'}
+                  </span>
+                </label>
+              </div>
+
               {/* Description */}
               <div className="form-group">
                 <label htmlFor="edit-description" className="form-label">Description</label>
@@ -777,46 +1222,175 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
               </div>
 
               {/* Expense Type */}
-              <div className="form-group">
-                <label className="form-label">Expense Type</label>
-                <div className="expense-type-group">
-                  <label className={`expense-type-option ${expenseType === 'operating' ? 'expense-type-option--selected' : ''}`}>
-                    <input
-                      type="radio"
-                      name="editExpenseType"
-                      value="operating"
-                      checked={expenseType === 'operating'}
-                      onChange={() => setExpenseType('operating')}
-                    />
-                    <span>Operating</span>
-                  </label>
-                  <label className={`expense-type-option ${expenseType === 'cogs' ? 'expense-type-option--selected' : ''}`}>
-                    <input
-                      type="radio"
-                      name="editExpenseType"
-                      value="cogs"
-                      checked={expenseType === 'cogs'}
-                      onChange={() => setExpenseType('cogs')}
-                    />
-                    <span>COGS</span>
-                  </label>
+              {!isSplit && (
+                <div className="form-group">
+                  <label className="form-label">Expense Type</label>
+                  <div className="expense-type-group">
+                    <label className={`expense-type-option ${expenseType === 'operating' ? 'expense-type-option--selected' : ''}`}>
+                      <input
+                        type="radio"
+                        name="editExpenseType"
+                        value="operating"
+                        checked={expenseType === 'operating'}
+                        onChange={() => setExpenseType('operating')}
+                      />
+                      <span>Operating</span>
+                    </label>
+                    <label className={`expense-type-option ${expenseType === 'cogs' ? 'expense-type-option--selected' : ''}`}>
+                      <input
+                        type="radio"
+                        name="editExpenseType"
+                        value="cogs"
+                        checked={expenseType === 'cogs'}
+                        onChange={() => setExpenseType('cogs')}
+                      />
+                      <span>COGS</span>
+                    </label>
+                  </div>
                 </div>
+              )}
+
+              {/* Split across categories */}
+              <div className="form-group split-editor">
+                <div className="split-editor__header">
+                  <span className="form-label">{isSplit ? 'Split across categories' : 'Split'}</span>
+                  {isSplit && (
+                    <button type="button" className="btn btn--secondary btn--sm" onClick={() => setSplitRows([])}>
+                      Don't split
+                    </button>
+                  )}
+                </div>
+
+                {!isSplit && (
+                  <div className="split-editor__start">
+                    <button type="button" className="btn btn--secondary btn--sm" onClick={startSplit} disabled={loadingCategories}>
+                      ➗ Split across categories
+                    </button>
+                    {scannedLineItems.length >= 2 && (
+                      <button type="button" className="btn btn--secondary btn--sm" onClick={splitFromLineItems} disabled={loadingCategories}>
+                        🧾 Split from {scannedLineItems.length} scanned items
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {isSplit && (
+                  <>
+                    {splitRows.map((row, i) => (
+                      <div key={row.key} className="split-editor__row">
+                        <div className="split-editor__fields">
+                          <div className="input-with-prefix split-editor__amount">
+                            <span className="input-prefix">{currencySymbol(editCurrency)}</span>
+                            <input
+                              type="number"
+                              className="form-input form-input--with-prefix"
+                              placeholder={amountStep === '1' ? '0' : '0.00'}
+                              step={amountStep}
+                              min={amountStep}
+                              value={row.amount}
+                              onChange={(e) => updateSplitRow(row.key, { amount: e.target.value })}
+                              aria-label={`Split ${i + 1} amount`}
+                            />
+                          </div>
+                          <select
+                            className="form-input form-select split-editor__category"
+                            value={row.categoryId}
+                            onChange={(e) => updateSplitRow(row.key, { categoryId: e.target.value })}
+                            aria-label={`Split ${i + 1} category`}
+                          >
+                            <option value="" disabled>Category</option>
+                            {categories.map((cat) => (
+                              <option key={cat.id} value={cat.id}>
+                                {cat.emoji} {cat.name}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            className="split-editor__remove"
+                            onClick={() => removeSplitRow(row.key)}
+                            aria-label={`Remove split ${i + 1}`}
+                          >
+                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <path d="M18 6 6 18M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </div>
+                        <div className="split-editor__options">
+                          <input
+                            type="text"
+                            className="form-input split-editor__description"
+                            placeholder="Note (optional)"
+                            value={row.description}
+                            onChange={(e) => updateSplitRow(row.key, { description: e.target.value })}
+                            aria-label={`Split ${i + 1} note`}
+                          />
+                          <select
+                            className="form-input form-select split-editor__type"
+                            value={row.expenseType}
+                            onChange={(e) => updateSplitRow(row.key, { expenseType: e.target.value as 'operating' | 'cogs' })}
+                            aria-label={`Split ${i + 1} expense type`}
+                          >
+                            <option value="operating">Operating</option>
+                            <option value="cogs">COGS</option>
+                          </select>
+                          {canSplitHomeOffice(row) && (
+                            <label className="split-editor__home-office">
+                              <input
+                                type="checkbox"
+                                checked={row.isHomeOffice}
+                                onChange={(e) => updateSplitRow(row.key, { isHomeOffice: e.target.checked })}
+                              />
+                              🏡
+                            </label>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+
+                    <div className="split-editor__footer">
+                      {splitRows.length < MAX_SPLIT_LINES && (
+                        <button
+                          type="button"
+                          className="btn btn--secondary btn--sm"
+                          onClick={() => setSplitRows(rows => [...rows, newSplitRow({ amount: splitRemaining > 0 ? fromMinorUnits(splitRemaining, editCurrency) : '' })])}
+                        >
+                          + Add line
+                        </button>
+                      )}
+                      <span className={`split-editor__remaining ${splitRemaining === 0 ? 'split-editor__remaining--ok' : ''}`}>
+                        {splitRemaining === 0
+                          ? 'Adds up ✓'
+                          : splitRemaining > 0
+                            ? `${formatMoney(splitRemaining, editCurrency)} left to assign`
+                            : `${formatMoney(-splitRemaining, editCurrency)} over`}
+                      </span>
+                    </div>
+                    {scannedLineItems.length >= 2 && (
+                      <button type="button" className="scan-suggestion" onClick={splitFromLineItems}>
+                        Replace with {scannedLineItems.length} scanned items
+                      </button>
+                    )}
+                  </>
+                )}
               </div>
 
               {/* Attachments Section */}
               <div className="attachments-section">
                 <div className="attachments-section__header">
                   <span className="form-label">Attachments</span>
-                  <label className="btn btn--small btn--secondary attachments-upload-btn">
-                    <input
-                      type="file"
-                      accept={ALLOWED_FILE_ACCEPT}
-                      onChange={handleFileUpload}
-                      style={{ display: 'none' }}
-                      disabled={uploading}
-                    />
-                    {uploading ? 'Uploading...' : '📎 Attach'}
-                  </label>
+                  {can('attachments:upload') && (
+                    <label className="btn btn--small btn--secondary attachments-upload-btn">
+                      <input
+                        type="file"
+                        accept={ALLOWED_FILE_ACCEPT}
+                        onChange={handleFileUpload}
+                        style={{ display: 'none' }}
+                        disabled={uploading}
+                      />
+                      {uploading ? 'Uploading...' : '📎 Attach'}
+                    </label>
+                  )}
                 </div>
 
                 {/* Upload status message (compression feedback) */}
@@ -874,15 +1448,17 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
                           <span className="attachment-item__name">{att.fileName}</span>
                           <span className="attachment-item__size">{formatFileSize(att.fileSize)}</span>
                         </div>
-                        <button
-                          className="attachment-item__delete"
-                          onClick={() => handleDeleteAttachment(att.id)}
-                          aria-label="Delete attachment"
-                        >
-                          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                            <path d="M18 6 6 18M6 6l12 12" />
-                          </svg>
-                        </button>
+                        {can('attachments:delete') && (
+                          <button
+                            className="attachment-item__delete"
+                            onClick={() => handleDeleteAttachment(att.id)}
+                            aria-label="Delete attachment"
+                          >
+                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <path d="M18 6 6 18M6 6l12 12" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -908,18 +1484,20 @@ export function ExpenseDetailSheet({ expense, isOpen, onClose, onUpdate, onDelet
               </div>
 
               {/* Delete in Edit Mode */}
-              <button 
-                className="btn btn--danger-outline btn--full"
-                onClick={() => setShowDeleteConfirm(true)}
-                disabled={submitting}
-                style={{ marginTop: 'var(--spacing-md)' }}
-              >
-                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <polyline points="3 6 5 6 21 6" />
-                  <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                </svg>
-                Delete Expense
-              </button>
+              {canDeleteExpense && (
+                <button 
+                  className="btn btn--danger-outline btn--full"
+                  onClick={() => setShowDeleteConfirm(true)}
+                  disabled={submitting}
+                  style={{ marginTop: 'var(--spacing-md)' }}
+                >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="3 6 5 6 21 6" />
+                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                  </svg>
+                  Delete Expense
+                </button>
+              )}
             </>
           )}
         </div>
@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+import { formatDateShort } from '../utils/date-utils'
+import { formatMoney } from '../utils/currency'
+
+type HistoryValue = string | number | boolean | null
+
+interface HistoryChange {
+  field: string
+  from: HistoryValue
+  to: HistoryValue
+}
+
+interface HistoryEntry {
+  id: string
+  action: 'create' | 'update' | 'delete' | 'reassign'
+  changedAt: string
+  changedBy: { id: string; name: string | null; email: string | null } | null
+  changes: HistoryChange[]
+}
+
+interface ExpenseHistoryPanelProps {
+  expenseId: string
+  // Bumped by the parent after a save so the trail picks up the new entry
+  refreshKey?: unknown
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  amount: 'Amount',
+  currency: 'Currency',
+  exchangeRate: 'Exchange rate',
+  taxAmount: 'Sales tax',
+  taxRate: 'Tax rate',
+  date: 'Date',
+  vendor: 'Vendor',
+  description: 'Description',
+  categoryId: 'Category',
+  expenseType: 'Type',
+  isHomeOffice: 'Home office',
+  homeOfficePercent: 'Home office %',
+  paymentAccountId: 'Paid with',
+  isReimbursable: 'Reimbursable',
+  approvalStatus: 'Approval',
+  approvalComment: 'Approval comment',
+}
+
+const APPROVAL_STATUS_LABELS: Record<string, string> = {
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Returned',
+}
+
+const ACTION_LABELS: Record<HistoryEntry['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Deleted',
+  reassign: 'Category reassigned',
+}
+
+export function ExpenseHistoryPanel({ expenseId, refreshKey }: ExpenseHistoryPanelProps) {
+  const { subdomain, tenant } = useTenant()
+
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [categoryLookup, setCategoryLookup] = useState<Record<string, { name: string; emoji: string | null }>>({})
+  const [accountLookup, setAccountLookup] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await fetch(`/api/expenses/${expenseId}/history?tenant=${subdomain}`)
+        if (!response.ok) {
+          throw new Error('Failed to load history')
+        }
+        const data = await response.json()
+        setHistory(data.history)
+        setCategoryLookup(data.categories)
+        setAccountLookup(data.paymentAccounts ?? {})
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [expenseId, subdomain, refreshKey])
+
+  function formatValue(field: string, value: HistoryValue): string {
+    if (value === null || value === '') return '—'
+    switch (field) {
+      case 'amount':
+        return formatMoney(Number(value), tenant?.baseCurrency)
+      case 'date':
+        return formatDateShort(String(value))
+      case 'categoryId': {
+        const cat = categoryLookup[String(value)]
+        return cat ? `${cat.emoji || '📁'} ${cat.name}` : 'Deleted category'
+      }
+      case 'expenseType':
+        return value === 'cogs' ? 'COGS' : value === 'home_office' ? 'Home office' : 'Operating'
+      case 'isHomeOffice':
+      case 'isReimbursable':
+        return value ? 'Yes' : 'No'
+      case 'homeOfficePercent':
+      case 'taxRate':
+        return `${value}%`
+      case 'paymentAccountId':
+        return accountLookup[String(value)] ?? 'Deleted account'
+      case 'approvalStatus':
+        return APPROVAL_STATUS_LABELS[String(value)] ?? String(value)
+      default:
+        return String(value)
+    }
+  }
+
+  function formatTimestamp(iso: string): string {
+    return new Date(iso).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  if (loading) {
+    return <div className="attachments-loading">Loading history...</div>
+  }
+
+  if (error) {
+    return <div className="form-error">{error}</div>
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="attachments-empty">
+        No changes recorded yet. Edits made from now on will show up here.
+      </div>
+    )
+  }
+
+  return (
+    <ol className="expense-history">
+      {history.map((entry) => (
+        <li key={entry.id} className={`expense-history__entry expense-history__entry--${entry.action}`}>
+          <div className="expense-history__header">
+            <span className="expense-history__action">{ACTION_LABELS[entry.action] || entry.action}</span>
+            <span className="expense-history__meta">
+              {entry.changedBy
+                ? entry.changedBy.name || entry.changedBy.email
+                : 'Automatic'}
+              {' · '}
+              {formatTimestamp(entry.changedAt)}
+            </span>
+          </div>
+
+          {entry.changes.length > 0 && (
+            <dl className="expense-history__changes">
+              {entry.changes.map((change) => (
+                <div key={change.field} className="expense-history__change">
+                  <dt className="expense-history__field">{FIELD_LABELS[change.field] || change.field}</dt>
+                  <dd className="expense-history__diff">
+                    {entry.action === 'update' || entry.action === 'reassign' ? (
+                      <>
+                        <span className="expense-history__from">{formatValue(change.field, change.from)}</span>
+                        <span className="expense-history__arrow">→</span>
+                        <span className="expense-history__to">{formatValue(change.field, change.to)}</span>
+                      </>
+                    ) : (
+                      <span>{formatValue(change.field, entry.action === 'delete' ? change.from : change.to)}</span>
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
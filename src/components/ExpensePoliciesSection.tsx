@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+import { ROLE_LABELS, toTenantRole } from '../utils/permissions'
+import { formatMoney } from '../utils/currency'
+import { ExpensePolicySheet, type ExpensePolicy, type TeamMember } from './ExpensePolicySheet'
+
+interface ExpensePoliciesSectionProps {
+  categories: { id: string; name: string; emoji: string }[]
+}
+
+// Limits are in the tenant's base currency, like the converted amounts they're checked against
+function describePolicy(policy: ExpensePolicy | null, currency: string | undefined): string {
+  if (!policy) return 'No restrictions'
+  const parts: string[] = []
+  if (policy.maxExpenseAmount !== null) parts.push(`review over ${formatMoney(policy.maxExpenseAmount, currency)}`)
+  if (policy.requireNotesAbove !== null) parts.push(`notes over ${formatMoney(policy.requireNotesAbove, currency)}`)
+  if (policy.allowedCategories) {
+    const count = policy.allowedCategories.length
+    parts.push(`${count} categor${count === 1 ? 'y' : 'ies'}`)
+  }
+  if (parts.length === 0) return 'No restrictions'
+  const summary = parts.join(' · ')
+  return summary.charAt(0).toUpperCase() + summary.slice(1)
+}
+
+/**
+ * Settings section listing team members (everyone but owners) with
+ * their expense policy. Tapping a member opens the policy editor.
+ */
+export function ExpensePoliciesSection({ categories }: ExpensePoliciesSectionProps) {
+  const { subdomain, tenant } = useTenant()
+
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [membersKey, setMembersKey] = useState(0)
+  const [editingMember, setEditingMember] = useState<TeamMember | null>(null)
+  const [sheetOpen, setSheetOpen] = useState(false)
+
+  function handleEdit(member: TeamMember) {
+    setEditingMember(member)
+    setSheetOpen(true)
+  }
+
+  useEffect(() => {
+    if (!subdomain) return
+    async function fetchMembers() {
+      try {
+        const response = await fetch(`/api/expense-policies?tenant=${subdomain}`)
+        if (!response.ok) return
+        const data = await response.json()
+        setMembers(data.members)
+      } catch (err) {
+        console.error('Error fetching expense policies:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchMembers()
+  }, [subdomain, membersKey])
+
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section__title">Team Expense Policies</h2>
+      <div className="card">
+        {loading ? (
+          <div className="settings-row settings-row--last">
+            <span className="settings-row__description">Loading...</span>
+          </div>
+        ) : members.length === 0 ? (
+          <div className="settings-row settings-row--last">
+            <span className="settings-row__description">
+              No team members yet. Policies apply to anyone you add who isn't an owner.
+            </span>
+          </div>
+        ) : (
+          members.map((member, i) => (
+            <div
+              key={member.userId}
+              className={`settings-row settings-row--clickable ${i === members.length - 1 ? 'settings-row--last' : ''}`}
+              onClick={() => handleEdit(member)}
+              role="button"
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault()
+                  handleEdit(member)
+                }
+              }}
+            >
+              <div className="settings-row__label">
+                <span className="settings-row__title">
+                  {[member.firstName, member.lastName].filter(Boolean).join(' ') || member.email}
+                </span>
+                <span className="settings-row__description">
+                  {ROLE_LABELS[toTenantRole(member.role)]} · {describePolicy(member.policy, tenant?.baseCurrency)}
+                </span>
+              </div>
+              <span className="settings-row__value">Edit</span>
+            </div>
+          ))
+        )}
+      </div>
+      <p className="settings-section__note">
+        Expenses over a member's limit are saved and flagged with ⚠️ for your review.
+      </p>
+
+      <ExpensePolicySheet
+        isOpen={sheetOpen}
+        onClose={() => setSheetOpen(false)}
+        onSuccess={() => setMembersKey(k => k + 1)}
+        member={editingMember}
+        categories={categories}
+      />
+    </section>
+  )
+}
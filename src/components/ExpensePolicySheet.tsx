@@ -0,0 +1,277 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+import { DEFAULT_CURRENCY, currencySymbol, toMinorUnits, fromMinorUnits } from '../utils/currency'
+
+export interface ExpensePolicy {
+  maxExpenseAmount: number | null
+  requireNotesAbove: number | null
+  allowedCategories: string[] | null
+}
+
+export interface TeamMember {
+  userId: string
+  role: string
+  email: string
+  firstName: string | null
+  lastName: string | null
+  policy: ExpensePolicy | null
+}
+
+interface PolicyCategory {
+  id: string
+  name: string
+  emoji: string
+}
+
+interface ExpensePolicySheetProps {
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: () => void
+  member: TeamMember | null
+  categories: PolicyCategory[]
+}
+
+// Amount string from the form → minor units, or null when left blank
+function toCents(value: string, currency: string): number | null {
+  if (!value.trim()) return null
+  return toMinorUnits(value, currency)
+}
+
+export function ExpensePolicySheet({ isOpen, onClose, onSuccess, member, categories }: ExpensePolicySheetProps) {
+  const { subdomain, tenant } = useTenant()
+  const currency = tenant?.baseCurrency ?? DEFAULT_CURRENCY
+
+  // Form state
+  const [maxAmount, setMaxAmount] = useState('')
+  const [notesAbove, setNotesAbove] = useState('')
+  const [restrictCategories, setRestrictCategories] = useState(false)
+  const [allowedIds, setAllowedIds] = useState<string[]>([])
+
+  // UI state
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Populate form from the member's current policy
+  useEffect(() => {
+    if (isOpen && member) {
+      const policy = member.policy
+      setMaxAmount(policy?.maxExpenseAmount != null ? fromMinorUnits(policy.maxExpenseAmount, currency) : '')
+      setNotesAbove(policy?.requireNotesAbove != null ? fromMinorUnits(policy.requireNotesAbove, currency) : '')
+      setRestrictCategories(!!policy?.allowedCategories)
+      setAllowedIds(policy?.allowedCategories ?? [])
+      setError(null)
+    }
+  }, [isOpen, member, currency])
+
+  function toggleCategory(id: string) {
+    setAllowedIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id])
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!member) return
+    setError(null)
+
+    const maxExpenseAmount = toCents(maxAmount, currency)
+    const requireNotesAbove = toCents(notesAbove, currency)
+
+    if (maxExpenseAmount !== null && (isNaN(maxExpenseAmount) || maxExpenseAmount <= 0)) {
+      setError('Please enter a valid limit')
+      return
+    }
+    if (requireNotesAbove !== null && (isNaN(requireNotesAbove) || requireNotesAbove < 0)) {
+      setError('Please enter a valid notes threshold')
+      return
+    }
+    if (restrictCategories && allowedIds.length === 0) {
+      setError('Pick at least one category')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+
+      const response = await fetch(`/api/expense-policies/${member.userId}?tenant=${subdomain}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          maxExpenseAmount,
+          requireNotesAbove,
+          allowedCategories: restrictCategories ? allowedIds : null,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details?.join(', ') || data.error || 'Failed to save policy')
+      }
+
+      onSuccess()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  async function handleRemove() {
+    if (!member) return
+
+    try {
+      setSubmitting(true)
+      const response = await fetch(`/api/expense-policies/${member.userId}?tenant=${subdomain}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove policy')
+      }
+
+      onSuccess()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  function handleBackdropClick(e: React.MouseEvent) {
+    if (e.target === e.currentTarget) {
+      onClose()
+    }
+  }
+
+  const memberName = member
+    ? [member.firstName, member.lastName].filter(Boolean).join(' ') || member.email
+    : ''
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className={`sheet-backdrop ${isOpen ? 'sheet-backdrop--open' : ''}`}
+        onClick={handleBackdropClick}
+      />
+
+      {/* Bottom Sheet */}
+      <div className={`bottom-sheet ${isOpen ? 'bottom-sheet--open' : ''}`}>
+        {/* Handle bar */}
+        <div className="bottom-sheet__handle" onClick={onClose}>
+          <div className="bottom-sheet__handle-bar" />
+        </div>
+
+        {/* Header */}
+        <div className="bottom-sheet__header">
+          <h2 className="bottom-sheet__title">Policy for {memberName}</h2>
+          <button
+            className="bottom-sheet__close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6 6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form className="bottom-sheet__form" onSubmit={handleSubmit}>
+          {/* Error Message */}
+          {error && <div className="form-error">{error}</div>}
+
+          {/* Max amount */}
+          <div className="form-group">
+            <label htmlFor="policyMaxAmount" className="form-label">Review expenses over</label>
+            <div className="input-with-prefix">
+              <span className="input-prefix">{currencySymbol(currency)}</span>
+              <input
+                type="number"
+                id="policyMaxAmount"
+                className="form-input form-input--with-prefix"
+                placeholder="No limit"
+                step="0.01"
+                min="0.01"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+              />
+            </div>
+            <span className="form-hint">Expenses above this are saved but flagged for your review.</span>
+          </div>
+
+          {/* Notes threshold */}
+          <div className="form-group">
+            <label htmlFor="policyNotesAbove" className="form-label">Require a description over</label>
+            <div className="input-with-prefix">
+              <span className="input-prefix">{currencySymbol(currency)}</span>
+              <input
+                type="number"
+                id="policyNotesAbove"
+                className="form-input form-input--with-prefix"
+                placeholder="Never required"
+                step="0.01"
+                min="0"
+                value={notesAbove}
+                onChange={(e) => setNotesAbove(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Allowed categories */}
+          <div className="form-group form-group--horizontal">
+            <div>
+              <label className="form-label">Limit categories</label>
+              <span className="form-hint">Only allow expenses in the categories you pick.</span>
+            </div>
+            <button
+              type="button"
+              className={`toggle ${restrictCategories ? 'toggle--on' : ''}`}
+              onClick={() => setRestrictCategories(!restrictCategories)}
+              role="switch"
+              aria-checked={restrictCategories}
+            >
+              <span className="toggle__slider" />
+            </button>
+          </div>
+
+          {restrictCategories && (
+            <div className="policy-categories">
+              {categories.map(c => (
+                <label key={c.id} className="policy-categories__option">
+                  <input
+                    type="checkbox"
+                    checked={allowedIds.includes(c.id)}
+                    onChange={() => toggleCategory(c.id)}
+                  />
+                  <span>{c.emoji} {c.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Submit Button */}
+          <button
+            type="submit"
+            className="btn btn--primary btn--full"
+            disabled={submitting}
+          >
+            {submitting ? 'Saving...' : 'Save Policy'}
+          </button>
+
+          {member?.policy && (
+            <button
+              type="button"
+              className="btn btn--danger-outline btn--full"
+              onClick={handleRemove}
+              disabled={submitting}
+            >
+              Remove Policy
+            </button>
+          )}
+        </form>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,39 @@
+import { formatMoney } from '../utils/currency'
+
+export interface ForeignCurrencyTotal {
+  currency: string
+  originalAmount: number
+  amount: number
+  count: number
+}
+
+interface ForeignCurrencyNoteProps {
+  baseCurrency: string
+  totals: ForeignCurrencyTotal[]
+}
+
+/**
+ * Report totals add up converted amounts; this lists what was converted
+ * from, per currency, so the originals are still visible on the page.
+ */
+export function ForeignCurrencyNote({ baseCurrency, totals }: ForeignCurrencyNoteProps) {
+  if (totals.length === 0) return null
+
+  return (
+    <div className="foreign-currency-note">
+      <span className="foreign-currency-note__title">
+        💱 Amounts in {baseCurrency}, including expenses converted at the rate recorded on entry:
+      </span>
+      <ul className="foreign-currency-note__list">
+        {totals.map(t => (
+          <li key={t.currency}>
+            {formatMoney(t.originalAmount, t.currency)} → {formatMoney(t.amount, baseCurrency)}
+            <span className="foreign-currency-note__count">
+              {' '}({t.count} {t.count === 1 ? 'expense' : 'expenses'})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { useTenant } from '../hooks/useTenant'
+import { useSettings } from '../hooks/useSettings'
+
+/**
+ * "Include pending" switch for report pages. Reports only count approved
+ * expenses; this adds the ones still in the approval queue. Hidden unless
+ * the tenant has approval mode on.
+ */
+export function IncludePendingToggle() {
+  const { tenant } = useTenant()
+  const { includePending, setIncludePending } = useSettings()
+
+  if (!tenant?.requireApproval) return null
+
+  return (
+    <div className="include-pending-toggle">
+      <span className="include-pending-toggle__label">Include expenses awaiting approval</span>
+      <button
+        className={`toggle ${includePending ? 'toggle--active' : ''}`}
+        onClick={() => setIncludePending(!includePending)}
+        role="switch"
+        aria-checked={includePending}
+        aria-label="Include expenses awaiting approval"
+      >
+        <span className="toggle__slider" />
+      </button>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { useAuth } from '../hooks/useAuth'
 import { useYear } from '../hooks/useYear'
 import { useRefresh } from '../hooks/useRefresh'
 import { useSettings } from '../hooks/useSettings'
+import { usePermissions } from '../hooks/usePermissions'
 import { AddExpenseSheet } from './AddExpenseSheet'
 import { AddMileageSheet } from './AddMileageSheet'
 
@@ -22,6 +23,7 @@ export function Layout({ children }: LayoutProps) {
   const { year, nextYear, prevYear } = useYear()
   const { refreshExpenses, refreshMileage } = useRefresh()
   const { showFab } = useSettings()
+  const { can } = usePermissions()
   const currentYear = new Date().getFullYear()
 
   const appName = tenant?.name || 'Expense Tracker'
@@ -29,6 +31,9 @@ export function Layout({ children }: LayoutProps) {
   // Determine if we're on the mileage page
   const isOnMileagePage = location === '/mileage' || location.startsWith('/mileage/')
 
+  // Hide the FAB entirely for roles that can't add to the current page's ledger
+  const canAddHere = can(isOnMileagePage ? 'mileage:create' : 'expenses:create')
+
   const closeDrawer = () => setDrawerOpen(false)
 
   const handleExpenseAdded = () => {
@@ -157,7 +162,10 @@ export function Layout({ children }: LayoutProps) {
         <ul className="drawer__nav">
           <NavItem icon="dashboard" label="Dashboard" href="/" currentPath={location} onClick={closeDrawer} />
           <NavItem icon="receipt" label="Expenses" href="/expenses" currentPath={location} onClick={closeDrawer} />
+          {tenant?.requireApproval && <NavItem icon="check" label="Approvals" href="/approvals" currentPath={location} onClick={closeDrawer} />}
           <NavItem icon="car" label="Mileage" href="/mileage" currentPath={location} onClick={closeDrawer} />
+          <NavItem icon="repeat" label="Recurring" href="/recurring" currentPath={location} onClick={closeDrawer} />
+          <NavItem icon="wallet" label="Reimbursements" href="/reimbursements" currentPath={location} onClick={closeDrawer} />
           <NavItem icon="folder" label="Categories" href="/categories" currentPath={location} onClick={closeDrawer} />
           <NavItem icon="chart" label="Reports" href="/reports" currentPath={location} onClick={closeDrawer} />
           {user?.isSuperAdmin && <AdminNavLink user={user} currentPath={location} closeDrawer={closeDrawer} />}
@@ -193,7 +201,7 @@ export function Layout({ children }: LayoutProps) {
       </main>
 
       {/* Global FAB - Context Aware */}
-      {showFab && !expenseSheetOpen && !mileageSheetOpen && !location.startsWith('/reports') && (
+      {showFab && canAddHere && !expenseSheetOpen && !mileageSheetOpen && !location.startsWith('/reports') && (
         <button
           className={`fab ${isOnMileagePage ? 'fab--mileage' : ''}`}
           onClick={handleFabClick}
@@ -417,7 +425,7 @@ function TenantSwitcher({ user, tenant }: TenantSwitcherProps) {
 // ─── NavItem ─────────────────────────────────────────────────────────────────
 
 interface NavItemProps {
-  icon: 'dashboard' | 'receipt' | 'car' | 'folder' | 'chart' | 'admin' | 'settings'
+  icon: 'dashboard' | 'receipt' | 'check' | 'car' | 'repeat' | 'wallet' | 'folder' | 'chart' | 'admin' | 'settings'
   label: string
   href: string
   currentPath: string
@@ -444,6 +452,12 @@ function NavItem({ icon, label, href, currentPath, onClick }: NavItemProps) {
         <line x1="8" y1="16" x2="12" y2="16" />
       </svg>
     ),
+    check: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+        <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14" />
+        <polyline points="22 4 12 14.01 9 11.01" />
+      </svg>
+    ),
     car: (
       <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
         <path d="M5 17h14v-5H5v5zm2-3h2v2H7v-2zm8 0h2v2h-2v-2z" />
@@ -452,6 +466,22 @@ function NavItem({ icon, label, href, currentPath, onClick }: NavItemProps) {
         <circle cx="17" cy="17" r="2" />
       </svg>
     ),
+    repeat: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+        <polyline points="17 1 21 5 17 9" />
+        <path d="M3 11V9a4 4 0 0 1 4-4h14" />
+        <polyline points="7 23 3 19 7 15" />
+        <path d="M21 13v2a4 4 0 0 1-4 4H3" />
+      </svg>
+    ),
+    wallet: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+        <rect x="2" y="6" width="20" height="14" rx="2" />
+        <path d="M2 10h20" />
+        <path d="M6 6V4h12v2" />
+        <circle cx="17" cy="15" r="1" />
+      </svg>
+    ),
     folder: (
       <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
         <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z" />
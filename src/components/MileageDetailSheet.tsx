@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { useTenant } from '../hooks/useTenant'
+import { usePermissions } from '../hooks/usePermissions'
 
 // Fire-and-forget usage beacon for API cost tracking
 function logUsage(subdomain: string | null, actionType: 'places_autocomplete' | 'distance_matrix') {
@@ -20,6 +21,8 @@ interface MileageTrip {
   endLocation: string
   distanceMiles: number
   isRoundTrip: boolean
+  mileageRate: number // cents per mile in effect on the trip date
+  deduction: number // cents
 }
 
 interface PlaceData {
@@ -37,6 +40,9 @@ interface MileageDetailSheetProps {
 
 export function MileageDetailSheet({ trip, isOpen, onClose, onUpdate, onDelete }: MileageDetailSheetProps) {
   const { subdomain } = useTenant()
+  const { can } = usePermissions()
+  const canEditTrip = can('mileage:edit')
+  const canDeleteTrip = can('mileage:delete')
   
   // Mode: always open in view mode
   const [mode, setMode] = useState<'view' | 'edit'>('view')
@@ -295,12 +301,6 @@ export function MileageDetailSheet({ trip, isOpen, onClose, onUpdate, onDelete }
     })
   }
 
-  // Calculate estimated deduction (IRS rate for 2025: $0.70/mile)
-  const calculateDeduction = (miles: number, roundTrip: boolean) => {
-    const effectiveMiles = roundTrip ? miles * 2 : miles
-    return ((effectiveMiles / 100) * 0.70).toFixed(2)
-  }
-
   // Handle save
   async function handleSave() {
     if (!trip) return
@@ -428,17 +428,19 @@ export function MileageDetailSheet({ trip, isOpen, onClose, onUpdate, onDelete }
                   <circle cx="12" cy="12" r="3" />
                 </svg>
               </button>
-              <button
-                className={`mode-toggle__btn ${mode === 'edit' ? 'mode-toggle__btn--active' : ''}`}
-                onClick={() => handleModeChange('edit')}
-                aria-label="Edit mode"
-                title="Edit mode"
-              >
-                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
-                  <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
-                </svg>
-              </button>
+              {canEditTrip && (
+                <button
+                  className={`mode-toggle__btn ${mode === 'edit' ? 'mode-toggle__btn--active' : ''}`}
+                  onClick={() => handleModeChange('edit')}
+                  aria-label="Edit mode"
+                  title="Edit mode"
+                >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
+                    <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
+                  </svg>
+                </button>
+              )}
             </div>
             <button 
               className="bottom-sheet__close"
@@ -557,38 +559,46 @@ export function MileageDetailSheet({ trip, isOpen, onClose, onUpdate, onDelete }
 
                 <div className="detail-row">
                   <span className="detail-row__label">Est. Deduction</span>
-                  <span className="detail-row__value">${calculateDeduction(trip.distanceMiles, trip.isRoundTrip)}</span>
+                  <span className="detail-row__value">
+                    ${(trip.deduction / 100).toFixed(2)} @ {trip.mileageRate}¢/mi
+                  </span>
                 </div>
               </div>
 
               {/* Action Buttons */}
-              <div className="detail-actions">
-                <button 
-                  className="btn btn--secondary btn--full"
-                  onClick={() => handleModeChange('edit')}
-                >
-                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
-                    <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
-                  </svg>
-                  Edit Trip
-                </button>
-                <button 
-                  className="btn btn--danger-outline btn--full"
-                  onClick={() => setShowDeleteConfirm(true)}
-                >
-                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <polyline points="3 6 5 6 21 6" />
-                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                  </svg>
-                  Delete Trip
-                </button>
-              </div>
+              {(canEditTrip || canDeleteTrip) && (
+                <div className="detail-actions">
+                  {canEditTrip && (
+                    <button 
+                      className="btn btn--secondary btn--full"
+                      onClick={() => handleModeChange('edit')}
+                    >
+                      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
+                        <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
+                      </svg>
+                      Edit Trip
+                    </button>
+                  )}
+                  {canDeleteTrip && (
+                    <button 
+                      className="btn btn--danger-outline btn--full"
+                      onClick={() => setShowDeleteConfirm(true)}
+                    >
+                      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="3 6 5 6 21 6" />
+                        <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                      </svg>
+                      Delete Trip
+                    </button>
+                  )}
+                </div>
+              )}
             </>
           )}
 
           {/* Edit Mode */}
-          {mode === 'edit' && !showDeleteConfirm && (
+          {mode === 'edit' && canEditTrip && !showDeleteConfirm && (
             <>
               {/* Date */}
               <div className="form-group">
@@ -707,18 +717,20 @@ export function MileageDetailSheet({ trip, isOpen, onClose, onUpdate, onDelete }
               </div>
 
               {/* Delete in Edit Mode */}
-              <button 
-                className="btn btn--danger-outline btn--full"
-                onClick={() => setShowDeleteConfirm(true)}
-                disabled={submitting}
-                style={{ marginTop: 'var(--spacing-md)' }}
-              >
-                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <polyline points="3 6 5 6 21 6" />
-                  <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                </svg>
-                Delete Trip
-              </button>
+              {canDeleteTrip && (
+                <button 
+                  className="btn btn--danger-outline btn--full"
+                  onClick={() => setShowDeleteConfirm(true)}
+                  disabled={submitting}
+                  style={{ marginTop: 'var(--spacing-md)' }}
+                >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="3 6 5 6 21 6" />
+                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                  </svg>
+                  Delete Trip
+                </button>
+              )}
             </>
           )}
         </div>
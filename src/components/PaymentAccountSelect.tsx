@@ -0,0 +1,42 @@
+import type { ReactNode } from 'react'
+import type { PaymentAccount } from '../hooks/usePaymentAccounts'
+import { PAYMENT_ACCOUNT_EMOJI, formatPaymentAccount } from '../utils/payment-accounts'
+
+interface PaymentAccountSelectProps {
+  id: string
+  accounts: PaymentAccount[]
+  value: string // '' = not recorded
+  onChange: (paymentAccountId: string) => void
+  labelExtra?: ReactNode // e.g. a scan confidence dot
+}
+
+/**
+ * "Paid with" picker for an expense. Archived accounts only appear when
+ * the expense already uses one; nothing renders until the tenant has
+ * added an account in Settings.
+ */
+export function PaymentAccountSelect({ id, accounts, value, onChange, labelExtra }: PaymentAccountSelectProps) {
+  const options = accounts.filter(a => a.isActive || a.id === value)
+  if (options.length === 0) return null
+
+  return (
+    <div className="form-group">
+      <label htmlFor={id} className="form-label">
+        Paid With {labelExtra}
+      </label>
+      <select
+        id={id}
+        className="form-input"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        <option value="">Not recorded</option>
+        {options.map(account => (
+          <option key={account.id} value={account.id}>
+            {PAYMENT_ACCOUNT_EMOJI[account.kind] ?? '💳'} {formatPaymentAccount(account)}{account.isActive ? '' : ' (archived)'}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,259 @@
+import { useState } from 'react'
+import { useTenant } from '../hooks/useTenant'
+import { usePaymentAccounts, type PaymentAccount } from '../hooks/usePaymentAccounts'
+import {
+  PAYMENT_ACCOUNT_KINDS,
+  PAYMENT_ACCOUNT_KIND_LABELS,
+  PAYMENT_ACCOUNT_EMOJI,
+  formatPaymentAccount,
+  type PaymentAccountKind,
+} from '../utils/payment-accounts'
+
+/**
+ * Settings section for the cards, bank accounts and cash an expense can
+ * be paid from. Reports total spending per account so it can be tied
+ * back to each statement.
+ */
+export function PaymentAccountsSection() {
+  const { subdomain } = useTenant()
+
+  const [accountsKey, setAccountsKey] = useState(0)
+  const { accounts, loading } = usePaymentAccounts(accountsKey)
+
+  // Form state (add or edit)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [kind, setKind] = useState<PaymentAccountKind>('card')
+  const [last4, setLast4] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  // Delete confirmation state
+  const [deletingAccount, setDeletingAccount] = useState<PaymentAccount | null>(null)
+  const [deleteSubmitting, setDeleteSubmitting] = useState(false)
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  function resetForm() {
+    setEditingId(null)
+    setName('')
+    setKind('card')
+    setLast4('')
+    setFormError(null)
+  }
+
+  function handleEdit(account: PaymentAccount) {
+    setEditingId(account.id)
+    setName(account.name)
+    setKind(account.kind)
+    setLast4(account.last4 || '')
+    setFormError(null)
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!name.trim()) {
+      setFormError('Name is required')
+      return
+    }
+    if (last4 && !/^\d{4}$/.test(last4)) {
+      setFormError('Last four digits must be exactly 4 digits')
+      return
+    }
+
+    const url = editingId
+      ? `/api/payment-accounts/${editingId}?tenant=${subdomain}`
+      : `/api/payment-accounts?tenant=${subdomain}`
+
+    try {
+      setSaving(true)
+      setFormError(null)
+      const response = await fetch(url, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), kind, last4: kind === 'cash' ? null : last4 || null }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details?.join(', ') || data.error || 'Failed to save account')
+      }
+      resetForm()
+      setAccountsKey(k => k + 1)
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleRestore(account: PaymentAccount) {
+    try {
+      const response = await fetch(`/api/payment-accounts/${account.id}?tenant=${subdomain}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: true }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to restore account')
+      }
+      setAccountsKey(k => k + 1)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Something went wrong')
+    }
+  }
+
+  async function handleDeleteConfirm() {
+    if (!deletingAccount) return
+
+    try {
+      setDeleteSubmitting(true)
+      const response = await fetch(
+        `/api/payment-accounts/${deletingAccount.id}?tenant=${subdomain}`,
+        { method: 'DELETE' }
+      )
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete account')
+      }
+      if (editingId === deletingAccount.id) resetForm()
+      setDeletingAccount(null)
+      setAccountsKey(k => k + 1)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setDeleteSubmitting(false)
+    }
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section__title">Payment Accounts</h2>
+      <div className="card">
+        {loading ? (
+          <div className="settings-row">
+            <span className="settings-row__description">Loading...</span>
+          </div>
+        ) : accounts.map(account => (
+          <div key={account.id} className="settings-row">
+            <div className="settings-row__label">
+              <span className="settings-row__title">
+                {PAYMENT_ACCOUNT_EMOJI[account.kind] ?? '💳'} {formatPaymentAccount(account)}
+              </span>
+              <span className="settings-row__description">
+                {PAYMENT_ACCOUNT_KIND_LABELS[account.kind] ?? account.kind}
+                {!account.isActive && ' · Archived'}
+              </span>
+            </div>
+            <div className="saved-location__actions">
+              {account.isActive ? (
+                <>
+                  <button className="btn btn--secondary btn--sm" onClick={() => handleEdit(account)}>
+                    Edit
+                  </button>
+                  <button className="btn btn--danger-outline btn--sm" onClick={() => setDeletingAccount(account)}>
+                    Delete
+                  </button>
+                </>
+              ) : (
+                <button className="btn btn--secondary btn--sm" onClick={() => handleRestore(account)}>
+                  Restore
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {/* Add / edit form */}
+        <form className="settings-row settings-row--last saved-location-form" onSubmit={handleSubmit}>
+          <div className="settings-row__label">
+            <span className="settings-row__title">{editingId ? 'Edit account' : 'Add an account'}</span>
+            <span className="settings-row__description">Scanned receipts are matched on the last four digits</span>
+          </div>
+          <div className="saved-location-form__fields">
+            <input
+              type="text"
+              className="form-input"
+              placeholder="Name (e.g., Chase Ink, Petty cash)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              disabled={saving}
+            />
+            <div className="payment-account-form__row">
+              <select
+                className="form-input"
+                value={kind}
+                onChange={(e) => setKind(e.target.value as PaymentAccountKind)}
+                disabled={saving}
+                aria-label="Account type"
+              >
+                {PAYMENT_ACCOUNT_KINDS.map(k => (
+                  <option key={k} value={k}>{PAYMENT_ACCOUNT_KIND_LABELS[k]}</option>
+                ))}
+              </select>
+              {kind !== 'cash' && (
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  className="form-input payment-account-form__last4"
+                  placeholder="Last 4"
+                  value={last4}
+                  onChange={(e) => setLast4(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                  disabled={saving}
+                  aria-label="Last four digits"
+                />
+              )}
+            </div>
+            <div className="saved-location__actions">
+              {editingId && (
+                <button type="button" className="btn btn--secondary btn--sm" onClick={resetForm} disabled={saving}>
+                  Cancel
+                </button>
+              )}
+              <button type="submit" className="btn btn--primary btn--sm" disabled={saving || !name.trim()}>
+                {saving ? 'Saving...' : editingId ? 'Save' : 'Add'}
+              </button>
+            </div>
+          </div>
+        </form>
+        {formError && <div className="form-error">{formError}</div>}
+      </div>
+
+      {/* ============================================
+         DELETE CONFIRMATION MODAL
+         ============================================ */}
+      {deletingAccount && (
+        <>
+          <div className="sheet-backdrop sheet-backdrop--open" onClick={() => setDeletingAccount(null)} />
+          <div className="delete-modal">
+            <h3 className="delete-modal__title">Delete "{formatPaymentAccount(deletingAccount)}"?</h3>
+            <p className="delete-modal__body">
+              If any expenses were paid with it, it's archived instead so reports still show it.
+            </p>
+            <div className="delete-modal__actions">
+              <button
+                className="btn btn--secondary"
+                onClick={() => setDeletingAccount(null)}
+                disabled={deleteSubmitting}
+              >
+                Cancel
+              </button>
+              <button
+                className="btn btn--danger"
+                onClick={handleDeleteConfirm}
+                disabled={deleteSubmitting}
+              >
+                {deleteSubmitting ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
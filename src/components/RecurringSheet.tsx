@@ -0,0 +1,401 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+import { DEFAULT_CURRENCY, currencySymbol, toMinorUnits, fromMinorUnits } from '../utils/currency'
+import { todayLocal } from '../utils/date-utils'
+
+interface Category {
+  id: string
+  name: string
+  emoji: string | null
+  expenseType?: string
+}
+
+export interface RecurringExpense {
+  id: string
+  amount: number
+  vendor: string | null
+  description: string | null
+  categoryId: string | null
+  categoryName: string | null
+  categoryEmoji: string | null
+  expenseType: string
+  frequency: string
+  dayOfMonth: number | null
+  lastGeneratedAt: string | null
+  nextGenerationAt: string | null
+  isActive: boolean
+  generatedCount: number
+}
+
+interface RecurringSheetProps {
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: () => void
+  editRecurring?: RecurringExpense | null
+}
+
+type Frequency = 'monthly' | 'quarterly' | 'yearly'
+
+export function RecurringSheet({ isOpen, onClose, onSuccess, editRecurring }: RecurringSheetProps) {
+  const { subdomain, tenant } = useTenant()
+  const currency = tenant?.baseCurrency ?? DEFAULT_CURRENCY // templates are in the base currency
+  const isEditing = !!editRecurring
+
+  // Form state
+  const [amount, setAmount] = useState('')
+  const [vendor, setVendor] = useState('')
+  const [description, setDescription] = useState('')
+  const [categoryId, setCategoryId] = useState('')
+  const [expenseType, setExpenseType] = useState<'operating' | 'cogs'>('operating')
+  const [frequency, setFrequency] = useState<Frequency>('monthly')
+  const [nextDate, setNextDate] = useState(todayLocal)
+  const [isActive, setIsActive] = useState(true)
+
+  // UI state
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loadingCategories, setLoadingCategories] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Fetch categories when sheet opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    async function fetchCategories() {
+      try {
+        setLoadingCategories(true)
+        const response = await fetch(`/api/categories?tenant=${subdomain}`)
+        if (!response.ok) {
+          throw new Error('Failed to load categories')
+        }
+        const data = await response.json()
+        setCategories([...data.categories].sort((a: Category, b: Category) => a.name.localeCompare(b.name)))
+      } catch (err) {
+        console.error('Error fetching categories:', err)
+        setError('Failed to load categories')
+      } finally {
+        setLoadingCategories(false)
+      }
+    }
+
+    fetchCategories()
+  }, [isOpen, subdomain])
+
+  // Populate form when editing
+  useEffect(() => {
+    if (isOpen && editRecurring) {
+      setAmount(fromMinorUnits(editRecurring.amount, currency))
+      setVendor(editRecurring.vendor || '')
+      setDescription(editRecurring.description || '')
+      setCategoryId(editRecurring.categoryId || '')
+      setExpenseType(editRecurring.expenseType === 'cogs' ? 'cogs' : 'operating')
+      setFrequency(editRecurring.frequency as Frequency)
+      setNextDate(editRecurring.nextGenerationAt ? editRecurring.nextGenerationAt.substring(0, 10) : todayLocal())
+      setIsActive(editRecurring.isActive)
+      setError(null)
+    }
+  }, [isOpen, editRecurring, currency])
+
+  // Reset form when sheet closes (only for add mode)
+  useEffect(() => {
+    if (!isOpen) {
+      const timer = setTimeout(() => {
+        if (!editRecurring) {
+          setAmount('')
+          setVendor('')
+          setDescription('')
+          setCategoryId('')
+          setExpenseType('operating')
+          setFrequency('monthly')
+          setNextDate(todayLocal())
+          setIsActive(true)
+        }
+        setError(null)
+      }, 300)
+      return () => clearTimeout(timer)
+    }
+  }, [isOpen, editRecurring])
+
+  // Default expense type follows the chosen category (add mode only)
+  function handleCategoryChange(id: string) {
+    setCategoryId(id)
+    if (!isEditing) {
+      const cat = categories.find(c => c.id === id)
+      if (cat?.expenseType === 'cogs' || cat?.expenseType === 'operating') {
+        setExpenseType(cat.expenseType)
+      }
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+
+    const amountNum = parseFloat(amount)
+    if (!amount || isNaN(amountNum) || amountNum <= 0) {
+      setError('Please enter a valid amount')
+      return
+    }
+    if (!vendor.trim()) {
+      setError('Please enter a vendor')
+      return
+    }
+    if (!categoryId) {
+      setError('Please select a category')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+
+      // The chosen date's day becomes the day of month for every future occurrence
+      const payload: Record<string, unknown> = {
+        amount: toMinorUnits(amount, currency),
+        vendor: vendor.trim(),
+        description: description.trim() || null,
+        categoryId,
+        expenseType,
+        frequency,
+        dayOfMonth: parseInt(nextDate.substring(8, 10)),
+      }
+      if (isEditing) {
+        // Only send the date when it changed so resuming can skip missed dates server-side
+        if (nextDate !== editRecurring!.nextGenerationAt?.substring(0, 10)) {
+          payload.nextDate = nextDate
+        }
+        payload.isActive = isActive
+      } else {
+        payload.startDate = nextDate
+      }
+
+      const url = isEditing
+        ? `/api/recurring/${editRecurring!.id}?tenant=${subdomain}`
+        : `/api/recurring?tenant=${subdomain}`
+
+      const response = await fetch(url, {
+        method: isEditing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details?.join(', ') || data.error || 'Failed to save recurring expense')
+      }
+
+      onSuccess()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  function handleBackdropClick(e: React.MouseEvent) {
+    if (e.target === e.currentTarget) {
+      onClose()
+    }
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className={`sheet-backdrop ${isOpen ? 'sheet-backdrop--open' : ''}`}
+        onClick={handleBackdropClick}
+      />
+
+      {/* Bottom Sheet */}
+      <div className={`bottom-sheet ${isOpen ? 'bottom-sheet--open' : ''}`}>
+        {/* Handle bar */}
+        <div className="bottom-sheet__handle" onClick={onClose}>
+          <div className="bottom-sheet__handle-bar" />
+        </div>
+
+        {/* Header */}
+        <div className="bottom-sheet__header">
+          <h2 className="bottom-sheet__title">
+            {isEditing ? 'Edit Recurring Expense' : 'Add Recurring Expense'}
+          </h2>
+          <button
+            className="bottom-sheet__close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6 6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form className="bottom-sheet__form" onSubmit={handleSubmit}>
+          {/* Error Message */}
+          {error && <div className="form-error">{error}</div>}
+
+          {/* Amount */}
+          <div className="form-group">
+            <label htmlFor="recurringAmount" className="form-label">Amount *</label>
+            <div className="input-with-prefix">
+              <span className="input-prefix">{currencySymbol(currency)}</span>
+              <input
+                type="number"
+                id="recurringAmount"
+                className="form-input form-input--with-prefix"
+                placeholder="0.00"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          {/* Vendor */}
+          <div className="form-group">
+            <label htmlFor="recurringVendor" className="form-label">Vendor *</label>
+            <input
+              type="text"
+              id="recurringVendor"
+              className="form-input"
+              placeholder="e.g., Adobe, Verizon"
+              value={vendor}
+              onChange={(e) => setVendor(e.target.value)}
+              maxLength={255}
+              required
+            />
+          </div>
+
+          {/* Category */}
+          <div className="form-group">
+            <label htmlFor="recurringCategory" className="form-label">Category *</label>
+            {loadingCategories ? (
+              <div className="form-input form-input--loading">Loading categories...</div>
+            ) : (
+              <select
+                id="recurringCategory"
+                className="form-input form-select"
+                value={categoryId}
+                onChange={(e) => handleCategoryChange(e.target.value)}
+                required
+              >
+                <option value="" disabled>Select a category</option>
+                {categories.map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.emoji} {cat.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Frequency */}
+          <div className="form-group">
+            <label htmlFor="recurringFrequency" className="form-label">Repeats</label>
+            <select
+              id="recurringFrequency"
+              className="form-input form-select"
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as Frequency)}
+            >
+              <option value="monthly">Monthly</option>
+              <option value="quarterly">Quarterly</option>
+              <option value="yearly">Yearly</option>
+            </select>
+          </div>
+
+          {/* Next occurrence */}
+          <div className="form-group">
+            <label htmlFor="recurringDate" className="form-label">
+              {isEditing ? 'Next Expense Date' : 'First Expense Date'} *
+            </label>
+            <input
+              type="date"
+              id="recurringDate"
+              className="form-input"
+              value={nextDate}
+              onChange={(e) => setNextDate(e.target.value)}
+              required
+            />
+            <span className="form-hint">
+              Expenses are added automatically on this day of the month.
+              Days past the end of a short month fall on its last day.
+            </span>
+          </div>
+
+          {/* Description */}
+          <div className="form-group">
+            <label htmlFor="recurringDescription" className="form-label">Description</label>
+            <input
+              type="text"
+              id="recurringDescription"
+              className="form-input"
+              placeholder="What is this for?"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          {/* Expense Type */}
+          <div className="form-group">
+            <label className="form-label">Expense Type</label>
+            <div className="expense-type-group">
+              <label className={`expense-type-option ${expenseType === 'operating' ? 'expense-type-option--selected' : ''}`}>
+                <input
+                  type="radio"
+                  name="recurringExpenseType"
+                  value="operating"
+                  checked={expenseType === 'operating'}
+                  onChange={() => setExpenseType('operating')}
+                />
+                <span>Operating</span>
+              </label>
+              <label className={`expense-type-option ${expenseType === 'cogs' ? 'expense-type-option--selected' : ''}`}>
+                <input
+                  type="radio"
+                  name="recurringExpenseType"
+                  value="cogs"
+                  checked={expenseType === 'cogs'}
+                  onChange={() => setExpenseType('cogs')}
+                />
+                <span>COGS</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Active toggle (edit only) */}
+          {isEditing && (
+            <div className="form-group form-group--horizontal">
+              <div>
+                <label className="form-label">Active</label>
+                <span className="form-hint">
+                  Paused templates don't create expenses. Resuming skips any dates missed while paused.
+                </span>
+              </div>
+              <button
+                type="button"
+                className={`toggle ${isActive ? 'toggle--on' : ''}`}
+                onClick={() => setIsActive(!isActive)}
+                role="switch"
+                aria-checked={isActive}
+              >
+                <span className="toggle__slider" />
+              </button>
+            </div>
+          )}
+
+          {/* Submit Button */}
+          <button
+            type="submit"
+            className="btn btn--primary btn--full"
+            disabled={submitting || loadingCategories}
+          >
+            {submitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Recurring Expense'}
+          </button>
+        </form>
+      </div>
+    </>
+  )
+}
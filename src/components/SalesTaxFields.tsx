@@ -0,0 +1,82 @@
+import type { ReactNode } from 'react'
+import { currencyDecimals, currencySymbol, formatMoney, toMinorUnits } from '../utils/currency'
+
+interface SalesTaxFieldsProps {
+  taxAmount: string // typed tax in `currency`; '' = not recorded (or worked out from the rate)
+  onTaxAmountChange: (amount: string) => void
+  taxRate: string   // typed percent, e.g. "8.25"
+  onTaxRateChange: (rate: string) => void
+  amount: string    // typed total in `currency`, for the preview
+  currency: string
+  labelExtra?: ReactNode // e.g. a scan confidence dot
+}
+
+/**
+ * Sales tax / VAT included in an expense's total. Either field is enough —
+ * the API backs the tax out of the total from a rate, or works out the
+ * rate from an amount; the hint previews the result. Typing in one field
+ * clears the other so a stale pair is never saved.
+ */
+export function SalesTaxFields({ taxAmount, onTaxAmountChange, taxRate, onTaxRateChange, amount, currency, labelExtra }: SalesTaxFieldsProps) {
+  const step = currencyDecimals(currency) === 0 ? '1' : '0.01'
+  const total = toMinorUnits(amount, currency)
+  const tax = toMinorUnits(taxAmount, currency)
+  const rate = parseFloat(taxRate)
+
+  let preview: string | null = null
+  if (!isNaN(total) && total > 0) {
+    if (taxAmount && taxRate) {
+      preview = `${taxRate}% tax included in the total`
+    } else if (taxAmount && !isNaN(tax) && tax < total) {
+      preview = `${(Math.round(tax / (total - tax) * 100000) / 1000)}% on ${formatMoney(total - tax, currency)} before tax`
+    } else if (!taxAmount && taxRate && !isNaN(rate) && rate >= 0) {
+      preview = `${formatMoney(Math.round(total * rate / (100 + rate)), currency)} tax included in the total`
+    }
+  }
+
+  return (
+    <div className="form-group">
+      <label htmlFor="taxAmount" className="form-label">
+        Sales Tax / VAT {labelExtra}
+      </label>
+      <div className="sales-tax-fields">
+        <div className="input-with-prefix sales-tax-fields__amount">
+          <span className="input-prefix">{currencySymbol(currency)}</span>
+          <input
+            type="number"
+            id="taxAmount"
+            className="form-input form-input--with-prefix"
+            placeholder={step === '1' ? '0' : '0.00'}
+            step={step}
+            min="0"
+            value={taxAmount}
+            onChange={(e) => {
+              onTaxAmountChange(e.target.value)
+              if (taxRate) onTaxRateChange('')
+            }}
+          />
+        </div>
+        <div className="sales-tax-fields__rate">
+          <input
+            type="number"
+            className="form-input"
+            placeholder="Rate"
+            step="any"
+            min="0"
+            max="100"
+            value={taxRate}
+            onChange={(e) => {
+              onTaxRateChange(e.target.value)
+              if (taxAmount) onTaxAmountChange('')
+            }}
+            aria-label="Tax rate (%)"
+          />
+          <span className="sales-tax-fields__suffix">%</span>
+        </div>
+      </div>
+      <span className="form-hint">
+        {preview ?? 'Optional — tax included in the total, for sales-tax or VAT returns'}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+
+export interface SavedLocation {
+  id: string
+  name: string
+  address: string
+  sortOrder: number | null
+}
+
+/**
+ * Settings section for the locations offered as one-tap
+ * chips when logging a trip (Home, Office, client sites...).
+ */
+export function SavedLocationsSection() {
+  const { subdomain } = useTenant()
+
+  const [locations, setLocations] = useState<SavedLocation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [locationsKey, setLocationsKey] = useState(0)
+
+  // Form state (add or edit)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [address, setAddress] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  // Delete confirmation state
+  const [deletingLocation, setDeletingLocation] = useState<SavedLocation | null>(null)
+  const [deleteSubmitting, setDeleteSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!subdomain) return
+    async function fetchLocations() {
+      try {
+        const response = await fetch(`/api/locations?tenant=${subdomain}`)
+        if (!response.ok) return
+        const data = await response.json()
+        setLocations(data.locations)
+      } catch (err) {
+        console.error('Error fetching saved locations:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchLocations()
+  }, [subdomain, locationsKey])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  function resetForm() {
+    setEditingId(null)
+    setName('')
+    setAddress('')
+    setFormError(null)
+  }
+
+  function handleEdit(location: SavedLocation) {
+    setEditingId(location.id)
+    setName(location.name)
+    setAddress(location.address)
+    setFormError(null)
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!name.trim() || !address.trim()) {
+      setFormError('Name and address are required')
+      return
+    }
+
+    const url = editingId
+      ? `/api/locations/${editingId}?tenant=${subdomain}`
+      : `/api/locations?tenant=${subdomain}`
+
+    try {
+      setSaving(true)
+      setFormError(null)
+      const response = await fetch(url, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), address: address.trim() }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details?.join(', ') || data.error || 'Failed to save location')
+      }
+      resetForm()
+      setLocationsKey(k => k + 1)
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDeleteConfirm() {
+    if (!deletingLocation) return
+
+    try {
+      setDeleteSubmitting(true)
+      const response = await fetch(
+        `/api/locations/${deletingLocation.id}?tenant=${subdomain}`,
+        { method: 'DELETE' }
+      )
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete location')
+      }
+      if (editingId === deletingLocation.id) resetForm()
+      setDeletingLocation(null)
+      setLocationsKey(k => k + 1)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setDeleteSubmitting(false)
+    }
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section__title">Saved Locations</h2>
+      <div className="card">
+        {loading ? (
+          <div className="settings-row">
+            <span className="settings-row__description">Loading...</span>
+          </div>
+        ) : locations.map(location => (
+          <div key={location.id} className="settings-row">
+            <div className="settings-row__label">
+              <span className="settings-row__title">📍 {location.name}</span>
+              <span className="settings-row__description">{location.address}</span>
+            </div>
+            <div className="saved-location__actions">
+              <button className="btn btn--secondary btn--sm" onClick={() => handleEdit(location)}>
+                Edit
+              </button>
+              <button className="btn btn--danger-outline btn--sm" onClick={() => setDeletingLocation(location)}>
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {/* Add / edit form */}
+        <form className="settings-row settings-row--last saved-location-form" onSubmit={handleSubmit}>
+          <div className="settings-row__label">
+            <span className="settings-row__title">{editingId ? 'Edit location' : 'Add a location'}</span>
+            <span className="settings-row__description">Shown as quick picks when you log a trip</span>
+          </div>
+          <div className="saved-location-form__fields">
+            <input
+              type="text"
+              className="form-input"
+              placeholder="Name (e.g., Home, Office)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              disabled={saving}
+            />
+            <input
+              type="text"
+              className="form-input"
+              placeholder="Full address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              maxLength={500}
+              disabled={saving}
+            />
+            <div className="saved-location__actions">
+              {editingId && (
+                <button type="button" className="btn btn--secondary btn--sm" onClick={resetForm} disabled={saving}>
+                  Cancel
+                </button>
+              )}
+              <button type="submit" className="btn btn--primary btn--sm" disabled={saving || !name.trim() || !address.trim()}>
+                {saving ? 'Saving...' : editingId ? 'Save' : 'Add'}
+              </button>
+            </div>
+          </div>
+        </form>
+        {formError && <div className="form-error">{formError}</div>}
+      </div>
+
+      {/* ============================================
+         DELETE CONFIRMATION MODAL
+         ============================================ */}
+      {deletingLocation && (
+        <>
+          <div className="sheet-backdrop sheet-backdrop--open" onClick={() => setDeletingLocation(null)} />
+          <div className="delete-modal">
+            <h3 className="delete-modal__title">Delete "{deletingLocation.name}"?</h3>
+            <p className="delete-modal__body">
+              Trips you've already logged keep their addresses.
+            </p>
+            <div className="delete-modal__actions">
+              <button
+                className="btn btn--secondary"
+                onClick={() => setDeletingLocation(null)}
+                disabled={deleteSubmitting}
+              >
+                Cancel
+              </button>
+              <button
+                className="btn btn--danger"
+                onClick={handleDeleteConfirm}
+                disabled={deleteSubmitting}
+              >
+                {deleteSubmitting ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
@@ -6,45 +6,46 @@ export interface DefaultCategory {
   name: string;
   expenseType: 'operating' | 'cogs';
   homeOfficeEligible: boolean;
+  scheduleCLine: string | null; // see src/utils/schedule-c.ts
   isSystem?: boolean;
 }
 
 export const DEFAULT_CATEGORIES: DefaultCategory[] = [
   // --- Operating Expenses ---
-  { emoji: '📎', name: 'Office Supplies', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '🛡️', name: 'Business Insurance', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '✈️', name: 'Travel', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '💻', name: 'Software & Subscriptions', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '🖥️', name: 'Hardware (under $500)', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '🎓', name: 'Continuing Education', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '🤝', name: 'Contractors', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '⚖️', name: 'Professional Fees', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '📜', name: 'Business Licenses & Fees', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '🎁', name: 'Gifts to Clients', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '🍽️', name: 'Meals', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '📣', name: 'Advertising & Marketing', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '💳', name: 'Merchant Fees', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '🏦', name: 'Bank Fees', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '💰', name: 'Interest Paid', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '🌍', name: 'Web Expense', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '📋', name: 'Equipment Rental', expenseType: 'operating', homeOfficeEligible: false },
-  { emoji: '📬', name: 'Postage & Delivery', expenseType: 'operating', homeOfficeEligible: false },
+  { emoji: '📎', name: 'Office Supplies', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '18' },
+  { emoji: '🛡️', name: 'Business Insurance', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '15' },
+  { emoji: '✈️', name: 'Travel', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '24a' },
+  { emoji: '💻', name: 'Software & Subscriptions', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '18' },
+  { emoji: '🖥️', name: 'Hardware (under $500)', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '18' },
+  { emoji: '🎓', name: 'Continuing Education', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '27a' },
+  { emoji: '🤝', name: 'Contractors', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '11' },
+  { emoji: '⚖️', name: 'Professional Fees', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '17' },
+  { emoji: '📜', name: 'Business Licenses & Fees', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '23' },
+  { emoji: '🎁', name: 'Gifts to Clients', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '27a' },
+  { emoji: '🍽️', name: 'Meals', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '24b' },
+  { emoji: '📣', name: 'Advertising & Marketing', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '8' },
+  { emoji: '💳', name: 'Merchant Fees', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '10' },
+  { emoji: '🏦', name: 'Bank Fees', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '27a' },
+  { emoji: '💰', name: 'Interest Paid', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '16b' },
+  { emoji: '🌍', name: 'Web Expense', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '27a' },
+  { emoji: '📋', name: 'Equipment Rental', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '20a' },
+  { emoji: '📬', name: 'Postage & Delivery', expenseType: 'operating', homeOfficeEligible: false, scheduleCLine: '18' },
 
   // --- COGS ---
-  { emoji: '🔧', name: 'Small Tools', expenseType: 'cogs', homeOfficeEligible: false },
-  { emoji: '📦', name: 'General Supplies', expenseType: 'cogs', homeOfficeEligible: false },
+  { emoji: '🔧', name: 'Small Tools', expenseType: 'cogs', homeOfficeEligible: false, scheduleCLine: '4' },
+  { emoji: '📦', name: 'General Supplies', expenseType: 'cogs', homeOfficeEligible: false, scheduleCLine: '4' },
 
   // --- Home Office Eligible (all Operating) ---
-  { emoji: '🔨', name: 'Repairs', expenseType: 'operating', homeOfficeEligible: true },
-  { emoji: '🏠', name: 'Rent', expenseType: 'operating', homeOfficeEligible: true },
-  { emoji: '📞', name: 'Telephone', expenseType: 'operating', homeOfficeEligible: true },
-  { emoji: '🌐', name: 'Internet', expenseType: 'operating', homeOfficeEligible: true },
-  { emoji: '🏡', name: 'Homeowners Insurance', expenseType: 'operating', homeOfficeEligible: true },
-  { emoji: '🔑', name: 'Renters Insurance', expenseType: 'operating', homeOfficeEligible: true },
-  { emoji: '⚡', name: 'Gas / Electric', expenseType: 'operating', homeOfficeEligible: true },
-  { emoji: '💧', name: 'Water', expenseType: 'operating', homeOfficeEligible: true },
-  { emoji: '🏛️', name: 'Mortgage Interest', expenseType: 'operating', homeOfficeEligible: true },
-  { emoji: '🏷️', name: 'Property Taxes', expenseType: 'operating', homeOfficeEligible: true },
+  { emoji: '🔨', name: 'Repairs', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '21' },
+  { emoji: '🏠', name: 'Rent', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '20b' },
+  { emoji: '📞', name: 'Telephone', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '25' },
+  { emoji: '🌐', name: 'Internet', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '25' },
+  { emoji: '🏡', name: 'Homeowners Insurance', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '15' },
+  { emoji: '🔑', name: 'Renters Insurance', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '15' },
+  { emoji: '⚡', name: 'Gas / Electric', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '25' },
+  { emoji: '💧', name: 'Water', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '25' },
+  { emoji: '🏛️', name: 'Mortgage Interest', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '16a' },
+  { emoji: '🏷️', name: 'Property Taxes', expenseType: 'operating', homeOfficeEligible: true, scheduleCLine: '23' },
 ];
 
 // System category — always seeded, cannot be deleted
@@ -53,5 +54,6 @@ export const UNCATEGORIZED_CATEGORY: DefaultCategory = {
   name: 'Uncategorized',
   expenseType: 'operating',
   homeOfficeEligible: false,
+  scheduleCLine: null,
   isSystem: true,
 };
\ No newline at end of file
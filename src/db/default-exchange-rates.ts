@@ -0,0 +1,22 @@
+// Reference exchange rates, seeded into exchange_rates the first time the
+// table is read so conversion works with no network access. They're
+// month-start snapshots, good enough for a bookkeeping estimate; load real
+// rates with scripts/load-exchange-rates.ts (reads a local CSV) for filing.
+
+export interface DefaultExchangeRate {
+  currency: string;      // ISO 4217
+  effectiveDate: string; // YYYY-MM-DD
+  unitsPerUsd: number;   // how many units of `currency` one US dollar buys
+}
+
+const SNAPSHOTS: Record<string, Record<string, number>> = {
+  '2024-01-01': { EUR: 0.905, GBP: 0.785, CAD: 1.325, AUD: 1.467, NZD: 1.582, MXN: 16.97, CHF: 0.841, SEK: 10.08, JPY: 141.0, CNY: 7.10, INR: 83.2 },
+  '2024-07-01': { EUR: 0.933, GBP: 0.791, CAD: 1.368, AUD: 1.499, NZD: 1.642, MXN: 18.33, CHF: 0.899, SEK: 10.59, JPY: 161.2, CNY: 7.27, INR: 83.4 },
+  '2025-01-01': { EUR: 0.966, GBP: 0.799, CAD: 1.438, AUD: 1.615, NZD: 1.785, MXN: 20.79, CHF: 0.907, SEK: 11.05, JPY: 157.2, CNY: 7.30, INR: 85.6 },
+  '2025-07-01': { EUR: 0.849, GBP: 0.729, CAD: 1.362, AUD: 1.521, NZD: 1.642, MXN: 18.78, CHF: 0.794, SEK: 9.49, JPY: 144.0, CNY: 7.16, INR: 85.7 },
+  '2026-01-01': { EUR: 0.852, GBP: 0.743, CAD: 1.372, AUD: 1.495, NZD: 1.735, MXN: 18.02, CHF: 0.793, SEK: 9.21, JPY: 156.8, CNY: 6.99, INR: 89.9 },
+};
+
+export const DEFAULT_EXCHANGE_RATES: DefaultExchangeRate[] = Object.entries(SNAPSHOTS).flatMap(
+  ([effectiveDate, rates]) => Object.entries(rates).map(([currency, unitsPerUsd]) => ({ currency, effectiveDate, unitsPerUsd }))
+);
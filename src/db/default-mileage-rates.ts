@@ -0,0 +1,21 @@
+// IRS standard business mileage rates, seeded into mileage_rates the first
+// time the table is read. Super admins maintain the table from /admin after that.
+
+export interface DefaultMileageRate {
+  effectiveDate: string; // YYYY-MM-DD
+  rateMills: number;     // tenths of a cent per mile
+  note?: string;
+}
+
+export const DEFAULT_MILEAGE_RATES: DefaultMileageRate[] = [
+  { effectiveDate: '2018-01-01', rateMills: 545 },
+  { effectiveDate: '2019-01-01', rateMills: 580 },
+  { effectiveDate: '2020-01-01', rateMills: 575 },
+  { effectiveDate: '2021-01-01', rateMills: 560 },
+  { effectiveDate: '2022-01-01', rateMills: 585 },
+  { effectiveDate: '2022-07-01', rateMills: 625, note: 'IRS mid-year increase' },
+  { effectiveDate: '2023-01-01', rateMills: 655 },
+  { effectiveDate: '2024-01-01', rateMills: 670 },
+  { effectiveDate: '2025-01-01', rateMills: 700 },
+  { effectiveDate: '2026-01-01', rateMills: 725 },
+];
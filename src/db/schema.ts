@@ -1,4 +1,5 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, integer, unique, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, boolean, integer, numeric, unique, index } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 // ============================================
 // TENANTS (Organizations/Businesses)
@@ -25,6 +26,11 @@ export const tenants = pgTable('tenants', {
   
   // Settings
   defaultCategoryId: uuid('default_category_id'), // user-configured default for Add Expense
+  baseCurrency: varchar('base_currency', { length: 3 }).default('USD').notNull(), // ISO 4217 — every report totals in this currency
+  requireApproval: boolean('require_approval').default(false).notNull(), // expenses from non-approvers wait in the approval queue
+  scanProvider: varchar('scan_provider', { length: 20 }).default('auto').notNull(), // 'auto' | 'vision' | 'local' — see src/utils/scan-providers.ts
+  visionModel: varchar('vision_model', { length: 100 }), // null = DEFAULT_VISION_MODEL — see src/utils/vision-models.ts
+  inboundEmailToken: varchar('inbound_email_token', { length: 32 }).unique(), // receipts mailed to <token>@INBOUND_EMAIL_DOMAIN land in the receipt inbox; null = off
   isActive: boolean('is_active').default(true).notNull(),
   
   // Billing attribution - who created this tenant?
@@ -123,6 +129,9 @@ export const categories = pgTable('categories', {
   // Home Office — only relevant when expenseType = 'home_office'
   homeOfficeEligible: boolean('home_office_eligible').default(false).notNull(),
   
+  // IRS Schedule C line for the tax summary (e.g. '18', '24b') — see src/utils/schedule-c.ts
+  scheduleCLine: varchar('schedule_c_line', { length: 10 }),
+  
   // System categories can't be deleted (e.g., "Uncategorized")
   isSystem: boolean('is_system').default(false).notNull(),
   
@@ -137,6 +146,55 @@ export const categories = pgTable('categories', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// ============================================
+// PAYMENT ACCOUNTS (cards, bank accounts, cash an expense was paid from)
+// ============================================
+export const paymentAccounts = pgTable('payment_accounts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  
+  // Display — e.g. "Chase Ink" ••1234, "Petty cash"
+  name: varchar('name', { length: 100 }).notNull(),
+  kind: varchar('kind', { length: 20 }).default('card').notNull(), // 'card' | 'bank' | 'cash' — see src/utils/payment-accounts.ts
+  last4: varchar('last4', { length: 4 }), // last four digits, matched against scanned receipts
+  
+  // Sorting
+  sortOrder: integer('sort_order').default(0),
+  
+  // Archived accounts stay on the expenses that used them but aren't offered for new ones
+  isActive: boolean('is_active').default(true).notNull(),
+  
+  // Audit fields
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ============================================
+// REIMBURSEMENTS (batches paying a team member back for reimbursable expenses)
+// ============================================
+export const reimbursements = pgTable('reimbursements', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  userId: uuid('user_id').notNull().references(() => users.id), // who is being paid back — the expenses' createdBy
+  
+  // Workflow: 'draft' | 'approved' | 'paid' — see src/utils/reimbursements.ts
+  status: varchar('status', { length: 20 }).default('draft').notNull(),
+  total: integer('total').notNull(), // sum of the batch's expense amounts, in the tenant's base currency
+  currency: varchar('currency', { length: 3 }).default('USD').notNull(), // base currency when the batch was created
+  
+  // Approval and payment
+  approvedBy: uuid('approved_by').references(() => users.id),
+  approvedAt: timestamp('approved_at'),
+  paidBy: uuid('paid_by').references(() => users.id),
+  paidAt: timestamp('paid_at'),
+  paymentReference: varchar('payment_reference', { length: 255 }), // e.g. check number or transfer id
+  
+  // Audit fields
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // ============================================
 // EXPENSES
 // ============================================
@@ -145,11 +203,19 @@ export const expenses = pgTable('expenses', {
   tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
   
   // Core fields
-  amount: integer('amount').notNull(), // stored in cents to avoid floating point nonsense
+  amount: integer('amount').notNull(), // stored in cents to avoid floating point nonsense — always in the tenant's base currency
   vendor: varchar('vendor', { length: 255 }),
   description: text('description'),
   date: timestamp('date').notNull(),
   
+  // Currency paid in. When it isn't the base currency, amount is the
+  // conversion at entry time and the original + rate are kept alongside.
+  currency: varchar('currency', { length: 3 }).default('USD').notNull(), // ISO 4217
+  originalAmount: integer('original_amount'), // minor units of `currency`; null when currency = base
+  exchangeRate: numeric('exchange_rate', { precision: 18, scale: 8, mode: 'number' }), // base units per 1 `currency`; null when currency = base
+  taxAmount: integer('tax_amount'), // sales tax / VAT included in the total, minor units of `currency`; null = not recorded
+  taxRate: numeric('tax_rate', { precision: 6, scale: 3, mode: 'number' }), // percent, e.g. 8.25
+  
   // Classification
   categoryId: uuid('category_id').references(() => categories.id),
   expenseType: varchar('expense_type', { length: 50 }).default('operating').notNull(), // 'cogs' | 'operating' | 'home_office'
@@ -158,20 +224,47 @@ export const expenses = pgTable('expenses', {
   isHomeOffice: boolean('is_home_office').default(false).notNull(),
   homeOfficePercent: integer('home_office_percent'), // snapshot of deduction % at time of creation
   
+  // Paid from — ties the expense back to a card or bank statement
+  paymentAccountId: uuid('payment_account_id').references(() => paymentAccounts.id),
+  
+  // Paid out of pocket — owed back to the person who entered it (createdBy)
+  isReimbursable: boolean('is_reimbursable').default(false).notNull(),
+  reimbursementId: uuid('reimbursement_id').references(() => reimbursements.id, { onDelete: 'set null' }), // batch it's being paid back in
+  
   // Receipt
   receiptUrl: text('receipt_url'),
   receipt2Url: text('receipt2_url'),
   extractedText: text('extracted_text'), // from AI scan, for full-text search
   
+  // Origin — statement-imported rows are what receipts get reconciled against
+  source: varchar('source', { length: 20 }).default('manual').notNull(), // 'manual' | 'import'
+  importReference: varchar('import_reference', { length: 255 }), // bank's transaction id (OFX FITID), when the statement had one
+  
   // Recurring expense link
-  recurringExpenseId: uuid('recurring_expense_id'), // we'll add the FK after creating that table
+  recurringExpenseId: uuid('recurring_expense_id').references(() => recurringExpenses.id, { onDelete: 'set null' }),
+  
+  // Expense policy review (see expense_policies)
+  policyFlag: varchar('policy_flag', { length: 50 }), // null | 'over_limit' — submitter's policy flagged it for owner review
+  policyReviewedBy: uuid('policy_reviewed_by').references(() => users.id),
+  policyReviewedAt: timestamp('policy_reviewed_at'),
+  
+  // Approval (tenants with requireApproval) — reports only count approved expenses by default
+  approvalStatus: varchar('approval_status', { length: 20 }).default('approved').notNull(), // 'pending' | 'approved' | 'rejected'
+  approvalComment: text('approval_comment'), // approver's note, e.g. why it was sent back
+  approvalReviewedBy: uuid('approval_reviewed_by').references(() => users.id),
+  approvalReviewedAt: timestamp('approval_reviewed_at'),
   
   // Audit fields
   createdBy: uuid('created_by').references(() => users.id),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedBy: uuid('updated_by').references(() => users.id),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  // A recurring template can only generate one expense per scheduled date (keeps the cron idempotent)
+  unique('expense_recurring_date_unique').on(table.recurringExpenseId, table.date),
+  // Full-text search over vendor, notes, and receipt text — must match the expression in api/expenses/search.ts
+  index('expense_search_idx').using('gin', sql`to_tsvector('english', coalesce(${table.vendor}, '') || ' ' || coalesce(${table.description}, '') || ' ' || coalesce(${table.extractedText}, ''))`),
+]);
 
 // ============================================
 // EXPENSE ATTACHMENTS (Receipt images, PDFs)
@@ -196,16 +289,99 @@ export const expenseAttachments = pgTable('expense_attachments', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// ============================================
+// EXPENSE SPLITS (one receipt across several categories)
+// ============================================
+// An expense with splits is reported line by line; the lines always sum to
+// expenses.amount. The parent's category and type mirror the largest line.
+export const expenseSplits = pgTable('expense_splits', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  expenseId: uuid('expense_id').notNull().references(() => expenses.id, { onDelete: 'cascade' }),
+
+  amount: integer('amount').notNull(), // cents, base currency (converted like expenses.amount)
+  originalAmount: integer('original_amount'), // in the expense's currency; null when that's the base
+  description: varchar('description', { length: 255 }),
+  categoryId: uuid('category_id').notNull().references(() => categories.id),
+  expenseType: varchar('expense_type', { length: 50 }).default('operating').notNull(), // 'cogs' | 'operating'
+  isHomeOffice: boolean('is_home_office').default(false).notNull(),
+  homeOfficePercent: integer('home_office_percent'), // snapshot, same as expenses.home_office_percent
+
+  // Display ordering
+  sortOrder: integer('sort_order').default(0).notNull(),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('expense_splits_expense_idx').on(table.expenseId),
+]);
+
+// ============================================
+// RECEIPT SCANS (AI-extracted totals, for reconciliation)
+// ============================================
+export const receiptScans = pgTable('receipt_scans', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  blobUrl: text('blob_url').notNull(), // matches expense_attachments.blob_url / expenses.receipt_url once the receipt is saved
+  
+  // What the scan read off the receipt (null when unreadable)
+  vendor: varchar('vendor', { length: 255 }),
+  date: timestamp('date'), // noon UTC, like expenses.date
+  total: integer('total'), // cents
+  
+  scannedAt: timestamp('scanned_at').defaultNow().notNull(),
+}, (table) => [
+  // Rescanning the same image replaces the earlier result
+  unique('receipt_scan_tenant_blob_unique').on(table.tenantId, table.blobUrl),
+]);
+
+// ============================================
+// RECEIPT INBOX (bulk uploads waiting to become expenses)
+// ============================================
+export const receiptInboxItems = pgTable('receipt_inbox_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  uploadedBy: uuid('uploaded_by').notNull().references(() => users.id),
+  
+  // The uploaded file, still under the tenant's pending/ blob prefix
+  blobUrl: text('blob_url').notNull(),
+  fileName: varchar('file_name', { length: 255 }).notNull(),
+  fileType: varchar('file_type', { length: 100 }).notNull(),
+  fileSize: integer('file_size').notNull(),
+  
+  // Where it came from
+  source: varchar('source', { length: 20 }).default('upload').notNull(), // 'upload' | 'email'
+  emailFrom: varchar('email_from', { length: 255 }), // sender, for emailed receipts
+  
+  // Scan progress
+  status: varchar('status', { length: 20 }).default('queued').notNull(), // 'queued' | 'scanned' | 'failed'
+  scanError: text('scan_error'),
+  
+  // Draft expense — filled in by the scan, corrected by the user
+  vendor: varchar('vendor', { length: 255 }),
+  date: timestamp('date'), // noon UTC, like expenses.date
+  amount: integer('amount'), // minor units of `currency`
+  currency: varchar('currency', { length: 3 }), // ISO 4217; null = tenant's base currency
+  categoryId: uuid('category_id').references(() => categories.id, { onDelete: 'set null' }),
+  description: text('description'),
+  reviewNeeded: boolean('review_needed').default(false).notNull(), // scan was unsure of vendor/date/total
+  extractedText: text('extracted_text'), // carried onto the expense for full-text search
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('receipt_inbox_uploader_idx').on(table.tenantId, table.uploadedBy),
+]);
+
 // ============================================
 // EXPENSE HISTORY (Audit Trail)
 // ============================================
 export const expenseHistory = pgTable('expense_history', {
   id: uuid('id').primaryKey().defaultRandom(),
-  expenseId: uuid('expense_id').notNull().references(() => expenses.id),
+  expenseId: uuid('expense_id').notNull(), // no FK — history must outlive a deleted expense
   tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
   
   // What changed
-  action: varchar('action', { length: 20 }).notNull(), // 'create' | 'update' | 'delete'
+  action: varchar('action', { length: 20 }).notNull(), // 'create' | 'update' | 'delete' | 'reassign'
   
   // Snapshot of the expense at this point in time
   previousValues: text('previous_values'), // JSON blob of old values (null on create)
@@ -214,7 +390,9 @@ export const expenseHistory = pgTable('expense_history', {
   // Who did it and when
   changedBy: uuid('changed_by').references(() => users.id),
   changedAt: timestamp('changed_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('expense_history_expense_idx').on(table.expenseId, table.changedAt),
+]);
 
 // ============================================
 // MILEAGE TRIPS
@@ -242,6 +420,39 @@ export const mileageTrips = pgTable('mileage_trips', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// ============================================
+// MILEAGE RATES (IRS standard rate by effective date — global, super-admin managed)
+// ============================================
+export const mileageRates = pgTable('mileage_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  
+  // Applies to trips on or after this date, until the next rate takes over
+  effectiveDate: timestamp('effective_date').notNull().unique(),
+  rateMills: integer('rate_mills').notNull(), // tenths of a cent per mile (e.g., 65.5¢ = 655)
+  note: varchar('note', { length: 255 }), // e.g., "IRS mid-year increase"
+  
+  // Audit fields
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ============================================
+// EXCHANGE RATES (global, for foreign-currency expenses)
+// ============================================
+// Quoted against USD; a cross rate (EUR → CAD) is derived from the two USD
+// quotes. Seeded from src/db/default-exchange-rates.ts, refreshed offline
+// with scripts/load-exchange-rates.ts.
+export const exchangeRates = pgTable('exchange_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  currency: varchar('currency', { length: 3 }).notNull(), // ISO 4217
+  effectiveDate: timestamp('effective_date').notNull(), // applies from this date until the next quote
+  unitsPerUsd: numeric('units_per_usd', { precision: 18, scale: 8, mode: 'number' }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('exchange_rate_currency_date_unique').on(table.currency, table.effectiveDate),
+]);
+
 // ============================================
 // SAVED LOCATIONS (for quick mileage entry)
 // ============================================
@@ -278,7 +489,10 @@ export const vendorCategoryMappings = pgTable('vendor_category_mappings', {
   // Audit fields
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  // One counter per vendor/category pair — saves upsert into it
+  unique('vendor_mapping_tenant_vendor_category_unique').on(table.tenantId, table.vendorPattern, table.categoryId),
+]);
 
 // ============================================
 // RECURRING EXPENSES (templates for auto-generation)
@@ -430,7 +644,10 @@ export const expensePolicies = pgTable('expense_policies', {
   createdBy: uuid('created_by').references(() => users.id),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  // One policy per team member per tenant
+  unique('expense_policy_tenant_user_unique').on(table.tenantId, table.userId),
+]);
 
 // ============================================
 // RATE LIMIT USAGE (tracks API usage per tenant)
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react'
+
+/**
+ * Calls onLoadMore when the returned sentinel element scrolls into view.
+ * Render the sentinel after the last list item; pass enabled=false while
+ * a page is loading or when there's nothing left to fetch. onLoadMore
+ * should be memoized — the observer is recreated whenever it changes.
+ */
+export function useInfiniteScroll(onLoadMore: () => void, enabled: boolean) {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !enabled) return
+
+    // Start loading a little before the user actually hits the bottom
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) onLoadMore()
+      },
+      { rootMargin: '400px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [onLoadMore, enabled])
+
+  return sentinelRef
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from './useTenant'
+import type { PaymentAccountKind } from '../utils/payment-accounts'
+
+export interface PaymentAccount {
+  id: string
+  name: string
+  kind: PaymentAccountKind
+  last4: string | null
+  sortOrder: number | null
+  isActive: boolean // archived accounts stay on old expenses but aren't offered for new ones
+}
+
+/**
+ * The tenant's payment accounts, archived ones included. Bump `reloadKey`
+ * to fetch again after a change.
+ */
+export function usePaymentAccounts(reloadKey: unknown = 0) {
+  const { subdomain } = useTenant()
+  const [accounts, setAccounts] = useState<PaymentAccount[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!subdomain) return
+    let cancelled = false
+    async function fetchAccounts() {
+      try {
+        const response = await fetch(`/api/payment-accounts?tenant=${subdomain}`)
+        if (!response.ok) return
+        const data = await response.json()
+        if (!cancelled) setAccounts(data.accounts)
+      } catch (err) {
+        console.error('Error fetching payment accounts:', err)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    fetchAccounts()
+    return () => { cancelled = true }
+  }, [subdomain, reloadKey])
+
+  return { accounts, loading }
+}
@@ -0,0 +1,38 @@
+import { useCallback } from 'react'
+import { useAuth } from './useAuth'
+import { useTenant } from './useTenant'
+import {
+  hasPermission,
+  permissionDeniedReason,
+  toTenantRole,
+  type Permission,
+  type TenantRole,
+} from '../utils/permissions'
+
+/**
+ * The current user's role in the current tenant, plus helpers to gate UI.
+ * Mirrors the server's resolution in api/_lib/auth.ts — the API still
+ * enforces everything, this only hides actions that would be rejected.
+ */
+export function usePermissions() {
+  const { user } = useAuth()
+  const { tenant } = useTenant()
+
+  const access = user?.tenantAccess?.find(a => a.tenantId === tenant?.id)
+  const role: TenantRole = access
+    ? toTenantRole(access.role)
+    : user?.isSuperAdmin ? 'admin' : 'viewer'
+  const canEdit = access?.canEdit ?? false
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission, canEdit),
+    [role, canEdit]
+  )
+
+  const reason = useCallback(
+    (permission: Permission) => permissionDeniedReason(role, permission),
+    [role]
+  )
+
+  return { role, can, reason }
+}
@@ -18,6 +18,13 @@ export interface ScanResult {
   rawText: string
 }
 
+/** What one scan attempt came back with — `data` or an `error` message */
+export interface ScanOutcome {
+  data: ScanResult | null
+  error: string | null
+  retryAfterSeconds?: number // set when the scanning rate limit was hit
+}
+
 export interface UseScanReceiptReturn {
   scanResult: ScanResult | null
   isScanning: boolean
@@ -37,7 +44,7 @@ async function callScanEndpoint(
   blobUrl: string,
   tenantSubdomain: string,
   blobUrl2?: string
-): Promise<{ success: boolean; data?: ScanResult; error?: string; status: number }> {
+): Promise<{ success: boolean; data?: ScanResult; error?: string; retryAfterSeconds?: number; status: number }> {
   const body: Record<string, string> = { blobUrl }
   if (blobUrl2) body.blobUrl2 = blobUrl2
 
@@ -52,6 +59,16 @@ async function callScanEndpoint(
   return { ...data, status: response.status }
 }
 
+function rateLimited(retryAfterSeconds?: number): ScanOutcome {
+  const seconds = retryAfterSeconds || 60
+  const minutes = Math.ceil(seconds / 60)
+  return {
+    data: null,
+    error: `Scanning limit reached. Try again in ${minutes} minute${minutes > 1 ? 's' : ''}.`,
+    retryAfterSeconds: seconds,
+  }
+}
+
 /**
  * Delete a temporary blob URL from Vercel Blob storage.
  * Fire-and-forget — failures are logged but don't block the scan flow.
@@ -69,137 +86,142 @@ async function deleteTempBlob(blobUrl: string, tenantSubdomain: string) {
   }
 }
 
-export function useScanReceipt(): UseScanReceiptReturn {
-  const [scanResult, setScanResult] = useState<ScanResult | null>(null)
-  const [isScanning, setIsScanning] = useState(false)
-  const [scanError, setScanError] = useState<string | null>(null)
-
-  const scanReceipt = async (
-    blobUrl: string,
-    tenantSubdomain: string,
-    fileType?: string
-  ): Promise<ScanResult | null> => {
-    setIsScanning(true)
-    setScanError(null)
-
-    const tempBlobUrls: string[] = []
+/**
+ * Scan an uploaded receipt. Images go straight to the scan endpoint; PDFs
+ * are rendered to JPEG client-side first (page 1, then pages 1+2 if the
+ * total wasn't found). Used by useScanReceipt and the receipt inbox.
+ */
+export async function scanReceiptFile(
+  blobUrl: string,
+  tenantSubdomain: string,
+  fileType?: string
+): Promise<ScanOutcome> {
+  const tempBlobUrls: string[] = []
 
-    try {
-      const isPdf = fileType === 'application/pdf'
-
-      if (!isPdf) {
-        // ==========================================
-        // IMAGE PATH: Send directly to scan endpoint
-        // ==========================================
-        const result = await callScanEndpoint(blobUrl, tenantSubdomain)
-
-        if (result.status === 429) {
-          const minutes = Math.ceil(((result as any).retryAfterSeconds || 60) / 60)
-          setScanError(`Scanning limit reached. Try again in ${minutes} minute${minutes > 1 ? 's' : ''}.`)
-          return null
-        }
-
-        if (!result.success || !result.data) {
-          setScanError(result.error || 'Failed to scan receipt')
-          return null
-        }
-
-        setScanResult(result.data)
-        return result.data
-      }
+  try {
+    const isPdf = fileType === 'application/pdf'
 
+    if (!isPdf) {
       // ==========================================
-      // PDF PATH: Convert to JPEG client-side
+      // IMAGE PATH: Send directly to scan endpoint
       // ==========================================
+      const result = await callScanEndpoint(blobUrl, tenantSubdomain)
 
-      // Fetch the PDF from Vercel Blob
-      const pdfResponse = await fetch(blobUrl)
-      if (!pdfResponse.ok) {
-        setScanError('Failed to fetch PDF for scanning')
-        return null
+      if (result.status === 429) {
+        return rateLimited(result.retryAfterSeconds)
       }
-      const pdfData = await pdfResponse.arrayBuffer()
 
-      // Render page 1 to JPEG
-      const page1File = await renderPdfPageToJpeg(pdfData, 1)
-      if (!page1File) {
-        setScanError('Failed to render PDF. The file may be corrupted or password-protected.')
-        return null
+      if (!result.success || !result.data) {
+        return { data: null, error: result.error || 'Failed to scan receipt' }
       }
 
-      // Upload page 1 JPEG to Vercel Blob (temp)
-      const blobPathPrefix = `${tenantSubdomain}/temp-scan`
-      const page1Blob = await uploadToBlob(page1File, tenantSubdomain, blobPathPrefix)
-      const page1BlobUrl = page1Blob.blobUrl
-      tempBlobUrls.push(page1BlobUrl)
+      return { data: result.data, error: null }
+    }
 
-      // Attempt 1: Scan page 1
-      const result1 = await callScanEndpoint(page1BlobUrl, tenantSubdomain)
+    // ==========================================
+    // PDF PATH: Convert to JPEG client-side
+    // ==========================================
 
-      if (result1.status === 429) {
-        const minutes = Math.ceil(((result1 as any).retryAfterSeconds || 60) / 60)
-        setScanError(`Scanning limit reached. Try again in ${minutes} minute${minutes > 1 ? 's' : ''}.`)
-        return null
-      }
+    // Fetch the PDF from Vercel Blob
+    const pdfResponse = await fetch(blobUrl)
+    if (!pdfResponse.ok) {
+      return { data: null, error: 'Failed to fetch PDF for scanning' }
+    }
+    const pdfData = await pdfResponse.arrayBuffer()
 
-      if (!result1.success || !result1.data) {
-        setScanError(result1.error || 'Failed to scan receipt')
-        return null
-      }
+    // Render page 1 to JPEG
+    const page1File = await renderPdfPageToJpeg(pdfData, 1)
+    if (!page1File) {
+      return { data: null, error: 'Failed to render PDF. The file may be corrupted or password-protected.' }
+    }
 
-      // Check if we got a good total
-      if (!isTotalMissing(result1.data)) {
-        setScanResult(result1.data)
-        return result1.data
-      }
+    // Upload page 1 JPEG to Vercel Blob (temp)
+    const blobPathPrefix = `${tenantSubdomain}/temp-scan`
+    const page1Blob = await uploadToBlob(page1File, tenantSubdomain, blobPathPrefix)
+    const page1BlobUrl = page1Blob.blobUrl
+    tempBlobUrls.push(page1BlobUrl)
 
-      // Attempt 2: Page 1 total was missing/low-confidence — try pages 1+2
-      const totalPages = await getPdfPageCount(pdfData)
-      if (totalPages < 2) {
-        // Only 1 page, return what we got
-        setScanResult(result1.data)
-        return result1.data
-      }
+    // Attempt 1: Scan page 1
+    const result1 = await callScanEndpoint(page1BlobUrl, tenantSubdomain)
 
-      const page2File = await renderPdfPageToJpeg(pdfData, 2)
-      if (!page2File) {
-        // Page 2 render failed, return page 1 results
-        setScanResult(result1.data)
-        return result1.data
-      }
+    if (result1.status === 429) {
+      return rateLimited(result1.retryAfterSeconds)
+    }
 
-      // Upload page 2 JPEG to Vercel Blob (temp)
-      const page2Blob = await uploadToBlob(page2File, tenantSubdomain, blobPathPrefix)
-      const page2BlobUrl = page2Blob.blobUrl
-      tempBlobUrls.push(page2BlobUrl)
+    if (!result1.success || !result1.data) {
+      return { data: null, error: result1.error || 'Failed to scan receipt' }
+    }
 
-      // Send both pages to scan endpoint
-      const result2 = await callScanEndpoint(page1BlobUrl, tenantSubdomain, page2BlobUrl)
+    // Check if we got a good total
+    if (!isTotalMissing(result1.data)) {
+      return { data: result1.data, error: null }
+    }
 
-      if (result2.status === 429) {
-        const minutes = Math.ceil(((result2 as any).retryAfterSeconds || 60) / 60)
-        setScanError(`Scanning limit reached. Try again in ${minutes} minute${minutes > 1 ? 's' : ''}.`)
-        return null
-      }
+    // Attempt 2: Page 1 total was missing/low-confidence — try pages 1+2
+    const totalPages = await getPdfPageCount(pdfData)
+    if (totalPages < 2) {
+      // Only 1 page, return what we got
+      return { data: result1.data, error: null }
+    }
 
-      if (!result2.success || !result2.data) {
-        // Fallback: return page 1 results if page 1+2 call failed
-        setScanResult(result1.data)
-        return result1.data
-      }
+    const page2File = await renderPdfPageToJpeg(pdfData, 2)
+    if (!page2File) {
+      // Page 2 render failed, return page 1 results
+      return { data: result1.data, error: null }
+    }
+
+    // Upload page 2 JPEG to Vercel Blob (temp)
+    const page2Blob = await uploadToBlob(page2File, tenantSubdomain, blobPathPrefix)
+    const page2BlobUrl = page2Blob.blobUrl
+    tempBlobUrls.push(page2BlobUrl)
+
+    // Send both pages to scan endpoint
+    const result2 = await callScanEndpoint(page1BlobUrl, tenantSubdomain, page2BlobUrl)
+
+    if (result2.status === 429) {
+      return rateLimited(result2.retryAfterSeconds)
+    }
+
+    if (!result2.success || !result2.data) {
+      // Fallback: return page 1 results if page 1+2 call failed
+      return { data: result1.data, error: null }
+    }
+
+    return { data: result2.data, error: null }
+  } catch (err) {
+    console.error('Scan error:', err)
+    return { data: null, error: 'Network error — please try again' }
+  } finally {
+    // Clean up temp blobs in the background
+    for (const url of tempBlobUrls) {
+      deleteTempBlob(url, tenantSubdomain)
+    }
+  }
+}
 
-      setScanResult(result2.data)
-      return result2.data
-    } catch (err) {
-      console.error('Scan error:', err)
-      setScanError('Network error — please try again')
-      return null
+export function useScanReceipt(): UseScanReceiptReturn {
+  const [scanResult, setScanResult] = useState<ScanResult | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanError, setScanError] = useState<string | null>(null)
+
+  const scanReceipt = async (
+    blobUrl: string,
+    tenantSubdomain: string,
+    fileType?: string
+  ): Promise<ScanResult | null> => {
+    setIsScanning(true)
+    setScanError(null)
+
+    try {
+      const outcome = await scanReceiptFile(blobUrl, tenantSubdomain, fileType)
+      if (outcome.data) {
+        setScanResult(outcome.data)
+      } else {
+        setScanError(outcome.error)
+      }
+      return outcome.data
     } finally {
       setIsScanning(false)
-      // Clean up temp blobs in the background
-      for (const url of tempBlobUrls) {
-        deleteTempBlob(url, tenantSubdomain)
-      }
     }
   }
 
@@ -5,6 +5,8 @@ interface SettingsContextType {
   setDarkMode: (value: boolean) => void
   showFab: boolean
   setShowFab: (value: boolean) => void
+  includePending: boolean // count expenses awaiting approval in reports
+  setIncludePending: (value: boolean) => void
 }
 
 const SettingsContext = createContext<SettingsContextType>({
@@ -12,6 +14,8 @@ const SettingsContext = createContext<SettingsContextType>({
   setDarkMode: () => {},
   showFab: true,
   setShowFab: () => {},
+  includePending: false,
+  setIncludePending: () => {},
 })
 
 export function useSettings() {
@@ -35,6 +39,10 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     return saved !== 'false' // Default to true
   })
 
+  const [includePending, setIncludePendingState] = useState(() => {
+    return localStorage.getItem('settings:includePending') === 'true' // Default to false
+  })
+
   // Apply dark mode to document
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', darkMode ? 'dark' : 'light')
@@ -52,8 +60,14 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     localStorage.setItem('settings:showFab', String(value))
   }
 
+  // Persist include pending
+  const setIncludePending = (value: boolean) => {
+    setIncludePendingState(value)
+    localStorage.setItem('settings:includePending', String(value))
+  }
+
   return (
-    <SettingsContext.Provider value={{ darkMode, setDarkMode, showFab, setShowFab }}>
+    <SettingsContext.Provider value={{ darkMode, setDarkMode, showFab, setShowFab, includePending, setIncludePending }}>
       {children}
     </SettingsContext.Provider>
   )
@@ -8,6 +8,10 @@ interface Tenant {
   logoUrl: string | null;
   primaryColor: string | null;
   appName: string | null;
+  baseCurrency: string;
+  requireApproval: boolean;
+  scanProvider: string; // see src/utils/scan-providers.ts
+  visionModel: string | null; // null = DEFAULT_VISION_MODEL
   isActive: boolean;
 }
 
@@ -16,6 +20,8 @@ interface TenantContextType {
   isLoading: boolean;
   error: string | null;
   subdomain: string | null;
+  // Apply a saved settings change without refetching the tenant
+  updateTenant: (changes: Partial<Tenant>) => void;
 }
 
 const TenantContext = createContext<TenantContextType>({
@@ -23,6 +29,7 @@ const TenantContext = createContext<TenantContextType>({
   isLoading: true,
   error: null,
   subdomain: null,
+  updateTenant: () => {},
 });
 
 export function useTenant() {
@@ -148,8 +155,12 @@ export function TenantProvider({ children }: TenantProviderProps) {
     fetchTenant();
   }, [authLoading, user]);
 
+  function updateTenant(changes: Partial<Tenant>) {
+    setTenant(prev => (prev ? { ...prev, ...changes } : prev));
+  }
+
   return (
-    <TenantContext.Provider value={{ tenant, isLoading, error, subdomain }}>
+    <TenantContext.Provider value={{ tenant, isLoading, error, subdomain, updateTenant }}>
       {children}
     </TenantContext.Provider>
   );
@@ -135,6 +135,8 @@ export default function AdminPage() {
         onSendInviteInstead={focusInviteEmail}
       />
 
+      <MileageRatesSection />
+
       {/* Deletion Zone entry point */}
       <div className="admin-section admin-section--danger">
         <button
@@ -840,3 +842,216 @@ function AddExistingUserForm({
     </div>
   )
 }
+
+// ============================================
+// IRS MILEAGE RATES
+// ============================================
+interface MileageRateRow {
+  id: string
+  effectiveDate: string
+  mileageRate: number
+  note: string | null
+}
+
+function MileageRatesSection() {
+  const [rates, setRates] = useState<MileageRateRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  // Add / edit form
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [effectiveDate, setEffectiveDate] = useState('')
+  const [mileageRate, setMileageRate] = useState('')
+  const [note, setNote] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [deleting, setDeleting] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchRates() {
+      try {
+        const response = await fetch('/api/admin/mileage-rates', { credentials: 'include' })
+        if (!response.ok) throw new Error('Failed to load mileage rates')
+        const data = await response.json()
+        setRates(data.rates)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load mileage rates')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchRates()
+  }, [refreshKey])
+
+  const resetForm = () => {
+    setEditingId(null)
+    setEffectiveDate('')
+    setMileageRate('')
+    setNote('')
+  }
+
+  const handleEdit = (rate: MileageRateRow) => {
+    setEditingId(rate.id)
+    setEffectiveDate(rate.effectiveDate)
+    setMileageRate(String(rate.mileageRate))
+    setNote(rate.note || '')
+    setError(null)
+  }
+
+  const handleSubmit = async () => {
+    setError(null)
+
+    if (!effectiveDate) {
+      setError('Effective date is required')
+      return
+    }
+    if (!mileageRate || parseFloat(mileageRate) <= 0) {
+      setError('Rate must be greater than 0')
+      return
+    }
+
+    setSubmitting(true)
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/admin/mileage-rates/${editingId}` : '/api/admin/mileage-rates',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            effectiveDate,
+            mileageRate: parseFloat(mileageRate),
+            note: note.trim() || null,
+          }),
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to save rate')
+        return
+      }
+
+      resetForm()
+      setRefreshKey(k => k + 1)
+    } catch {
+      setError('Network error — please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDelete = async (rate: MileageRateRow) => {
+    if (!confirm(`Delete the ${rate.mileageRate}¢ rate effective ${rate.effectiveDate}? Trips after that date will use the previous rate.`)) return
+
+    setDeleting(rate.id)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/admin/mileage-rates/${rate.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to delete rate')
+        return
+      }
+      if (editingId === rate.id) resetForm()
+      setRefreshKey(k => k + 1)
+    } catch {
+      setError('Network error — please try again')
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  return (
+    <div className="admin-section">
+      <h3 className="admin-section__title">IRS Mileage Rates</h3>
+      <p className="admin-section__description">
+        Each trip is deducted at the rate in effect on its date. Add a new row for each year or mid-year change.
+      </p>
+
+      {error && <div className="admin-alert admin-alert--error">{error}</div>}
+
+      {loading ? (
+        <p className="admin-section__loading">Loading...</p>
+      ) : (
+        <div className="admin-rate-list">
+          {[...rates].reverse().map(rate => (
+            <div key={rate.id} className="admin-rate-list__row">
+              <span className="admin-rate-list__date">{rate.effectiveDate}</span>
+              <span className="admin-rate-list__rate">{rate.mileageRate}¢/mi</span>
+              <span className="admin-rate-list__note">{rate.note || ''}</span>
+              <button className="btn btn--outline btn--sm" onClick={() => handleEdit(rate)}>
+                Edit
+              </button>
+              <button
+                className="btn btn--danger-outline btn--sm"
+                onClick={() => handleDelete(rate)}
+                disabled={deleting === rate.id}
+              >
+                {deleting === rate.id ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="admin-form">
+        <div className="admin-form__row">
+          <div className="admin-form__field">
+            <label className="admin-form__label">Effective Date *</label>
+            <input
+              type="date"
+              className="admin-form__input"
+              value={effectiveDate}
+              onChange={e => setEffectiveDate(e.target.value)}
+            />
+          </div>
+          <div className="admin-form__field">
+            <label className="admin-form__label">Rate (¢ per mile) *</label>
+            <input
+              type="number"
+              className="admin-form__input"
+              value={mileageRate}
+              onChange={e => setMileageRate(e.target.value)}
+              placeholder="70"
+              step="0.1"
+              min="0.1"
+            />
+          </div>
+        </div>
+
+        <div className="admin-form__field">
+          <label className="admin-form__label">Note</label>
+          <input
+            type="text"
+            className="admin-form__input"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="e.g., IRS mid-year increase"
+            maxLength={255}
+          />
+        </div>
+
+        <div className="admin-form__row">
+          {editingId && (
+            <button className="btn btn--secondary btn--full" onClick={resetForm} disabled={submitting}>
+              Cancel
+            </button>
+          )}
+          <button
+            className="btn btn--primary btn--full"
+            onClick={handleSubmit}
+            disabled={submitting}
+          >
+            {submitting ? 'Saving...' : editingId ? 'Save Rate' : 'Add Rate'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
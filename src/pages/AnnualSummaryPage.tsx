@@ -1,7 +1,12 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useYear } from '../hooks/useYear'
 import { useTenant } from '../hooks/useTenant'
+import { useSettings } from '../hooks/useSettings'
 import { Link } from 'wouter'
+import { formatMoney, currencyDecimals } from '../utils/currency'
+import { ForeignCurrencyNote, type ForeignCurrencyTotal } from '../components/ForeignCurrencyNote'
+import { IncludePendingToggle } from '../components/IncludePendingToggle'
+import { PAYMENT_ACCOUNT_EMOJI, formatPaymentAccount, type PaymentAccountKind } from '../utils/payment-accounts'
 import {
   BarChart,
   Bar,
@@ -30,8 +35,19 @@ interface CategorySummary {
   percentage: number
 }
 
+interface PaymentAccountSummary {
+  paymentAccountId: string | null // null = no account recorded
+  name: string
+  kind: PaymentAccountKind | null
+  last4: string | null
+  isActive: boolean
+  amount: number // full amount charged, for tying back to the statement
+  count: number
+}
+
 interface AnnualReportData {
   year: number
+  currency: string
   summary: {
     totalSpent: number
     totalDeductible: number
@@ -44,32 +60,31 @@ interface AnnualReportData {
   }
   monthlyBreakdown: MonthlySummary[]
   categoryBreakdown: CategorySummary[]
+  paymentAccountBreakdown: PaymentAccountSummary[]
+  foreignCurrency: ForeignCurrencyTotal[]
 }
 
-function formatDollars(cents: number): string {
-  return (cents / 100).toLocaleString('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  })
-}
-
-function formatDollarsShort(cents: number): string {
-  const dollars = cents / 100
-  if (dollars >= 10000) {
-    return '$' + (dollars / 1000).toFixed(1) + 'k'
+function formatMoneyShort(minor: number, currency: string): string {
+  const major = minor / 10 ** currencyDecimals(currency)
+  if (major >= 10000) {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      notation: 'compact',
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1,
+    }).format(major)
   }
-  return formatDollars(cents)
+  return formatMoney(minor, currency)
 }
 
 // Custom tooltip for monthly chart
-function MonthlyTooltip({ active, payload, label }: { active?: boolean; payload?: Array<{ value: number }>; label?: string }) {
+function MonthlyTooltip({ active, payload, label, currency }: { currency: string; active?: boolean; payload?: Array<{ value: number }>; label?: string }) {
   if (!active || !payload || !payload.length) return null
   return (
     <div className="annual-chart-tooltip">
       <p className="annual-chart-tooltip__label">{label}</p>
-      <p className="annual-chart-tooltip__value">{formatDollars(payload[0].value)}</p>
+      <p className="annual-chart-tooltip__value">{formatMoney(payload[0].value, currency)}</p>
     </div>
   )
 }
@@ -100,6 +115,7 @@ function CustomBar(props: any) {
 export default function AnnualSummaryPage() {
   const { year, nextYear, prevYear } = useYear()
   const { subdomain } = useTenant()
+  const { includePending } = useSettings()
   const [data, setData] = useState<AnnualReportData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -118,6 +134,7 @@ export default function AnnualSummaryPage() {
           tenant: subdomain!,
           year: year.toString(),
         })
+        if (includePending) params.set('includePending', 'true')
         const response = await fetch(`/api/reports/annual?${params}`)
         if (!response.ok) throw new Error('Failed to fetch annual report')
         const result = await response.json()
@@ -131,7 +148,7 @@ export default function AnnualSummaryPage() {
     }
 
     fetchData()
-  }, [subdomain, year])
+  }, [subdomain, year, includePending])
 
   // Reset selection on year change
   useEffect(() => {
@@ -192,6 +209,8 @@ export default function AnnualSummaryPage() {
         Complete spending overview for {year}.
       </p>
 
+      <IncludePendingToggle />
+
       {loading && (
         <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
           <p style={{ color: 'var(--color-text-secondary)' }}>Loading annual data...</p>
@@ -213,18 +232,20 @@ export default function AnnualSummaryPage() {
             </div>
           ) : (
             <>
+              <ForeignCurrencyNote baseCurrency={data.currency} totals={data.foreignCurrency} />
+
               {/* Summary Cards */}
               <div className="annual-report__summary">
                 <div className="annual-report__stat-card annual-report__stat-card--primary">
                   <span className="annual-report__stat-label">Total Expenses</span>
-                  <span className="annual-report__stat-value">{formatDollars(data.summary.totalDeductible)}</span>
+                  <span className="annual-report__stat-value">{formatMoney(data.summary.totalDeductible, data.currency)}</span>
                   <span className="annual-report__stat-sub">
                     {data.summary.expenseCount} transaction{data.summary.expenseCount !== 1 ? 's' : ''} · {year}
                   </span>
                 </div>
                 <div className="annual-report__stat-card">
                   <span className="annual-report__stat-label">Avg / Month</span>
-                  <span className="annual-report__stat-value">{formatDollars(data.summary.averagePerMonth)}</span>
+                  <span className="annual-report__stat-value">{formatMoney(data.summary.averagePerMonth, data.currency)}</span>
                   <span className="annual-report__stat-sub">{data.summary.activeMonths} active month{data.summary.activeMonths !== 1 ? 's' : ''}</span>
                 </div>
                 {data.summary.topCategory && (
@@ -234,7 +255,7 @@ export default function AnnualSummaryPage() {
                       {data.summary.topCategory.emoji} {data.summary.topCategory.name}
                     </span>
                     <span className="annual-report__stat-sub">
-                      {formatDollars(data.summary.topCategory.amount)} ({data.summary.topCategory.percentage}%)
+                      {formatMoney(data.summary.topCategory.amount, data.currency)} ({data.summary.topCategory.percentage}%)
                     </span>
                   </div>
                 )}
@@ -248,7 +269,7 @@ export default function AnnualSummaryPage() {
                     <div>
                       <span className="annual-report__highlight-label">Highest</span>
                       <span className="annual-report__highlight-value">
-                        {data.summary.highestMonth.label} — {formatDollars(data.summary.highestMonth.total)}
+                        {data.summary.highestMonth.label} — {formatMoney(data.summary.highestMonth.total, data.currency)}
                       </span>
                     </div>
                   </div>
@@ -257,7 +278,7 @@ export default function AnnualSummaryPage() {
                     <div>
                       <span className="annual-report__highlight-label">Lowest</span>
                       <span className="annual-report__highlight-value">
-                        {data.summary.lowestMonth.label} — {formatDollars(data.summary.lowestMonth.total)}
+                        {data.summary.lowestMonth.label} — {formatMoney(data.summary.lowestMonth.total, data.currency)}
                       </span>
                     </div>
                   </div>
@@ -280,14 +301,14 @@ export default function AnnualSummaryPage() {
                           interval={0}
                         />
                         <YAxis
-                          tickFormatter={(v: number) => formatDollarsShort(v)}
+                          tickFormatter={(v: number) => formatMoneyShort(v, data.currency)}
                           tick={{ fontSize: 12, fill: 'var(--color-text-secondary)' }}
                           axisLine={false}
                           tickLine={false}
                           width={55}
                         />
                         <Tooltip
-                          content={<MonthlyTooltip />}
+                          content={<MonthlyTooltip currency={data.currency} />}
                           cursor={false}
                           active={activeMonth !== null}
                         />
@@ -324,7 +345,7 @@ export default function AnnualSummaryPage() {
                       <div className="annual-report__category-stats">
                         <span className="annual-report__category-count">{cat.count} txn{cat.count !== 1 ? 's' : ''}</span>
                         <span className="annual-report__category-pct">{cat.percentage}%</span>
-                        <span className="annual-report__category-amount">{formatDollars(cat.amount)}</span>
+                        <span className="annual-report__category-amount">{formatMoney(cat.amount, data.currency)}</span>
                       </div>
                       <div className="annual-report__category-bar-track">
                         <div
@@ -336,6 +357,29 @@ export default function AnnualSummaryPage() {
                   ))}
                 </div>
               </div>
+
+              {/* Payment Account Breakdown — only once accounts are in use */}
+              {data.paymentAccountBreakdown.some((a) => a.paymentAccountId !== null) && (
+                <div className="card annual-report__category-card">
+                  <h2 className="card__title">By Payment Account</h2>
+                  <div className="annual-report__category-list">
+                    {data.paymentAccountBreakdown.map((account) => (
+                      <div key={account.paymentAccountId ?? 'none'} className="annual-report__category-row">
+                        <div className="annual-report__category-info">
+                          <span className="annual-report__category-emoji">{account.kind ? PAYMENT_ACCOUNT_EMOJI[account.kind] : '❔'}</span>
+                          <span className="annual-report__category-name">
+                            {formatPaymentAccount(account)}{!account.isActive && ' (archived)'}
+                          </span>
+                        </div>
+                        <div className="annual-report__category-stats">
+                          <span className="annual-report__category-count">{account.count} txn{account.count !== 1 ? 's' : ''}</span>
+                          <span className="annual-report__category-amount">{formatMoney(account.amount, data.currency)}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </>
           )}
         </>
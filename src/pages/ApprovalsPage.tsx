@@ -0,0 +1,288 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+import { useAuth } from '../hooks/useAuth'
+import { useRefresh } from '../hooks/useRefresh'
+import { formatMoney } from '../utils/currency'
+import { formatDateShort } from '../utils/date-utils'
+import { ExpenseDetailSheet } from '../components/ExpenseDetailSheet'
+
+interface ApprovalExpense {
+  id: string
+  amount: number
+  currency: string
+  originalAmount: number | null
+  vendor: string | null
+  description: string | null
+  date: string
+  categoryId: string | null
+  categoryName: string | null
+  categoryEmoji: string | null
+  expenseType: string
+  isHomeOffice: boolean
+  homeOfficePercent: number | null
+  taxAmount: number | null
+  taxRate: number | null
+  paymentAccountId: string | null
+  isReimbursable: boolean
+  reimbursementId: string | null
+  receiptUrl: string | null
+  approvalStatus: string
+  approvalComment: string | null
+  approvalReviewedAt: string | null
+  createdBy: string | null
+  createdAt: string
+  submitterEmail: string | null
+  submitterFirstName: string | null
+  submitterLastName: string | null
+}
+
+interface ApprovalsData {
+  requireApproval: boolean
+  currency: string
+  canApprove: boolean
+  pending: ApprovalExpense[]
+  rejected: ApprovalExpense[]
+}
+
+const submitterName = (e: ApprovalExpense) =>
+  [e.submitterFirstName, e.submitterLastName].filter(Boolean).join(' ') || e.submitterEmail || 'Former team member'
+
+export default function ApprovalsPage() {
+  const { subdomain } = useTenant()
+  const { user } = useAuth()
+  const { expenseKey, refreshExpenses } = useRefresh()
+  const [data, setData] = useState<ApprovalsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Action state
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [comment, setComment] = useState('')
+
+  // Detail sheet
+  const [selectedExpense, setSelectedExpense] = useState<ApprovalExpense | null>(null)
+  const [detailSheetOpen, setDetailSheetOpen] = useState(false)
+
+  useEffect(() => {
+    if (!subdomain) return
+
+    async function fetchData() {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/approvals?tenant=${subdomain}`)
+        if (!response.ok) throw new Error('Failed to fetch approvals')
+        setData(await response.json())
+      } catch (err) {
+        console.error('Approvals error:', err)
+        setError('Failed to load approvals')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [subdomain, expenseKey])
+
+  const money = (minor: number) => formatMoney(minor, data?.currency)
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  async function handleDecision(expense: ApprovalExpense, decision: 'approve' | 'reject') {
+    try {
+      setBusyId(expense.id)
+      setActionError(null)
+      const response = await fetch(`/api/expenses/${expense.id}/approval?tenant=${subdomain}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision === 'reject' ? { decision, comment: comment.trim() } : { decision }),
+      })
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.details?.join(', ') || result.error || 'Something went wrong')
+      }
+      setRejectingId(null)
+      setComment('')
+      refreshExpenses()
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  function openExpense(expense: ApprovalExpense) {
+    setSelectedExpense(expense)
+    setDetailSheetOpen(true)
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div className="page approvals-page">
+      <div className="approvals-page__header">
+        <h1 className="approvals-page__title">Approvals</h1>
+      </div>
+
+      <p className="approvals-page__description">
+        {data && !data.canApprove
+          ? 'Expenses you submitted that are waiting for approval or need changes.'
+          : 'Expenses from the team waiting for your approval. They stay out of reports until approved.'}
+      </p>
+
+      {loading && !data && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-text-secondary)' }}>Loading approvals...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-error)' }}>{error}</p>
+        </div>
+      )}
+
+      {actionError && <div className="form-error">{actionError}</div>}
+
+      {!error && data && (
+        <>
+          {!data.requireApproval && (
+            <p className="approvals-page__note">
+              Approval mode is off, so new expenses no longer need approval. Anything below was submitted while it was on.
+            </p>
+          )}
+
+          {/* Pending */}
+          <h2 className="approvals-page__section-title">Awaiting Approval</h2>
+          {data.pending.length === 0 ? (
+            <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-xl)' }}>
+              <p className="empty-state__icon">✅</p>
+              <p style={{ color: 'var(--color-text-secondary)' }}>Nothing is waiting for approval.</p>
+            </div>
+          ) : (
+            <div className="card">
+              {data.pending.map((expense, i) => (
+                <div key={expense.id} className={`settings-row${i === data.pending.length - 1 ? ' settings-row--last' : ''}`}>
+                  <div className="settings-row__label">
+                    <span className="settings-row__title">
+                      {expense.vendor || expense.description || 'Expense'} · {money(expense.amount)}
+                    </span>
+                    <span className="settings-row__description">
+                      {expense.categoryEmoji ?? ''} {expense.categoryName || 'Uncategorized'} · {formatDateShort(expense.date)}
+                      {data.canApprove && ` · ${submitterName(expense)}`}
+                      {expense.originalAmount != null && ` · ${formatMoney(expense.originalAmount, expense.currency)}`}
+                    </span>
+                    {rejectingId === expense.id && (
+                      <div className="approvals-page__reject-form">
+                        <textarea
+                          className="form-input"
+                          placeholder="What needs to change?"
+                          value={comment}
+                          onChange={(e) => setComment(e.target.value)}
+                          maxLength={1000}
+                          rows={2}
+                          disabled={busyId !== null}
+                        />
+                        <div className="saved-location__actions">
+                          <button
+                            className="btn btn--secondary btn--sm"
+                            onClick={() => setRejectingId(null)}
+                            disabled={busyId !== null}
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            className="btn btn--danger-outline btn--sm"
+                            onClick={() => handleDecision(expense, 'reject')}
+                            disabled={busyId !== null || !comment.trim()}
+                          >
+                            {busyId === expense.id ? 'Sending...' : 'Send Back'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="saved-location__actions">
+                    <button
+                      className="btn btn--secondary btn--sm"
+                      onClick={() => openExpense(expense)}
+                    >
+                      View
+                    </button>
+                    {data.canApprove && rejectingId !== expense.id && (
+                      <>
+                        <button
+                          className="btn btn--primary btn--sm"
+                          onClick={() => handleDecision(expense, 'approve')}
+                          disabled={busyId !== null}
+                        >
+                          {busyId === expense.id ? 'Saving...' : 'Approve'}
+                        </button>
+                        <button
+                          className="btn btn--danger-outline btn--sm"
+                          onClick={() => {
+                            setRejectingId(expense.id)
+                            setComment('')
+                          }}
+                          disabled={busyId !== null}
+                        >
+                          Reject
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Returned to the submitter */}
+          <h2 className="approvals-page__section-title">Returned</h2>
+          {data.rejected.length === 0 ? (
+            <p className="approvals-page__note">Nothing has been sent back.</p>
+          ) : (
+            <div className="card">
+              {data.rejected.map((expense, i) => (
+                <div key={expense.id} className={`settings-row${i === data.rejected.length - 1 ? ' settings-row--last' : ''}`}>
+                  <div className="settings-row__label">
+                    <span className="settings-row__title">
+                      {expense.vendor || expense.description || 'Expense'} · {money(expense.amount)}
+                    </span>
+                    <span className="settings-row__description">
+                      {formatDateShort(expense.date)}
+                      {data.canApprove && ` · ${submitterName(expense)}`}
+                      {expense.approvalReviewedAt && ` · Returned ${formatDateShort(expense.approvalReviewedAt)}`}
+                    </span>
+                    {expense.approvalComment && (
+                      <span className="approvals-page__comment">“{expense.approvalComment}”</span>
+                    )}
+                  </div>
+                  <div className="saved-location__actions">
+                    <button
+                      className={`btn btn--sm ${expense.createdBy === user?.id ? 'btn--primary' : 'btn--secondary'}`}
+                      onClick={() => openExpense(expense)}
+                    >
+                      {expense.createdBy === user?.id ? 'Fix & Resubmit' : 'View'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <ExpenseDetailSheet
+        expense={selectedExpense}
+        isOpen={detailSheetOpen}
+        onClose={() => setDetailSheetOpen(false)}
+        onUpdate={refreshExpenses}
+        onDelete={refreshExpenses}
+      />
+    </div>
+  )
+}
@@ -3,7 +3,9 @@ import { useLocation } from 'wouter'
 import { useTenant } from '../hooks/useTenant'
 import { useYear } from '../hooks/useYear'
 import { useRefresh } from '../hooks/useRefresh'
+import { usePermissions } from '../hooks/usePermissions'
 import { CategorySheet } from '../components/CategorySheet'
+import { formatMoney } from '../utils/currency'
 
 interface Category {
   id: string
@@ -11,6 +13,7 @@ interface Category {
   emoji: string | null
   expenseType: string
   homeOfficeEligible: boolean
+  scheduleCLine: string | null
   isSystem: boolean
   sortOrder: number
   isActive: boolean
@@ -26,9 +29,13 @@ interface HomeOfficeSettings {
 }
 
 export default function CategoriesPage() {
-  const { subdomain } = useTenant()
+  const { subdomain, tenant } = useTenant()
+  const currency = tenant?.baseCurrency
   const { year } = useYear()
   const { expenseKey, refreshExpenses } = useRefresh()
+  const { can } = usePermissions()
+  const canManageCategories = can('categories:manage')
+  const canManageSettings = can('settings:manage')
   const [, setLocation] = useLocation()
 
   // Data state
@@ -114,13 +121,6 @@ export default function CategoriesPage() {
 
   // ============================================
   // HELPERS
-  // ============================================
-  const formatMoney = (cents: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(cents / 100)
-  }
 
   const handleCategoryClick = (categoryName: string) => {
     setLocation(`/expenses?category=${encodeURIComponent(categoryName)}`)
@@ -301,7 +301,7 @@ export default function CategoriesPage() {
               Set your home dimensions to calculate the deduction percentage applied to eligible categories.
             </p>
           </div>
-          {!editingHomeOffice && homeOfficeComplete && (
+          {canManageSettings && !editingHomeOffice && homeOfficeComplete && (
             <button
               className="btn btn--secondary btn--sm"
               onClick={() => setEditingHomeOffice(true)}
@@ -309,7 +309,7 @@ export default function CategoriesPage() {
               Edit
             </button>
           )}
-          {!editingHomeOffice && !homeOfficeComplete && (
+          {canManageSettings && !editingHomeOffice && !homeOfficeComplete && (
             <button
               className="btn btn--secondary btn--sm"
               onClick={() => setEditingHomeOffice(true)}
@@ -320,7 +320,7 @@ export default function CategoriesPage() {
         </div>
 
         {/* Ignore checkbox — show when incomplete (above position) or when ignored (below position) */}
-        {(!homeOfficeComplete) && (
+        {canManageSettings && !homeOfficeComplete && (
           <label className="home-office-config__ignore-label">
             <input
               type="checkbox"
@@ -487,9 +487,11 @@ export default function CategoriesPage() {
     <div className="page categories-page">
       <div className="categories-page__header">
         <h1 className="page__title">Categories</h1>
-        <button className="btn btn--primary btn--sm" onClick={handleAdd}>
-          + Add
-        </button>
+        {canManageCategories && (
+          <button className="btn btn--primary btn--sm" onClick={handleAdd}>
+            + Add
+          </button>
+        )}
       </div>
 
       {/* Summary */}
@@ -498,7 +500,7 @@ export default function CategoriesPage() {
         <span className="categories-page__dot">·</span>
         <span>{totalCount} expenses</span>
         <span className="categories-page__dot">·</span>
-        <span>{formatMoney(totalSpent)} total</span>
+        <span>{formatMoney(totalSpent, currency)} total</span>
       </div>
 
       {/* Home Office ABOVE categories (incomplete + not ignored) */}
@@ -547,36 +549,38 @@ export default function CategoriesPage() {
                   {category.expenseType === 'cogs' ? 'COGS' :
                    category.expenseType === 'home_office' ? 'Home Office' : 'Operating'}
                 </span>
-                <div className="category-card__actions">
-                  <button
-                    className="category-card__action-btn"
-                    onClick={(e) => handleEdit(e, category)}
-                    aria-label={`Edit ${category.name}`}
-                    title="Edit"
-                  >
-                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                      <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
-                      <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
-                    </svg>
-                  </button>
-                  {!category.isSystem && (
+                {canManageCategories && (
+                  <div className="category-card__actions">
                     <button
-                      className="category-card__action-btn category-card__action-btn--danger"
-                      onClick={(e) => handleDeleteClick(e, category)}
-                      aria-label={`Delete ${category.name}`}
-                      title="Delete"
+                      className="category-card__action-btn"
+                      onClick={(e) => handleEdit(e, category)}
+                      aria-label={`Edit ${category.name}`}
+                      title="Edit"
                     >
                       <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                        <polyline points="3 6 5 6 21 6" />
-                        <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                        <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
+                        <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
                       </svg>
                     </button>
-                  )}
-                </div>
+                    {!category.isSystem && (
+                      <button
+                        className="category-card__action-btn category-card__action-btn--danger"
+                        onClick={(e) => handleDeleteClick(e, category)}
+                        aria-label={`Delete ${category.name}`}
+                        title="Delete"
+                      >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <polyline points="3 6 5 6 21 6" />
+                          <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="category-card__stats">
                 <div className="category-card__total">
-                  {category.total > 0 ? formatMoney(category.total) : '—'}
+                  {category.total > 0 ? formatMoney(category.total, currency) : '—'}
                 </div>
                 <div className="category-card__count">
                   {category.count > 0
@@ -646,7 +650,7 @@ export default function CategoriesPage() {
               <div className="delete-modal__body">
                 <p className="delete-modal__warning">
                   This category has <strong>{deletingCategory.count} expense{deletingCategory.count !== 1 ? 's' : ''}</strong> totaling{' '}
-                  <strong>{formatMoney(deletingCategory.total)}</strong>.
+                  <strong>{formatMoney(deletingCategory.total, currency)}</strong>.
                 </p>
                 <p>These expenses will be reassigned to:</p>
                 <select
@@ -6,6 +6,8 @@ import { useRefresh } from '../hooks/useRefresh'
 import { ExpenseDetailSheet } from '../components/ExpenseDetailSheet'
 import { MileageDetailSheet } from '../components/MileageDetailSheet'
 import { PieChart, Pie, Cell, ResponsiveContainer } from 'recharts'
+import { formatMileageRates, type YearMileageRate } from '../utils/mileage-rates'
+import { formatMoney } from '../utils/currency'
 
 interface Expense {
   id: string
@@ -22,6 +24,7 @@ interface Expense {
 }
 
 interface CategoryBreakdown {
+  categoryId: string
   name: string
   emoji: string | null
   total: number
@@ -49,6 +52,8 @@ interface MileageTrip {
   distanceMiles: number
   displayMiles: number
   isRoundTrip: boolean
+  mileageRate: number
+  deduction: number
 }
 
 interface MileageData {
@@ -57,6 +62,7 @@ interface MileageData {
     totalMiles: number
     tripCount: number
     estimatedDeduction: number
+    mileageRates: YearMileageRate[]
     year: number
   }
 }
@@ -79,7 +85,8 @@ const CHART_COLORS = [
 ]
 
 export default function DashboardPage() {
-  const { subdomain } = useTenant()
+  const { subdomain, tenant } = useTenant()
+  const currency = tenant?.baseCurrency
   const { year } = useYear()
   const { expenseKey, mileageKey, refreshExpenses, refreshMileage } = useRefresh()
   const [, setLocation] = useLocation()
@@ -101,7 +108,7 @@ export default function DashboardPage() {
       const params = new URLSearchParams()
       if (subdomain) params.set('tenant', subdomain)
       params.set('year', String(year))
-      params.set('limit', '500')
+      params.set('limit', '10')
 
       // Fetch expenses and mileage in parallel
       const [expenseResponse, mileageResponse] = await Promise.all([
@@ -134,8 +141,8 @@ export default function DashboardPage() {
   }, [fetchDashboard, expenseKey, mileageKey])
 
   // Navigate to expenses filtered by category
-  const handleCategoryClick = (categoryName: string) => {
-    setLocation(`/expenses?category=${encodeURIComponent(categoryName)}`)
+  const handleCategoryClick = (categoryName: string, categoryId: string) => {
+    setLocation(`/expenses?category=${encodeURIComponent(categoryName)}&categoryId=${encodeURIComponent(categoryId)}`)
   }
 
   // Open expense detail sheet
@@ -173,14 +180,6 @@ export default function DashboardPage() {
 
   const { summary, categoryBreakdown, expenses } = data
 
-  // Format cents to dollars
-  const formatMoney = (cents: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(cents / 100)
-  }
-
   // Format miles (stored as miles * 100)
   const formatMiles = (miles: number) => (miles / 100).toFixed(1)
 
@@ -207,6 +206,7 @@ export default function DashboardPage() {
     const otherCategories = categoryBreakdown.slice(6)
     
     const chartData = topCategories.map((cat, index) => ({
+      categoryId: cat.categoryId,
       name: cat.name,
       value: cat.total,
       emoji: cat.emoji,
@@ -216,6 +216,7 @@ export default function DashboardPage() {
     if (otherCategories.length > 0) {
       const otherTotal = otherCategories.reduce((sum, cat) => sum + cat.total, 0)
       chartData.push({
+        categoryId: '',
         name: 'Other',
         value: otherTotal,
         emoji: '📁',
@@ -270,12 +271,12 @@ export default function DashboardPage() {
                 <div className="donut-tooltip donut-tooltip--fixed">
                   <span className="donut-tooltip__emoji">{chartData[activeDonutIndex].emoji}</span>
                   <span className="donut-tooltip__name">{chartData[activeDonutIndex].name}</span>
-                  <span className="donut-tooltip__value">{formatMoney(chartData[activeDonutIndex].value)}</span>
+                  <span className="donut-tooltip__value">{formatMoney(chartData[activeDonutIndex].value, currency)}</span>
                 </div>
               )}
               {activeDonutIndex === null && (
                 <div className="donut-center">
-                  <span className="donut-center__amount">{formatMoney(summary.totalDeductible)}</span>
+                  <span className="donut-center__amount">{formatMoney(summary.totalDeductible, currency)}</span>
                   <span className="donut-center__label">Total</span>
                 </div>
               )}
@@ -285,13 +286,13 @@ export default function DashboardPage() {
                 <li 
                   key={index} 
                   className="donut-legend__item"
-                  onClick={() => entry.name !== 'Other' && handleCategoryClick(entry.name)}
+                  onClick={() => entry.name !== 'Other' && handleCategoryClick(entry.name, entry.categoryId)}
                   role={entry.name !== 'Other' ? 'button' : undefined}
                   tabIndex={entry.name !== 'Other' ? 0 : undefined}
                   onKeyDown={(e) => {
                     if (entry.name !== 'Other' && (e.key === 'Enter' || e.key === ' ')) {
                       e.preventDefault()
-                      handleCategoryClick(entry.name)
+                      handleCategoryClick(entry.name, entry.categoryId)
                     }
                   }}
                 >
@@ -301,7 +302,7 @@ export default function DashboardPage() {
                   />
                   <span className="donut-legend__emoji">{entry.emoji}</span>
                   <span className="donut-legend__name">{entry.name}</span>
-                  <span className="donut-legend__value">{formatMoney(entry.value)}</span>
+                  <span className="donut-legend__value">{formatMoney(entry.value, currency)}</span>
                 </li>
               ))}
             </ul>
@@ -327,7 +328,7 @@ export default function DashboardPage() {
         >
 
           <span className="summary-card__label">Total Expenses</span>
-          <span className="summary-card__value">{formatMoney(summary.totalDeductible)}</span>
+          <span className="summary-card__value">{formatMoney(summary.totalDeductible, currency)}</span>
           <span className="summary-card__sub">
             {summary.year}
           </span>
@@ -397,7 +398,7 @@ export default function DashboardPage() {
                     </span>
                   </div>
                   <span className="expense-list__amount">
-                      {formatMoney(expense.isHomeOffice && expense.homeOfficePercent ? Math.round(expense.amount * (expense.homeOfficePercent / 100)) : expense.amount)}
+                      {formatMoney(expense.isHomeOffice && expense.homeOfficePercent ? Math.round(expense.amount * (expense.homeOfficePercent / 100)) : expense.amount, currency)}
                   </span>
                 </li>
               ))}
@@ -416,13 +417,13 @@ export default function DashboardPage() {
                 <li 
                   key={cat.name} 
                   className="category-list__item category-list__item--clickable"
-                  onClick={() => handleCategoryClick(cat.name)}
+                  onClick={() => handleCategoryClick(cat.name, cat.categoryId)}
                   role="button"
                   tabIndex={0}
                   onKeyDown={(e) => {
                     if (e.key === 'Enter' || e.key === ' ') {
                       e.preventDefault()
-                      handleCategoryClick(cat.name)
+                      handleCategoryClick(cat.name, cat.categoryId)
                     }
                   }}
                 >
@@ -439,7 +440,7 @@ export default function DashboardPage() {
                       }}
                     />
                   </div>
-                  <span className="category-list__total">{formatMoney(cat.total)}</span>
+                  <span className="category-list__total">{formatMoney(cat.total, currency)}</span>
                 </li>
               ))}
             </ul>
@@ -556,7 +557,11 @@ export default function DashboardPage() {
             <span className="deduction-display__value">
               {mileageData?.summary ? formatMoney(mileageData.summary.estimatedDeduction) : '$0.00'}
             </span>
-            <span className="deduction-display__rate">@ 70¢/mile (2025 IRS rate)</span>
+            {mileageData?.summary && (
+              <span className="deduction-display__rate">
+                @ {formatMileageRates(mileageData.summary.mileageRates)}/mile ({mileageData.summary.year} IRS {mileageData.summary.mileageRates.length > 1 ? 'rates' : 'rate'})
+              </span>
+            )}
             <p className="deduction-display__note">
               This is an estimate based on IRS standard mileage rates. Consult a tax professional for actual deductions.
             </p>
@@ -1,14 +1,23 @@
 import { useState, useEffect, useCallback } from 'react'
-import { useSearch } from 'wouter'
+import { Link, useSearch, useLocation } from 'wouter'
 import { useTenant } from '../hooks/useTenant'
 import { useYear } from '../hooks/useYear'
 import { useRefresh } from '../hooks/useRefresh'
+import { usePermissions } from '../hooks/usePermissions'
 import { ExpenseDetailSheet } from '../components/ExpenseDetailSheet'
 import { AddExpenseSheet } from '../components/AddExpenseSheet'
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll'
+import { formatMoney } from '../utils/currency'
+import { usePaymentAccounts } from '../hooks/usePaymentAccounts'
+import { formatPaymentAccount } from '../utils/payment-accounts'
+
+const PAGE_SIZE = 50
 
 interface Expense {
   id: string
-  amount: number
+  amount: number // base currency
+  currency?: string
+  originalAmount?: number | null // as entered, when not in the base currency
   vendor: string | null
   description: string | null
   date: string
@@ -18,37 +27,78 @@ interface Expense {
   expenseType?: string
   isHomeOffice?: boolean
   homeOfficePercent?: number | null
+  paymentAccountId?: string | null
   attachmentCount?: number
+  policyFlag?: string | null
+  policyReviewedAt?: string | null
+  approvalStatus?: string
+  approvalComment?: string | null
+  createdBy?: string | null
+}
+
+// Year-wide aggregates from the API — independent of how many pages are loaded
+interface ExpenseTotals {
+  expenseCount: number
+  totalAmount: number
+  pendingCount: number
+  pendingAmount: number
+}
+
+interface MonthlyTotal {
+  month: string // YYYY-MM
+  total: number
+  count: number
 }
 
 export default function ExpensesPage() {
-  const { subdomain } = useTenant()
+  const { subdomain, tenant } = useTenant()
+  const currency = tenant?.baseCurrency
   const { year } = useYear()
   const { expenseKey, refreshExpenses } = useRefresh()
+  const { can } = usePermissions()
   const searchString = useSearch()
+  const [, setLocation] = useLocation()
+  const { accounts: paymentAccounts } = usePaymentAccounts()
   const [expenses, setExpenses] = useState<Expense[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [totals, setTotals] = useState<ExpenseTotals | null>(null)
+  const [monthlyTotals, setMonthlyTotals] = useState<MonthlyTotal[]>([])
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
+  // Server-side full-text matches (vendor, notes, receipt text); null = not searching or search unavailable
+  const [searchResults, setSearchResults] = useState<Expense[] | null>(null)
+  const [searchCursor, setSearchCursor] = useState<string | null>(null)
   
   // Category filter from URL
   const urlParams = new URLSearchParams(searchString)
   const categoryFilter = urlParams.get('category')
+  // Links from the dashboard carry the ID so the API can filter; older links only have the name
+  const categoryIdFilter = urlParams.get('categoryId')
+  // Payment account filter — an account ID, or "none" for expenses with no account recorded
+  const accountFilter = urlParams.get('paymentAccountId')
   
   // Sheet states
   const [detailSheetOpen, setDetailSheetOpen] = useState(false)
   const [selectedExpense, setSelectedExpense] = useState<Expense | null>(null)
   const [addSheetOpen, setAddSheetOpen] = useState(false)
 
+  const buildParams = useCallback((cursor?: string) => {
+    const params = new URLSearchParams()
+    if (subdomain) params.set('tenant', subdomain)
+    params.set('year', String(year))
+    params.set('limit', String(PAGE_SIZE))
+    if (categoryIdFilter) params.set('categoryId', categoryIdFilter)
+    if (accountFilter) params.set('paymentAccountId', accountFilter)
+    if (cursor) params.set('cursor', cursor)
+    return params
+  }, [subdomain, year, categoryIdFilter, accountFilter])
+
   const fetchExpenses = useCallback(async () => {
     try {
       setLoading(true)
-      const params = new URLSearchParams()
-      if (subdomain) params.set('tenant', subdomain)
-      params.set('year', String(year))
-      params.set('limit', '1000')
-
-      const response = await fetch(`/api/expenses?${params}`)
+      const response = await fetch(`/api/expenses?${buildParams()}`)
       if (!response.ok) {
         const err = await response.json()
         throw new Error(err.error || 'Failed to fetch expenses')
@@ -56,24 +106,109 @@ export default function ExpensesPage() {
 
       const result = await response.json()
       setExpenses(result.expenses)
+      setNextCursor(result.nextCursor)
+      setTotals(result.summary)
+      setMonthlyTotals(result.monthlyTotals)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error')
     } finally {
       setLoading(false)
     }
-  }, [subdomain, year])
+  }, [buildParams])
 
   useEffect(() => {
     fetchExpenses()
   }, [fetchExpenses, expenseKey])
 
-  // Format cents to dollars
-  const formatMoney = (cents: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(cents / 100)
-  }
+  // Fetch the next page when the user scrolls near the bottom
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return
+    try {
+      setLoadingMore(true)
+      const response = await fetch(`/api/expenses?${buildParams(nextCursor)}`)
+      if (!response.ok) throw new Error('Failed to fetch more expenses')
+
+      const result = await response.json()
+      setExpenses(prev => [
+        ...prev,
+        ...result.expenses.filter((e: Expense) => !prev.some(p => p.id === e.id)),
+      ])
+      setNextCursor(result.nextCursor)
+    } catch (err) {
+      console.error('Error loading more expenses:', err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [buildParams, nextCursor])
+
+  // Full-text search params for the selected year; pass the cursor for the next page of matches
+  const buildSearchParams = useCallback((cursor?: string) => {
+    const params = new URLSearchParams()
+    params.set('tenant', subdomain!)
+    params.set('q', searchTerm.trim())
+    params.set('from', `${year}-01-01`)
+    params.set('to', `${year}-12-31`)
+    params.set('limit', '100')
+    if (categoryIdFilter) params.set('categoryId', categoryIdFilter)
+    if (accountFilter) params.set('paymentAccountId', accountFilter)
+    if (cursor) params.set('cursor', cursor)
+    return params
+  }, [subdomain, searchTerm, year, categoryIdFilter, accountFilter])
+
+  // Debounced full-text search
+  useEffect(() => {
+    if (!searchTerm.trim() || !subdomain) {
+      setSearchResults(null)
+      setSearchCursor(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/expenses/search?${buildSearchParams()}`)
+        if (!response.ok) throw new Error('Search failed')
+        const result = await response.json()
+        if (!cancelled) {
+          setSearchResults(result.expenses)
+          setSearchCursor(result.nextCursor)
+        }
+      } catch (err) {
+        // Fall back to filtering the loaded list
+        console.error('Error searching expenses:', err)
+        if (!cancelled) {
+          setSearchResults(null)
+          setSearchCursor(null)
+        }
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [buildSearchParams, searchTerm, subdomain, expenseKey])
+
+  // Next page of search matches, fetched on scroll like the main list
+  const loadMoreMatches = useCallback(async () => {
+    if (!searchCursor) return
+    try {
+      setLoadingMore(true)
+      const response = await fetch(`/api/expenses/search?${buildSearchParams(searchCursor)}`)
+      if (!response.ok) throw new Error('Failed to fetch more matches')
+
+      const result = await response.json()
+      setSearchResults(prev => [
+        ...(prev ?? []),
+        ...result.expenses.filter((e: Expense) => !prev?.some(p => p.id === e.id)),
+      ])
+      setSearchCursor(result.nextCursor)
+    } catch (err) {
+      console.error('Error loading more matches:', err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [buildSearchParams, searchCursor])
 
   // Format date (timezone-safe)
   const formatDate = (dateStr: string) => {
@@ -92,23 +227,55 @@ export default function ExpensesPage() {
       : expense.amount
   }
 
+  // Approved expenses (and ones from before approvals existed) count toward totals
+  const countsInTotals = (expense: Expense): boolean =>
+    !expense.approvalStatus || expense.approvalStatus === 'approved'
+
   // Filter expenses by search term AND category filter
-  const filteredExpenses = expenses.filter(expense => {
-    // First apply category filter from URL
-    if (categoryFilter && expense.categoryName !== categoryFilter) {
+  const term = searchTerm.trim().toLowerCase()
+  const searchMatchIds = searchResults ? new Set(searchResults.map(e => e.id)) : null
+  // Server matches may include expenses beyond the loaded page
+  const searchPool = searchResults
+    ? [...expenses, ...searchResults.filter(r => !expenses.some(e => e.id === r.id))]
+    : expenses
+
+  const filteredExpenses = searchPool.filter(expense => {
+    // First apply category filter from URL (the API already filtered when we have the ID)
+    if (categoryFilter && !categoryIdFilter && expense.categoryName !== categoryFilter) {
       return false
     }
     
-    // Then apply search term
-    if (!searchTerm) return true
-    const term = searchTerm.toLowerCase()
+    // Then apply search term — category names are matched locally, text by the server when available
+    if (!term) return true
+    if (expense.categoryName?.toLowerCase().includes(term)) return true
+    if (searchMatchIds) return searchMatchIds.has(expense.id)
     return (
       expense.vendor?.toLowerCase().includes(term) ||
-      expense.description?.toLowerCase().includes(term) ||
-      expense.categoryName?.toLowerCase().includes(term)
+      expense.description?.toLowerCase().includes(term)
     )
   })
 
+  // While searching, scrolling pages through the server's matches instead of the list
+  const searchingServer = !!term && searchResults !== null
+  const sentinelRef = useInfiniteScroll(
+    searchingServer ? loadMoreMatches : loadMore,
+    !loadingMore && (searchingServer ? !!searchCursor : !!nextCursor && !term)
+  )
+
+  // Server totals cover the whole year; fall back to summing what's loaded when filtering locally
+  const useServerTotals = !!totals && !term && (!categoryFilter || !!categoryIdFilter)
+  // Like reports, totals only count approved expenses; pending ones are shown separately
+  const countedExpenses = filteredExpenses.filter(countsInTotals)
+  const pendingExpenses = filteredExpenses.filter(e => e.approvalStatus === 'pending')
+  const resultCount = useServerTotals ? totals.expenseCount : countedExpenses.length
+  const resultTotal = useServerTotals
+    ? totals.totalAmount
+    : countedExpenses.reduce((sum, e) => sum + effectiveAmount(e), 0)
+  const pendingCount = useServerTotals ? totals.pendingCount : pendingExpenses.length
+  const pendingTotal = useServerTotals
+    ? totals.pendingAmount
+    : pendingExpenses.reduce((sum, e) => sum + effectiveAmount(e), 0)
+
   // Group expenses by month
   const expensesByMonth = filteredExpenses.reduce((acc, expense) => {
     const [yr, mo, dy] = expense.date.substring(0, 10).split('-').map(Number)
@@ -120,7 +287,7 @@ export default function ExpensesPage() {
       acc[monthKey] = { label: monthLabel, expenses: [], total: 0 }
     }
     acc[monthKey].expenses.push(expense)
-    acc[monthKey].total += effectiveAmount(expense)
+    if (countsInTotals(expense)) acc[monthKey].total += effectiveAmount(expense)
     return acc
   }, {} as Record<string, { label: string; expenses: Expense[]; total: number }>)
 
@@ -143,6 +310,15 @@ export default function ExpensesPage() {
     refreshExpenses()
   }
 
+  // Change the payment account filter, keeping any category filter
+  const handleAccountFilterChange = (value: string) => {
+    const params = new URLSearchParams(searchString)
+    if (value) params.set('paymentAccountId', value)
+    else params.delete('paymentAccountId')
+    const query = params.toString()
+    setLocation(query ? `/expenses?${query}` : '/expenses')
+  }
+
   // Clear category filter
   const clearCategoryFilter = () => {
     window.history.replaceState({}, '', '/expenses')
@@ -216,17 +392,51 @@ export default function ExpensesPage() {
         )}
       </div>
 
-      <button className="add-link" onClick={() => setAddSheetOpen(true)}>
-        + Add Expense
-      </button>
+      {/* Payment Account Filter — once the tenant has accounts */}
+      {paymentAccounts.length > 0 && (
+        <div className="expenses-page__filters">
+          <select
+            className="form-input expenses-page__account-filter"
+            value={accountFilter ?? ''}
+            onChange={(e) => handleAccountFilterChange(e.target.value)}
+            aria-label="Filter by payment account"
+          >
+            <option value="">All payment accounts</option>
+            {paymentAccounts.map(account => (
+              <option key={account.id} value={account.id}>
+                {formatPaymentAccount(account)}{account.isActive ? '' : ' (archived)'}
+              </option>
+            ))}
+            <option value="none">No account recorded</option>
+          </select>
+        </div>
+      )}
+
+      {can('expenses:create') && (
+        <div className="expenses-page__add-actions">
+          <button className="add-link" onClick={() => setAddSheetOpen(true)}>
+            + Add Expense
+          </button>
+          <Link href="/expenses/import" className="add-link">
+            Import statement
+          </Link>
+          {can('attachments:upload') && (
+            <Link href="/expenses/inbox" className="add-link">
+              Receipt inbox
+            </Link>
+          )}
+        </div>
+      )}
 
       {/* Results Summary */}
       <p className="expenses-page__summary">
-        {filteredExpenses.length} expense{filteredExpenses.length !== 1 ? 's' : ''}
+        {resultCount} expense{resultCount !== 1 ? 's' : ''}
         {categoryFilter && ` in ${categoryFilter}`}
         {searchTerm && ` matching "${searchTerm}"`}
+        {searchingServer && searchCursor && ' so far'}
         {' · '}
-        {formatMoney(filteredExpenses.reduce((sum, e) => sum + effectiveAmount(e), 0))} total
+        {formatMoney(resultTotal, currency)} total
+        {pendingCount > 0 && ` · ${formatMoney(pendingTotal, currency)} pending approval`}
       </p>
 
       {/* Expense List by Month */}
@@ -249,7 +459,9 @@ export default function ExpensesPage() {
           <div key={monthKey} className="expense-month">
             <div className="expense-month__header">
               <h2 className="expense-month__title">{label}</h2>
-              <span className="expense-month__total">{formatMoney(total)}</span>
+              <span className="expense-month__total">
+                {formatMoney(useServerTotals ? monthlyTotals.find(m => m.month === monthKey)?.total ?? total : total, currency)}
+              </span>
             </div>
             <div className="card expense-month__list">
               {monthExpenses.map((expense) => {
@@ -282,13 +494,21 @@ export default function ExpensesPage() {
                     </div>
                     <div className="expense-row__amount-group">
                       <span className="expense-row__amount">
-                        {formatMoney(deductible)}
+                        {formatMoney(deductible, currency)}
                         {isHO && <span className="expense-row__home-icon" title="Home Office Expense">🏡</span>}
                         {Number(expense.attachmentCount) > 0 && <span className="attachment-indicator" title="Has attachments">📎</span>}
+                        {expense.policyFlag && !expense.policyReviewedAt && <span className="expense-row__policy-flag" title="Over expense limit — needs review">⚠️</span>}
+                        {expense.approvalStatus === 'pending' && <span className="expense-row__policy-flag" title="Awaiting approval">⏳</span>}
+                        {expense.approvalStatus === 'rejected' && <span className="expense-row__policy-flag" title="Returned by the approver">↩️</span>}
                       </span>
                       {isHO && (
                         <span className="expense-row__amount-sub">
-                          {formatMoney(expense.amount)} total
+                          {formatMoney(expense.amount, currency)} total
+                        </span>
+                      )}
+                      {expense.originalAmount != null && expense.currency && (
+                        <span className="expense-row__amount-sub">
+                          {formatMoney(expense.originalAmount, expense.currency)}
                         </span>
                       )}
                     </div>
@@ -300,6 +520,12 @@ export default function ExpensesPage() {
         ))
       )}
 
+      {/* Infinite scroll */}
+      <div ref={sentinelRef} />
+      {loadingMore && (
+        <p style={{ color: 'var(--color-text-secondary)', textAlign: 'center' }}>Loading more...</p>
+      )}
+
       {/* Expense Detail Bottom Sheet */}
       <ExpenseDetailSheet
         expense={selectedExpense}
@@ -0,0 +1,474 @@
+import { useState, useEffect } from 'react'
+import { Link, useLocation } from 'wouter'
+import { useTenant } from '../hooks/useTenant'
+import { useRefresh } from '../hooks/useRefresh'
+import { usePermissions } from '../hooks/usePermissions'
+import { formatDateShort } from '../utils/date-utils'
+import { STATEMENT_PRESETS, MAX_STATEMENT_BYTES, type ColumnMapping } from '../utils/statement-presets'
+import { formatMoney } from '../utils/currency'
+import { usePaymentAccounts } from '../hooks/usePaymentAccounts'
+import { formatPaymentAccount } from '../utils/payment-accounts'
+
+interface Category {
+  id: string
+  name: string
+  emoji: string | null
+  expenseType: string
+}
+
+interface PreviewRow {
+  line: number
+  date: string // YYYY-MM-DD
+  amount: number
+  description: string
+  reference: string | null
+  vendor: string
+  categoryId: string | null
+  suggestion: { categoryId: string; categoryName: string; confidence: number } | null
+  duplicate: {
+    status: 'duplicate' | 'possible'
+    expenseId: string | null
+    vendor: string | null
+    date: string
+    amount: number
+  } | null
+}
+
+interface PreviewResult {
+  format: 'csv' | 'ofx'
+  headers: string[]
+  preset: string | null
+  mapping: ColumnMapping | null
+  rows: PreviewRow[]
+  skippedCredits: number
+  skippedInvalid: number
+}
+
+// What the user decided for each preview row
+interface RowChoice {
+  include: boolean
+  categoryId: string
+}
+
+const EMPTY_MAPPING: ColumnMapping = { date: '', description: '', amount: '', negativeIsExpense: true }
+
+export default function ImportPage() {
+  const { subdomain, tenant } = useTenant()
+  const currency = tenant?.baseCurrency
+  const { refreshExpenses } = useRefresh()
+  const { can } = usePermissions()
+  const [, setLocation] = useLocation()
+
+  // File + parse options
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [content, setContent] = useState<string | null>(null)
+  const [preset, setPreset] = useState('')
+  const [customMapping, setCustomMapping] = useState<ColumnMapping | null>(null)
+  const [paymentAccountId, setPaymentAccountId] = useState('') // the card/account this statement is for
+  const { accounts: paymentAccounts } = usePaymentAccounts()
+  const activeAccounts = paymentAccounts.filter(a => a.isActive)
+
+  // Preview + choices
+  const [preview, setPreview] = useState<PreviewResult | null>(null)
+  const [choices, setChoices] = useState<RowChoice[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+
+  // UI state
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [rowErrors, setRowErrors] = useState<Record<number, string[]>>({})
+
+  useEffect(() => {
+    async function fetchCategories() {
+      try {
+        const response = await fetch(`/api/categories?tenant=${subdomain}`)
+        if (!response.ok) throw new Error('Failed to fetch categories')
+        const data = await response.json()
+        setCategories(data.categories)
+      } catch (err) {
+        console.error('Error fetching categories:', err)
+      }
+    }
+    fetchCategories()
+  }, [subdomain])
+
+  // ============================================
+  // HELPERS
+
+  const selectedCount = choices.filter(c => c.include).length
+  const selectedTotal = preview
+    ? preview.rows.reduce((sum, row, i) => sum + (choices[i]?.include ? row.amount : 0), 0)
+    : 0
+  const needsMapping = preview?.format === 'csv' && !preview.mapping
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  async function runPreview(text: string, name: string, presetId: string, mapping: ColumnMapping | null) {
+    try {
+      setLoading(true)
+      setError(null)
+      setRowErrors({})
+
+      const response = await fetch(`/api/imports/preview?tenant=${subdomain}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fileName: name,
+          content: text,
+          preset: presetId && presetId !== 'custom' ? presetId : null,
+          mapping,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.join(', ') || data.error || 'Failed to read statement')
+      }
+
+      const result = data as PreviewResult
+      setPreview(result)
+      // Likely duplicates start unchecked; everything else is in
+      setChoices(result.rows.map(row => ({
+        include: row.duplicate?.status !== 'duplicate',
+        categoryId: row.categoryId ?? '',
+      })))
+      // Unrecognized layout (or the user asked for custom columns): show the mapping form
+      if (result.format === 'csv' && !mapping && (presetId === 'custom' || !result.mapping)) {
+        setCustomMapping(result.mapping ? { ...result.mapping } : { ...EMPTY_MAPPING })
+      }
+    } catch (err) {
+      setPreview(null)
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (file.size > MAX_STATEMENT_BYTES) {
+      setError('Statement files must be 2MB or smaller')
+      return
+    }
+
+    const text = await file.text()
+    setFileName(file.name)
+    setContent(text)
+    setCustomMapping(null)
+    runPreview(text, file.name, preset, null)
+  }
+
+  function handlePresetChange(value: string) {
+    setPreset(value)
+    setCustomMapping(value === 'custom' ? { ...(preview?.mapping ?? EMPTY_MAPPING) } : null)
+    if (content && fileName && value !== 'custom') {
+      runPreview(content, fileName, value, null)
+    }
+  }
+
+  function handleApplyMapping() {
+    if (!content || !fileName || !customMapping) return
+    const mapping = { ...customMapping }
+    // Only send the amount style the user picked
+    if (mapping.amount) {
+      delete mapping.debit
+      delete mapping.credit
+    } else {
+      delete mapping.amount
+    }
+    runPreview(content, fileName, '', mapping)
+  }
+
+  function updateChoice(index: number, change: Partial<RowChoice>) {
+    setChoices(prev => prev.map((c, i) => (i === index ? { ...c, ...change } : c)))
+  }
+
+  function setAllIncluded(include: boolean) {
+    setChoices(prev => prev.map(c => ({ ...c, include })))
+  }
+
+  async function handleCommit() {
+    if (!preview) return
+
+    const selected = preview.rows
+      .map((row, index) => ({ row, index, choice: choices[index] }))
+      .filter(({ choice }) => choice?.include)
+
+    if (selected.some(({ choice }) => !choice.categoryId)) {
+      setError('Pick a category for every selected row')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setError(null)
+      setRowErrors({})
+
+      const response = await fetch(`/api/imports/commit?tenant=${subdomain}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rows: selected.map(({ row, choice }) => ({
+            amount: row.amount,
+            date: row.date + 'T12:00:00.000Z',
+            categoryId: choice.categoryId,
+            vendor: row.vendor,
+            importReference: row.reference,
+            paymentAccountId: paymentAccountId || null,
+            expenseType: categories.find(c => c.id === choice.categoryId)?.expenseType === 'cogs' ? 'cogs' : 'operating',
+          })),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        if (data.rowErrors) {
+          // Map batch positions back to preview rows
+          const byPreviewRow: Record<number, string[]> = {}
+          for (const { index, errors } of data.rowErrors as { index: number; errors: string[] }[]) {
+            byPreviewRow[selected[index].index] = errors
+          }
+          setRowErrors(byPreviewRow)
+        }
+        throw new Error(data.rowErrors ? 'Some rows need attention — see below' : data.details?.join(', ') || data.error || 'Import failed')
+      }
+
+      refreshExpenses()
+      setLocation('/expenses')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+  if (!can('expenses:create')) {
+    return (
+      <div className="page">
+        <div className="card">
+          <p style={{ margin: 0 }}>You don't have permission to import expenses.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="page import-page">
+      <div className="import-page__nav">
+        <Link href="/expenses" className="back-link">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <polyline points="15 18 9 12 15 6" />
+          </svg>
+          Expenses
+        </Link>
+      </div>
+
+      <h1 className="page__title">Import Statement</h1>
+      <p className="import-page__description">
+        Upload a CSV or OFX/QFX export from your bank or card. Purchases are
+        matched against your existing expenses so nothing gets entered twice.
+      </p>
+
+      {/* File + format */}
+      <div className="card import-page__source">
+        <div className="form-group">
+          <label htmlFor="statementPreset" className="form-label">Format</label>
+          <select
+            id="statementPreset"
+            className="form-input form-select"
+            value={preset}
+            onChange={(e) => handlePresetChange(e.target.value)}
+          >
+            <option value="">Detect automatically</option>
+            {STATEMENT_PRESETS.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+            <option value="custom">Custom columns…</option>
+          </select>
+          <span className="form-hint">OFX and QFX files are always read automatically.</span>
+        </div>
+
+        {activeAccounts.length > 0 && (
+          <div className="form-group">
+            <label htmlFor="statementAccount" className="form-label">Statement Account</label>
+            <select
+              id="statementAccount"
+              className="form-input form-select"
+              value={paymentAccountId}
+              onChange={(e) => setPaymentAccountId(e.target.value)}
+            >
+              <option value="">Not recorded</option>
+              {activeAccounts.map(account => (
+                <option key={account.id} value={account.id}>{formatPaymentAccount(account)}</option>
+              ))}
+            </select>
+            <span className="form-hint">Every imported purchase is marked as paid with this account.</span>
+          </div>
+        )}
+
+        <label className="btn btn--primary import-page__file-btn">
+          {fileName ? 'Choose another file' : 'Choose statement file'}
+          <input
+            type="file"
+            accept=".csv,.ofx,.qfx,text/csv"
+            onChange={handleFileChange}
+            hidden
+          />
+        </label>
+        {fileName && <p className="import-page__file-name">{fileName}</p>}
+      </div>
+
+      {/* Custom column mapping */}
+      {customMapping && preview?.format === 'csv' && (
+        <div className="card import-page__mapping">
+          <h2 className="import-page__section-title">Map columns</h2>
+          {needsMapping && (
+            <p className="form-hint">We didn't recognize this file's layout. Tell us which column is which.</p>
+          )}
+          {(['date', 'description', 'amount', 'debit', 'credit'] as const).map(field => (
+            <div className="form-group" key={field}>
+              <label htmlFor={`map-${field}`} className="form-label">
+                {field === 'amount' ? 'Amount (signed)' : field.charAt(0).toUpperCase() + field.slice(1)}
+              </label>
+              <select
+                id={`map-${field}`}
+                className="form-input form-select"
+                value={customMapping[field] ?? ''}
+                onChange={(e) => setCustomMapping({ ...customMapping, [field]: e.target.value })}
+              >
+                <option value="">—</option>
+                {preview.headers.map(h => (
+                  <option key={h} value={h}>{h}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          {customMapping.amount && (
+            <div className="form-group">
+              <label htmlFor="map-sign" className="form-label">Purchases appear as</label>
+              <select
+                id="map-sign"
+                className="form-input form-select"
+                value={customMapping.negativeIsExpense ? 'negative' : 'positive'}
+                onChange={(e) => setCustomMapping({ ...customMapping, negativeIsExpense: e.target.value === 'negative' })}
+              >
+                <option value="negative">Negative amounts (most bank accounts)</option>
+                <option value="positive">Positive amounts (most credit cards)</option>
+              </select>
+            </div>
+          )}
+          <button
+            className="btn btn--primary btn--sm"
+            onClick={handleApplyMapping}
+            disabled={loading || !customMapping.date || !customMapping.description || !(customMapping.amount || customMapping.debit || customMapping.credit)}
+          >
+            Preview rows
+          </button>
+        </div>
+      )}
+
+      {error && <div className="form-error">{error}</div>}
+      {loading && <p style={{ color: 'var(--color-text-secondary)' }}>Reading statement...</p>}
+
+      {/* Preview */}
+      {preview && !loading && !needsMapping && (
+        <>
+          <div className="import-page__summary">
+            <span>{preview.rows.length} purchase{preview.rows.length !== 1 ? 's' : ''}</span>
+            {preview.skippedCredits > 0 && (
+              <>
+                <span className="categories-page__dot">·</span>
+                <span>{preview.skippedCredits} payment{preview.skippedCredits !== 1 ? 's' : ''}/credit{preview.skippedCredits !== 1 ? 's' : ''} skipped</span>
+              </>
+            )}
+            {preview.skippedInvalid > 0 && (
+              <>
+                <span className="categories-page__dot">·</span>
+                <span>{preview.skippedInvalid} unreadable row{preview.skippedInvalid !== 1 ? 's' : ''}</span>
+              </>
+            )}
+          </div>
+
+          {preview.rows.length > 0 && (
+            <>
+              <div className="import-page__bulk">
+                <button className="add-link" onClick={() => setAllIncluded(true)}>Select all</button>
+                <button className="add-link" onClick={() => setAllIncluded(false)}>Select none</button>
+              </div>
+
+              <div className="import-table">
+                {preview.rows.map((row, index) => {
+                  const choice = choices[index]
+                  if (!choice) return null
+                  return (
+                    <div
+                      key={`${row.line}-${index}`}
+                      className={`import-row ${choice.include ? '' : 'import-row--excluded'} ${rowErrors[index] ? 'import-row--error' : ''}`}
+                    >
+                      <input
+                        type="checkbox"
+                        className="import-row__check"
+                        checked={choice.include}
+                        onChange={(e) => updateChoice(index, { include: e.target.checked })}
+                        aria-label={`Import ${row.vendor}`}
+                      />
+                      <div className="import-row__main">
+                        <div className="import-row__top">
+                          <span className="import-row__vendor">{row.vendor}</span>
+                          <span className="import-row__amount">{formatMoney(row.amount, currency)}</span>
+                        </div>
+                        <div className="import-row__meta">
+                          <span>{formatDateShort(row.date)}</span>
+                          {row.duplicate && (
+                            <span
+                              className={`import-row__badge import-row__badge--${row.duplicate.status}`}
+                              title={`${row.duplicate.expenseId ? 'Existing expense' : 'Earlier row'}: ${row.duplicate.vendor ?? 'No vendor'} · ${formatMoney(row.duplicate.amount, currency)} on ${formatDateShort(row.duplicate.date)}`}
+                            >
+                              {row.duplicate.status === 'duplicate' ? 'Already recorded' : 'Possible duplicate'}
+                            </span>
+                          )}
+                        </div>
+                        <select
+                          className="form-input form-select import-row__category"
+                          value={choice.categoryId}
+                          onChange={(e) => updateChoice(index, { categoryId: e.target.value })}
+                          aria-label="Category"
+                        >
+                          <option value="">Choose category…</option>
+                          {categories.map(c => (
+                            <option key={c.id} value={c.id}>{c.emoji} {c.name}</option>
+                          ))}
+                        </select>
+                        {rowErrors[index] && (
+                          <p className="import-row__error">{rowErrors[index].join(', ')}</p>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+
+              <button
+                className="btn btn--primary btn--full import-page__commit"
+                onClick={handleCommit}
+                disabled={submitting || selectedCount === 0}
+              >
+                {submitting
+                  ? 'Importing...'
+                  : `Import ${selectedCount} expense${selectedCount !== 1 ? 's' : ''} · ${formatMoney(selectedTotal, currency)}`}
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
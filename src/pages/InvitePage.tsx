@@ -4,6 +4,8 @@ export default function InvitePage() {
   const [loading, setLoading] = useState(true)
   const [valid, setValid] = useState(false)
   const [businessName, setBusinessName] = useState('')
+  const [kind, setKind] = useState<'owner' | 'accountant'>('owner')
+  const [inviteEmail, setInviteEmail] = useState('')
   const [reason, setReason] = useState<string | null>(null)
 
   const params = new URLSearchParams(window.location.search)
@@ -24,6 +26,8 @@ export default function InvitePage() {
         if (data.valid) {
           setValid(true)
           setBusinessName(data.businessName)
+          setKind(data.kind === 'accountant' ? 'accountant' : 'owner')
+          setInviteEmail(data.email || '')
         } else {
           setValid(false)
           setReason(data.reason || 'invalid')
@@ -40,7 +44,10 @@ export default function InvitePage() {
   }, [token])
 
   const handleSignIn = () => {
-    window.location.href = '/api/auth/google'
+    // Accountant invites are accepted by token in the OAuth callback
+    window.location.href = kind === 'accountant' && token
+      ? `/api/auth/google?accountantInvite=${encodeURIComponent(token)}`
+      : '/api/auth/google'
   }
 
   if (loading) {
@@ -77,6 +84,13 @@ export default function InvitePage() {
               </p>
             </>
           )}
+          {reason === 'revoked' && (
+            <>
+              <p className="invite-page__error">This invite has been revoked.</p>
+              {businessName && <p className="invite-page__detail">Business: {businessName}</p>}
+              <p className="invite-page__detail">Please contact the business owner if you still need access.</p>
+            </>
+          )}
           {reason === 'invalid' && (
             <p className="invite-page__error">Invalid invite link. Please check the link from your email.</p>
           )}
@@ -93,7 +107,9 @@ export default function InvitePage() {
       <div className="invite-page__card">
         <h1 className="invite-page__title">Wayve Expense Tracker</h1>
         <p className="invite-page__welcome">
-          You've been invited to manage expenses for
+          {kind === 'accountant'
+            ? "You've been invited as the accountant for"
+            : "You've been invited to manage expenses for"}
         </p>
         <p className="invite-page__business">{businessName}</p>
         <button className="invite-page__google-btn" onClick={handleSignIn}>
@@ -106,7 +122,9 @@ export default function InvitePage() {
           Sign in with Google
         </button>
         <p className="invite-page__note">
-          You'll use your Google account to sign in. No new password needed.
+          {kind === 'accountant' && inviteEmail
+            ? `Sign in with the Google account for ${inviteEmail}. You'll have read-only access.`
+            : "You'll use your Google account to sign in. No new password needed."}
         </p>
       </div>
     </div>
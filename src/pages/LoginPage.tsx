@@ -22,6 +22,9 @@ export function LoginPage() {
         'user_info_failed': 'Could not retrieve your account information. Please try again.',
         'server_error': 'An unexpected error occurred. Please try again.',
         'missing_code': 'Authentication was cancelled or failed. Please try again.',
+        'invalid_invite': 'This invite link is no longer valid. Please ask for a new invite.',
+        'invite_expired': 'This invite has expired. Please ask for a new invite.',
+        'invite_email_mismatch': 'This invite was sent to a different email address. Please sign in with the Google account the invite was sent to.',
       };
       
       setError(errorMessages[errorParam] || `Authentication error: ${errorParam}`);
@@ -1,9 +1,14 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useTenant } from '../hooks/useTenant'
 import { useYear } from '../hooks/useYear'
 import { useRefresh } from '../hooks/useRefresh'
+import { usePermissions } from '../hooks/usePermissions'
 import { AddMileageSheet } from '../components/AddMileageSheet'
 import { MileageDetailSheet } from '../components/MileageDetailSheet'
+import { formatMileageRates, type YearMileageRate } from '../utils/mileage-rates'
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll'
+
+const PAGE_SIZE = 50
 
 interface MileageTrip {
   id: string
@@ -14,48 +19,112 @@ interface MileageTrip {
   distanceMiles: number
   displayMiles: number
   isRoundTrip: boolean
+  mileageRate: number
+  deduction: number
+}
+
+// Year-wide aggregates from the API — independent of how many pages are loaded
+interface MileageTotals {
+  totalMiles: number
+  tripCount: number
+}
+
+interface MonthlyTotal {
+  month: string // YYYY-MM
+  totalMiles: number
+  tripCount: number
 }
 
 export default function MileagePage() {
   const { subdomain } = useTenant()
   const { year } = useYear()
   const { mileageKey, refreshMileage } = useRefresh()
+  const { can } = usePermissions()
+  const canLogTrips = can('mileage:create')
   
   const [trips, setTrips] = useState<MileageTrip[]>([])
+  const [mileageRates, setMileageRates] = useState<YearMileageRate[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [totals, setTotals] = useState<MileageTotals | null>(null)
+  const [monthlyTotals, setMonthlyTotals] = useState<MonthlyTotal[]>([])
   const [sheetOpen, setSheetOpen] = useState(false)
   const [selectedTrip, setSelectedTrip] = useState<MileageTrip | null>(null)
   const [detailSheetOpen, setDetailSheetOpen] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
 
+  // Search runs server-side so it covers trips that haven't been paged in yet
   useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  const buildParams = useCallback((cursor?: string) => {
+    const params = new URLSearchParams()
+    if (subdomain) params.set('tenant', subdomain)
+    params.set('year', String(year))
+    params.set('limit', String(PAGE_SIZE))
+    if (debouncedQuery) params.set('q', debouncedQuery)
+    if (cursor) params.set('cursor', cursor)
+    return params
+  }, [subdomain, year, debouncedQuery])
+
+  useEffect(() => {
+    let cancelled = false
+
     async function fetchMileage() {
       if (!subdomain) return
       
       try {
-        setLoading(true)
-        const params = new URLSearchParams()
-        params.set('tenant', subdomain)
-        params.set('year', String(year))
-
-        const response = await fetch(`/api/mileage?${params}`)
+        const response = await fetch(`/api/mileage?${buildParams()}`)
         
         if (!response.ok) {
           throw new Error('Failed to fetch mileage')
         }
 
         const data = await response.json()
+        if (cancelled) return
         setTrips(data.trips || [])
+        setNextCursor(data.nextCursor)
+        setTotals(data.summary)
+        setMonthlyTotals(data.monthlyTotals || [])
+        setMileageRates(data.summary?.mileageRates || [])
       } catch (err) {
         console.error('Error fetching mileage:', err)
-        setTrips([])
+        if (!cancelled) setTrips([])
       } finally {
-        setLoading(false)
+        if (!cancelled) setLoading(false)
       }
     }
 
     fetchMileage()
-  }, [subdomain, year, mileageKey])
+    return () => { cancelled = true }
+  }, [subdomain, buildParams, mileageKey])
+
+  // Fetch the next page when the user scrolls near the bottom
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return
+    try {
+      setLoadingMore(true)
+      const response = await fetch(`/api/mileage?${buildParams(nextCursor)}`)
+      if (!response.ok) throw new Error('Failed to fetch more trips')
+
+      const data = await response.json()
+      setTrips(prev => [
+        ...prev,
+        ...data.trips.filter((t: MileageTrip) => !prev.some(p => p.id === t.id)),
+      ])
+      setNextCursor(data.nextCursor)
+    } catch (err) {
+      console.error('Error loading more trips:', err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [buildParams, nextCursor])
+
+  const sentinelRef = useInfiniteScroll(loadMore, !!nextCursor && !loadingMore)
 
   // Format miles (stored as miles * 100)
   const formatMiles = (miles: number) => (miles / 100).toFixed(1)
@@ -97,8 +166,12 @@ export default function MileagePage() {
 
   const sortedMonths = Object.entries(tripsByMonth).sort(([a], [b]) => b.localeCompare(a))
 
-  // Calculate totals for filtered results
-  const totalFilteredMiles = filteredTrips.reduce((sum, trip) => sum + trip.displayMiles, 0)
+  // Server totals cover every matching trip, not just the pages loaded so far
+  const serverTotalsCurrent = !!totals && searchQuery.trim() === debouncedQuery
+  const resultCount = serverTotalsCurrent ? totals.tripCount : filteredTrips.length
+  const resultMiles = serverTotalsCurrent
+    ? totals.totalMiles
+    : filteredTrips.reduce((sum, trip) => sum + trip.displayMiles, 0)
 
   function handleTripAdded() {
     refreshMileage()
@@ -129,24 +202,26 @@ export default function MileagePage() {
     <div className="page mileage-page">
       <h1 className="page__title">Mileage</h1>
       
-      {trips.length === 0 ? (
+      {trips.length === 0 && !searchQuery && !debouncedQuery ? (
         /* Empty State */
         <div className="empty-state">
           <div className="empty-state__icon">🚗</div>
           <h2 className="empty-state__title">No mileage tracked yet</h2>
           <p className="empty-state__description">
-            Track your business miles to maximize your tax deductions. 
-            The IRS standard mileage rate for 2025 is 70¢ per mile.
+            Track your business miles to maximize your tax deductions.
+            {mileageRates.length > 0 && ` The IRS standard mileage rate for ${year} is ${formatMileageRates(mileageRates)} per mile.`}
           </p>
-          <button 
-            className="empty-state__btn"
-            onClick={() => setSheetOpen(true)}
-          >
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <path d="M12 5v14M5 12h14" />
-            </svg>
-            Log Your First Trip
-          </button>
+          {canLogTrips && (
+            <button 
+              className="empty-state__btn"
+              onClick={() => setSheetOpen(true)}
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M12 5v14M5 12h14" />
+              </svg>
+              Log Your First Trip
+            </button>
+          )}
         </div>
       ) : (
         <>
@@ -176,13 +251,15 @@ export default function MileagePage() {
             )}
           </div>
 
-          <button className="add-link" onClick={() => setSheetOpen(true)}>
-            + Log Trip
-          </button>
+          {canLogTrips && (
+            <button className="add-link" onClick={() => setSheetOpen(true)}>
+              + Log Trip
+            </button>
+          )}
 
           {/* Summary line */}
           <p className="mileage-page__summary">
-            {filteredTrips.length} trip{filteredTrips.length !== 1 ? 's' : ''} · {formatMiles(totalFilteredMiles)} miles
+            {resultCount} trip{resultCount !== 1 ? 's' : ''} · {formatMiles(resultMiles)} miles
             {searchQuery && ` matching "${searchQuery}"`}
           </p>
 
@@ -196,7 +273,9 @@ export default function MileagePage() {
               <div key={monthKey} className="card">
                 <div className="card__header">
                   <h2 className="card__title">{name}</h2>
-                  <span className="card__subtitle">{formatMiles(totalMiles)} mi</span>
+                  <span className="card__subtitle">
+                    {formatMiles(serverTotalsCurrent ? monthlyTotals.find(m => m.month === monthKey)?.totalMiles ?? totalMiles : totalMiles)} mi
+                  </span>
                 </div>
                 <ul className="trip-list">
                   {monthTrips.map((trip) => (
@@ -226,6 +305,12 @@ export default function MileagePage() {
               </div>
             ))
           )}
+
+          {/* Infinite scroll */}
+          <div ref={sentinelRef} />
+          {loadingMore && (
+            <p style={{ color: 'var(--color-text-secondary)', textAlign: 'center' }}>Loading more...</p>
+          )}
         </>
       )}
 
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { useYear } from '../hooks/useYear'
 import { useTenant } from '../hooks/useTenant'
 import { Link } from 'wouter'
+import { formatMileageRates, type YearMileageRate } from '../utils/mileage-rates'
 
 interface MileageTrip {
   id: string
@@ -12,6 +13,8 @@ interface MileageTrip {
   distanceMiles: number
   displayMiles: number
   isRoundTrip: boolean
+  mileageRate: number
+  deduction: number
 }
 
 interface MonthlyBreakdown {
@@ -28,7 +31,7 @@ interface MileageReportData {
     totalMiles: number
     tripCount: number
     estimatedDeduction: number
-    mileageRate: number
+    mileageRates: YearMileageRate[]
   }
   monthlyBreakdown: MonthlyBreakdown[]
 }
@@ -186,7 +189,7 @@ export default function MileageReportPage() {
                   <span className="mileage-report__stat-value mileage-report__stat-value--highlight">
                     {formatDollars(data.summary.estimatedDeduction)}
                   </span>
-                  <span className="mileage-report__stat-sub">@ {data.summary.mileageRate}¢/mile</span>
+                  <span className="mileage-report__stat-sub">@ {formatMileageRates(data.summary.mileageRates)}/mile</span>
                 </div>
               </div>
 
@@ -219,6 +222,7 @@ export default function MileageReportPage() {
                       <th className="mileage-table__dest-header">Destination</th>
                       <th className="mileage-table__purpose-header">Business Purpose</th>
                       <th className="mileage-table__miles-header">Miles</th>
+                      <th className="mileage-table__miles-header">Deduction</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -245,6 +249,9 @@ export default function MileageReportPage() {
                         <td className="mileage-table__miles-cell">
                           {formatMiles(trip.displayMiles)}
                         </td>
+                        <td className="mileage-table__miles-cell" title={`@ ${trip.mileageRate}¢/mile`}>
+                          {formatDollars(trip.deduction)}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -256,6 +263,9 @@ export default function MileageReportPage() {
                       <td className="mileage-table__miles-cell mileage-table__miles-cell--total">
                         {formatMiles(data.summary.totalMiles)}
                       </td>
+                      <td className="mileage-table__miles-cell mileage-table__miles-cell--total">
+                        {formatDollars(data.summary.estimatedDeduction)}
+                      </td>
                     </tr>
                   </tfoot>
                 </table>
@@ -263,8 +273,9 @@ export default function MileageReportPage() {
 
               {/* IRS Disclaimer */}
               <p className="mileage-report__disclaimer">
-                This log is based on IRS standard mileage rate guidelines. The {year} rate 
-                is {data.summary.mileageRate}¢ per business mile. Consult a tax professional 
+                This log is based on IRS standard mileage rate guidelines. {data.summary.mileageRates.length > 1
+                  ? `The ${year} rates are ${formatMileageRates(data.summary.mileageRates)} per business mile, applied by trip date.`
+                  : `The ${year} rate is ${formatMileageRates(data.summary.mileageRates)} per business mile.`} Consult a tax professional 
                 for actual deduction calculations. Retain this log and supporting documentation 
                 for your records.
               </p>
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react'
 import { useYear } from '../hooks/useYear'
 import { useTenant } from '../hooks/useTenant'
+import { useSettings } from '../hooks/useSettings'
 import { Link } from 'wouter'
+import { formatMoney } from '../utils/currency'
+import { ForeignCurrencyNote, type ForeignCurrencyTotal } from '../components/ForeignCurrencyNote'
+import { IncludePendingToggle } from '../components/IncludePendingToggle'
 import {
   BarChart,
   Bar,
@@ -26,6 +30,8 @@ interface QuarterlyRow {
 
 interface QuarterlyData {
   year: number
+  currency: string
+  foreignCurrency: ForeignCurrencyTotal[]
   rows: QuarterlyRow[]
   totals: {
     q1: number
@@ -52,17 +58,13 @@ const CHART_COLORS = [
   '#E0A458', // amber
 ]
 
-function formatDollars(cents: number): string {
-  return (cents / 100).toLocaleString('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  })
+function formatWhole(minor: number, currency: string): string {
+  return formatMoney(minor, currency, 0)
 }
 
 // Tooltip for the stacked bar chart
-function ChartTooltip({ active, payload, label }: {
+function ChartTooltip({ active, payload, label, currency }: {
+  currency: string
   active?: boolean
   payload?: Array<{ name: string; value: number; color: string }>
   label?: string
@@ -85,12 +87,12 @@ function ChartTooltip({ active, payload, label }: {
             style={{ backgroundColor: entry.color }}
           />
           <span className="stacked-chart-tooltip__name">{entry.name}</span>
-          <span className="stacked-chart-tooltip__value">{formatDollars(entry.value)}</span>
+          <span className="stacked-chart-tooltip__value">{formatWhole(entry.value, currency)}</span>
         </div>
       ))}
       <div className="stacked-chart-tooltip__total">
         <span>Total</span>
-        <span>{formatDollars(total)}</span>
+        <span>{formatWhole(total, currency)}</span>
       </div>
     </div>
   )
@@ -99,6 +101,7 @@ function ChartTooltip({ active, payload, label }: {
 export default function QuarterlyReportPage() {
   const { year, nextYear, prevYear } = useYear()
   const { subdomain } = useTenant()
+  const { includePending } = useSettings()
   const [data, setData] = useState<QuarterlyData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -116,6 +119,7 @@ export default function QuarterlyReportPage() {
           tenant: subdomain!,
           year: year.toString(),
         })
+        if (includePending) params.set('includePending', 'true')
         const response = await fetch(`/api/reports/quarterly?${params}`)
         if (!response.ok) throw new Error('Failed to fetch quarterly data')
         const result = await response.json()
@@ -129,7 +133,7 @@ export default function QuarterlyReportPage() {
     }
 
     fetchData()
-  }, [subdomain, year])
+  }, [subdomain, year, includePending])
 
   // Prepare stacked bar chart data from quarterly rows
   const prepareChartData = () => {
@@ -211,6 +215,8 @@ export default function QuarterlyReportPage() {
         Category spending breakdown by quarter for {year}.
       </p>
 
+      <IncludePendingToggle />
+
       {loading && (
         <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
           <p style={{ color: 'var(--color-text-secondary)' }}>Loading quarterly data...</p>
@@ -232,6 +238,8 @@ export default function QuarterlyReportPage() {
             </div>
           ) : (
             <>
+              <ForeignCurrencyNote baseCurrency={data.currency} totals={data.foreignCurrency} />
+
               {/* Stacked Bar Chart */}
               <div className="card stacked-chart-card">
                 <h2 className="card__title">Quarterly Comparison</h2>
@@ -250,13 +258,13 @@ export default function QuarterlyReportPage() {
                         tickLine={false}
                       />
                       <YAxis
-                        tickFormatter={(value: number) => formatDollars(value)}
+                        tickFormatter={(value: number) => formatWhole(value, data.currency)}
                         tick={{ fill: 'var(--color-text-secondary)', fontSize: 12 }}
                         axisLine={false}
                         tickLine={false}
                         width={70}
                       />
-                      <Tooltip content={<ChartTooltip />} cursor={{ fill: 'var(--color-bg-hover, rgba(0,0,0,0.04))' }} wrapperStyle={{ zIndex: 10 }} />
+                      <Tooltip content={<ChartTooltip currency={data.currency} />} cursor={{ fill: 'var(--color-bg-hover, rgba(0,0,0,0.04))' }} wrapperStyle={{ zIndex: 10 }} />
                       <Legend
                         wrapperStyle={{ fontSize: '0.8125rem', paddingTop: '8px' }}
                         iconType="square"
@@ -297,19 +305,19 @@ export default function QuarterlyReportPage() {
                           <span className="quarterly-table__name">{row.name}</span>
                         </td>
                         <td className={`quarterly-table__amount-cell ${row.q1 === 0 ? 'quarterly-table__amount-cell--zero' : ''}`}>
-                          {row.q1 === 0 ? '—' : formatDollars(row.q1)}
+                          {row.q1 === 0 ? '—' : formatWhole(row.q1, data.currency)}
                         </td>
                         <td className={`quarterly-table__amount-cell ${row.q2 === 0 ? 'quarterly-table__amount-cell--zero' : ''}`}>
-                          {row.q2 === 0 ? '—' : formatDollars(row.q2)}
+                          {row.q2 === 0 ? '—' : formatWhole(row.q2, data.currency)}
                         </td>
                         <td className={`quarterly-table__amount-cell ${row.q3 === 0 ? 'quarterly-table__amount-cell--zero' : ''}`}>
-                          {row.q3 === 0 ? '—' : formatDollars(row.q3)}
+                          {row.q3 === 0 ? '—' : formatWhole(row.q3, data.currency)}
                         </td>
                         <td className={`quarterly-table__amount-cell ${row.q4 === 0 ? 'quarterly-table__amount-cell--zero' : ''}`}>
-                          {row.q4 === 0 ? '—' : formatDollars(row.q4)}
+                          {row.q4 === 0 ? '—' : formatWhole(row.q4, data.currency)}
                         </td>
                         <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">
-                          {formatDollars(row.total)}
+                          {formatWhole(row.total, data.currency)}
                         </td>
                       </tr>
                     ))}
@@ -318,19 +326,19 @@ export default function QuarterlyReportPage() {
                     <tr className="quarterly-table__totals-row">
                       <td className="quarterly-table__category-cell quarterly-table__category-cell--total quarterly-table__sticky-col">TOTAL</td>
                       <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">
-                        {formatDollars(data.totals.q1)}
+                        {formatWhole(data.totals.q1, data.currency)}
                       </td>
                       <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">
-                        {formatDollars(data.totals.q2)}
+                        {formatWhole(data.totals.q2, data.currency)}
                       </td>
                       <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">
-                        {formatDollars(data.totals.q3)}
+                        {formatWhole(data.totals.q3, data.currency)}
                       </td>
                       <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">
-                        {formatDollars(data.totals.q4)}
+                        {formatWhole(data.totals.q4, data.currency)}
                       </td>
                       <td className="quarterly-table__amount-cell quarterly-table__amount-cell--grand-total">
-                        {formatDollars(data.totals.total)}
+                        {formatWhole(data.totals.total, data.currency)}
                       </td>
                     </tr>
                   </tfoot>
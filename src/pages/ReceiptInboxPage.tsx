@@ -0,0 +1,532 @@
+import { useState, useEffect, useRef } from 'react'
+import { Link } from 'wouter'
+import { useTenant } from '../hooks/useTenant'
+import { useRefresh } from '../hooks/useRefresh'
+import { usePermissions } from '../hooks/usePermissions'
+import { scanReceiptFile } from '../hooks/useScanReceipt'
+import { ALLOWED_FILE_ACCEPT, uploadToBlob, validateFile } from '../utils/attachment-upload'
+import { formatMoney, fromMinorUnits, toMinorUnits } from '../utils/currency'
+
+interface Category {
+  id: string
+  name: string
+  emoji: string | null
+}
+
+interface InboxItem {
+  id: string
+  blobUrl: string
+  fileName: string
+  fileType: string
+  fileSize: number
+  status: 'queued' | 'scanned' | 'failed'
+  scanError: string | null
+  vendor: string | null
+  date: string | null
+  amount: number | null
+  currency: string | null
+  categoryId: string | null
+  categoryName: string | null
+  categoryEmoji: string | null
+  description: string | null
+  reviewNeeded: boolean
+  source: 'upload' | 'email'
+  emailFrom: string | null
+  createdAt: string
+}
+
+// Matches MAX_INBOX_BATCH on the server
+const COMMIT_BATCH_SIZE = 50
+
+export default function ReceiptInboxPage() {
+  const { subdomain, tenant } = useTenant()
+  const baseCurrency = tenant?.baseCurrency ?? 'USD'
+  const { refreshExpenses } = useRefresh()
+  const { can } = usePermissions()
+
+  const [items, setItems] = useState<InboxItem[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [inboundAddress, setInboundAddress] = useState<string | null>(null)
+
+  // Upload
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null)
+  const [uploadErrors, setUploadErrors] = useState<string[]>([])
+  const [dragActive, setDragActive] = useState(false)
+
+  // Scan queue — one receipt at a time, paused while the scan limit is hit
+  const [scanningId, setScanningId] = useState<string | null>(null)
+  const [pausedUntil, setPausedUntil] = useState<number | null>(null)
+  const scanBusy = useRef(false)
+
+  // Selection + commit
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [itemErrors, setItemErrors] = useState<Record<string, string[]>>({})
+  const [committing, setCommitting] = useState(false)
+
+  useEffect(() => {
+    if (!subdomain) return
+
+    async function fetchData() {
+      setLoading(true)
+      try {
+        const [inboxResponse, categoriesResponse, addressResponse] = await Promise.all([
+          fetch(`/api/receipt-inbox?tenant=${subdomain}`),
+          fetch(`/api/categories?tenant=${subdomain}`),
+          fetch(`/api/inbound-email/address?tenant=${subdomain}`),
+        ])
+        if (!inboxResponse.ok) throw new Error('Failed to fetch receipt inbox')
+        setItems((await inboxResponse.json()).items)
+        if (categoriesResponse.ok) {
+          setCategories((await categoriesResponse.json()).categories)
+        }
+        if (addressResponse.ok) {
+          setInboundAddress((await addressResponse.json()).address)
+        }
+      } catch (err) {
+        console.error('Receipt inbox error:', err)
+        setError('Failed to load the receipt inbox')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [subdomain])
+
+  // ============================================
+  // SCAN QUEUE
+  // ============================================
+  useEffect(() => {
+    if (!subdomain || scanBusy.current || pausedUntil) return
+    const next = items.find(item => item.status === 'queued')
+    if (!next) return
+
+    async function scanNext(item: InboxItem) {
+      scanBusy.current = true
+      setScanningId(item.id)
+      try {
+        const outcome = await scanReceiptFile(item.blobUrl, subdomain!, item.fileType)
+        if (outcome.retryAfterSeconds) {
+          // Leave it queued and pick the queue back up once the limit resets
+          setPausedUntil(Date.now() + outcome.retryAfterSeconds * 1000)
+          return
+        }
+        const response = await fetch(`/api/receipt-inbox/${item.id}?tenant=${subdomain}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(outcome.data ? { scan: outcome.data } : { scanError: outcome.error }),
+        })
+        if (!response.ok) throw new Error('Failed to save scan')
+        const { item: updated } = await response.json()
+        setItems(prev => prev.map(i => (i.id === updated.id ? updated : i)))
+      } catch (err) {
+        console.error('Inbox scan error:', err)
+        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, status: 'failed', scanError: 'Failed to scan receipt' } : i)))
+      } finally {
+        scanBusy.current = false
+        setScanningId(null)
+      }
+    }
+
+    scanNext(next)
+  }, [items, pausedUntil, subdomain])
+
+  useEffect(() => {
+    if (!pausedUntil) return
+    const timer = setTimeout(() => setPausedUntil(null), Math.max(0, pausedUntil - Date.now()))
+    return () => clearTimeout(timer)
+  }, [pausedUntil])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  function replaceItem(updated: InboxItem) {
+    setItems(prev => prev.map(item => (item.id === updated.id ? updated : item)))
+  }
+
+  async function saveItem(id: string, changes: Record<string, unknown>) {
+    const response = await fetch(`/api/receipt-inbox/${id}?tenant=${subdomain}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.details?.join(', ') || data.error || 'Failed to save')
+    }
+    replaceItem(data.item)
+    setItemErrors(prev => {
+      const next = { ...prev }
+      delete next[id]
+      return next
+    })
+  }
+
+  async function handleEdit(item: InboxItem, changes: Record<string, unknown>) {
+    try {
+      await saveItem(item.id, changes)
+    } catch (err) {
+      setItemErrors(prev => ({ ...prev, [item.id]: [err instanceof Error ? err.message : 'Failed to save'] }))
+    }
+  }
+
+  function handleAmountBlur(item: InboxItem, value: string) {
+    const currency = item.currency ?? baseCurrency
+    const amount = value.trim() ? toMinorUnits(value, currency) : null
+    if (amount === item.amount) return
+    if (amount !== null && (!Number.isFinite(amount) || amount <= 0)) {
+      setItemErrors(prev => ({ ...prev, [item.id]: ['Enter an amount greater than zero'] }))
+      return
+    }
+    handleEdit(item, { amount })
+  }
+
+  async function handleFiles(fileList: FileList | null) {
+    const files = Array.from(fileList ?? [])
+    if (files.length === 0 || !subdomain) return
+
+    const errors: string[] = []
+    const valid = files.filter(file => {
+      const problem = validateFile(file)
+      if (problem) errors.push(`${file.name}: ${problem}`)
+      return !problem
+    })
+
+    setUploadErrors(errors)
+    setNotice(null)
+    setUploadProgress({ done: 0, total: valid.length })
+
+    // Each file is added to the inbox as soon as it's uploaded, so the
+    // scan queue can start while the rest are still on their way
+    for (const [index, file] of valid.entries()) {
+      try {
+        const uploaded = await uploadToBlob(file, subdomain, `${subdomain}/pending`)
+        const response = await fetch(`/api/receipt-inbox?tenant=${subdomain}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ files: [uploaded] }),
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.details?.join(', ') || data.error || 'Upload failed')
+        }
+        setItems(prev => [...prev, ...data.items])
+      } catch (err) {
+        console.error('Inbox upload error:', err)
+        errors.push(`${file.name}: ${err instanceof Error ? err.message : 'Upload failed'}`)
+        setUploadErrors([...errors])
+      }
+      setUploadProgress({ done: index + 1, total: valid.length })
+    }
+
+    setUploadProgress(null)
+  }
+
+  function handleDrop(e: React.DragEvent<HTMLDivElement>) {
+    e.preventDefault()
+    setDragActive(false)
+    handleFiles(e.dataTransfer.files)
+  }
+
+  async function handleRemove(item: InboxItem) {
+    try {
+      const response = await fetch(`/api/receipt-inbox/${item.id}?tenant=${subdomain}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove receipt')
+      }
+      setItems(prev => prev.filter(i => i.id !== item.id))
+      setSelected(prev => {
+        const next = new Set(prev)
+        next.delete(item.id)
+        return next
+      })
+    } catch (err) {
+      setItemErrors(prev => ({ ...prev, [item.id]: [err instanceof Error ? err.message : 'Failed to remove receipt'] }))
+    }
+  }
+
+  function toggleSelected(id: string, include: boolean) {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (include) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  async function handleCommit() {
+    const ids = items.filter(item => selected.has(item.id) && item.status !== 'queued').map(item => item.id)
+    if (ids.length === 0) return
+
+    setCommitting(true)
+    setError(null)
+    setNotice(null)
+    setItemErrors({})
+
+    const createdItemIds = new Set<string>()
+    const errorsById: Record<string, string[]> = {}
+    try {
+      for (let start = 0; start < ids.length; start += COMMIT_BATCH_SIZE) {
+        const batch = ids.slice(start, start + COMMIT_BATCH_SIZE)
+        const response = await fetch(`/api/receipt-inbox/commit?tenant=${subdomain}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ids: batch }),
+        })
+        const data = await response.json()
+        if (!response.ok && !data.itemErrors) {
+          throw new Error(data.details?.join(', ') || data.error || 'Failed to create expenses')
+        }
+        for (const { id, errors } of (data.itemErrors ?? []) as { id: string; errors: string[] }[]) {
+          errorsById[id] = errors
+        }
+        for (const id of batch) {
+          if (!errorsById[id]) createdItemIds.add(id)
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setItems(prev => prev.filter(item => !createdItemIds.has(item.id)))
+      setSelected(new Set(Object.keys(errorsById)))
+      setItemErrors(errorsById)
+      if (createdItemIds.size > 0) {
+        setNotice(`Created ${createdItemIds.size} expense${createdItemIds.size !== 1 ? 's' : ''}`
+          + (Object.keys(errorsById).length > 0 ? ' — the rest need attention, see below' : ''))
+        refreshExpenses()
+      } else if (Object.keys(errorsById).length > 0) {
+        setError('These receipts need attention — see below')
+      }
+      setCommitting(false)
+    }
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+  if (!can('expenses:create') || !can('attachments:upload')) {
+    return (
+      <div className="page">
+        <div className="card">
+          <p style={{ margin: 0 }}>You don't have permission to add expenses from receipts.</p>
+        </div>
+      </div>
+    )
+  }
+
+  const queuedCount = items.filter(item => item.status === 'queued').length
+  const readyItems = items.filter(item => item.status !== 'queued')
+  const selectedItems = readyItems.filter(item => selected.has(item.id))
+  const pausedMinutes = pausedUntil ? Math.max(1, Math.ceil((pausedUntil - Date.now()) / 60000)) : 0
+
+  return (
+    <div className="page import-page receipt-inbox">
+      <div className="import-page__nav">
+        <Link href="/expenses" className="back-link">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <polyline points="15 18 9 12 15 6" />
+          </svg>
+          Expenses
+        </Link>
+      </div>
+
+      <h1 className="page__title">Receipt Inbox</h1>
+      <p className="import-page__description">
+        Drop in a stack of receipts. Each one is scanned into a draft expense you
+        can check and correct, then create them all at once.
+        {inboundAddress && (
+          <> You can also forward receipts to <strong className="receipt-inbox__address">{inboundAddress}</strong>.</>
+        )}
+      </p>
+
+      {/* Upload */}
+      <div
+        className={`card receipt-inbox__dropzone ${dragActive ? 'receipt-inbox__dropzone--active' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragActive(true)
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+      >
+        <p className="receipt-inbox__dropzone-text">Drag receipts here, or</p>
+        <label className="btn btn--primary import-page__file-btn">
+          Choose files
+          <input
+            type="file"
+            accept={ALLOWED_FILE_ACCEPT}
+            multiple
+            onChange={(e) => {
+              handleFiles(e.target.files)
+              e.target.value = ''
+            }}
+            disabled={uploadProgress !== null}
+            hidden
+          />
+        </label>
+        <span className="form-hint">JPEG, PNG, HEIC, WebP or PDF, up to 10MB each.</span>
+        {uploadProgress && (
+          <p className="import-page__file-name">
+            Uploading {Math.min(uploadProgress.done + 1, uploadProgress.total)} of {uploadProgress.total}...
+          </p>
+        )}
+      </div>
+
+      {uploadErrors.length > 0 && (
+        <div className="form-error">
+          {uploadErrors.map(message => <div key={message}>{message}</div>)}
+        </div>
+      )}
+      {error && <div className="form-error">{error}</div>}
+      {notice && <p className="receipt-inbox__notice">{notice}</p>}
+      {loading && <p style={{ color: 'var(--color-text-secondary)' }}>Loading receipts...</p>}
+
+      {!loading && items.length === 0 && !uploadProgress && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-xl)' }}>
+          <p className="empty-state__icon">📥</p>
+          <p style={{ color: 'var(--color-text-secondary)' }}>Your inbox is empty.</p>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <div className="import-page__summary">
+            <span>{items.length} receipt{items.length !== 1 ? 's' : ''}</span>
+            {queuedCount > 0 && (
+              <>
+                <span className="categories-page__dot">·</span>
+                <span>
+                  {pausedUntil
+                    ? `Scanning paused — limit reached, resuming in ${pausedMinutes} minute${pausedMinutes !== 1 ? 's' : ''}`
+                    : `${queuedCount} waiting to scan`}
+                </span>
+              </>
+            )}
+          </div>
+
+          <div className="import-page__bulk">
+            <button className="add-link" onClick={() => setSelected(new Set(readyItems.map(item => item.id)))}>Select all</button>
+            <button className="add-link" onClick={() => setSelected(new Set())}>Select none</button>
+          </div>
+
+          <div className="import-table">
+            {items.map(item => {
+              const currency = item.currency ?? baseCurrency
+              const isQueued = item.status === 'queued'
+              return (
+                <div
+                  key={item.id}
+                  className={`import-row ${selected.has(item.id) ? '' : 'import-row--excluded'} ${itemErrors[item.id] ? 'import-row--error' : ''}`}
+                >
+                  <input
+                    type="checkbox"
+                    className="import-row__check"
+                    checked={selected.has(item.id)}
+                    onChange={(e) => toggleSelected(item.id, e.target.checked)}
+                    disabled={isQueued}
+                    aria-label={`Create expense from ${item.fileName}`}
+                  />
+                  <a href={item.blobUrl} target="_blank" rel="noopener noreferrer" className="receipt-inbox__thumb">
+                    {item.fileType.startsWith('image/')
+                      ? <img src={item.blobUrl} alt={item.fileName} />
+                      : <span>PDF</span>}
+                  </a>
+                  <div className="import-row__main">
+                    <div className="import-row__top">
+                      <span className="import-row__vendor">{item.vendor || item.fileName}</span>
+                      {item.amount !== null && (
+                        <span className="import-row__amount">{formatMoney(item.amount, currency)}</span>
+                      )}
+                    </div>
+                    <div className="import-row__meta">
+                      {item.source === 'email' && <span>Emailed by {item.emailFrom}</span>}
+                      {isQueued && <span>{scanningId === item.id ? 'Scanning...' : 'Waiting to scan'}</span>}
+                      {item.status === 'failed' && (
+                        <>
+                          <span className="import-row__badge import-row__badge--duplicate">{item.scanError || 'Scan failed'}</span>
+                          <button className="add-link" onClick={() => replaceItem({ ...item, status: 'queued', scanError: null })}>
+                            Retry scan
+                          </button>
+                        </>
+                      )}
+                      {item.reviewNeeded && (
+                        <span className="import-row__badge import-row__badge--possible">Check details</span>
+                      )}
+                    </div>
+
+                    {!isQueued && (
+                      <div className="receipt-inbox__fields">
+                        <input
+                          key={`vendor-${item.vendor}`}
+                          type="text"
+                          className="form-input"
+                          placeholder="Vendor"
+                          defaultValue={item.vendor ?? ''}
+                          maxLength={255}
+                          onBlur={(e) => {
+                            if (e.target.value.trim() !== (item.vendor ?? '')) handleEdit(item, { vendor: e.target.value })
+                          }}
+                          aria-label="Vendor"
+                        />
+                        <input
+                          key={`date-${item.date}`}
+                          type="date"
+                          className="form-input"
+                          defaultValue={item.date?.slice(0, 10) ?? ''}
+                          onChange={(e) => handleEdit(item, { date: e.target.value || null })}
+                          aria-label="Date"
+                        />
+                        <input
+                          key={`amount-${item.amount}`}
+                          type="text"
+                          inputMode="decimal"
+                          className="form-input"
+                          placeholder="Amount"
+                          defaultValue={item.amount !== null ? fromMinorUnits(item.amount, currency) : ''}
+                          onBlur={(e) => handleAmountBlur(item, e.target.value)}
+                          aria-label="Amount"
+                        />
+                        <select
+                          className="form-input form-select import-row__category"
+                          value={item.categoryId ?? ''}
+                          onChange={(e) => handleEdit(item, { categoryId: e.target.value || null })}
+                          aria-label="Category"
+                        >
+                          <option value="">Choose category…</option>
+                          {categories.map(c => (
+                            <option key={c.id} value={c.id}>{c.emoji} {c.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {itemErrors[item.id] && (
+                      <p className="import-row__error">{itemErrors[item.id].join(', ')}</p>
+                    )}
+                    <button className="add-link receipt-inbox__remove" onClick={() => handleRemove(item)} disabled={scanningId === item.id}>
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          <button
+            className="btn btn--primary btn--full import-page__commit"
+            onClick={handleCommit}
+            disabled={committing || selectedItems.length === 0}
+          >
+            {committing
+              ? 'Creating...'
+              : `Create ${selectedItems.length} expense${selectedItems.length !== 1 ? 's' : ''}`}
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
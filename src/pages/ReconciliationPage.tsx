@@ -0,0 +1,299 @@
+import { useState, useEffect } from 'react'
+import { useYear } from '../hooks/useYear'
+import { useTenant } from '../hooks/useTenant'
+import { useSettings } from '../hooks/useSettings'
+import { Link } from 'wouter'
+import { formatDateShort } from '../utils/date-utils'
+import { formatMoney } from '../utils/currency'
+import { IncludePendingToggle } from '../components/IncludePendingToggle'
+
+interface Transaction {
+  expenseId: string
+  date: string
+  amount: number
+  vendor: string | null
+  categoryName: string | null
+  categoryEmoji: string | null
+  importReference: string | null
+}
+
+interface Receipt {
+  expenseId: string
+  date: string
+  amount: number
+  vendor: string | null
+  fromScan: boolean
+  receiptCount: number
+}
+
+interface Match {
+  transaction: Transaction
+  receipt: Receipt
+  how: 'attached' | 'matched'
+  amountDifference: number
+  dayDifference: number
+}
+
+interface ReconciliationData {
+  year: number
+  matches: Match[]
+  unmatchedReceipts: Receipt[]
+  unmatchedTransactions: Transaction[]
+  summary: {
+    matched: number
+    unmatchedReceipts: number
+    unmatchedTransactions: number
+    unmatchedTransactionTotal: number
+  }
+}
+
+type Tab = 'missing' | 'receipts' | 'matched'
+
+export default function ReconciliationPage() {
+  const { year, nextYear, prevYear } = useYear()
+  const { subdomain, tenant } = useTenant()
+  const { includePending } = useSettings()
+  const currency = tenant?.baseCurrency
+  const [data, setData] = useState<ReconciliationData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [tab, setTab] = useState<Tab>('missing')
+  const [exporting, setExporting] = useState(false)
+
+  const currentYear = new Date().getFullYear()
+
+  useEffect(() => {
+    if (!subdomain) return
+
+    async function fetchData() {
+      setLoading(true)
+      setError(null)
+      try {
+        const params = new URLSearchParams({
+          tenant: subdomain!,
+          year: year.toString(),
+        })
+        if (includePending) params.set('includePending', 'true')
+        const response = await fetch(`/api/reports/reconciliation?${params}`)
+        if (!response.ok) throw new Error('Failed to fetch reconciliation')
+        const result = await response.json()
+        setData(result)
+      } catch (err) {
+        console.error('Reconciliation report error:', err)
+        setError('Failed to load reconciliation')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [subdomain, year, includePending])
+
+  async function handleCsvExport() {
+    if (!subdomain) return
+
+    setExporting(true)
+    try {
+      const params = new URLSearchParams({ tenant: subdomain, year: String(year) })
+      if (includePending) params.set('includePending', 'true')
+      const response = await fetch(`/api/exports/reconciliation?${params}`)
+      if (!response.ok) throw new Error('Export failed')
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `reconciliation_${year}.csv`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      window.URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Export error:', err)
+      alert('Failed to export. Please try again.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const hasAnyData = data && (data.matches.length + data.unmatchedReceipts.length + data.unmatchedTransactions.length) > 0
+
+  return (
+    <div className="page reconciliation-page">
+      <div className="reconciliation-page__nav">
+        <Link href="/reports" className="back-link">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <polyline points="15 18 9 12 15 6" />
+          </svg>
+          Reports
+        </Link>
+      </div>
+
+      <div className="reconciliation-page__header">
+        <h1 className="reconciliation-page__title">Reconciliation</h1>
+        <div className="reconciliation-page__year-selector">
+          <button
+            className="year-nav-btn"
+            onClick={prevYear}
+            disabled={year <= 2020}
+            aria-label="Previous year"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="15 18 9 12 15 6" />
+            </svg>
+          </button>
+          <span className="reconciliation-page__year">{year}</span>
+          <button
+            className="year-nav-btn"
+            onClick={nextYear}
+            disabled={year >= currentYear}
+            aria-label="Next year"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="9 18 15 12 9 6" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <p className="reconciliation-page__description">
+        Imported bank and card transactions for {year} checked against your saved receipts.
+      </p>
+
+      <IncludePendingToggle />
+
+      {loading && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-text-secondary)' }}>Loading reconciliation...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-error)' }}>{error}</p>
+        </div>
+      )}
+
+      {!loading && !error && data && (
+        !hasAnyData ? (
+          <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+            <p className="empty-state__icon">🏦</p>
+            <p style={{ color: 'var(--color-text-secondary)' }}>
+              Nothing to reconcile for {year}. <Link href="/expenses/import">Import a statement</Link> to get started.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="reconciliation-summary">
+              <button
+                className={`reconciliation-summary__stat ${tab === 'missing' ? 'reconciliation-summary__stat--active' : ''}`}
+                onClick={() => setTab('missing')}
+              >
+                <span className="reconciliation-summary__value reconciliation-summary__value--warn">{data.summary.unmatchedTransactions}</span>
+                <span className="reconciliation-summary__label">Missing receipts</span>
+              </button>
+              <button
+                className={`reconciliation-summary__stat ${tab === 'receipts' ? 'reconciliation-summary__stat--active' : ''}`}
+                onClick={() => setTab('receipts')}
+              >
+                <span className="reconciliation-summary__value">{data.summary.unmatchedReceipts}</span>
+                <span className="reconciliation-summary__label">Receipts without a transaction</span>
+              </button>
+              <button
+                className={`reconciliation-summary__stat ${tab === 'matched' ? 'reconciliation-summary__stat--active' : ''}`}
+                onClick={() => setTab('matched')}
+              >
+                <span className="reconciliation-summary__value reconciliation-summary__value--ok">{data.summary.matched}</span>
+                <span className="reconciliation-summary__label">Matched</span>
+              </button>
+            </div>
+
+            {/* Missing receipts */}
+            {tab === 'missing' && (
+              <div className="card reconciliation-list">
+                {data.unmatchedTransactions.length === 0 ? (
+                  <p className="reconciliation-list__empty">Every imported transaction has a receipt. 🎉</p>
+                ) : (
+                  <>
+                    <p className="reconciliation-list__total">
+                      {formatMoney(data.summary.unmatchedTransactionTotal, currency)} in transactions without a receipt
+                    </p>
+                    {data.unmatchedTransactions.map(t => (
+                      <div key={t.expenseId} className="reconciliation-row">
+                        <span className="reconciliation-row__emoji">{t.categoryEmoji || '📁'}</span>
+                        <div className="reconciliation-row__main">
+                          <span className="reconciliation-row__vendor">{t.vendor || 'Unknown vendor'}</span>
+                          <span className="reconciliation-row__meta">
+                            {formatDateShort(t.date)}{t.categoryName && ` · ${t.categoryName}`}
+                          </span>
+                        </div>
+                        <span className="reconciliation-row__amount">{formatMoney(t.amount, currency)}</span>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Receipts with no bank transaction */}
+            {tab === 'receipts' && (
+              <div className="card reconciliation-list">
+                {data.unmatchedReceipts.length === 0 ? (
+                  <p className="reconciliation-list__empty">Every receipt lines up with a bank transaction.</p>
+                ) : (
+                  data.unmatchedReceipts.map(r => (
+                    <div key={r.expenseId} className="reconciliation-row">
+                      <span className="reconciliation-row__emoji">🧾</span>
+                      <div className="reconciliation-row__main">
+                        <span className="reconciliation-row__vendor">{r.vendor || 'Unknown vendor'}</span>
+                        <span className="reconciliation-row__meta">
+                          {formatDateShort(r.date)}
+                          {r.receiptCount > 1 && ` · ${r.receiptCount} files`}
+                          {!r.fromScan && ' · not scanned'}
+                        </span>
+                      </div>
+                      <span className="reconciliation-row__amount">{formatMoney(r.amount, currency)}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            {/* Matched pairs */}
+            {tab === 'matched' && (
+              <div className="card reconciliation-list">
+                {data.matches.length === 0 ? (
+                  <p className="reconciliation-list__empty">No receipts matched yet.</p>
+                ) : (
+                  data.matches.map(m => (
+                    <div key={m.transaction.expenseId} className="reconciliation-row">
+                      <span className="reconciliation-row__emoji">{m.how === 'attached' ? '📎' : '🔗'}</span>
+                      <div className="reconciliation-row__main">
+                        <span className="reconciliation-row__vendor">{m.transaction.vendor || 'Unknown vendor'}</span>
+                        <span className="reconciliation-row__meta">
+                          {formatDateShort(m.transaction.date)}
+                          {m.how === 'matched' && ` · receipt: ${m.receipt.vendor || 'unknown'}, ${formatDateShort(m.receipt.date)}`}
+                          {m.amountDifference !== 0 && ` · ${formatMoney(m.amountDifference, currency)} over receipt`}
+                        </span>
+                      </div>
+                      <span className="reconciliation-row__amount">{formatMoney(m.transaction.amount, currency)}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            <button
+              className="btn btn--primary btn--full reconciliation-page__export"
+              onClick={handleCsvExport}
+              disabled={exporting}
+            >
+              {exporting ? 'Exporting...' : 'Download CSV for auditor'}
+            </button>
+          </>
+        )
+      )}
+    </div>
+  )
+}
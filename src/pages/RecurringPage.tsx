@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react'
+import { useTenant } from '../hooks/useTenant'
+import { useRefresh } from '../hooks/useRefresh'
+import { usePermissions } from '../hooks/usePermissions'
+import { RecurringSheet, type RecurringExpense } from '../components/RecurringSheet'
+import { formatDateShort } from '../utils/date-utils'
+import { formatMoney } from '../utils/currency'
+
+interface RecurringSummary {
+  activeCount: number
+  monthlyTotal: number
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+}
+
+export default function RecurringPage() {
+  const { subdomain, tenant } = useTenant()
+  const currency = tenant?.baseCurrency
+  const { refreshExpenses } = useRefresh()
+  const { can } = usePermissions()
+  const canManage = can('recurring:manage')
+
+  // Data state
+  const [templates, setTemplates] = useState<RecurringExpense[]>([])
+  const [summary, setSummary] = useState<RecurringSummary>({ activeCount: 0, monthlyTotal: 0 })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [recurringKey, setRecurringKey] = useState(0)
+
+  // Sheet state
+  const [sheetOpen, setSheetOpen] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<RecurringExpense | null>(null)
+
+  // Delete confirmation state
+  const [deletingTemplate, setDeletingTemplate] = useState<RecurringExpense | null>(null)
+  const [deleteSubmitting, setDeleteSubmitting] = useState(false)
+
+  // ============================================
+  // FETCH TEMPLATES
+  // ============================================
+  useEffect(() => {
+    async function fetchTemplates() {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/recurring?tenant=${subdomain}`)
+        if (!response.ok) {
+          const err = await response.json()
+          throw new Error(err.error || 'Failed to fetch recurring expenses')
+        }
+
+        const result = await response.json()
+        setTemplates(result.recurringExpenses)
+        setSummary(result.summary)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTemplates()
+  }, [subdomain, recurringKey])
+
+  // ============================================
+  // HELPERS
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  function handleAdd() {
+    setEditingTemplate(null)
+    setSheetOpen(true)
+  }
+
+  function handleEdit(template: RecurringExpense) {
+    setEditingTemplate(template)
+    setSheetOpen(true)
+  }
+
+  function handleSheetSuccess() {
+    setRecurringKey(k => k + 1)
+  }
+
+  function handleDeleteClick(e: React.MouseEvent, template: RecurringExpense) {
+    e.stopPropagation()
+    setDeletingTemplate(template)
+  }
+
+  async function handleDeleteConfirm() {
+    if (!deletingTemplate) return
+
+    try {
+      setDeleteSubmitting(true)
+
+      const response = await fetch(
+        `/api/recurring/${deletingTemplate.id}?tenant=${subdomain}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete recurring expense')
+      }
+
+      setDeletingTemplate(null)
+      setRecurringKey(k => k + 1)
+      refreshExpenses()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setDeleteSubmitting(false)
+    }
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+  if (loading) {
+    return (
+      <div className="page">
+        <p style={{ color: 'var(--color-text-secondary)' }}>Loading recurring expenses...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="page">
+        <div className="card" style={{ borderLeft: '4px solid var(--color-error)' }}>
+          <h2 style={{ margin: 0, color: 'var(--color-error)' }}>Error</h2>
+          <p style={{ marginBottom: 0 }}>{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="page recurring-page">
+      <div className="categories-page__header">
+        <h1 className="page__title">Recurring</h1>
+        {canManage && templates.length > 0 && (
+          <button className="btn btn--primary btn--sm" onClick={handleAdd}>
+            + Add
+          </button>
+        )}
+      </div>
+
+      {templates.length === 0 ? (
+        /* Empty State */
+        <div className="empty-state">
+          <div className="empty-state__icon">🔁</div>
+          <h2 className="empty-state__title">No recurring expenses yet</h2>
+          <p className="empty-state__description">
+            Set up subscriptions, rent, and other regular bills once and
+            they'll be added to your expenses automatically on schedule.
+          </p>
+          {canManage && (
+            <button className="empty-state__btn" onClick={handleAdd}>
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M12 5v14M5 12h14" />
+              </svg>
+              Add Recurring Expense
+            </button>
+          )}
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="categories-page__summary">
+            <span>{summary.activeCount} active</span>
+            <span className="categories-page__dot">·</span>
+            <span>≈ {formatMoney(summary.monthlyTotal, currency)} / month</span>
+          </div>
+
+          <div className="category-grid">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className={`category-card ${canManage ? 'category-card--clickable' : ''} ${!template.isActive ? 'recurring-card--paused' : ''}`}
+                onClick={() => canManage && handleEdit(template)}
+                role={canManage ? 'button' : undefined}
+                tabIndex={canManage ? 0 : undefined}
+                onKeyDown={(e) => {
+                  if (canManage && (e.key === 'Enter' || e.key === ' ')) {
+                    e.preventDefault()
+                    handleEdit(template)
+                  }
+                }}
+              >
+                <div className="category-card__header">
+                  <span className="category-card__emoji">{template.categoryEmoji || '📁'}</span>
+                  <span className="category-card__name">{template.vendor}</span>
+                  <span className="category-card__type-label">
+                    {template.isActive ? FREQUENCY_LABELS[template.frequency] || template.frequency : 'Paused'}
+                  </span>
+                  {canManage && (
+                    <div className="category-card__actions">
+                      <button
+                        className="category-card__action-btn category-card__action-btn--danger"
+                        onClick={(e) => handleDeleteClick(e, template)}
+                        aria-label={`Delete ${template.vendor}`}
+                        title="Delete"
+                      >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <polyline points="3 6 5 6 21 6" />
+                          <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                        </svg>
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="category-card__stats">
+                  <div className="category-card__total">{formatMoney(template.amount, currency)}</div>
+                  <div className="category-card__count">
+                    {template.generatedCount > 0
+                      ? `${template.generatedCount} created`
+                      : 'None created yet'}
+                  </div>
+                </div>
+                <div className="recurring-card__meta">
+                  <span>{template.categoryName || 'Uncategorized'}</span>
+                  {template.isActive && template.nextGenerationAt && (
+                    <span>Next: {formatDateShort(template.nextGenerationAt)}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* ============================================
+         DELETE CONFIRMATION MODAL
+         ============================================ */}
+      {deletingTemplate && (
+        <>
+          <div className="sheet-backdrop sheet-backdrop--open" onClick={() => setDeletingTemplate(null)} />
+          <div className="delete-modal">
+            <h3 className="delete-modal__title">Delete "{deletingTemplate.vendor}"?</h3>
+            <p className="delete-modal__body">
+              No more expenses will be created from this template.
+              {deletingTemplate.generatedCount > 0 && (
+                <> The {deletingTemplate.generatedCount} expense{deletingTemplate.generatedCount !== 1 ? 's' : ''} it already created will be kept.</>
+              )}
+            </p>
+            <div className="delete-modal__actions">
+              <button
+                className="btn btn--secondary"
+                onClick={() => setDeletingTemplate(null)}
+                disabled={deleteSubmitting}
+              >
+                Cancel
+              </button>
+              <button
+                className="btn btn--danger"
+                onClick={handleDeleteConfirm}
+                disabled={deleteSubmitting}
+              >
+                {deleteSubmitting ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* ============================================
+         RECURRING SHEET (Add/Edit)
+         ============================================ */}
+      <RecurringSheet
+        isOpen={sheetOpen}
+        onClose={() => setSheetOpen(false)}
+        onSuccess={handleSheetSuccess}
+        editRecurring={editingTemplate}
+      />
+    </div>
+  )
+}
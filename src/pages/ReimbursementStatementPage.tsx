@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react'
+import { Link, useParams } from 'wouter'
+import { useTenant } from '../hooks/useTenant'
+import { formatMoney } from '../utils/currency'
+import { formatDateShort } from '../utils/date-utils'
+import { REIMBURSEMENT_STATUS_LABELS, isReimbursementStatus } from '../utils/reimbursements'
+
+interface Person {
+  id: string
+  email: string
+  firstName: string | null
+  lastName: string | null
+}
+
+interface StatementExpense {
+  id: string
+  date: string
+  vendor: string | null
+  description: string | null
+  amount: number // base currency
+  currency: string
+  originalAmount: number | null // as paid, when not in the base currency
+  categoryName: string | null
+  categoryEmoji: string | null
+}
+
+interface Statement {
+  reimbursement: {
+    id: string
+    status: string
+    total: number
+    currency: string
+    approvedAt: string | null
+    paidAt: string | null
+    paymentReference: string | null
+    createdAt: string
+    payee: Person | null
+    approver: Person | null
+    payer: Person | null
+    expenses: StatementExpense[]
+  }
+  business: { name: string | null; logoUrl: string | null }
+}
+
+const personName = (p: Person | null) =>
+  p ? [p.firstName, p.lastName].filter(Boolean).join(' ') || p.email : 'Unknown'
+
+/**
+ * Printable statement for one reimbursement batch. The print stylesheet
+ * drops the app chrome so the browser's "Save as PDF" gives a clean page.
+ */
+export default function ReimbursementStatementPage() {
+  const { id } = useParams<{ id: string }>()
+  const { subdomain } = useTenant()
+  const [data, setData] = useState<Statement | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!subdomain || !id) return
+
+    async function fetchData() {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/reimbursements/${id}?tenant=${subdomain}`)
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Reimbursement not found' : 'Failed to load statement')
+        }
+        setData(await response.json())
+      } catch (err) {
+        console.error('Reimbursement statement error:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load statement')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [subdomain, id])
+
+  const batch = data?.reimbursement
+  const status = batch && isReimbursementStatus(batch.status) ? batch.status : 'draft'
+
+  return (
+    <div className="page reimbursement-statement">
+      <div className="reimbursement-statement__actions">
+        <Link href="/reimbursements" className="back-link">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <polyline points="15 18 9 12 15 6" />
+          </svg>
+          Reimbursements
+        </Link>
+        {batch && (
+          <button className="btn btn--secondary btn--sm" onClick={() => window.print()}>
+            Print
+          </button>
+        )}
+      </div>
+
+      {loading && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-text-secondary)' }}>Loading statement...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-error)' }}>{error}</p>
+        </div>
+      )}
+
+      {!loading && !error && data && batch && (
+        <div className="card reimbursement-statement__sheet">
+          <div className="reimbursement-statement__header">
+            <div>
+              {data.business.logoUrl && (
+                <img src={data.business.logoUrl} alt="" className="reimbursement-statement__logo" />
+              )}
+              <h1 className="reimbursement-statement__business">{data.business.name}</h1>
+              <p className="reimbursement-statement__title">Reimbursement Statement</p>
+            </div>
+            <span className={`reimbursement-status reimbursement-status--${status}`}>
+              {REIMBURSEMENT_STATUS_LABELS[status]}
+            </span>
+          </div>
+
+          <dl className="reimbursement-statement__facts">
+            <dt>Paid to</dt>
+            <dd>{personName(batch.payee)}{batch.payee?.firstName && ` (${batch.payee.email})`}</dd>
+            <dt>Prepared</dt>
+            <dd>{formatDateShort(batch.createdAt)}</dd>
+            {batch.approvedAt && (
+              <>
+                <dt>Approved</dt>
+                <dd>{formatDateShort(batch.approvedAt)} by {personName(batch.approver)}</dd>
+              </>
+            )}
+            {batch.paidAt && (
+              <>
+                <dt>Paid</dt>
+                <dd>{formatDateShort(batch.paidAt)} by {personName(batch.payer)}</dd>
+              </>
+            )}
+            {batch.paymentReference && (
+              <>
+                <dt>Reference</dt>
+                <dd>{batch.paymentReference}</dd>
+              </>
+            )}
+          </dl>
+
+          <div className="quarterly-table-wrapper">
+            <table className="quarterly-table">
+              <thead>
+                <tr>
+                  <th className="quarterly-table__category-header">Date</th>
+                  <th className="quarterly-table__category-header">Vendor</th>
+                  <th className="quarterly-table__category-header">Category</th>
+                  <th className="quarterly-table__category-header">Description</th>
+                  <th className="quarterly-table__total-header">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batch.expenses.map(expense => (
+                  <tr key={expense.id} className="quarterly-table__row">
+                    <td className="quarterly-table__category-cell">{formatDateShort(expense.date)}</td>
+                    <td className="quarterly-table__category-cell">{expense.vendor || '—'}</td>
+                    <td className="quarterly-table__category-cell">
+                      {expense.categoryName ? `${expense.categoryEmoji || '📁'} ${expense.categoryName}` : 'Uncategorized'}
+                    </td>
+                    <td className="quarterly-table__category-cell">{expense.description || ''}</td>
+                    <td className="quarterly-table__amount-cell">
+                      {formatMoney(expense.amount, batch.currency)}
+                      {expense.originalAmount != null && (
+                        <span className="reimbursement-statement__original">
+                          {formatMoney(expense.originalAmount, expense.currency)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="quarterly-table__totals-row">
+                  <td className="quarterly-table__category-cell quarterly-table__category-cell--total" colSpan={4}>
+                    TOTAL ({batch.expenses.length} {batch.expenses.length === 1 ? 'expense' : 'expenses'})
+                  </td>
+                  <td className="quarterly-table__amount-cell quarterly-table__amount-cell--grand-total">
+                    {formatMoney(batch.total, batch.currency)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <div className="reimbursement-statement__signatures">
+            <div className="reimbursement-statement__signature">Approved by</div>
+            <div className="reimbursement-statement__signature">Received by</div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
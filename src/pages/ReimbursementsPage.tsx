@@ -0,0 +1,293 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'wouter'
+import { useTenant } from '../hooks/useTenant'
+import { formatMoney } from '../utils/currency'
+import { formatDateShort } from '../utils/date-utils'
+import { ROLE_LABELS, toTenantRole } from '../utils/permissions'
+import { REIMBURSEMENT_STATUS_LABELS, isReimbursementStatus } from '../utils/reimbursements'
+
+interface Balance {
+  userId: string
+  email: string
+  firstName: string | null
+  lastName: string | null
+  role: string | null
+  outstandingAmount: number
+  outstandingCount: number
+  pendingAmount: number
+  pendingCount: number
+  balance: number
+}
+
+interface Reimbursement {
+  id: string
+  userId: string
+  email: string
+  firstName: string | null
+  lastName: string | null
+  status: string
+  total: number
+  currency: string
+  approvedAt: string | null
+  paidAt: string | null
+  paymentReference: string | null
+  createdAt: string
+}
+
+interface ReimbursementsData {
+  currency: string
+  canManage: boolean
+  balances: Balance[]
+  reimbursements: Reimbursement[]
+}
+
+const personName = (p: { firstName: string | null; lastName: string | null; email: string }) =>
+  [p.firstName, p.lastName].filter(Boolean).join(' ') || p.email
+
+export default function ReimbursementsPage() {
+  const { subdomain } = useTenant()
+  const [data, setData] = useState<ReimbursementsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  // Action state
+  const [busyId, setBusyId] = useState<string | null>(null) // user or batch being acted on
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [payingId, setPayingId] = useState<string | null>(null)
+  const [paymentReference, setPaymentReference] = useState('')
+
+  useEffect(() => {
+    if (!subdomain) return
+
+    async function fetchData() {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/reimbursements?tenant=${subdomain}`)
+        if (!response.ok) throw new Error('Failed to fetch reimbursements')
+        setData(await response.json())
+      } catch (err) {
+        console.error('Reimbursements error:', err)
+        setError('Failed to load reimbursements')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [subdomain, reloadKey])
+
+  const money = (minor: number, currency = data?.currency) => formatMoney(minor, currency)
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  async function runAction(id: string, request: () => Promise<Response>) {
+    try {
+      setBusyId(id)
+      setActionError(null)
+      const response = await request()
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.details?.join(', ') || result.error || 'Something went wrong')
+      }
+      setPayingId(null)
+      setPaymentReference('')
+      setReloadKey(k => k + 1)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  function handleCreate(balance: Balance) {
+    return runAction(balance.userId, () => fetch(`/api/reimbursements?tenant=${subdomain}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId: balance.userId }),
+    }))
+  }
+
+  function handleStatus(batch: Reimbursement, status: 'approved' | 'paid') {
+    return runAction(batch.id, () => fetch(`/api/reimbursements/${batch.id}?tenant=${subdomain}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(status === 'paid'
+        ? { status, paymentReference: paymentReference.trim() || null }
+        : { status }),
+    }))
+  }
+
+  function handleDelete(batch: Reimbursement) {
+    return runAction(batch.id, () => fetch(`/api/reimbursements/${batch.id}?tenant=${subdomain}`, {
+      method: 'DELETE',
+    }))
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+  return (
+    <div className="page reimbursements-page">
+      <div className="reimbursements-page__header">
+        <h1 className="reimbursements-page__title">Reimbursements</h1>
+      </div>
+
+      <p className="reimbursements-page__description">
+        {data && !data.canManage
+          ? 'What the business owes you for expenses you paid out of pocket.'
+          : 'Pay the team back for expenses they covered out of pocket: batch what each person is owed, approve it, then mark it paid.'}
+      </p>
+
+      {loading && !data && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-text-secondary)' }}>Loading reimbursements...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-error)' }}>{error}</p>
+        </div>
+      )}
+
+      {actionError && <div className="form-error">{actionError}</div>}
+
+      {!error && data && (
+        <>
+          {/* Balances */}
+          <h2 className="reimbursements-page__section-title">Balances</h2>
+          {data.balances.length === 0 ? (
+            <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-xl)' }}>
+              <p className="empty-state__icon">💸</p>
+              <p style={{ color: 'var(--color-text-secondary)' }}>
+                Nothing is owed. Tick "Paid Out of Pocket" when adding an expense to track it here.
+              </p>
+            </div>
+          ) : (
+            <div className="card">
+              {data.balances.map((balance, i) => (
+                <div key={balance.userId} className={`settings-row${i === data.balances.length - 1 ? ' settings-row--last' : ''}`}>
+                  <div className="settings-row__label">
+                    <span className="settings-row__title">
+                      {personName(balance)} · {money(balance.balance)}
+                    </span>
+                    <span className="settings-row__description">
+                      {balance.role ? ROLE_LABELS[toTenantRole(balance.role)] : 'No longer on the team'}
+                      {balance.outstandingCount > 0 && ` · ${money(balance.outstandingAmount)} outstanding (${balance.outstandingCount})`}
+                      {balance.pendingCount > 0 && ` · ${money(balance.pendingAmount)} in progress (${balance.pendingCount})`}
+                    </span>
+                  </div>
+                  {data.canManage && balance.outstandingCount > 0 && (
+                    <button
+                      className="btn btn--primary btn--sm"
+                      onClick={() => handleCreate(balance)}
+                      disabled={busyId !== null}
+                    >
+                      {busyId === balance.userId ? 'Creating...' : 'Create Reimbursement'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Batches */}
+          <h2 className="reimbursements-page__section-title">History</h2>
+          {data.reimbursements.length === 0 ? (
+            <p className="reimbursements-page__note">No reimbursements yet.</p>
+          ) : (
+            <div className="card">
+              {data.reimbursements.map((batch, i) => {
+                const status = isReimbursementStatus(batch.status) ? batch.status : 'draft'
+                return (
+                  <div key={batch.id} className={`settings-row${i === data.reimbursements.length - 1 ? ' settings-row--last' : ''}`}>
+                    <div className="settings-row__label">
+                      <span className="settings-row__title">
+                        {personName(batch)} · {money(batch.total, batch.currency)}
+                        {' '}
+                        <span className={`reimbursement-status reimbursement-status--${status}`}>
+                          {REIMBURSEMENT_STATUS_LABELS[status]}
+                        </span>
+                      </span>
+                      <span className="settings-row__description">
+                        Created {formatDateShort(batch.createdAt)}
+                        {batch.approvedAt && ` · Approved ${formatDateShort(batch.approvedAt)}`}
+                        {batch.paidAt && ` · Paid ${formatDateShort(batch.paidAt)}`}
+                        {batch.paymentReference && ` · Ref ${batch.paymentReference}`}
+                      </span>
+                      {payingId === batch.id && (
+                        <div className="reimbursements-page__pay-form">
+                          <input
+                            type="text"
+                            className="form-input"
+                            placeholder="Payment reference (check #, transfer ID)"
+                            value={paymentReference}
+                            onChange={(e) => setPaymentReference(e.target.value)}
+                            maxLength={255}
+                            disabled={busyId !== null}
+                          />
+                          <button
+                            className="btn btn--secondary btn--sm"
+                            onClick={() => setPayingId(null)}
+                            disabled={busyId !== null}
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            className="btn btn--primary btn--sm"
+                            onClick={() => handleStatus(batch, 'paid')}
+                            disabled={busyId !== null}
+                          >
+                            {busyId === batch.id ? 'Saving...' : 'Mark Paid'}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="saved-location__actions">
+                      <Link href={`/reimbursements/${batch.id}`} className="btn btn--secondary btn--sm">
+                        Statement
+                      </Link>
+                      {data.canManage && status === 'draft' && (
+                        <>
+                          <button
+                            className="btn btn--primary btn--sm"
+                            onClick={() => handleStatus(batch, 'approved')}
+                            disabled={busyId !== null}
+                          >
+                            Approve
+                          </button>
+                          <button
+                            className="btn btn--danger-outline btn--sm"
+                            onClick={() => handleDelete(batch)}
+                            disabled={busyId !== null}
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                      {data.canManage && status === 'approved' && payingId !== batch.id && (
+                        <button
+                          className="btn btn--primary btn--sm"
+                          onClick={() => {
+                            setPayingId(batch.id)
+                            setPaymentReference('')
+                          }}
+                          disabled={busyId !== null}
+                        >
+                          Mark Paid
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
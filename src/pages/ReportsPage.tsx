@@ -1,11 +1,14 @@
 import { useState, useEffect } from 'react'
 import { useYear } from '../hooks/useYear'
 import { useTenant } from '../hooks/useTenant'
+import { useSettings } from '../hooks/useSettings'
 import { Link } from 'wouter'
+import { IncludePendingToggle } from '../components/IncludePendingToggle'
 
 export default function ReportsPage() {
   const { year, nextYear, prevYear } = useYear()
   const { subdomain } = useTenant()
+  const { includePending } = useSettings()
   
   // Date range state - initialize based on current year
   const [startDate, setStartDate] = useState(`${year}-01-01`)
@@ -31,6 +34,7 @@ export default function ReportsPage() {
         startDate,
         endDate,
       })
+      if (includePending) params.set('includePending', 'true')
       
       const response = await fetch(`/api/exports/expenses?${params}`)
       
@@ -56,6 +60,76 @@ export default function ReportsPage() {
     }
   }
 
+  // Handle Excel workbook export (whole year, one sheet per report)
+  const handleWorkbookExport = async () => {
+    if (!subdomain) return
+
+    setExporting('xlsx')
+    try {
+      const params = new URLSearchParams({
+        tenant: subdomain,
+        year: String(year),
+      })
+      if (includePending) params.set('includePending', 'true')
+
+      const response = await fetch(`/api/exports/workbook?${params}`)
+
+      if (!response.ok) {
+        throw new Error('Export failed')
+      }
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `expenses_${year}.xlsx`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Export error:', error)
+      alert('Failed to export. Please try again.')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  // Handle tax packet PDF (generated server-side, downloaded from blob storage)
+  const handleTaxPacketExport = async () => {
+    if (!subdomain) return
+
+    setExporting('pdf')
+    try {
+      const params = new URLSearchParams({
+        tenant: subdomain,
+        year: String(year),
+      })
+      if (includePending) params.set('includePending', 'true')
+
+      const response = await fetch(`/api/exports/tax-packet?${params}`, { method: 'POST' })
+
+      if (!response.ok) {
+        throw new Error('Export failed')
+      }
+
+      const { url, fileName } = await response.json()
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      a.target = '_blank'
+      a.rel = 'noopener'
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+    } catch (error) {
+      console.error('Export error:', error)
+      alert('Failed to generate the tax packet. Please try again.')
+    } finally {
+      setExporting(null)
+    }
+  }
+
   // Quick date range presets
   const setPreset = (preset: 'ytd' | 'year' | 'q1' | 'q2' | 'q3' | 'q4' | 'last30' | 'last90') => {
     const now = new Date()
@@ -143,6 +217,20 @@ export default function ReportsPage() {
       available: true,
       href: '/reports/tax',
     },
+    {
+      icon: '🧮',
+      title: 'Sales Tax / VAT',
+      description: 'Input tax paid on expenses by quarter and rate, for sales-tax or VAT returns',
+      available: true,
+      href: '/reports/sales-tax',
+    },
+    {
+      icon: '🏦',
+      title: 'Reconciliation',
+      description: 'Imported bank transactions matched to receipts, with what is missing on either side',
+      available: true,
+      href: '/reports/reconciliation',
+    },
   ]
 
   return (
@@ -155,6 +243,8 @@ export default function ReportsPage() {
         Generate reports and export your expense data.
       </p>
 
+      <IncludePendingToggle />
+
       {/* Date Range Selector */}
       <div className="card date-range-card">
         <div className="date-range-card__header">
@@ -237,6 +327,42 @@ export default function ReportsPage() {
         </button>
       </div>
 
+      {/* Excel Workbook Export */}
+      <div className="card export-card">
+        <div className="export-card__icon">📗</div>
+        <div className="export-card__content">
+          <h3 className="export-card__title">Excel Workbook</h3>
+          <p className="export-card__description">
+            Full {year} ledger, tax summary, quarterly breakdown, sales tax and mileage log in one .xlsx file for your accountant
+          </p>
+        </div>
+        <button
+          className="btn btn--primary"
+          onClick={handleWorkbookExport}
+          disabled={exporting === 'xlsx'}
+        >
+          {exporting === 'xlsx' ? 'Exporting...' : 'Download Excel'}
+        </button>
+      </div>
+
+      {/* Tax Packet PDF */}
+      <div className="card export-card">
+        <div className="export-card__icon">🧾</div>
+        <div className="export-card__content">
+          <h3 className="export-card__title">Tax Packet (PDF)</h3>
+          <p className="export-card__description">
+            {year} tax summary, mileage log, home office calculation and receipts in one branded PDF
+          </p>
+        </div>
+        <button
+          className="btn btn--primary"
+          onClick={handleTaxPacketExport}
+          disabled={exporting === 'pdf'}
+        >
+          {exporting === 'pdf' ? 'Generating...' : 'Download PDF'}
+        </button>
+      </div>
+
       {/* Other Report Types */}
       <h2 className="reports-page__section-title">More Reports</h2>
       <div className="report-grid">
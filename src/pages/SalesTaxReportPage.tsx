@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react'
+import { useYear } from '../hooks/useYear'
+import { useTenant } from '../hooks/useTenant'
+import { useSettings } from '../hooks/useSettings'
+import { Link } from 'wouter'
+import { formatMoney } from '../utils/currency'
+import { IncludePendingToggle } from '../components/IncludePendingToggle'
+
+interface SalesTaxTotals {
+  grossAmount: number
+  netAmount: number
+  taxAmount: number
+  count: number
+}
+
+interface SalesTaxData {
+  year: number
+  currency: string
+  quarters: Array<SalesTaxTotals & { quarter: number; label: string }>
+  rates: Array<SalesTaxTotals & { rate: number }>
+  totals: SalesTaxTotals
+  untaxedCount: number
+}
+
+export default function SalesTaxReportPage() {
+  const { year, nextYear, prevYear } = useYear()
+  const { subdomain } = useTenant()
+  const { includePending } = useSettings()
+  const [data, setData] = useState<SalesTaxData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const currentYear = new Date().getFullYear()
+
+  useEffect(() => {
+    if (!subdomain) return
+
+    async function fetchData() {
+      setLoading(true)
+      setError(null)
+      try {
+        const params = new URLSearchParams({
+          tenant: subdomain!,
+          year: year.toString(),
+        })
+        if (includePending) params.set('includePending', 'true')
+        const response = await fetch(`/api/reports/sales-tax?${params}`)
+        if (!response.ok) throw new Error('Failed to fetch sales tax data')
+        const result = await response.json()
+        setData(result)
+      } catch (err) {
+        console.error('Sales tax report error:', err)
+        setError('Failed to load sales tax report')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [subdomain, year, includePending])
+
+  const money = (minor: number) => formatMoney(minor, data?.currency)
+
+  return (
+    <div className="page sales-tax-page">
+      <div className="sales-tax-page__nav">
+        <Link href="/reports" className="back-link">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <polyline points="15 18 9 12 15 6" />
+          </svg>
+          Reports
+        </Link>
+      </div>
+
+      <div className="sales-tax-page__header">
+        <h1 className="sales-tax-page__title">Sales Tax / VAT</h1>
+        <div className="sales-tax-page__year-selector">
+          <button
+            className="year-nav-btn"
+            onClick={prevYear}
+            disabled={year <= 2020}
+            aria-label="Previous year"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="15 18 9 12 15 6" />
+            </svg>
+          </button>
+          <span className="sales-tax-page__year">{year}</span>
+          <button
+            className="year-nav-btn"
+            onClick={nextYear}
+            disabled={year >= currentYear}
+            aria-label="Next year"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="9 18 15 12 9 6" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <p className="sales-tax-page__description">
+        Input tax paid on {year} expenses, by quarter, for your sales-tax or VAT returns.
+      </p>
+
+      <IncludePendingToggle />
+
+      {loading && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-text-secondary)' }}>Loading sales tax...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+          <p style={{ color: 'var(--color-error)' }}>{error}</p>
+        </div>
+      )}
+
+      {!loading && !error && data && (
+        data.totals.count === 0 ? (
+          <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
+            <p className="empty-state__icon">🧾</p>
+            <p style={{ color: 'var(--color-text-secondary)' }}>
+              No expenses with sales tax recorded for {year}. Add the tax when entering an expense, or scan the receipt.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* By quarter */}
+            <div className="quarterly-table-wrapper">
+              <table className="quarterly-table">
+                <thead>
+                  <tr>
+                    <th className="quarterly-table__category-header quarterly-table__sticky-col">Quarter</th>
+                    <th className="quarterly-table__quarter-header">Expenses</th>
+                    <th className="quarterly-table__quarter-header">Gross</th>
+                    <th className="quarterly-table__quarter-header">Net</th>
+                    <th className="quarterly-table__total-header">Input Tax</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.quarters.map((q) => (
+                    <tr key={q.quarter} className="quarterly-table__row">
+                      <td className="quarterly-table__category-cell quarterly-table__sticky-col">{q.label}</td>
+                      <td className="quarterly-table__amount-cell">{q.count}</td>
+                      <td className="quarterly-table__amount-cell">{q.count === 0 ? '—' : money(q.grossAmount)}</td>
+                      <td className="quarterly-table__amount-cell">{q.count === 0 ? '—' : money(q.netAmount)}</td>
+                      <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">
+                        {q.count === 0 ? '—' : money(q.taxAmount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="quarterly-table__totals-row">
+                    <td className="quarterly-table__category-cell quarterly-table__category-cell--total quarterly-table__sticky-col">TOTAL</td>
+                    <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">{data.totals.count}</td>
+                    <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">{money(data.totals.grossAmount)}</td>
+                    <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">{money(data.totals.netAmount)}</td>
+                    <td className="quarterly-table__amount-cell quarterly-table__amount-cell--grand-total">{money(data.totals.taxAmount)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+
+            {/* By rate */}
+            <h2 className="sales-tax-page__section-title">By Rate</h2>
+            <div className="quarterly-table-wrapper">
+              <table className="quarterly-table">
+                <thead>
+                  <tr>
+                    <th className="quarterly-table__category-header quarterly-table__sticky-col">Rate</th>
+                    <th className="quarterly-table__quarter-header">Expenses</th>
+                    <th className="quarterly-table__quarter-header">Net</th>
+                    <th className="quarterly-table__total-header">Input Tax</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.rates.map((r) => (
+                    <tr key={r.rate} className="quarterly-table__row">
+                      <td className="quarterly-table__category-cell quarterly-table__sticky-col">{r.rate}%</td>
+                      <td className="quarterly-table__amount-cell">{r.count}</td>
+                      <td className="quarterly-table__amount-cell">{money(r.netAmount)}</td>
+                      <td className="quarterly-table__amount-cell quarterly-table__amount-cell--total">{money(r.taxAmount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {data.untaxedCount > 0 && (
+              <p className="sales-tax-page__note">
+                {data.untaxedCount} {data.untaxedCount === 1 ? 'expense has' : 'expenses have'} no sales tax recorded and {data.untaxedCount === 1 ? 'is' : 'are'} not included.
+              </p>
+            )}
+          </>
+        )
+      )}
+    </div>
+  )
+}
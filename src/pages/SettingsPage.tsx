@@ -2,6 +2,15 @@ import { useState, useEffect } from 'react'
 import { useAuth } from '../hooks/useAuth'
 import { useTenant } from '../hooks/useTenant'
 import { useSettings } from '../hooks/useSettings'
+import { usePermissions } from '../hooks/usePermissions'
+import { AccountantAccessSection } from '../components/AccountantAccessSection'
+import { EmailReceiptsSection } from '../components/EmailReceiptsSection'
+import { ExpensePoliciesSection } from '../components/ExpensePoliciesSection'
+import { SavedLocationsSection } from '../components/SavedLocationsSection'
+import { PaymentAccountsSection } from '../components/PaymentAccountsSection'
+import { CURRENCIES } from '../utils/currency'
+import { SCAN_PROVIDER_SETTINGS, SCAN_PROVIDER_LABELS } from '../utils/scan-providers'
+import { VISION_MODELS, DEFAULT_VISION_MODEL } from '../utils/vision-models'
 
 interface Category {
   id: string
@@ -11,8 +20,10 @@ interface Category {
 
 export default function SettingsPage() {
   const { user, logout } = useAuth()
-  const { tenant, subdomain } = useTenant()
+  const { tenant, subdomain, updateTenant } = useTenant()
   const { darkMode, setDarkMode, showFab, setShowFab } = useSettings()
+  const { can, reason } = usePermissions()
+  const canManageSettings = can('settings:manage')
 
   // Default category state
   const [categories, setCategories] = useState<Category[]>([])
@@ -20,6 +31,19 @@ export default function SettingsPage() {
   const [savingDefault, setSavingDefault] = useState(false)
   const [defaultSaved, setDefaultSaved] = useState(false)
 
+  // Base currency state
+  const [savingCurrency, setSavingCurrency] = useState(false)
+  const [currencySaved, setCurrencySaved] = useState(false)
+  const [currencyError, setCurrencyError] = useState<string | null>(null)
+
+  // Approval mode state
+  const [savingApproval, setSavingApproval] = useState(false)
+  const [approvalError, setApprovalError] = useState<string | null>(null)
+
+  // Receipt scanning state
+  const [savingScanProvider, setSavingScanProvider] = useState(false)
+  const [scanProviderError, setScanProviderError] = useState<string | null>(null)
+
   // Fetch categories and current default on mount
   useEffect(() => {
     if (!subdomain) return
@@ -62,6 +86,81 @@ export default function SettingsPage() {
     }
   }
 
+  // Save base currency — the API refuses once expenses exist
+  async function handleBaseCurrencyChange(baseCurrency: string) {
+    setCurrencySaved(false)
+    setCurrencyError(null)
+    setSavingCurrency(true)
+    try {
+      const response = await fetch(`/api/exchange-rates/base-currency?tenant=${subdomain}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseCurrency }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        updateTenant({ baseCurrency: data.baseCurrency })
+        setCurrencySaved(true)
+        setTimeout(() => setCurrencySaved(false), 2000)
+      } else {
+        setCurrencyError(data.error || 'Failed to save base currency')
+      }
+    } catch (err) {
+      console.error('Error saving base currency:', err)
+      setCurrencyError('Failed to save base currency')
+    } finally {
+      setSavingCurrency(false)
+    }
+  }
+
+  // Turn approval mode on or off for the whole business
+  async function handleRequireApprovalChange(requireApproval: boolean) {
+    setApprovalError(null)
+    setSavingApproval(true)
+    try {
+      const response = await fetch(`/api/approvals/mode?tenant=${subdomain}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requireApproval }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        updateTenant({ requireApproval: data.requireApproval })
+      } else {
+        setApprovalError(data.error || 'Failed to save approval mode')
+      }
+    } catch (err) {
+      console.error('Error saving approval mode:', err)
+      setApprovalError('Failed to save approval mode')
+    } finally {
+      setSavingApproval(false)
+    }
+  }
+
+  // Choose which engine (and AI model) reads scanned receipts
+  async function handleScanSettingsChange(changes: { scanProvider?: string; visionModel?: string }) {
+    setScanProviderError(null)
+    setSavingScanProvider(true)
+    try {
+      const response = await fetch(`/api/receipts/scan-provider?tenant=${subdomain}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        updateTenant({ scanProvider: data.scanProvider, visionModel: data.visionModel })
+      } else {
+        setScanProviderError(data.error || 'Failed to save receipt scanning')
+      }
+    } catch (err) {
+      console.error('Error saving receipt scanning:', err)
+      setScanProviderError('Failed to save receipt scanning')
+    } finally {
+      setSavingScanProvider(false)
+    }
+  }
+
   return (
     <div className="page settings-page">
       <h1 className="settings-page__title">Settings</h1>
@@ -96,12 +195,91 @@ export default function SettingsPage() {
               </div>
               <span className="settings-row__value">{tenant.name}</span>
             </div>
-            <div className="settings-row settings-row--last">
+            <div className="settings-row">
               <div className="settings-row__label">
                 <span className="settings-row__title">Subdomain</span>
               </div>
               <span className="settings-row__value">{tenant.subdomain}.wayveexpenses.app</span>
             </div>
+            <div className="settings-row">
+              <div className="settings-row__label">
+                <span className="settings-row__title">Base Currency</span>
+                <span className="settings-row__description">
+                  Reports and exports total in this currency; other currencies are converted when entered
+                  {currencySaved && <span className="settings-row__saved"> — Saved!</span>}
+                  {currencyError && <span className="settings-row__error"> — {currencyError}</span>}
+                </span>
+              </div>
+              <select
+                className="form-input settings-row__select"
+                value={tenant.baseCurrency}
+                onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+                disabled={savingCurrency || !canManageSettings}
+                title={canManageSettings ? undefined : reason('settings:manage')}
+              >
+                {CURRENCIES.map(c => (
+                  <option key={c.code} value={c.code}>{c.code} — {c.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="settings-row">
+              <div className="settings-row__label">
+                <span className="settings-row__title">Require Approval</span>
+                <span className="settings-row__description">
+                  Expenses added by anyone but an owner or admin wait for approval before they count in reports
+                  {approvalError && <span className="settings-row__error"> — {approvalError}</span>}
+                </span>
+              </div>
+              <button
+                className={`toggle ${tenant.requireApproval ? 'toggle--active' : ''}`}
+                onClick={() => handleRequireApprovalChange(!tenant.requireApproval)}
+                role="switch"
+                aria-checked={tenant.requireApproval}
+                disabled={savingApproval || !canManageSettings}
+                title={canManageSettings ? undefined : reason('settings:manage')}
+              >
+                <span className="toggle__slider" />
+              </button>
+            </div>
+            <div className={`settings-row${tenant.scanProvider === 'local' ? ' settings-row--last' : ''}`}>
+              <div className="settings-row__label">
+                <span className="settings-row__title">Receipt Scanning</span>
+                <span className="settings-row__description">
+                  Offline OCR is free and private but less accurate — double-check what it fills in
+                  {scanProviderError && <span className="settings-row__error"> — {scanProviderError}</span>}
+                </span>
+              </div>
+              <select
+                className="form-input settings-row__select"
+                value={tenant.scanProvider}
+                onChange={(e) => handleScanSettingsChange({ scanProvider: e.target.value })}
+                disabled={savingScanProvider || !canManageSettings}
+                title={canManageSettings ? undefined : reason('settings:manage')}
+              >
+                {SCAN_PROVIDER_SETTINGS.map(setting => (
+                  <option key={setting} value={setting}>{SCAN_PROVIDER_LABELS[setting]}</option>
+                ))}
+              </select>
+            </div>
+            {tenant.scanProvider !== 'local' && (
+              <div className="settings-row settings-row--last">
+                <div className="settings-row__label">
+                  <span className="settings-row__title">AI Scanning Model</span>
+                  <span className="settings-row__description">Larger models read faded or handwritten receipts better</span>
+                </div>
+                <select
+                  className="form-input settings-row__select"
+                  value={tenant.visionModel ?? DEFAULT_VISION_MODEL}
+                  onChange={(e) => handleScanSettingsChange({ visionModel: e.target.value })}
+                  disabled={savingScanProvider || !canManageSettings}
+                  title={canManageSettings ? undefined : reason('settings:manage')}
+                >
+                  {VISION_MODELS.map(model => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
         </section>
       )}
@@ -123,7 +301,8 @@ export default function SettingsPage() {
               className="form-input settings-row__select"
               value={defaultCategoryId}
               onChange={(e) => handleDefaultCategoryChange(e.target.value)}
-              disabled={savingDefault}
+              disabled={savingDefault || !canManageSettings}
+              title={canManageSettings ? undefined : reason('settings:manage')}
             >
               <option value="">None (require selection)</option>
               {categories.map(c => (
@@ -174,6 +353,21 @@ export default function SettingsPage() {
         </div>
       </section>
 
+      {/* Email Receipts Section */}
+      {canManageSettings && <EmailReceiptsSection />}
+
+      {/* Saved Locations Section */}
+      {can('locations:manage') && <SavedLocationsSection />}
+
+      {/* Payment Accounts Section */}
+      {can('accounts:manage') && <PaymentAccountsSection />}
+
+      {/* Team Expense Policies Section */}
+      {can('policies:manage') && <ExpensePoliciesSection categories={categories} />}
+
+      {/* Accountant Access Section */}
+      {can('accountants:manage') && <AccountantAccessSection />}
+
       {/* Account Section */}
       <section className="settings-section">
         <h2 className="settings-section__title">Account</h2>
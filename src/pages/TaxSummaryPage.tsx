@@ -1,7 +1,12 @@
 import { useState, useEffect } from 'react'
 import { useYear } from '../hooks/useYear'
 import { useTenant } from '../hooks/useTenant'
+import { useSettings } from '../hooks/useSettings'
 import { Link } from 'wouter'
+import { formatScheduleCLine } from '../utils/schedule-c'
+import { formatMoney } from '../utils/currency'
+import { ForeignCurrencyNote, type ForeignCurrencyTotal } from '../components/ForeignCurrencyNote'
+import { IncludePendingToggle } from '../components/IncludePendingToggle'
 
 interface CategoryDetail {
   categoryId: string
@@ -27,31 +32,50 @@ interface TypeSection {
 
 interface TaxSummaryData {
   year: number
+  currency: string
+  foreignCurrency: ForeignCurrencyTotal[]
   totalSpent: number
   totalDeductible: number
   expenseCount: number
   sections: TypeSection[]
 }
 
+interface ScheduleCLineTotal {
+  line: string | null // null = categories not mapped to a line yet
+  label: string
+  deductiblePercent: number
+  amount: number
+  deductible: number
+  count: number
+  categories: Omit<CategoryDetail, 'percentOfType'>[]
+}
+
+interface ScheduleCData {
+  year: number
+  currency: string
+  foreignCurrency: ForeignCurrencyTotal[]
+  totalSpent: number
+  totalDeductible: number
+  expenseCount: number
+  mileageDeduction: number
+  lines: ScheduleCLineTotal[]
+}
+
+type SummaryMode = 'type' | 'schedule-c'
+
 const TYPE_COLORS: Record<string, string> = {
   cogs: '#e76f51',
   operating: '#2a9d8f',
   home_office: '#e9c46a',
 }
 
-function formatDollars(cents: number): string {
-  return (cents / 100).toLocaleString('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  })
-}
-
 export default function TaxSummaryPage() {
   const { year, nextYear, prevYear } = useYear()
   const { subdomain } = useTenant()
+  const { includePending } = useSettings()
+  const [mode, setMode] = useState<SummaryMode>('type')
   const [data, setData] = useState<TaxSummaryData | null>(null)
+  const [scheduleData, setScheduleData] = useState<ScheduleCData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set())
@@ -68,11 +92,17 @@ export default function TaxSummaryPage() {
         const params = new URLSearchParams({
           tenant: subdomain!,
           year: year.toString(),
+          groupBy: mode,
         })
+        if (includePending) params.set('includePending', 'true')
         const response = await fetch(`/api/reports/tax-summary?${params}`)
         if (!response.ok) throw new Error('Failed to fetch tax summary')
         const result = await response.json()
-        setData(result)
+        if (mode === 'schedule-c') {
+          setScheduleData(result)
+        } else {
+          setData(result)
+        }
       } catch (err) {
         console.error('Tax summary error:', err)
         setError('Failed to load tax summary')
@@ -82,7 +112,10 @@ export default function TaxSummaryPage() {
     }
 
     fetchData()
-  }, [subdomain, year])
+  }, [subdomain, year, mode, includePending])
+
+  const summary = mode === 'schedule-c' ? scheduleData : data
+  const formatAmount = (cents: number) => formatMoney(cents, summary?.currency)
 
   function toggleSection(type: string) {
     setExpandedSections((prev) => {
@@ -135,9 +168,30 @@ export default function TaxSummaryPage() {
       </div>
 
       <p className="tax-summary-page__description">
-        Expenses grouped by tax classification for {year}. Tap a section to see category details.
+        {mode === 'schedule-c'
+          ? `Deductions totaled by IRS Schedule C line for ${year}. Tap a line to see category details.`
+          : `Expenses grouped by tax classification for ${year}. Tap a section to see category details.`}
       </p>
 
+      <IncludePendingToggle />
+
+      <div className="tax-summary__mode-toggle" role="group" aria-label="Group by">
+        <button
+          className={`tax-summary__mode-btn ${mode === 'type' ? 'tax-summary__mode-btn--active' : ''}`}
+          onClick={() => setMode('type')}
+          aria-pressed={mode === 'type'}
+        >
+          By type
+        </button>
+        <button
+          className={`tax-summary__mode-btn ${mode === 'schedule-c' ? 'tax-summary__mode-btn--active' : ''}`}
+          onClick={() => setMode('schedule-c')}
+          aria-pressed={mode === 'schedule-c'}
+        >
+          Schedule C
+        </button>
+      </div>
+
       {loading && (
         <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
           <p style={{ color: 'var(--color-text-secondary)' }}>Loading tax data...</p>
@@ -150,9 +204,9 @@ export default function TaxSummaryPage() {
         </div>
       )}
 
-      {!loading && !error && data && (
+      {!loading && !error && summary && (
         <>
-          {data.expenseCount === 0 ? (
+          {summary.expenseCount === 0 ? (
             <div className="card" style={{ textAlign: 'center', padding: 'var(--spacing-2xl)' }}>
               <p className="empty-state__icon">🧾</p>
               <p style={{ color: 'var(--color-text-secondary)' }}>No expenses recorded for {year}.</p>
@@ -162,140 +216,154 @@ export default function TaxSummaryPage() {
               {/* Grand Total — deductible is the hero */}
               <div className="tax-summary__grand-total">
                 <span className="tax-summary__grand-total-label">Total Expenses</span>
-                <span className="tax-summary__grand-total-value">{formatDollars(data.totalDeductible)}</span>
-                <span className="tax-summary__grand-total-sub">{data.expenseCount} transactions</span>
-                {data.totalDeductible !== data.totalSpent && (
+                <span className="tax-summary__grand-total-value">{formatAmount(summary.totalDeductible)}</span>
+                <span className="tax-summary__grand-total-sub">{summary.expenseCount} transactions</span>
+                {summary.totalDeductible !== summary.totalSpent && (
                   <span className="tax-summary__grand-total-deductible">
-                    💰 {formatDollars(data.totalSpent)} total spent
+                    💰 {formatAmount(summary.totalSpent)} total spent
                   </span>
                 )}
               </div>
 
-              {/* Composition Bar — uses deductible amounts, not raw spend */}
-              <div className="tax-summary__composition-bar">
-                {data.sections
-                  .filter((s) => s.deductible > 0)
-                  .map((section) => {
-                    const pct = data.totalDeductible > 0
-                      ? Math.round((section.deductible / data.totalDeductible) * 100)
-                      : 0
-                    return (
-                      <div
-                        key={section.type}
-                        className="tax-summary__composition-segment"
-                        style={{
-                          width: `${pct}%`,
-                          backgroundColor: TYPE_COLORS[section.type] || 'var(--color-text-secondary)',
-                        }}
-                        title={`${section.label}: ${pct}%`}
-                      />
-                    )
-                  })}
-              </div>
+              <ForeignCurrencyNote baseCurrency={summary.currency} totals={summary.foreignCurrency} />
 
-              {/* Composition Legend — uses deductible amounts */}
-              <div className="tax-summary__composition-legend">
-                {data.sections
-                  .filter((s) => s.deductible > 0)
-                  .map((section) => {
-                    const pct = data.totalDeductible > 0
-                      ? Math.round((section.deductible / data.totalDeductible) * 100)
-                      : 0
-                    return (
-                      <div key={section.type} className="tax-summary__legend-item">
-                        <span
-                          className="tax-summary__legend-dot"
-                          style={{ backgroundColor: TYPE_COLORS[section.type] || 'var(--color-text-secondary)' }}
-                        />
-                        <span className="tax-summary__legend-label">{section.label.split('(')[0].trim()}</span>
-                        <span className="tax-summary__legend-pct">{pct}%</span>
-                      </div>
-                    )
-                  })}
-              </div>
+              {mode === 'schedule-c' && scheduleData && (
+                <ScheduleCLines
+                  data={scheduleData}
+                  expandedSections={expandedSections}
+                  onToggle={toggleSection}
+                />
+              )}
 
-              {/* Type Sections — deductible is hero, total spent is subtext */}
-              <div className="tax-summary__sections">
-                {data.sections.map((section) => {
-                  const isExpanded = expandedSections.has(section.type)
-                  const accentColor = TYPE_COLORS[section.type] || 'var(--color-text-secondary)'
-                  const hasPartialDeduction = section.deductible !== section.total
-
-                  return (
-                    <div key={section.type} className="tax-summary__section">
-                      <button
-                        className="tax-summary__section-header"
-                        onClick={() => toggleSection(section.type)}
-                        aria-expanded={isExpanded}
-                      >
-                        <div className="tax-summary__section-left">
-                          <span
-                            className="tax-summary__section-indicator"
-                            style={{ backgroundColor: accentColor }}
+              {mode === 'type' && data && (
+                <>
+                  {/* Composition Bar — uses deductible amounts, not raw spend */}
+                  <div className="tax-summary__composition-bar">
+                    {data.sections
+                      .filter((s) => s.deductible > 0)
+                      .map((section) => {
+                        const pct = data.totalDeductible > 0
+                          ? Math.round((section.deductible / data.totalDeductible) * 100)
+                          : 0
+                        return (
+                          <div
+                            key={section.type}
+                            className="tax-summary__composition-segment"
+                            style={{
+                              width: `${pct}%`,
+                              backgroundColor: TYPE_COLORS[section.type] || 'var(--color-text-secondary)',
+                            }}
+                            title={`${section.label}: ${pct}%`}
                           />
-                          <div>
-                            <span className="tax-summary__section-title">{section.label}</span>
-                            <span className="tax-summary__section-desc">{section.description}</span>
-                          </div>
-                        </div>
-                        <div className="tax-summary__section-right">
-                          <div className="tax-summary__section-stats">
-                            <span className="tax-summary__section-amount">{formatDollars(section.deductible)}</span>
-                            {hasPartialDeduction && (
-                              <span className="tax-summary__section-deductible">
-                                {formatDollars(section.total)} total spent
-                              </span>
-                            )}
-                            <span className="tax-summary__section-meta">
-                              {section.count} txn{section.count !== 1 ? 's' : ''} · {section.percentOfTotal}%
-                            </span>
+                        )
+                      })}
+                  </div>
+
+                  {/* Composition Legend — uses deductible amounts */}
+                  <div className="tax-summary__composition-legend">
+                    {data.sections
+                      .filter((s) => s.deductible > 0)
+                      .map((section) => {
+                        const pct = data.totalDeductible > 0
+                          ? Math.round((section.deductible / data.totalDeductible) * 100)
+                          : 0
+                        return (
+                          <div key={section.type} className="tax-summary__legend-item">
+                            <span
+                              className="tax-summary__legend-dot"
+                              style={{ backgroundColor: TYPE_COLORS[section.type] || 'var(--color-text-secondary)' }}
+                            />
+                            <span className="tax-summary__legend-label">{section.label.split('(')[0].trim()}</span>
+                            <span className="tax-summary__legend-pct">{pct}%</span>
                           </div>
-                          <svg
-                            className={`tax-summary__section-chevron ${isExpanded ? 'tax-summary__section-chevron--open' : ''}`}
-                            width="20"
-                            height="20"
-                            viewBox="0 0 24 24"
-                            fill="none"
-                            stroke="currentColor"
-                            strokeWidth="2"
+                        )
+                      })}
+                  </div>
+
+                  {/* Type Sections — deductible is hero, total spent is subtext */}
+                  <div className="tax-summary__sections">
+                    {data.sections.map((section) => {
+                      const isExpanded = expandedSections.has(section.type)
+                      const accentColor = TYPE_COLORS[section.type] || 'var(--color-text-secondary)'
+                      const hasPartialDeduction = section.deductible !== section.total
+
+                      return (
+                        <div key={section.type} className="tax-summary__section">
+                          <button
+                            className="tax-summary__section-header"
+                            onClick={() => toggleSection(section.type)}
+                            aria-expanded={isExpanded}
                           >
-                            <polyline points="6 9 12 15 18 9" />
-                          </svg>
-                        </div>
-                      </button>
-
-                      {isExpanded && section.categories.length > 0 && (
-                        <div className="tax-summary__section-details">
-                          {section.categories.map((cat) => {
-                            const catHasPartial = cat.deductible !== cat.amount
-                            return (
-                              <div key={cat.categoryId} className="tax-summary__cat-row">
-                                <span className="tax-summary__cat-emoji">{cat.emoji}</span>
-                                <div className="tax-summary__cat-info">
-                                  <span className="tax-summary__cat-name">{cat.name}</span>
-                                  {catHasPartial && (
-                                    <span className="tax-summary__cat-deductible">
-                                      {formatDollars(cat.amount)} total spent
-                                    </span>
-                                  )}
-                                </div>
-                                <span className="tax-summary__cat-count">{cat.count}</span>
-                                <span className="tax-summary__cat-amount">{formatDollars(cat.deductible)}</span>
+                            <div className="tax-summary__section-left">
+                              <span
+                                className="tax-summary__section-indicator"
+                                style={{ backgroundColor: accentColor }}
+                              />
+                              <div>
+                                <span className="tax-summary__section-title">{section.label}</span>
+                                <span className="tax-summary__section-desc">{section.description}</span>
                               </div>
-                            )
-                          })}
-                        </div>
-                      )}
+                            </div>
+                            <div className="tax-summary__section-right">
+                              <div className="tax-summary__section-stats">
+                                <span className="tax-summary__section-amount">{formatAmount(section.deductible)}</span>
+                                {hasPartialDeduction && (
+                                  <span className="tax-summary__section-deductible">
+                                    {formatAmount(section.total)} total spent
+                                  </span>
+                                )}
+                                <span className="tax-summary__section-meta">
+                                  {section.count} txn{section.count !== 1 ? 's' : ''} · {section.percentOfTotal}%
+                                </span>
+                              </div>
+                              <svg
+                                className={`tax-summary__section-chevron ${isExpanded ? 'tax-summary__section-chevron--open' : ''}`}
+                                width="20"
+                                height="20"
+                                viewBox="0 0 24 24"
+                                fill="none"
+                                stroke="currentColor"
+                                strokeWidth="2"
+                              >
+                                <polyline points="6 9 12 15 18 9" />
+                              </svg>
+                            </div>
+                          </button>
+
+                          {isExpanded && section.categories.length > 0 && (
+                            <div className="tax-summary__section-details">
+                              {section.categories.map((cat) => {
+                                const catHasPartial = cat.deductible !== cat.amount
+                                return (
+                                  <div key={cat.categoryId} className="tax-summary__cat-row">
+                                    <span className="tax-summary__cat-emoji">{cat.emoji}</span>
+                                    <div className="tax-summary__cat-info">
+                                      <span className="tax-summary__cat-name">{cat.name}</span>
+                                      {catHasPartial && (
+                                        <span className="tax-summary__cat-deductible">
+                                          {formatAmount(cat.amount)} total spent
+                                        </span>
+                                      )}
+                                    </div>
+                                    <span className="tax-summary__cat-count">{cat.count}</span>
+                                    <span className="tax-summary__cat-amount">{formatAmount(cat.deductible)}</span>
+                                  </div>
+                                )
+                              })}
+                            </div>
+                          )}
 
-                      {isExpanded && section.categories.length === 0 && (
-                        <div className="tax-summary__section-details">
-                          <p className="tax-summary__section-empty">No expenses in this category for {year}.</p>
+                          {isExpanded && section.categories.length === 0 && (
+                            <div className="tax-summary__section-details">
+                              <p className="tax-summary__section-empty">No expenses in this category for {year}.</p>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  )
-                })}
-              </div>
+                      )
+                    })}
+                  </div>
+                </>
+              )}
 
               {/* Disclaimer */}
               <p className="tax-summary__disclaimer">
@@ -309,3 +377,97 @@ export default function TaxSummaryPage() {
     </div>
   )
 }
+
+// ============================================
+// SCHEDULE C LINES
+// ============================================
+function ScheduleCLines({ data, expandedSections, onToggle }: {
+  data: ScheduleCData
+  expandedSections: Set<string>
+  onToggle: (key: string) => void
+}) {
+  const formatAmount = (cents: number) => formatMoney(cents, data.currency)
+
+  return (
+    <div className="tax-summary__sections">
+      {data.lines.map((line) => {
+        const key = line.line ?? 'unmapped'
+        const isExpanded = expandedSections.has(key)
+        const hasPartialDeduction = line.deductible !== line.amount
+
+        return (
+          <div key={key} className="tax-summary__section">
+            <button
+              className="tax-summary__section-header"
+              onClick={() => onToggle(key)}
+              aria-expanded={isExpanded}
+            >
+              <div className="tax-summary__section-left">
+                <span
+                  className="tax-summary__section-indicator"
+                  style={{ backgroundColor: line.line ? 'var(--color-primary)' : 'var(--color-text-secondary)' }}
+                />
+                <div>
+                  <span className="tax-summary__section-title">
+                    {line.line
+                      ? formatScheduleCLine({ line: line.line, label: line.label, deductiblePercent: line.deductiblePercent })
+                      : line.label}
+                  </span>
+                  {!line.line && (
+                    <span className="tax-summary__section-desc">
+                      Set a Schedule C line on these categories to include them on the form.
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="tax-summary__section-right">
+                <div className="tax-summary__section-stats">
+                  <span className="tax-summary__section-amount">{formatAmount(line.deductible)}</span>
+                  {hasPartialDeduction && (
+                    <span className="tax-summary__section-deductible">
+                      {formatAmount(line.amount)} total spent
+                    </span>
+                  )}
+                  <span className="tax-summary__section-meta">
+                    {line.count} txn{line.count !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                <svg
+                  className={`tax-summary__section-chevron ${isExpanded ? 'tax-summary__section-chevron--open' : ''}`}
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                >
+                  <polyline points="6 9 12 15 18 9" />
+                </svg>
+              </div>
+            </button>
+
+            {isExpanded && (
+              <div className="tax-summary__section-details">
+                {line.categories.map((cat) => (
+                  <div key={cat.categoryId} className="tax-summary__cat-row">
+                    <span className="tax-summary__cat-emoji">{cat.emoji}</span>
+                    <div className="tax-summary__cat-info">
+                      <span className="tax-summary__cat-name">{cat.name}</span>
+                      {cat.deductible !== cat.amount && (
+                        <span className="tax-summary__cat-deductible">
+                          {formatAmount(cat.amount)} total spent
+                        </span>
+                      )}
+                    </div>
+                    <span className="tax-summary__cat-count">{cat.count}</span>
+                    <span className="tax-summary__cat-amount">{formatAmount(cat.deductible)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
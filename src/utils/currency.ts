@@ -0,0 +1,86 @@
+/**
+ * Currencies an expense can be recorded in, plus the minor-unit math shared
+ * by the API (conversion at entry time) and the UI (formatting, inputs).
+ * Keep this file dependency-free: it's imported from api/ as well as src/.
+ *
+ * Amounts are always integers in the currency's minor unit — cents for USD,
+ * whole yen for JPY — so `decimals` matters whenever one is shown or typed.
+ */
+
+export interface Currency {
+  code: string // ISO 4217
+  name: string
+  decimals: number // minor-unit digits: 2 for USD, 0 for JPY
+}
+
+export const DEFAULT_CURRENCY = 'USD'
+
+export const CURRENCIES: Currency[] = [
+  { code: 'USD', name: 'US dollar', decimals: 2 },
+  { code: 'EUR', name: 'Euro', decimals: 2 },
+  { code: 'GBP', name: 'British pound', decimals: 2 },
+  { code: 'CAD', name: 'Canadian dollar', decimals: 2 },
+  { code: 'AUD', name: 'Australian dollar', decimals: 2 },
+  { code: 'NZD', name: 'New Zealand dollar', decimals: 2 },
+  { code: 'MXN', name: 'Mexican peso', decimals: 2 },
+  { code: 'CHF', name: 'Swiss franc', decimals: 2 },
+  { code: 'SEK', name: 'Swedish krona', decimals: 2 },
+  { code: 'JPY', name: 'Japanese yen', decimals: 0 },
+  { code: 'CNY', name: 'Chinese yuan', decimals: 2 },
+  { code: 'INR', name: 'Indian rupee', decimals: 2 },
+]
+
+const BY_CODE = new Map(CURRENCIES.map(c => [c.code, c]))
+
+export function isCurrencyCode(code: unknown): code is string {
+  return typeof code === 'string' && BY_CODE.has(code)
+}
+
+export function currencyDecimals(code: string): number {
+  return BY_CODE.get(code)?.decimals ?? 2
+}
+
+/**
+ * Format an amount in minor units, e.g. (123456, 'EUR') → "€1,234.56".
+ * Pass `fractionDigits` to round for display, e.g. 0 for chart axes.
+ */
+export function formatMoney(
+  minor: number,
+  currency: string = DEFAULT_CURRENCY,
+  fractionDigits: number = currencyDecimals(currency)
+): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(minor / 10 ** currencyDecimals(currency))
+}
+
+/** Symbol shown in front of an amount input ("$", "€", "CHF") */
+export function currencySymbol(currency: string): string {
+  const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency }).formatToParts(0)
+  return parts.find(p => p.type === 'currency')?.value ?? currency
+}
+
+/** Minor units from a typed amount ("12.50" → 1250 for USD, 1250 for JPY "1250"); NaN if unparseable */
+export function toMinorUnits(value: string, currency: string): number {
+  const parsed = parseFloat(value)
+  if (isNaN(parsed)) return NaN
+  return Math.round(parsed * 10 ** currencyDecimals(currency))
+}
+
+/** Typed form of a minor-unit amount, for pre-filling an input (1250 → "12.50") */
+export function fromMinorUnits(minor: number, currency: string): string {
+  const decimals = currencyDecimals(currency)
+  return (minor / 10 ** decimals).toFixed(decimals)
+}
+
+/**
+ * Convert between currencies with `rate` = units of `to` per one unit of
+ * `from`, rounding to the target's minor unit.
+ */
+export function convertMinorUnits(minor: number, from: string, to: string, rate: number): number {
+  const major = minor / 10 ** currencyDecimals(from)
+  return Math.round(major * rate * 10 ** currencyDecimals(to))
+}
@@ -0,0 +1,15 @@
+/**
+ * An IRS rate that applies during a report year (from the mileage APIs'
+ * summary.mileageRates). Most years have one; 2022 changed mid-year.
+ */
+export interface YearMileageRate {
+  effectiveDate: string // YYYY-MM-DD
+  mileageRate: number // cents per mile, e.g. 65.5
+}
+
+/**
+ * Format a year's rates for display (e.g., "70¢" or "58.5¢ / 62.5¢")
+ */
+export function formatMileageRates(rates: YearMileageRate[]): string {
+  return rates.map(r => `${r.mileageRate}¢`).join(' / ')
+}
@@ -0,0 +1,66 @@
+/**
+ * Payment accounts an expense can be paid from (cards, bank accounts, cash),
+ * plus matching a scanned receipt's payment method to one of them.
+ * Keep this file dependency-free: it's imported from api/ as well as src/.
+ */
+
+export const PAYMENT_ACCOUNT_KINDS = ['card', 'bank', 'cash'] as const
+
+export type PaymentAccountKind = typeof PAYMENT_ACCOUNT_KINDS[number]
+
+export const PAYMENT_ACCOUNT_KIND_LABELS: Record<PaymentAccountKind, string> = {
+  card: 'Credit / debit card',
+  bank: 'Bank account',
+  cash: 'Cash',
+}
+
+export const PAYMENT_ACCOUNT_EMOJI: Record<PaymentAccountKind, string> = {
+  card: '💳',
+  bank: '🏦',
+  cash: '💵',
+}
+
+export function isPaymentAccountKind(kind: unknown): kind is PaymentAccountKind {
+  return typeof kind === 'string' && (PAYMENT_ACCOUNT_KINDS as readonly string[]).includes(kind)
+}
+
+/** "Chase Ink ••1234", or just the name when there are no digits on file */
+export function formatPaymentAccount(account: { name: string; last4: string | null }): string {
+  return account.last4 ? `${account.name} ••${account.last4}` : account.name
+}
+
+interface MatchableAccount {
+  name: string
+  kind: string
+  last4: string | null
+}
+
+// Card networks as receipts print them, checked against account names
+const CARD_NETWORKS = [/\bVISA\b/, /\bAMEX\b|AMERICAN EXPRESS/, /MASTERCARD|\bMC\b/, /DISCOVER/]
+
+/**
+ * The account a scanned payment method ("VISA ****1234", "AMEX", "CASH")
+ * most likely refers to: last four digits first, then cash, then a card
+ * network named on the account. Null unless exactly one account fits.
+ */
+export function matchPaymentAccount<T extends MatchableAccount>(method: string | null | undefined, accounts: T[]): T | null {
+  if (!method) return null
+  const text = method.toUpperCase()
+  const only = (matches: T[]) => (matches.length === 1 ? matches[0] : null)
+
+  const digits = text.match(/(\d{4})\D*$/)
+  if (digits) {
+    const byLast4 = accounts.filter(a => a.last4 === digits[1])
+    if (byLast4.length > 0) return only(byLast4)
+  }
+
+  if (/\bCASH\b/.test(text)) {
+    return only(accounts.filter(a => a.kind === 'cash'))
+  }
+
+  const network = CARD_NETWORKS.find(pattern => pattern.test(text))
+  if (network) {
+    return only(accounts.filter(a => a.kind === 'card' && network.test(a.name.toUpperCase())))
+  }
+  return null
+}
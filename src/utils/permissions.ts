@@ -0,0 +1,123 @@
+/**
+ * Role → permission matrix, shared by the API (enforcement) and the UI (gating).
+ * Keep this file dependency-free: it's imported from api/ as well as src/.
+ */
+
+export const TENANT_ROLES = ['owner', 'admin', 'editor', 'data_entry', 'viewer', 'accountant'] as const
+
+export type TenantRole = typeof TENANT_ROLES[number]
+
+export type Permission =
+  | 'expenses:create'
+  | 'expenses:edit'
+  | 'expenses:delete'
+  | 'expenses:approve'
+  | 'mileage:create'
+  | 'mileage:edit'
+  | 'mileage:delete'
+  | 'attachments:upload'
+  | 'attachments:delete'
+  | 'recurring:manage'
+  | 'locations:manage'
+  | 'categories:manage'
+  | 'accounts:manage'
+  | 'settings:manage'
+  | 'accountants:manage'
+  | 'policies:manage'
+  | 'reimbursements:manage'
+
+const ALL_PERMISSIONS: Permission[] = [
+  'expenses:create',
+  'expenses:edit',
+  'expenses:delete',
+  'expenses:approve',
+  'mileage:create',
+  'mileage:edit',
+  'mileage:delete',
+  'attachments:upload',
+  'attachments:delete',
+  'recurring:manage',
+  'locations:manage',
+  'categories:manage',
+  'accounts:manage',
+  'settings:manage',
+  'accountants:manage',
+  'policies:manage',
+  'reimbursements:manage',
+]
+
+// Day-to-day bookkeeping, without touching categories or tenant settings
+const EDITOR_PERMISSIONS: Permission[] = [
+  'expenses:create',
+  'expenses:edit',
+  'expenses:delete',
+  'mileage:create',
+  'mileage:edit',
+  'mileage:delete',
+  'attachments:upload',
+  'attachments:delete',
+  'recurring:manage',
+  'locations:manage',
+]
+
+const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  editor: EDITOR_PERMISSIONS,
+  data_entry: ['expenses:create', 'mileage:create', 'attachments:upload'],
+  viewer: [],
+  accountant: [], // read-only unless the access row has canEdit (see hasPermission)
+}
+
+export const ROLE_LABELS: Record<TenantRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  editor: 'Editor',
+  data_entry: 'Data entry',
+  viewer: 'Viewer',
+  accountant: 'Accountant',
+}
+
+const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'expenses:create': 'add expenses',
+  'expenses:edit': 'edit expenses',
+  'expenses:delete': 'delete expenses',
+  'expenses:approve': 'approve expenses',
+  'mileage:create': 'log mileage',
+  'mileage:edit': 'edit mileage trips',
+  'mileage:delete': 'delete mileage trips',
+  'attachments:upload': 'upload receipts',
+  'attachments:delete': 'delete receipts',
+  'recurring:manage': 'manage recurring expenses',
+  'locations:manage': 'manage saved locations',
+  'categories:manage': 'manage categories',
+  'accounts:manage': 'manage payment accounts',
+  'settings:manage': 'change business settings',
+  'accountants:manage': 'manage accountant access',
+  'policies:manage': 'manage expense policies',
+  'reimbursements:manage': 'manage reimbursements',
+}
+
+/**
+ * Normalize a stored role string. Unknown values fall back to 'viewer'
+ * so a typo in the database can never grant write access.
+ */
+export function toTenantRole(role: string | null | undefined): TenantRole {
+  return (TENANT_ROLES as readonly string[]).includes(role ?? '') ? role as TenantRole : 'viewer'
+}
+
+export function hasPermission(role: TenantRole, permission: Permission, canEdit = false): boolean {
+  // Accountants with edit rights get the editor set
+  if (role === 'accountant' && canEdit) {
+    return EDITOR_PERMISSIONS.includes(permission)
+  }
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Human-readable reason a role is denied a permission,
+ * e.g. "Your Viewer role can't delete expenses."
+ */
+export function permissionDeniedReason(role: TenantRole, permission: Permission): string {
+  return `Your ${ROLE_LABELS[role]} role can't ${PERMISSION_DESCRIPTIONS[permission]}.`
+}
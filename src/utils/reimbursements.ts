@@ -0,0 +1,25 @@
+/**
+ * Reimbursement batches: the workflow that pays a team member back for
+ * expenses they covered out of pocket (draft → approved → paid).
+ * Keep this file dependency-free: it's imported from api/ as well as src/.
+ */
+
+export const REIMBURSEMENT_STATUSES = ['draft', 'approved', 'paid'] as const
+
+export type ReimbursementStatus = typeof REIMBURSEMENT_STATUSES[number]
+
+export const REIMBURSEMENT_STATUS_LABELS: Record<ReimbursementStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+  paid: 'Paid',
+}
+
+export function isReimbursementStatus(status: unknown): status is ReimbursementStatus {
+  return typeof status === 'string' && (REIMBURSEMENT_STATUSES as readonly string[]).includes(status)
+}
+
+/** The status a batch moves to next, or null once it's paid */
+export function nextReimbursementStatus(status: ReimbursementStatus): ReimbursementStatus | null {
+  const index = REIMBURSEMENT_STATUSES.indexOf(status)
+  return REIMBURSEMENT_STATUSES[index + 1] ?? null
+}
@@ -0,0 +1,20 @@
+/**
+ * Which engine reads receipts for a tenant. "auto" uses the AI vision
+ * scanner and falls back to offline OCR when it's unconfigured, rate
+ * limited or failing; the other two pin one engine.
+ * Keep this file dependency-free: it's imported from api/ as well as src/.
+ */
+
+export const SCAN_PROVIDER_SETTINGS = ['auto', 'vision', 'local'] as const
+
+export type ScanProviderSetting = typeof SCAN_PROVIDER_SETTINGS[number]
+
+export const SCAN_PROVIDER_LABELS: Record<ScanProviderSetting, string> = {
+  auto: 'AI, with offline fallback',
+  vision: 'AI only',
+  local: 'Offline OCR only',
+}
+
+export function isScanProviderSetting(value: unknown): value is ScanProviderSetting {
+  return typeof value === 'string' && (SCAN_PROVIDER_SETTINGS as readonly string[]).includes(value)
+}
@@ -0,0 +1,63 @@
+/**
+ * IRS Schedule C (Form 1040) lines a category can map to, shared by the
+ * API (tax summary rollup) and the UI (category picker, report).
+ * Keep this file dependency-free: it's imported from api/ as well as src/.
+ */
+
+export interface ScheduleCLine {
+  line: string // e.g. '18', '24b'
+  label: string
+  deductiblePercent: number // statutory limit, e.g. 50 for business meals
+}
+
+export const SCHEDULE_C_LINES: ScheduleCLine[] = [
+  { line: '4', label: 'Cost of goods sold (Part III)', deductiblePercent: 100 },
+  { line: '8', label: 'Advertising', deductiblePercent: 100 },
+  { line: '9', label: 'Car and truck expenses', deductiblePercent: 100 },
+  { line: '10', label: 'Commissions and fees', deductiblePercent: 100 },
+  { line: '11', label: 'Contract labor', deductiblePercent: 100 },
+  { line: '13', label: 'Depreciation and section 179', deductiblePercent: 100 },
+  { line: '14', label: 'Employee benefit programs', deductiblePercent: 100 },
+  { line: '15', label: 'Insurance (other than health)', deductiblePercent: 100 },
+  { line: '16a', label: 'Interest: mortgage', deductiblePercent: 100 },
+  { line: '16b', label: 'Interest: other', deductiblePercent: 100 },
+  { line: '17', label: 'Legal and professional services', deductiblePercent: 100 },
+  { line: '18', label: 'Office expense', deductiblePercent: 100 },
+  { line: '19', label: 'Pension and profit-sharing plans', deductiblePercent: 100 },
+  { line: '20a', label: 'Rent or lease: vehicles, machinery, equipment', deductiblePercent: 100 },
+  { line: '20b', label: 'Rent or lease: other business property', deductiblePercent: 100 },
+  { line: '21', label: 'Repairs and maintenance', deductiblePercent: 100 },
+  { line: '22', label: 'Supplies', deductiblePercent: 100 },
+  { line: '23', label: 'Taxes and licenses', deductiblePercent: 100 },
+  { line: '24a', label: 'Travel', deductiblePercent: 100 },
+  { line: '24b', label: 'Deductible meals', deductiblePercent: 50 },
+  { line: '25', label: 'Utilities', deductiblePercent: 100 },
+  { line: '26', label: 'Wages', deductiblePercent: 100 },
+  { line: '27a', label: 'Other expenses', deductiblePercent: 100 },
+  { line: '30', label: 'Business use of home (Form 8829)', deductiblePercent: 100 },
+]
+
+/** Line every expense marked as home office rolls up to, whatever its category */
+export const HOME_OFFICE_LINE = '30'
+
+/** Line for cost of goods sold (Part III total flows to line 4) */
+export const COGS_LINE = '4'
+
+/** Line the standard mileage deduction is reported on */
+export const MILEAGE_LINE = '9'
+
+export function getScheduleCLine(line: string | null | undefined): ScheduleCLine | null {
+  return SCHEDULE_C_LINES.find(l => l.line === line) ?? null
+}
+
+export function isScheduleCLine(value: unknown): value is string {
+  return typeof value === 'string' && SCHEDULE_C_LINES.some(l => l.line === value)
+}
+
+/**
+ * Format a line for display (e.g., "Line 24b · Deductible meals (50%)")
+ */
+export function formatScheduleCLine(line: ScheduleCLine): string {
+  const limit = line.deductiblePercent < 100 ? ` (${line.deductiblePercent}%)` : ''
+  return `Line ${line.line} · ${line.label}${limit}`
+}
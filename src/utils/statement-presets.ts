@@ -0,0 +1,46 @@
+/**
+ * Column layouts for bank and card CSV exports, shared by the statement
+ * import API (parsing) and the import page (format picker).
+ * Keep this file dependency-free: it's imported from api/ as well as src/.
+ */
+
+export interface ColumnMapping {
+  date: string
+  description: string
+  amount?: string // single signed column, or...
+  debit?: string // ...separate debit/credit columns
+  credit?: string
+  negativeIsExpense: boolean // sign of `amount` for purchases: banks export spending as negative, most card issuers as positive
+}
+
+export interface StatementPreset {
+  id: string
+  label: string
+  mapping: ColumnMapping
+}
+
+export const STATEMENT_PRESETS: StatementPreset[] = [
+  {
+    id: 'chase',
+    label: 'Chase',
+    mapping: { date: 'Transaction Date', description: 'Description', amount: 'Amount', negativeIsExpense: true },
+  },
+  {
+    id: 'amex',
+    label: 'American Express',
+    mapping: { date: 'Date', description: 'Description', amount: 'Amount', negativeIsExpense: false },
+  },
+  {
+    id: 'capital-one',
+    label: 'Capital One',
+    mapping: { date: 'Transaction Date', description: 'Description', debit: 'Debit', credit: 'Credit', negativeIsExpense: false },
+  },
+  {
+    id: 'bank-of-america',
+    label: 'Bank of America',
+    mapping: { date: 'Posted Date', description: 'Payee', amount: 'Amount', negativeIsExpense: true },
+  },
+]
+
+/** Statement files larger than this are rejected before upload */
+export const MAX_STATEMENT_BYTES = 2 * 1024 * 1024
@@ -0,0 +1,22 @@
+/**
+ * Vision models a tenant can pick for AI receipt scanning. Bigger models
+ * read faded or handwritten receipts better but cost more per scan.
+ * Keep this file dependency-free: it's imported from api/ as well as src/.
+ */
+
+export interface VisionModel {
+  id: string
+  label: string
+}
+
+export const DEFAULT_VISION_MODEL = 'claude-sonnet-4-20250514'
+
+export const VISION_MODELS: VisionModel[] = [
+  { id: 'claude-haiku-4-5-20251001', label: 'Claude Haiku 4.5 — fastest' },
+  { id: DEFAULT_VISION_MODEL, label: 'Claude Sonnet 4 — balanced' },
+  { id: 'claude-opus-4-1-20250805', label: 'Claude Opus 4.1 — most accurate' },
+]
+
+export function isVisionModel(id: unknown): id is string {
+  return typeof id === 'string' && VISION_MODELS.some(model => model.id === id)
+}